@@ -7,12 +7,16 @@ import { ChangeEvent, useEffect, useState } from 'react';
 import copy from 'clipboard-copy';
 import { Configuration } from '@/lib/types';
 import { useStateContext } from '@/provider/StateProvider';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { useWalletSession } from '@/lib/useWalletSession';
+import RoleManager from '@/components/admin/RoleManager';
+import AuditLog from '@/components/admin/AuditLog';
 
 const Page = () => {
-  const [password, setPassword] = useState<string>('');
-  const [isPassed, setIsPassed] = useState<boolean>(false);
+  const { connected } = useWallet();
+  const { session, isSignedIn, isSigningIn, error: signInError, signIn } = useWalletSession();
   const [isEdit, setIsEdit] = useState<string>('');
-  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [updateError, setUpdateError] = useState<string>('');
   const [adminData, setAdminData] = useState<Configuration>({
     pubKey: '',
   });
@@ -73,33 +77,17 @@ const Page = () => {
     }
   }
 
-  async function handleSubmit() {
-    if (password.trim() === '') {
-      return;
-    }
-    try {
-      setIsLoading(true);
-      const response = await fetch('/api/auth/', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ password }),
-      });
-      const data = await response.json();
-      setIsPassed(data.success);
-      if (data.success) {
-        console.log(data.publicKey);
-        setAdminData({
-          pubKey: data.pubKey,
-        });
-      }
-      setIsLoading(false);
-    } catch (error) {
-      console.error(error);
-      setIsLoading(false);
-    }
-  }
+  const isPassed = isSignedIn && (session?.role === 'admin' || session?.role === 'owner');
+
+  // Load the configuration once an admin wallet is signed in
+  useEffect(() => {
+    if (!isPassed) return;
+
+    fetch('/api/admin')
+      .then(response => response.json())
+      .then(data => setAdminData({ pubKey: data.pubKey }))
+      .catch(error => console.error('Error loading admin configuration:', error));
+  }, [isPassed]);
 
   function handleEdit(text: keyof Configuration) {
     if (isEdit === text) {
@@ -127,7 +115,11 @@ const Page = () => {
       body: JSON.stringify(adminData),
     });
     const data = await response.json();
-    console.log(data);
+    if (!response.ok) {
+      setUpdateError(data.message || data.error || 'Update failed');
+      return;
+    }
+    setUpdateError('');
     setAdminData({
       pubKey: data.pubKey,
     });
@@ -180,39 +172,25 @@ const Page = () => {
               </button>
             </div>
           </div>
-
-
-
-
-
-
+          {updateError && <p className='text-sm text-red-400 mt-2'>{updateError}</p>}
+          {session?.role && <RoleManager currentRole={session.role} />}
+          <AuditLog />
         </div>
       ) : (
-        <div className='flex items-center justify-center gap-4 md:gap-8 text-gray-800'>
-          <input
-            name='password'
-            type='password'
-            placeholder='Admin Password'
-            className='h-12 rounded-xl px-3 py-0.5'
-            value={password}
-            onChange={(e) => {
-              setPassword(e.target.value);
-            }}
-            onKeyDown={(event) => {
-              if (event.key === 'Enter') {
-                handleSubmit();
-              }
-            }}
-          />
-
-          <GradientButton disabled={isLoading} className='w-36 py-2' onClick={handleSubmit}>
-            Submit
-            {!isLoading ? (
+        <div className='flex flex-col items-center justify-center gap-4'>
+          <GradientButton disabled={!connected || isSigningIn} className='w-56 py-2' onClick={signIn}>
+            Sign in with wallet
+            {!isSigningIn ? (
               <ChevronRight />
             ) : (
               <div className='animate-spin w-4 h-4 bg-transparent rounded-full border-white border-t-4' />
             )}
           </GradientButton>
+          <p className='text-sm'>
+            {!connected
+              ? 'Connect an admin wallet to continue'
+              : signInError || (isSignedIn && !isPassed ? 'This wallet is not an admin' : '')}
+          </p>
         </div>
       )}
     </section>
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/rbac';
+import {
+  AUDIT_ACTIONS,
+  AuditAction,
+  AuditQuery,
+  getAuditEntries,
+  iterateAuditEntries
+} from '@/lib/auditLog';
+
+function parseAuditQuery(searchParams: URLSearchParams): AuditQuery | { error: string } {
+  const action = searchParams.get('action');
+  if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+    return { error: `Invalid action. Supported actions: ${AUDIT_ACTIONS.join(', ')}` };
+  }
+
+  const query: AuditQuery = {
+    actor: searchParams.get('actor') || undefined,
+    action: (action as AuditAction) || undefined,
+    target: searchParams.get('target') || undefined,
+    workspaceId: searchParams.get('workspaceId') || undefined
+  };
+
+  for (const key of ['from', 'to'] as const) {
+    const value = searchParams.get(key);
+    if (!value) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return { error: `${key} must be a valid date` };
+    }
+    query[key] = date;
+  }
+
+  return query;
+}
+
+// Audit entries, a page at a time or as a JSONL download with format=jsonl
+export async function GET(req: NextRequest) {
+  try {
+    const user = await authorizeRequest(req, 'admin');
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const query = parseAuditQuery(searchParams);
+    if ('error' in query) {
+      return NextResponse.json({ message: query.error }, { status: 400 });
+    }
+
+    if (searchParams.get('format') === 'jsonl') {
+      const entries = iterateAuditEntries(query);
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          try {
+            const { value, done } = await entries.next();
+            if (done) {
+              controller.close();
+            } else {
+              controller.enqueue(encoder.encode(`${JSON.stringify(value)}\n`));
+            }
+          } catch (error) {
+            console.error('Error exporting audit log:', error);
+            controller.error(error);
+          }
+        },
+        async cancel() {
+          await entries.return(undefined);
+        }
+      });
+
+      return new NextResponse(body, {
+        headers: {
+          'Content-Type': 'application/x-ndjson',
+          'Content-Disposition': `attachment; filename="audit-log-${new Date().toISOString().split('T')[0]}.jsonl"`
+        }
+      });
+    }
+
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const pageSize = parseInt(searchParams.get('pageSize') || '50', 10);
+    if (isNaN(page) || isNaN(pageSize)) {
+      return NextResponse.json({ message: 'page and pageSize must be numbers' }, { status: 400 });
+    }
+
+    return NextResponse.json(await getAuditEntries(query, page, pageSize));
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+  }
+}
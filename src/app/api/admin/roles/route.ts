@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import {
+  authorizeRequest,
+  canManageRole,
+  getUserRole,
+  getUserRoles,
+  isBootstrapOwner,
+  removeUserRole,
+  setUserRole,
+  Role,
+  ROLES
+} from '@/lib/rbac';
+import { getRequestInfo, recordAudit } from '@/lib/auditLog';
+
+function validatePublicKey(publicKey: unknown): string | null {
+  try {
+    new PublicKey(publicKey as string);
+    return null;
+  } catch {
+    return 'publicKey must be a valid wallet public key';
+  }
+}
+
+// Stored role assignments
+export async function GET(req: NextRequest) {
+  try {
+    const user = await authorizeRequest(req, 'admin');
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    return NextResponse.json({ roles: await getUserRoles() });
+  } catch (error) {
+    console.error('Error fetching roles:', error);
+    return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Grant or change a wallet's role
+export async function POST(req: NextRequest) {
+  try {
+    const user = await authorizeRequest(req, 'admin');
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { publicKey, role } = await req.json();
+
+    const keyError = validatePublicKey(publicKey);
+    if (keyError) {
+      return NextResponse.json({ message: keyError }, { status: 400 });
+    }
+    if (!ROLES.includes(role)) {
+      return NextResponse.json({ message: `Invalid role. Supported roles: ${ROLES.join(', ')}` }, { status: 400 });
+    }
+    if (publicKey === user.session.publicKey) {
+      return NextResponse.json({ message: 'You cannot change your own role' }, { status: 400 });
+    }
+    if (isBootstrapOwner(publicKey)) {
+      return NextResponse.json({ message: 'Owners listed in ADMIN_WALLETS are managed through the environment' }, { status: 400 });
+    }
+
+    // Both the current and the new role have to be within the caller's reach
+    const currentRole = await getUserRole(publicKey);
+    if (!canManageRole(user.role, role as Role) || (currentRole && !canManageRole(user.role, currentRole))) {
+      return NextResponse.json({ message: 'You cannot assign this role' }, { status: 403 });
+    }
+
+    const assignment = await setUserRole(publicKey, role as Role, user.session.publicKey);
+    await recordAudit({
+      actor: user.session.publicKey,
+      action: 'role.assign',
+      target: publicKey,
+      before: { role: currentRole },
+      after: { role }
+    }, getRequestInfo(req));
+    return NextResponse.json({ role: assignment });
+  } catch (error) {
+    console.error('Error assigning role:', error);
+    return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Revoke a wallet's role
+export async function DELETE(req: NextRequest) {
+  try {
+    const user = await authorizeRequest(req, 'admin');
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const publicKey = new URL(req.url).searchParams.get('publicKey');
+
+    const keyError = validatePublicKey(publicKey);
+    if (keyError) {
+      return NextResponse.json({ message: keyError }, { status: 400 });
+    }
+    if (publicKey === user.session.publicKey) {
+      return NextResponse.json({ message: 'You cannot remove your own role' }, { status: 400 });
+    }
+
+    const currentRole = await getUserRole(publicKey!);
+    if (!currentRole || isBootstrapOwner(publicKey!)) {
+      return NextResponse.json({ message: 'No stored role for this wallet' }, { status: 404 });
+    }
+    if (!canManageRole(user.role, currentRole)) {
+      return NextResponse.json({ message: 'You cannot remove this role' }, { status: 403 });
+    }
+
+    await removeUserRole(publicKey!);
+    await recordAudit({
+      actor: user.session.publicKey,
+      action: 'role.remove',
+      target: publicKey!,
+      before: { role: currentRole },
+      after: null
+    }, getRequestInfo(req));
+    return NextResponse.json({ success: true, publicKey });
+  } catch (error) {
+    console.error('Error removing role:', error);
+    return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,34 +1,56 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
 import { Admin } from '../models/model';
 import connectDB from '@/lib/mongodb';
+import { authorizeRequest } from '@/lib/rbac';
+import { getRequestInfo, recordAudit } from '@/lib/auditLog';
 
 // Default admin public key
 const DEFAULT_ADMIN_PUBLIC_KEY = 'GU4sg1kR4YG4Y5NFMYJLhB6GKekXN2KnftLcVQESaBif';
 
 export async function POST(req: NextRequest) {
   try {
-    await connectDB();
+    // Only admins may change the fee receiver
+    const user = await authorizeRequest(req, 'admin');
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
     const data = await req.json();
-    console.log('request', data);
+    try {
+      new PublicKey(data.pubKey);
+    } catch {
+      return NextResponse.json({ message: 'pubKey must be a valid public key' }, { status: 400 });
+    }
 
-    const newData = await Admin.findOneAndUpdate(
+    await connectDB();
+
+    // The previous document is returned so the audit entry can show both values
+    const oldData = await Admin.findOneAndUpdate(
       {},
       {
         $set: {
           publicKey: data.pubKey,
         },
       },
-      { new: true }
+      { new: false }
     );
 
-    if (!newData) {
+    if (!oldData) {
       return NextResponse.json({ message: 'Configuration data not found' }, { status: 403 });
     }
 
+    await recordAudit({
+      actor: user.session.publicKey,
+      action: 'config.feeReceiver.update',
+      before: { pubKey: oldData.publicKey },
+      after: { pubKey: data.pubKey }
+    }, getRequestInfo(req));
+
     return NextResponse.json(
       {
-        pubKey: newData.publicKey,
+        pubKey: data.pubKey,
       },
       { status: 200 }
     );
@@ -60,8 +82,7 @@ export async function GET() {
     // If no admin data exists, create default configuration
     if (!data) {
       data = await Admin.create({
-        publicKey: DEFAULT_ADMIN_PUBLIC_KEY,
-        password: 'admin123' // Default password - should be changed in production
+        publicKey: DEFAULT_ADMIN_PUBLIC_KEY
       });
       console.log('Created default admin configuration');
     }
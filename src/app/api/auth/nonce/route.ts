@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { createSignInChallenge } from '@/lib/auth';
+
+// Issue a one-time message for the wallet to sign
+export async function POST(req: NextRequest) {
+  try {
+    const { publicKey } = await req.json();
+
+    try {
+      new PublicKey(publicKey);
+    } catch {
+      return NextResponse.json({ message: 'Invalid wallet public key' }, { status: 400 });
+    }
+
+    const challenge = await createSignInChallenge(publicKey, req.headers.get('host') || 'TokenUp');
+
+    return NextResponse.json({
+      nonce: challenge.nonce,
+      message: challenge.message,
+      expiresAt: challenge.expiresAt.toISOString()
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,23 +1,30 @@
-import connectDB from '@/lib/mongodb';
 import { NextRequest, NextResponse } from 'next/server';
-import { Admin } from '../models/model';
+import { getRequestSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { getUserRole } from '@/lib/rbac';
 
-export async function POST(req: NextRequest) {
+// Current wallet session
+export async function GET(req: NextRequest) {
   try {
-    await connectDB();
+    const session = getRequestSession(req);
+    if (!session) {
+      return NextResponse.json({ authenticated: false });
+    }
 
-    const adminData = await Admin.findOne({});
-
-    const data = await req.json();
-    const auth = adminData?.password === data.password;
-
-    console.log('request', adminData?.password, data);
     return NextResponse.json({
-      success: auth,
-      pubKey: adminData?.publicKey,
+      authenticated: true,
+      publicKey: session.publicKey,
+      role: await getUserRole(session.publicKey),
+      expiresAt: new Date(session.expiresAt).toISOString()
     });
   } catch (error) {
     console.error(error);
     return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
   }
 }
+
+// Sign out
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE_NAME);
+  return response;
+}
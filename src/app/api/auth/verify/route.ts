@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  consumeSignInChallenge,
+  createSessionToken,
+  verifyWalletSignature,
+  SESSION_COOKIE_NAME,
+  SESSION_TTL_SECONDS
+} from '@/lib/auth';
+import { getUserRole } from '@/lib/rbac';
+
+// Exchange a signed challenge for a session
+export async function POST(req: NextRequest) {
+  try {
+    const { publicKey, nonce, signature } = await req.json();
+
+    if (typeof publicKey !== 'string' || typeof nonce !== 'string' || typeof signature !== 'string') {
+      return NextResponse.json({ message: 'publicKey, nonce and signature are required' }, { status: 400 });
+    }
+
+    const challenge = await consumeSignInChallenge(nonce, publicKey);
+    if (!challenge) {
+      return NextResponse.json({ message: 'Sign-in request expired or already used' }, { status: 401 });
+    }
+
+    if (!verifyWalletSignature(challenge.message, signature, publicKey)) {
+      return NextResponse.json({ message: 'Invalid signature' }, { status: 401 });
+    }
+
+    const token = createSessionToken(publicKey);
+    const response = NextResponse.json({
+      success: true,
+      publicKey,
+      role: await getUserRole(publicKey),
+      token
+    });
+
+    response.cookies.set(SESSION_COOKIE_NAME, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: '/',
+      maxAge: SESSION_TTL_SECONDS
+    });
+
+    return response;
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -2,7 +2,6 @@ import { Model, Schema, model, models } from 'mongoose';
 
 interface AdminType {
   publicKey: string;
-  password: string;
 }
 
 const AdminSchema = new Schema({
@@ -10,10 +9,6 @@ const AdminSchema = new Schema({
     type: String,
     required: true,
   },
-  password: {
-    type: String,
-    required: true,
-  },
 });
 
 export const Admin: Model<AdminType> = models.AdminData || model<AdminType>('AdminData', AdminSchema, 'AdminData');
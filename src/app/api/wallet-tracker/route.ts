@@ -1,20 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getWalletTracker } from '@/lib/walletTracker';
-import { getWalletTrackerDb } from '@/lib/walletTrackerDb';
+import { getWalletTrackerDb, AlertStatus } from '@/lib/walletTrackerDb';
+import { withAlertStatus } from '@/lib/alertWorkflow';
 import { TrackedWallet } from '@/lib/walletTracker';
+import { syncWalletWebhook } from '@/lib/heliusWebhook';
+import { getWalletMonitor } from '@/lib/walletMonitor';
+import { authorizeWorkspaceRequest } from '@/lib/workspaces';
+import { getRequestInfo, recordAudit, toWalletAuditValue } from '@/lib/auditLog';
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await authorizeWorkspaceRequest(request, 'viewer');
+    if (user instanceof NextResponse) {
+      return user;
+    }
+    const workspaceId = user.workspace.id;
+
     const { searchParams } = new URL(request.url);
     const action = searchParams.get('action');
 
     switch (action) {
       case 'stats': {
         const db = await getWalletTrackerDb();
-        const stats = await db.getWalletStats();
+        const stats = await db.getWalletStats(workspaceId);
         
         // Get additional stats that aren't in the basic stats
-        const wallets = await db.getAllWallets();
+        const wallets = await db.getAllWallets(workspaceId);
         const totalValue = wallets.reduce((sum: number, w: TrackedWallet) => sum + (w.totalValue || 0), 0);
         const totalActivitiesFromWallets = wallets.reduce((sum: number, w: TrackedWallet) => sum + (w.activityCount || 0), 0);
         
@@ -27,14 +38,17 @@ export async function GET(request: NextRequest) {
 
       case 'wallets': {
         const db = await getWalletTrackerDb();
-        const wallets = await db.getAllWallets();
+        const wallets = await db.getAllWallets(workspaceId);
         return NextResponse.json(wallets);
       }
 
       case 'alerts': {
+        const status = searchParams.get('status');
         const db = await getWalletTrackerDb();
-        const alerts = await db.getWalletAlerts();
-        return NextResponse.json(alerts);
+        const alerts = await db.getWalletAlerts(workspaceId, undefined, undefined, 100, {
+          statuses: status ? status.split(',') as AlertStatus[] : undefined
+        });
+        return NextResponse.json(alerts.map(withAlertStatus));
       }
 
       case 'wallet-holdings': {
@@ -44,7 +58,7 @@ export async function GET(request: NextRequest) {
         }
 
         const db = await getWalletTrackerDb();
-        const holdings = await db.getWalletHoldings(walletAddress);
+        const holdings = await db.getWalletHoldings(workspaceId, walletAddress);
         return NextResponse.json(holdings);
       }
 
@@ -61,7 +75,7 @@ export async function GET(request: NextRequest) {
         const offset = offsetParam ? parseInt(offsetParam) : 0;
 
         const db = await getWalletTrackerDb();
-        const activities = await db.getWalletActivities(walletAddress, limit, offset);
+        const activities = await db.getWalletActivities(workspaceId, walletAddress, limit, offset);
         
         return NextResponse.json(activities);
       }
@@ -77,31 +91,106 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await authorizeWorkspaceRequest(request, 'analyst');
+    if (user instanceof NextResponse) {
+      return user;
+    }
+    const workspaceId = user.workspace.id;
+
     const body = await request.json();
     const { action, data } = body;
 
     switch (action) {
       case 'addWallet': {
-        const tracker = await getWalletTracker();
-        const result = await tracker.addWallet(data.address, data.tags);
+        const tracker = await getWalletTracker(data.network);
+        const result = await tracker.addWallet(workspaceId, data.address, data.name, data.description, data.tags || []);
+
+        const db = await getWalletTrackerDb();
+        await db.saveWallet(result);
+        await recordAudit({
+          actor: user.session.publicKey,
+          action: 'wallet.add',
+          target: result.address,
+          workspaceId,
+          before: null,
+          after: toWalletAuditValue(result)
+        }, getRequestInfo(request));
+        await syncWalletWebhook(result.network);
         return NextResponse.json(result);
       }
 
       case 'removeWallet': {
-        const tracker = await getWalletTracker();
-        await tracker.removeWallet(data.address);
+        const db = await getWalletTrackerDb();
+        const wallet = await db.getWallet(workspaceId, data.address);
+        if (wallet) {
+          await db.deleteWallet(workspaceId, data.address);
+          await getWalletMonitor().forgetMonitoringRules(workspaceId, data.address);
+          await recordAudit({
+            actor: user.session.publicKey,
+            action: 'wallet.remove',
+            target: data.address,
+            workspaceId,
+            before: toWalletAuditValue(wallet),
+            after: null
+          }, getRequestInfo(request));
+
+          // Stop polling once no workspace tracks the address any more
+          if ((await db.getWalletsByAddresses([data.address])).length === 0) {
+            const tracker = await getWalletTracker();
+            await tracker.removeWallet(data.address);
+          }
+          await syncWalletWebhook(wallet.network);
+        }
         return NextResponse.json({ success: true });
       }
 
       case 'updateWallet': {
-        const tracker = await getWalletTracker();
-        const result = await tracker.updateWalletInfo(data.address, data.updates);
-        return NextResponse.json(result);
+        const db = await getWalletTrackerDb();
+        const wallet = await db.getWallet(workspaceId, data.address);
+        if (!wallet) {
+          return NextResponse.json({ error: 'Wallet not found' }, { status: 404 });
+        }
+
+        // Only the descriptive fields and the active flag are editable
+        const { name, description, tags, isActive } = data.updates || {};
+        const updatedWallet = {
+          ...wallet,
+          ...(name !== undefined && { name }),
+          ...(description !== undefined && { description }),
+          ...(tags !== undefined && { tags }),
+          ...(isActive !== undefined && { isActive }),
+          lastUpdated: new Date()
+        };
+
+        await db.saveWallet(updatedWallet);
+        await recordAudit({
+          actor: user.session.publicKey,
+          action: isActive !== undefined && isActive !== wallet.isActive ? 'wallet.toggle' : 'wallet.update',
+          target: data.address,
+          workspaceId,
+          before: toWalletAuditValue(wallet),
+          after: toWalletAuditValue(updatedWallet)
+        }, getRequestInfo(request));
+
+        // The tracker copy is shared by every workspace tracking the address, so it stays
+        // active while any workspace still watches it
+        if (isActive !== undefined && isActive !== wallet.isActive) {
+          const watched = isActive || (await db.getActiveWallets(wallet.network)).some(w => w.address === data.address);
+          const tracker = await getWalletTracker();
+          await tracker.updateWalletInfo(data.address, { isActive: watched });
+          if (watched) {
+            await tracker.startMonitoring(data.address);
+          } else {
+            tracker.stopMonitoring(data.address);
+          }
+          await syncWalletWebhook(wallet.network);
+        }
+        return NextResponse.json(updatedWallet);
       }
 
       case 'markAlertRead': {
         const db = await getWalletTrackerDb();
-        const success = await db.markAlertAsRead(data.alertId);
+        const success = await db.markAlertAsRead(workspaceId, data.alertId);
         return NextResponse.json({ 
           success,
           modified: success ? 1 : 0
@@ -109,6 +198,11 @@ export async function POST(request: NextRequest) {
       }
 
       case 'refreshWallet': {
+        const db = await getWalletTrackerDb();
+        if (!(await db.getWallet(workspaceId, data.address))) {
+          return NextResponse.json({ error: 'Wallet not found' }, { status: 404 });
+        }
+
         const tracker = await getWalletTracker();
         await tracker.refreshWalletData(data.address);
         return NextResponse.json({ success: true });
@@ -0,0 +1,11 @@
+import TokenManager from '@/components/manage-token/TokenManager';
+
+export default async function ManageTokenPage({ params }: { params: Promise<{ mint: string }> }) {
+  const { mint } = await params;
+  return <TokenManager mintAddress={mint} />;
+}
+
+export const metadata = {
+  title: 'Manage Token - TokenUp',
+  description: 'Mint, burn, update metadata and manage authorities of your token',
+};
@@ -26,7 +26,8 @@ import {
 } from 'lucide-react';
 import { useNetwork } from '@/context/NetworkContext';
 import { formatNumber, formatCurrency } from '@/lib/utils';
-import { getWalletTrackerDb } from '@/lib/walletTrackerDb';
+import { getWalletTrackerDb, DEFAULT_WORKSPACE_ID } from '@/lib/walletTrackerDb';
+import { useAlertStream } from '@/lib/useAlertStream';
 
 // Type definitions (moved from lib files to avoid imports)
 interface TrackedWallet {
@@ -89,8 +90,22 @@ interface WalletAlert {
   isRead: boolean;
   network: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
+  occurrences?: number;
+  status?: AlertStatus;
+  snoozedUntil?: Date;
+  assignee?: string;
 }
 
+type AlertStatus = 'open' | 'acknowledged' | 'snoozed' | 'resolved' | 'false_positive';
+
+const ALERT_STATUS_LABELS: Record<AlertStatus, string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  snoozed: 'Snoozed',
+  resolved: 'Resolved',
+  false_positive: 'False positive'
+};
+
 interface WalletTrackerProps {
   className?: string;
 }
@@ -133,6 +148,7 @@ export const WalletTracker: React.FC<WalletTrackerProps> = ({ className }) => {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
+  const [alertStatusFilter, setAlertStatusFilter] = useState<AlertStatus | 'all'>('open');
   const [walletDetailTab, setWalletDetailTab] = useState('holdings');
   const [showFilters, setShowFilters] = useState(false);
   const [filters, setFilters] = useState<FilterOptions>({
@@ -151,7 +167,6 @@ export const WalletTracker: React.FC<WalletTrackerProps> = ({ className }) => {
   useEffect(() => {
     loadWallets();
     loadStats();
-    loadAlerts();
   }, [network]);
 
   // Setup real-time updates
@@ -209,7 +224,8 @@ export const WalletTracker: React.FC<WalletTrackerProps> = ({ className }) => {
 
   const loadAlerts = useCallback(async () => {
     try {
-      const response = await fetch('/api/wallet-tracker?action=alerts');
+      const statusParam = alertStatusFilter === 'all' ? '' : `&status=${alertStatusFilter}`;
+      const response = await fetch(`/api/wallet-tracker?action=alerts${statusParam}`);
       if (!response.ok) {
         throw new Error('Failed to fetch alerts');
       }
@@ -219,7 +235,32 @@ export const WalletTracker: React.FC<WalletTrackerProps> = ({ className }) => {
     } catch (err) {
       console.error('Error loading alerts:', err);
     }
-  }, [network]);
+  }, [network, alertStatusFilter]);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  // Live alerts pushed by the server instead of polling
+  // Repeats of an existing alert arrive again with the same id and a higher occurrence count
+  const handleStreamedAlert = useCallback((alert: WalletAlert) => {
+    const isRepeat = (alert.occurrences ?? 1) > 1;
+    if (!alert.isRead && !isRepeat) {
+      setStats(prev => ({ ...prev, unreadAlerts: prev.unreadAlerts + 1 }));
+    }
+    setWalletAlerts(prev => {
+      if (prev.some(a => a.id === alert.id)) {
+        return prev.map(a => (a.id === alert.id ? { ...a, occurrences: alert.occurrences } : a));
+      }
+      // New alerts are open, so they only belong in the open and all views
+      if (alertStatusFilter !== 'all' && alertStatusFilter !== 'open') {
+        return prev;
+      }
+      return [alert, ...prev];
+    });
+  }, [alertStatusFilter]);
+
+  const { isConnected: isAlertStreamConnected } = useAlertStream<WalletAlert>({ network }, handleStreamedAlert);
 
   const loadWalletDetails = useCallback(async (wallet: TrackedWallet) => {
     try {
@@ -269,11 +310,10 @@ export const WalletTracker: React.FC<WalletTrackerProps> = ({ className }) => {
         )
       );
 
-      // Reload data
+      // Reload data (alerts arrive through the stream)
       await Promise.all([
         loadWallets(),
-        loadStats(),
-        loadAlerts()
+        loadStats()
       ]);
 
       // Refresh selected wallet details if any
@@ -288,7 +328,7 @@ export const WalletTracker: React.FC<WalletTrackerProps> = ({ className }) => {
     } finally {
       setIsRefreshing(false);
     }
-  }, [wallets, selectedWallet, loadWallets, loadStats, loadAlerts, loadWalletDetails]);
+  }, [wallets, selectedWallet, loadWallets, loadStats, loadWalletDetails]);
 
   const addWallet = useCallback(async () => {
     if (!newWalletAddress.trim()) return;
@@ -400,6 +440,30 @@ export const WalletTracker: React.FC<WalletTrackerProps> = ({ className }) => {
     }
   }, [loadAlerts, loadStats]);
 
+  const updateAlertStatus = useCallback(async (alertId: string, status: AlertStatus, snoozeMs?: number) => {
+    try {
+      const response = await fetch('/api/wallet-tracker/alerts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          alertId,
+          status,
+          ...(snoozeMs && { snoozedUntil: new Date(Date.now() + snoozeMs).toISOString() })
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update alert status');
+      }
+
+      await loadAlerts();
+      await loadStats();
+    } catch (err) {
+      console.error('Error updating alert status:', err);
+      setError('Failed to update alert status');
+    }
+  }, [loadAlerts, loadStats]);
+
   // Filter and sort wallets
   const filteredWallets = useMemo(() => {
     let filtered = wallets.filter(wallet => {
@@ -468,7 +532,7 @@ export const WalletTracker: React.FC<WalletTrackerProps> = ({ className }) => {
   const exportData = useCallback(async () => {
     try {
       const db = await getWalletTrackerDb();
-      const data = await db.exportWalletData();
+      const data = await db.exportWalletData(DEFAULT_WORKSPACE_ID);
       
       const blob = new Blob([JSON.stringify(data, null, 2)], {
         type: 'application/json'
@@ -503,6 +567,10 @@ export const WalletTracker: React.FC<WalletTrackerProps> = ({ className }) => {
           <Badge variant="outline" className="text-xs">
             Last updated: {lastUpdate.toLocaleTimeString()}
           </Badge>
+
+          <Badge variant={isAlertStreamConnected ? "default" : "secondary"} className="text-xs">
+            {isAlertStreamConnected ? 'Live alerts' : 'Alerts offline'}
+          </Badge>
           
           <Button
             variant="outline"
@@ -871,8 +939,18 @@ export const WalletTracker: React.FC<WalletTrackerProps> = ({ className }) => {
 
         <TabsContent value="alerts" className="space-y-4">
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle>Wallet Alerts</CardTitle>
+              <select
+                value={alertStatusFilter}
+                onChange={(e) => setAlertStatusFilter(e.target.value as AlertStatus | 'all')}
+                className="p-2 border rounded-md text-sm"
+              >
+                <option value="all">All statuses</option>
+                {(Object.keys(ALERT_STATUS_LABELS) as AlertStatus[]).map(status => (
+                  <option key={status} value={status}>{ALERT_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
             </CardHeader>
             <CardContent>
               <div className="space-y-2">
@@ -894,10 +972,44 @@ export const WalletTracker: React.FC<WalletTrackerProps> = ({ className }) => {
                         }`} />
                         
                         <div>
-                          <div className="font-medium">{alert.title}</div>
+                          <div className="font-medium">
+                            {alert.title}
+                            {alert.occurrences && alert.occurrences > 1 && (
+                              <span className="ml-2 text-xs text-muted-foreground">×{alert.occurrences}</span>
+                            )}
+                          </div>
                           <div className="text-sm text-muted-foreground">{alert.message}</div>
                           <div className="text-xs text-muted-foreground mt-1">
                             {alert.walletAddress.slice(0, 8)}...{alert.walletAddress.slice(-8)}
+                            {alert.assignee && <span className="ml-2">· Assigned to {alert.assignee}</span>}
+                            {alert.status === 'snoozed' && alert.snoozedUntil && (
+                              <span className="ml-2">· Snoozed until {new Date(alert.snoozedUntil).toLocaleString()}</span>
+                            )}
+                          </div>
+                          <div className="flex flex-wrap gap-1 mt-2" onClick={(e) => e.stopPropagation()}>
+                            {alert.status !== 'acknowledged' && (
+                              <Button variant="outline" size="sm" onClick={() => updateAlertStatus(alert.id, 'acknowledged')}>
+                                Acknowledge
+                              </Button>
+                            )}
+                            <Button variant="outline" size="sm" onClick={() => updateAlertStatus(alert.id, 'snoozed', 60 * 60 * 1000)}>
+                              Snooze 1h
+                            </Button>
+                            {alert.status !== 'resolved' && (
+                              <Button variant="outline" size="sm" onClick={() => updateAlertStatus(alert.id, 'resolved')}>
+                                Resolve
+                              </Button>
+                            )}
+                            {alert.status !== 'false_positive' && (
+                              <Button variant="outline" size="sm" onClick={() => updateAlertStatus(alert.id, 'false_positive')}>
+                                False positive
+                              </Button>
+                            )}
+                            {alert.status && alert.status !== 'open' && (
+                              <Button variant="ghost" size="sm" onClick={() => updateAlertStatus(alert.id, 'open')}>
+                                Reopen
+                              </Button>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -914,6 +1026,9 @@ export const WalletTracker: React.FC<WalletTrackerProps> = ({ className }) => {
                         >
                           {alert.severity}
                         </Badge>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {ALERT_STATUS_LABELS[alert.status || 'open']}
+                        </div>
                         <div className="text-xs text-muted-foreground mt-1">
                           {alert.createdAt.toLocaleString()}
                         </div>
@@ -928,7 +1043,9 @@ export const WalletTracker: React.FC<WalletTrackerProps> = ({ className }) => {
                   <Bell className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
                   <h3 className="text-lg font-semibold mb-2">No alerts</h3>
                   <p className="text-muted-foreground">
-                    All caught up! No new alerts for your wallets.
+                    {alertStatusFilter === 'all' || alertStatusFilter === 'open'
+                      ? 'All caught up! No new alerts for your wallets.'
+                      : `No ${ALERT_STATUS_LABELS[alertStatusFilter].toLowerCase()} alerts.`}
                   </p>
                 </div>
               )}
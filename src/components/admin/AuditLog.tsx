@@ -0,0 +1,216 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download } from 'lucide-react';
+import { AUDIT_ACTIONS, AuditEntry } from '@/lib/auditLog';
+
+const PAGE_SIZE = 25;
+
+interface AuditFilters {
+  actor: string;
+  action: string;
+  target: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { actor: '', action: '', target: '', from: '', to: '' };
+
+function toSearchParams(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.actor.trim()) params.set('actor', filters.actor.trim());
+  if (filters.action) params.set('action', filters.action);
+  if (filters.target.trim()) params.set('target', filters.target.trim());
+  // Dates from the inputs cover the whole selected day
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined ? '-' : JSON.stringify(value);
+}
+
+// Paginated view of the admin audit log with a JSONL export of the filtered entries
+const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const params = toSearchParams(applied);
+      params.set('page', String(page));
+      params.set('pageSize', String(PAGE_SIZE));
+
+      const response = await fetch(`/api/admin/audit?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error);
+      }
+      setEntries(data.entries);
+      setTotal(data.total);
+    } catch (loadError) {
+      console.error('Error loading audit log:', loadError);
+      setError(loadError instanceof Error && loadError.message ? loadError.message : 'Could not load the audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [applied, page]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const applyFilters = () => {
+    setPage(1);
+    setApplied(filters);
+  };
+
+  const exportEntries = () => {
+    const params = toSearchParams(applied);
+    params.set('format', 'jsonl');
+    window.location.href = `/api/admin/audit?${params}`;
+  };
+
+  return (
+    <div className='flex flex-col gap-3 border w-full py-4 px-4 md:px-8 mt-4'>
+      <div className='flex items-center justify-between'>
+        <p className='text-xs md:text-base font-medium'>Audit log</p>
+        <button
+          className='flex items-center gap-1 text-xs md:text-sm hover:text-text-secondary transition-colors'
+          title='Download the filtered entries as JSONL'
+          onClick={exportEntries}
+        >
+          <Download className='w-4 h-4' />
+          Export JSONL
+        </button>
+      </div>
+
+      <div className='grid grid-cols-1 md:grid-cols-6 gap-2'>
+        <input
+          className='text-gray-700 px-2 outline-none py-1 rounded-sm md:col-span-2'
+          placeholder='Actor public key'
+          value={filters.actor}
+          onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+        />
+        <select
+          className='text-gray-700 px-2 py-1 rounded-sm'
+          value={filters.action}
+          onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+        >
+          <option value=''>All actions</option>
+          {AUDIT_ACTIONS.map(action => (
+            <option key={action} value={action}>{action}</option>
+          ))}
+        </select>
+        <input
+          className='text-gray-700 px-2 outline-none py-1 rounded-sm'
+          placeholder='Target'
+          value={filters.target}
+          onChange={(e) => setFilters({ ...filters, target: e.target.value })}
+        />
+        <input
+          type='date'
+          className='text-gray-700 px-2 outline-none py-1 rounded-sm'
+          value={filters.from}
+          onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+        />
+        <input
+          type='date'
+          className='text-gray-700 px-2 outline-none py-1 rounded-sm'
+          value={filters.to}
+          onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+        />
+      </div>
+      <div className='flex gap-2'>
+        <button
+          className='px-4 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-sm transition-colors disabled:bg-gray-600'
+          disabled={isLoading}
+          onClick={applyFilters}
+        >
+          Filter
+        </button>
+        <button
+          className='px-4 py-1 border rounded-sm transition-colors hover:text-text-secondary'
+          onClick={() => {
+            setFilters(EMPTY_FILTERS);
+            setPage(1);
+            setApplied(EMPTY_FILTERS);
+          }}
+        >
+          Reset
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className='text-xs md:text-sm'>{isLoading ? 'Loading...' : 'No audit entries found.'}</p>
+      ) : (
+        <div className='overflow-x-auto'>
+          <table className='w-full text-xs md:text-sm text-left'>
+            <thead>
+              <tr className='border-b'>
+                <th className='py-1 pr-4 font-medium'>Time</th>
+                <th className='py-1 pr-4 font-medium'>Actor</th>
+                <th className='py-1 pr-4 font-medium'>Action</th>
+                <th className='py-1 pr-4 font-medium'>Target</th>
+                <th className='py-1 pr-4 font-medium'>Before</th>
+                <th className='py-1 pr-4 font-medium'>After</th>
+                <th className='py-1 font-medium'>IP</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.id} className='border-b align-top'>
+                  <td className='py-1 pr-4 whitespace-nowrap'>{new Date(entry.createdAt).toLocaleString()}</td>
+                  <td className='py-1 pr-4 font-mono max-w-[10rem] truncate' title={entry.actor}>{entry.actor}</td>
+                  <td className='py-1 pr-4 whitespace-nowrap'>{entry.action}</td>
+                  <td className='py-1 pr-4 font-mono max-w-[10rem] truncate' title={entry.target}>
+                    {entry.target || '-'}
+                    {entry.workspaceId && <span className='block text-gray-400'>{entry.workspaceId}</span>}
+                  </td>
+                  <td className='py-1 pr-4 font-mono max-w-[16rem] break-all'>{formatValue(entry.before)}</td>
+                  <td className='py-1 pr-4 font-mono max-w-[16rem] break-all'>{formatValue(entry.after)}</td>
+                  <td className='py-1 whitespace-nowrap'>{entry.ip}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className='flex items-center justify-between text-xs md:text-sm'>
+        <span>{total} entries</span>
+        <div className='flex items-center gap-2'>
+          <button
+            className='hover:text-text-secondary transition-colors disabled:opacity-40'
+            disabled={page <= 1 || isLoading}
+            onClick={() => setPage(page - 1)}
+          >
+            <ChevronLeft className='w-4 h-4' />
+          </button>
+          <span>Page {page} of {pageCount}</span>
+          <button
+            className='hover:text-text-secondary transition-colors disabled:opacity-40'
+            disabled={page >= pageCount || isLoading}
+            onClick={() => setPage(page + 1)}
+          >
+            <ChevronRight className='w-4 h-4' />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className='text-sm text-red-400'>{error}</p>}
+    </div>
+  );
+};
+
+export default AuditLog;
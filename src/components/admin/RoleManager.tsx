@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import type { Role, UserRole } from '@/lib/rbac';
+
+const ASSIGNABLE_ROLES: Role[] = ['viewer', 'analyst', 'admin', 'owner'];
+
+interface RoleManagerProps {
+  currentRole: Role;
+}
+
+// Lists and edits the wallets with access to the admin and wallet-tracker APIs
+const RoleManager: React.FC<RoleManagerProps> = ({ currentRole }) => {
+  const [roles, setRoles] = useState<UserRole[]>([]);
+  const [publicKey, setPublicKey] = useState('');
+  const [role, setRole] = useState<Role>('viewer');
+  const [error, setError] = useState('');
+
+  // Admins manage analysts and viewers, owners manage everyone
+  const assignable = currentRole === 'owner' ? ASSIGNABLE_ROLES : ASSIGNABLE_ROLES.filter(r => r === 'viewer' || r === 'analyst');
+
+  const loadRoles = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/roles');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error);
+      }
+      setRoles(data.roles);
+    } catch (loadError) {
+      console.error('Error loading roles:', loadError);
+      setError('Could not load roles');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRoles();
+  }, [loadRoles]);
+
+  const assignRole = async () => {
+    setError('');
+    const response = await fetch('/api/admin/roles', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ publicKey: publicKey.trim(), role })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.message || data.error);
+      return;
+    }
+    setPublicKey('');
+    loadRoles();
+  };
+
+  const removeRole = async (wallet: string) => {
+    setError('');
+    const response = await fetch(`/api/admin/roles?publicKey=${wallet}`, { method: 'DELETE' });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.message || data.error);
+      return;
+    }
+    loadRoles();
+  };
+
+  return (
+    <div className='flex flex-col gap-3 border w-full py-4 px-4 md:px-8 mt-4'>
+      <p className='text-xs md:text-base font-medium'>Roles</p>
+
+      {roles.length === 0 ? (
+        <p className='text-xs md:text-sm'>No roles assigned yet.</p>
+      ) : (
+        roles.map(assignment => (
+          <div key={assignment.publicKey} className='flex items-center justify-between gap-4 text-xs md:text-sm'>
+            <span className='font-mono truncate'>{assignment.publicKey}</span>
+            <div className='flex items-center gap-4'>
+              <span className='capitalize'>{assignment.role}</span>
+              {(currentRole === 'owner' || assignable.includes(assignment.role)) && (
+                <button className='hover:text-text-secondary transition-colors' title='Remove role' onClick={() => removeRole(assignment.publicKey)}>
+                  <Trash2 className='w-4 h-4' />
+                </button>
+              )}
+            </div>
+          </div>
+        ))
+      )}
+
+      <div className='flex flex-col md:flex-row gap-2 mt-2'>
+        <input
+          className='text-gray-700 px-2 outline-none py-1 rounded-sm flex-1'
+          placeholder='Wallet public key'
+          value={publicKey}
+          onChange={(e) => setPublicKey(e.target.value)}
+        />
+        <select
+          className='text-gray-700 px-2 py-1 rounded-sm'
+          value={role}
+          onChange={(e) => setRole(e.target.value as Role)}
+        >
+          {assignable.map(r => (
+            <option key={r} value={r}>{r}</option>
+          ))}
+        </select>
+        <button
+          className='px-4 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-sm transition-colors disabled:bg-gray-600'
+          disabled={!publicKey.trim()}
+          onClick={assignRole}
+        >
+          Assign
+        </button>
+      </div>
+
+      {error && <p className='text-sm text-red-400'>{error}</p>}
+    </div>
+  );
+};
+
+export default RoleManager;
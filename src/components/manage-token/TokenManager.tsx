@@ -0,0 +1,531 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Connection, PublicKey, Transaction } from '@solana/web3.js';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { useNetwork } from '@/context/NetworkContext';
+import {
+  AuthorityChange,
+  BASE_METADATA_FIELDS,
+  MetadataChange,
+  TOKEN_AUTHORITY_LABELS,
+  TokenAuthority,
+  TokenManagementState,
+  applyAuthorityChanges,
+  createBurnTransaction,
+  createMetadataUpdateTransaction,
+  createMintSupplyTransaction,
+  formatBaseUnits,
+  getTokenManagementState,
+  toBaseUnits,
+} from '@/lib/web3';
+import { HarvestProgress, HarvestResult, harvestTransferFees } from '@/lib/feeHarvester';
+import NetworkIndicator from '../ui/NetworkIndicator';
+
+interface TokenManagerProps {
+  mintAddress: string;
+}
+
+interface MetadataForm {
+  name: string;
+  symbol: string;
+  uri: string;
+  additionalMetadata: [string, string][];
+}
+
+const AUTHORITIES: TokenAuthority[] = ['mint', 'freeze', 'metadataUpdate', 'metadataPointer'];
+
+const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClass = 'px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors';
+
+function toMetadataForm(state: TokenManagementState | null): MetadataForm {
+  return {
+    name: state?.metadata?.name || '',
+    symbol: state?.metadata?.symbol || '',
+    uri: state?.metadata?.uri || '',
+    additionalMetadata: state?.metadata?.additionalMetadata.map(([key, value]) => [key, value] as [string, string]) || [],
+  };
+}
+
+function parsePublicKey(value: string, field: string): PublicKey {
+  try {
+    return new PublicKey(value.trim());
+  } catch {
+    throw new Error(`${field} must be a valid public key`);
+  }
+}
+
+// Post-launch console for a mint whose authorities are held by the connected wallet
+const TokenManager: React.FC<TokenManagerProps> = ({ mintAddress }) => {
+  const { network, rpcUrl } = useNetwork();
+  const { publicKey, connected, sendTransaction } = useWallet();
+  const connection = useMemo(() => new Connection(rpcUrl, 'confirmed'), [rpcUrl]);
+
+  const [state, setState] = useState<TokenManagementState | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [pendingAction, setPendingAction] = useState('');
+  const [actionError, setActionError] = useState('');
+  const [lastSignature, setLastSignature] = useState('');
+
+  const [mintAmount, setMintAmount] = useState('');
+  const [mintRecipient, setMintRecipient] = useState('');
+  const [burnAmount, setBurnAmount] = useState('');
+  const [metadataForm, setMetadataForm] = useState<MetadataForm>(toMetadataForm(null));
+  const [newKey, setNewKey] = useState('');
+  const [newValue, setNewValue] = useState('');
+  const [transferTargets, setTransferTargets] = useState<Partial<Record<TokenAuthority, string>>>({});
+  const [feeDestination, setFeeDestination] = useState('');
+  const [harvestProgress, setHarvestProgress] = useState<HarvestProgress | null>(null);
+  const [harvestResult, setHarvestResult] = useState<HarvestResult | null>(null);
+
+  const loadState = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError('');
+    try {
+      const current = await getTokenManagementState(connection, parsePublicKey(mintAddress, 'Mint address'));
+      setState(current);
+      setMetadataForm(toMetadataForm(current));
+    } catch (error) {
+      console.error('Error loading mint state:', error);
+      setState(null);
+      setLoadError(error instanceof Error ? error.message : 'Could not load the mint');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [connection, mintAddress]);
+
+  useEffect(() => {
+    loadState();
+  }, [loadState]);
+
+  const holds = (authority: TokenAuthority) => {
+    const current = state?.authorities[authority];
+    return !!publicKey && !!current && current.equals(publicKey);
+  };
+
+  const sendAndConfirm = async (transaction: Transaction): Promise<string> => {
+    const signature = await sendTransaction(transaction, connection, { preflightCommitment: 'confirmed' });
+    const confirmation = await connection.confirmTransaction(signature, 'confirmed');
+    if (confirmation.value.err) {
+      throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+    }
+    return signature;
+  };
+
+  // Every action builds its transaction through web3.ts, then the wallet signs and the state is read back
+  const runAction = async (name: string, action: (owner: PublicKey, mint: PublicKey) => Promise<string | null>) => {
+    if (!publicKey || !state) return;
+
+    setPendingAction(name);
+    setActionError('');
+    try {
+      const signature = await action(publicKey, state.mint);
+      if (signature) {
+        setLastSignature(signature);
+      }
+      await loadState();
+    } catch (error) {
+      console.error(`Error running ${name}:`, error);
+      setActionError(error instanceof Error ? error.message : `${name} failed`);
+    } finally {
+      setPendingAction('');
+    }
+  };
+
+  const handleMint = () =>
+    runAction('mint', async (owner, mint) => {
+      const recipient = mintRecipient.trim() ? parsePublicKey(mintRecipient, 'Recipient') : owner;
+      const transaction = await createMintSupplyTransaction(
+        connection,
+        mint,
+        owner,
+        toBaseUnits(mintAmount, state!.decimals),
+        recipient
+      );
+      const signature = await sendAndConfirm(transaction);
+      setMintAmount('');
+      return signature;
+    });
+
+  const handleBurn = () =>
+    runAction('burn', async (owner, mint) => {
+      const transaction = await createBurnTransaction(connection, mint, owner, toBaseUnits(burnAmount, state!.decimals));
+      const signature = await sendAndConfirm(transaction);
+      setBurnAmount('');
+      return signature;
+    });
+
+  const handleSaveMetadata = () =>
+    runAction('metadata', async (owner, mint) => {
+      const current = toMetadataForm(state);
+      const keys = metadataForm.additionalMetadata.map(([key]) => key);
+      const changes: MetadataChange[] = [
+        ...BASE_METADATA_FIELDS.map(field => ({ type: 'update' as const, field, value: metadataForm[field] })),
+        ...metadataForm.additionalMetadata.map(([key, value]) => ({ type: 'update' as const, field: key, value })),
+        ...current.additionalMetadata
+          .filter(([key]) => !keys.includes(key))
+          .map(([key]) => ({ type: 'remove' as const, key })),
+      ];
+
+      const { transaction, changes: applied } = await createMetadataUpdateTransaction(connection, mint, owner, changes);
+      if (applied.length === 0) {
+        return null;
+      }
+      return sendAndConfirm(transaction);
+    });
+
+  const handleAuthorityChange = (authority: TokenAuthority, revoke: boolean) =>
+    runAction(`authority-${authority}`, async (owner, mint) => {
+      const change: AuthorityChange = {
+        authority,
+        newAuthority: revoke ? null : parsePublicKey(transferTargets[authority] || '', 'New authority'),
+      };
+      if (revoke && !window.confirm(`Revoke the ${TOKEN_AUTHORITY_LABELS[authority].toLowerCase()} authority? This cannot be undone.`)) {
+        return null;
+      }
+
+      const steps = await applyAuthorityChanges(connection, mint, owner, [change], sendAndConfirm);
+      setTransferTargets({ ...transferTargets, [authority]: '' });
+      return steps[0]?.signature || null;
+    });
+
+  const addMetadataKey = () => {
+    const key = newKey.trim();
+    if (!key) return;
+    if ((BASE_METADATA_FIELDS as readonly string[]).includes(key.toLowerCase())) {
+      setActionError(`${key} is a base metadata field, edit it above`);
+      return;
+    }
+    setActionError('');
+    setMetadataForm({
+      ...metadataForm,
+      additionalMetadata: [...metadataForm.additionalMetadata.filter(([existing]) => existing !== key), [key, newValue]],
+    });
+    setNewKey('');
+    setNewValue('');
+  };
+
+  const explorerUrl = (path: string) =>
+    `https://explorer.solana.com/${path}${network === 'testnet' ? '?cluster=testnet' : ''}`;
+
+  const handleHarvest = (dryRun: boolean) =>
+    runAction(dryRun ? 'fees-check' : 'fees', async (owner, mint) => {
+      setHarvestResult(null);
+      let result: HarvestResult;
+      try {
+        result = await harvestTransferFees(connection, mint, owner, sendAndConfirm, {
+          destination: feeDestination.trim() ? parsePublicKey(feeDestination, 'Destination') : owner,
+          dryRun,
+          onProgress: setHarvestProgress,
+        });
+      } finally {
+        setHarvestProgress(null);
+      }
+      setHarvestResult(result);
+      return result.withdrawSignature || result.harvestSignatures[result.harvestSignatures.length - 1] || null;
+    });
+
+  const canUpdateMetadata = !!state?.metadata && holds('metadataUpdate');
+  const canWithdrawFees = !!publicKey && !!state?.transferFee?.withdrawWithheldAuthority.equals(publicKey);
+  const isBusy = !!pendingAction;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-4xl font-bold text-white mb-2">Manage Token</h1>
+            <p className="text-gray-300 font-mono text-sm break-all">{mintAddress}</p>
+          </div>
+          <NetworkIndicator />
+        </div>
+
+        {!connected ? (
+          <div className="text-center py-12">
+            <div className="text-6xl mb-4">👛</div>
+            <h3 className="text-xl font-semibold text-white mb-2">Connect Your Wallet</h3>
+            <p className="text-gray-400">Connect the wallet that holds the token authorities</p>
+          </div>
+        ) : isLoading && !state ? (
+          <div className="text-center py-12">
+            <div className="animate-spin text-6xl mb-4">⏳</div>
+            <h3 className="text-xl font-semibold text-white mb-2">Loading Mint</h3>
+          </div>
+        ) : !state ? (
+          <div className="text-center py-12">
+            <h3 className="text-xl font-semibold text-white mb-2">Could not load this mint</h3>
+            <p className="text-red-300">{loadError}</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Overview */}
+            <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6">
+              <h2 className="text-xl font-semibold text-white mb-4">Overview</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <label className="text-xs text-gray-400 uppercase tracking-wide">Supply</label>
+                  <p className="text-white font-medium">
+                    {formatBaseUnits(state.supply, state.decimals)} {state.metadata?.symbol || 'tokens'}
+                  </p>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 uppercase tracking-wide">Decimals</label>
+                  <p className="text-white font-medium">{state.decimals}</p>
+                </div>
+                {AUTHORITIES.filter(authority => state.authorities[authority] !== undefined).map(authority => (
+                  <div key={authority}>
+                    <label className="text-xs text-gray-400 uppercase tracking-wide">
+                      {TOKEN_AUTHORITY_LABELS[authority]} authority
+                    </label>
+                    <p className="text-white font-mono truncate">
+                      {state.authorities[authority]?.toString() || 'Revoked'}
+                      {holds(authority) && <span className="ml-2 text-green-300 font-sans">(you)</span>}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              {!state.metadata && (
+                <p className="text-gray-400 text-sm mt-4">This mint does not store its own metadata.</p>
+              )}
+            </div>
+
+            {/* Supply */}
+            <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 space-y-4">
+              <h2 className="text-xl font-semibold text-white">Supply</h2>
+              {holds('mint') ? (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  <input
+                    className={inputClass}
+                    placeholder="Amount to mint"
+                    value={mintAmount}
+                    onChange={(e) => setMintAmount(e.target.value)}
+                  />
+                  <input
+                    className={inputClass}
+                    placeholder="Recipient (defaults to your wallet)"
+                    value={mintRecipient}
+                    onChange={(e) => setMintRecipient(e.target.value)}
+                  />
+                  <button className={buttonClass} disabled={isBusy || !mintAmount} onClick={handleMint}>
+                    {pendingAction === 'mint' ? 'Minting...' : 'Mint'}
+                  </button>
+                </div>
+              ) : (
+                <p className="text-gray-400 text-sm">
+                  {state.authorities.mint ? 'Your wallet is not the mint authority.' : 'Mint authority has been revoked, the supply is fixed.'}
+                </p>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <input
+                  className={`${inputClass} md:col-span-2`}
+                  placeholder="Amount to burn from your wallet"
+                  value={burnAmount}
+                  onChange={(e) => setBurnAmount(e.target.value)}
+                />
+                <button
+                  className="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors"
+                  disabled={isBusy || !burnAmount}
+                  onClick={handleBurn}
+                >
+                  {pendingAction === 'burn' ? 'Burning...' : 'Burn'}
+                </button>
+              </div>
+            </div>
+
+            {/* Metadata */}
+            {state.metadata && (
+              <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 space-y-4">
+                <h2 className="text-xl font-semibold text-white">Metadata</h2>
+                {BASE_METADATA_FIELDS.map(field => (
+                  <div key={field}>
+                    <label className="text-xs text-gray-400 uppercase tracking-wide">{field}</label>
+                    <input
+                      className={inputClass}
+                      disabled={!canUpdateMetadata}
+                      value={metadataForm[field]}
+                      onChange={(e) => setMetadataForm({ ...metadataForm, [field]: e.target.value })}
+                    />
+                  </div>
+                ))}
+
+                <div>
+                  <label className="text-xs text-gray-400 uppercase tracking-wide">Additional metadata</label>
+                  {metadataForm.additionalMetadata.length === 0 && (
+                    <p className="text-gray-400 text-sm">No additional fields.</p>
+                  )}
+                  <div className="space-y-2">
+                    {metadataForm.additionalMetadata.map(([key, value], index) => (
+                      <div key={key} className="flex gap-2 items-center">
+                        <span className="text-white font-mono text-sm w-1/3 truncate" title={key}>{key}</span>
+                        <input
+                          className={inputClass}
+                          disabled={!canUpdateMetadata}
+                          value={value}
+                          onChange={(e) => {
+                            const additionalMetadata = [...metadataForm.additionalMetadata];
+                            additionalMetadata[index] = [key, e.target.value];
+                            setMetadataForm({ ...metadataForm, additionalMetadata });
+                          }}
+                        />
+                        {canUpdateMetadata && (
+                          <button
+                            className="text-red-400 hover:text-red-300 transition-colors"
+                            title="Remove field"
+                            onClick={() =>
+                              setMetadataForm({
+                                ...metadataForm,
+                                additionalMetadata: metadataForm.additionalMetadata.filter(([existing]) => existing !== key),
+                              })
+                            }
+                          >
+                            🗑️
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {canUpdateMetadata ? (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                      <input className={inputClass} placeholder="Key" value={newKey} onChange={(e) => setNewKey(e.target.value)} />
+                      <input className={inputClass} placeholder="Value" value={newValue} onChange={(e) => setNewValue(e.target.value)} />
+                      <button
+                        className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white text-sm font-medium rounded-lg transition-colors"
+                        onClick={addMetadataKey}
+                      >
+                        Add field
+                      </button>
+                    </div>
+                    <div className="flex gap-2">
+                      <button className={buttonClass} disabled={isBusy} onClick={handleSaveMetadata}>
+                        {pendingAction === 'metadata' ? 'Saving...' : 'Save metadata'}
+                      </button>
+                      <button
+                        className="px-4 py-2 border border-white/20 text-white text-sm rounded-lg hover:bg-white/10 transition-colors"
+                        disabled={isBusy}
+                        onClick={() => setMetadataForm(toMetadataForm(state))}
+                      >
+                        Reset
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-gray-400 text-sm">
+                    {state.authorities.metadataUpdate ? 'Your wallet is not the metadata update authority.' : 'Metadata update authority has been revoked.'}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Transfer fees */}
+            {state.transferFee && (
+              <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 space-y-4">
+                <h2 className="text-xl font-semibold text-white">Transfer Fees</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <label className="text-xs text-gray-400 uppercase tracking-wide">Fee</label>
+                    <p className="text-white font-medium">
+                      {state.transferFee.newerTransferFee.transferFeeBasisPoints / 100}% (max{' '}
+                      {formatBaseUnits(state.transferFee.newerTransferFee.maximumFee, state.decimals)} tokens)
+                    </p>
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-400 uppercase tracking-wide">Withheld in mint</label>
+                    <p className="text-white font-medium">{formatBaseUnits(state.transferFee.withheldAmount, state.decimals)} tokens</p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  <input
+                    className={inputClass}
+                    placeholder="Destination (defaults to your wallet)"
+                    value={feeDestination}
+                    onChange={(e) => setFeeDestination(e.target.value)}
+                  />
+                  <button
+                    className="px-4 py-2 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors"
+                    disabled={isBusy}
+                    onClick={() => handleHarvest(true)}
+                  >
+                    {pendingAction === 'fees-check' ? 'Scanning...' : 'Check harvestable'}
+                  </button>
+                  <button className={buttonClass} disabled={isBusy || !canWithdrawFees} onClick={() => handleHarvest(false)}>
+                    {pendingAction === 'fees' ? 'Collecting...' : 'Harvest & withdraw'}
+                  </button>
+                </div>
+                {!canWithdrawFees && (
+                  <p className="text-gray-400 text-sm">Only the withdraw authority can collect the fees.</p>
+                )}
+                {harvestProgress && (
+                  <p className="text-gray-300 text-sm">
+                    {harvestProgress.stage === 'scan'
+                      ? 'Scanning token accounts...'
+                      : harvestProgress.stage === 'harvest'
+                        ? `Harvested batch ${harvestProgress.completed} of ${harvestProgress.total}`
+                        : 'Withdrawing fees from the mint...'}
+                  </p>
+                )}
+                {harvestResult && (
+                  <p className="text-gray-300 text-sm">
+                    {harvestResult.dryRun
+                      ? `${formatBaseUnits(harvestResult.harvestable, state.decimals)} tokens can be collected: ${formatBaseUnits(harvestResult.withheldInAccounts, state.decimals)} in ${harvestResult.accounts.length} accounts (${harvestResult.batches} transactions) and ${formatBaseUnits(harvestResult.withheldInMint, state.decimals)} in the mint.`
+                      : `Harvested ${harvestResult.accounts.length} accounts in ${harvestResult.harvestSignatures.length} transactions and withdrew ${formatBaseUnits(harvestResult.withdrawn, state.decimals)} tokens.`}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Authorities */}
+            <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 space-y-4">
+              <h2 className="text-xl font-semibold text-white">Authorities</h2>
+              {AUTHORITIES.filter(holds).length === 0 && (
+                <p className="text-gray-400 text-sm">Your wallet holds no authority over this mint.</p>
+              )}
+              {AUTHORITIES.filter(holds).map(authority => (
+                <div key={authority} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-center">
+                  <span className="text-white text-sm">{TOKEN_AUTHORITY_LABELS[authority]}</span>
+                  <input
+                    className={inputClass}
+                    placeholder="Transfer to public key"
+                    value={transferTargets[authority] || ''}
+                    onChange={(e) => setTransferTargets({ ...transferTargets, [authority]: e.target.value })}
+                  />
+                  <button
+                    className={buttonClass}
+                    disabled={isBusy || !transferTargets[authority]}
+                    onClick={() => handleAuthorityChange(authority, false)}
+                  >
+                    Transfer
+                  </button>
+                  <button
+                    className="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors"
+                    disabled={isBusy}
+                    onClick={() => handleAuthorityChange(authority, true)}
+                  >
+                    {pendingAction === `authority-${authority}` ? 'Updating...' : 'Revoke'}
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {actionError && <p className="text-red-300 text-sm">{actionError}</p>}
+            {lastSignature && (
+              <a
+                href={explorerUrl(`tx/${lastSignature}`)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-300 hover:text-blue-200 text-sm break-all"
+              >
+                Last transaction: {lastSignature}
+              </a>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TokenManager;
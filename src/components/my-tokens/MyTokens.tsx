@@ -1,16 +1,18 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { TokenStorage, LaunchedToken } from '@/lib/localStorage';
+import { TokenStorage } from '@/lib/localStorage';
 import { useNetwork } from '@/context/NetworkContext';
 import { useWallet } from '@solana/wallet-adapter-react';
-import { WalletTokenBalance } from '@/lib/types';
+import { WalletTokenBalance, LaunchedToken } from '@/lib/types';
 import { getWeb3Service } from '@/lib/web3Service';
 import NetworkIndicator from '../ui/NetworkIndicator';
+import { useWalletSession } from '@/lib/useWalletSession';
 
 const MyTokens: React.FC = () => {
   const { network } = useNetwork();
   const { publicKey, connected } = useWallet();
+  const { isSignedIn, isSigningIn, signIn } = useWalletSession();
   const [tokens, setTokens] = useState<LaunchedToken[]>([]);
   const [walletTokens, setWalletTokens] = useState<WalletTokenBalance[]>([]);
   const [filteredTokens, setFilteredTokens] = useState<LaunchedToken[]>([]);
@@ -23,10 +25,11 @@ const MyTokens: React.FC = () => {
   const [importData, setImportData] = useState('');
   const [importStatus, setImportStatus] = useState('');
   const [activeTab, setActiveTab] = useState<'created' | 'wallet'>('created');
+  const [syncError, setSyncError] = useState('');
 
   useEffect(() => {
     loadTokens();
-  }, [network]);
+  }, [network, publicKey, isSignedIn]);
 
   useEffect(() => {
     if (connected && publicKey && activeTab === 'wallet') {
@@ -40,15 +43,66 @@ const MyTokens: React.FC = () => {
     }
   }, [tokens, searchTerm, sortBy, sortOrder, activeTab]);
 
-  const loadTokens = () => {
+  // Copy launches only this browser knows about to the registry of the connected wallet
+  const migrateStoredTokens = async (creator: string) => {
+    const unsynced = TokenStorage.getUnsyncedTokens(creator);
+    if (unsynced.length === 0) return;
+
+    const response = await fetch('/api/launches', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ creator, tokens: unsynced.map(token => TokenStorage.toLaunchRecord(token)) })
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Migration failed with status ${response.status}`);
+    }
+
+    const result = await response.json();
+    if (result.conflicts?.length > 0) {
+      console.warn('Launches registered to another wallet were not migrated:', result.conflicts);
+    }
+    // Unverified launches are retried on the next load, the chain may not have caught up yet
+    const unverified: string[] = result.unverified || [];
+    TokenStorage.markTokensSynced(
+      creator,
+      unsynced.map(token => token.mintAddress).filter(mintAddress => !unverified.includes(mintAddress))
+    );
+  };
+
+  const loadTokens = async () => {
     setIsLoading(true);
+    setSyncError('');
     try {
-      const allTokens = TokenStorage.getAllTokens();
-      const networkTokens = allTokens.filter(token => token.network === network);
-      setTokens(networkTokens);
-      setFilteredTokens(networkTokens);
+      if (!publicKey) {
+        // Without a wallet only the history saved in this browser is available
+        const networkTokens = TokenStorage.getTokensByNetwork(network).map(token => TokenStorage.toLaunchRecord(token));
+        setTokens(networkTokens);
+        setFilteredTokens(networkTokens);
+        return;
+      }
+
+      const creator = publicKey.toString();
+      // Registering launches needs a session for the creator wallet
+      if (isSignedIn) {
+        try {
+          await migrateStoredTokens(creator);
+        } catch (error) {
+          console.error('Error migrating saved tokens:', error);
+          setSyncError('Some tokens saved in this browser could not be synced, they will be retried on the next load.');
+        }
+      }
+
+      const response = await fetch(`/api/launches?creator=${creator}&network=${network}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load launches: ${response.status}`);
+      }
+      const data = await response.json();
+      setTokens(data.tokens);
+      setFilteredTokens(data.tokens);
     } catch (error) {
       console.error('Error loading tokens:', error);
+      setSyncError('Could not load your launch history from the server.');
     } finally {
       setIsLoading(false);
     }
@@ -95,7 +149,7 @@ const MyTokens: React.FC = () => {
           comparison = a.name.localeCompare(b.name);
           break;
         case 'supply':
-          comparison = a.supply - b.supply;
+          comparison = (a.supply || 0) - (b.supply || 0);
           break;
         default:
           comparison = 0;
@@ -107,11 +161,25 @@ const MyTokens: React.FC = () => {
     setFilteredTokens(filtered);
   };
 
-  const deleteToken = (tokenId: string) => {
-    if (confirm('Are you sure you want to delete this token from your saved list?')) {
-      TokenStorage.deleteToken(tokenId);
-      loadTokens();
+  const deleteToken = async (token: LaunchedToken) => {
+    if (!confirm('Are you sure you want to delete this token from your saved list?')) {
+      return;
+    }
+
+    TokenStorage.deleteToken(token.mintAddress);
+    if (publicKey && isSignedIn) {
+      try {
+        const params = new URLSearchParams({ mintAddress: token.mintAddress, network: token.network, creator: publicKey.toString() });
+        const response = await fetch(`/api/launches?${params}`, { method: 'DELETE' });
+        if (!response.ok && response.status !== 404) {
+          throw new Error(`Delete failed with status ${response.status}`);
+        }
+      } catch (error) {
+        console.error('Error deleting launch:', error);
+        setSyncError('The token could not be removed from the server.');
+      }
     }
+    loadTokens();
   };
 
   const exportTokens = () => {
@@ -158,12 +226,17 @@ const MyTokens: React.FC = () => {
 
 
 
-  const formatDate = (timestamp: string) => {
+  const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleString();
   };
 
-  const formatSupply = (supply: number) => {
-    return supply.toLocaleString();
+  const formatSupply = (supply?: number) => {
+    return supply !== undefined ? supply.toLocaleString() : 'Unknown';
+  };
+
+  const getExplorerUrl = (token: LaunchedToken) => {
+    return token.explorerUrl
+      || `https://explorer.solana.com/address/${token.mintAddress}${token.network === 'testnet' ? '?cluster=testnet' : ''}`;
   };
 
   const copyToClipboard = (text: string) => {
@@ -227,6 +300,28 @@ const MyTokens: React.FC = () => {
           </div>
         </div>
 
+        {/* Launch registry sync status */}
+        {activeTab === 'created' && (syncError || !isSignedIn) && (
+          <div className={`flex items-center justify-between gap-4 rounded-xl p-4 mb-6 text-sm ${
+            syncError ? 'bg-red-500/20 text-red-200' : 'bg-blue-500/20 text-blue-200'
+          }`}>
+            <span>
+              {syncError || (connected
+                ? 'Sign in with your wallet to sync tokens saved in this browser to your launch history.'
+                : 'Showing tokens saved in this browser. Connect your wallet to sync your launch history across devices.')}
+            </span>
+            {connected && !isSignedIn && (
+              <button
+                onClick={signIn}
+                disabled={isSigningIn}
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded-lg transition-colors whitespace-nowrap"
+              >
+                {isSigningIn ? 'Signing in...' : 'Sign in'}
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Filters - Only show for created tokens */}
         {activeTab === 'created' && (
           <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 mb-6">
@@ -338,7 +433,7 @@ const MyTokens: React.FC = () => {
                   if ((e.target as HTMLElement).closest('button, a')) {
                     return;
                   }
-                  window.open(token.explorerUrl, '_blank');
+                  window.open(getExplorerUrl(token), '_blank');
                 }}
               >
                 {/* Token Header */}
@@ -356,7 +451,7 @@ const MyTokens: React.FC = () => {
                       {token.network.toUpperCase()}
                     </span>
                     <button
-                      onClick={() => deleteToken(token.id)}
+                      onClick={() => deleteToken(token)}
                       className="text-red-400 hover:text-red-300 transition-colors"
                       title="Delete token"
                     >
@@ -393,6 +488,21 @@ const MyTokens: React.FC = () => {
                     <p className="text-white text-sm">{formatDate(token.timestamp)}</p>
                   </div>
 
+                  {token.pumpFunData && (
+                    <div>
+                      <label className="text-xs text-gray-400 uppercase tracking-wide">Bonding Curve</label>
+                      <p className="text-white text-sm">
+                        {token.pumpFunData.migrationPool
+                          ? `Graduated to ${token.pumpFunData.migrationVenue === 'raydium' ? 'Raydium' : 'PumpSwap'}`
+                          : token.pumpFunData.migrationLookupFailedAt
+                            ? 'Complete, migration pool not found'
+                            : token.pumpFunData.complete
+                              ? 'Complete, awaiting migration'
+                              : `${(token.pumpFunData.bondingCurveProgress || 0).toFixed(1)}% to graduation`}
+                      </p>
+                    </div>
+                  )}
+
                   {token.description && (
                     <div>
                       <label className="text-xs text-gray-400 uppercase tracking-wide">Description</label>
@@ -454,20 +564,31 @@ const MyTokens: React.FC = () => {
                 {/* Action Buttons */}
                 <div className="flex gap-2">
                   <a
-                    href={token.explorerUrl}
+                    href={getExplorerUrl(token)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="flex-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors text-center"
                   >
                     View on Explorer
                   </a>
-                  <button
-                    onClick={() => copyToClipboard(token.transactionSignature)}
-                    className="px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white text-sm font-medium rounded-lg transition-colors"
-                    title="Copy transaction signature"
-                  >
-                    📋
-                  </button>
+                  {publicKey && (
+                    <a
+                      href={`/manage/${token.mintAddress}`}
+                      className="px-3 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium rounded-lg transition-colors text-center"
+                      title="Mint, burn, edit metadata or change authorities"
+                    >
+                      Manage
+                    </a>
+                  )}
+                  {token.transactionSignature && (
+                    <button
+                      onClick={() => copyToClipboard(token.transactionSignature!)}
+                      className="px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white text-sm font-medium rounded-lg transition-colors"
+                      title="Copy transaction signature"
+                    >
+                      📋
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
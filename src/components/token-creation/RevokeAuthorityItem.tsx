@@ -16,6 +16,9 @@ const RevokeAuthorityItem = ({
   setTokenMetaData: Dispatch<SetStateAction<TokenMetaDataType>>;
   onClick?: () => void;
 }) => {
+  // The flags say whether the authority is kept, so a selected item is one that is off
+  const isSelected = !tokenMetaData[item.type];
+
   function handleItemClick() {
     setTokenMetaData((prev) => {
       return { ...prev, [item.type]: !tokenMetaData[item.type] };
@@ -24,7 +27,7 @@ const RevokeAuthorityItem = ({
   return (
     <div
       className={cn(
-        `${!!tokenMetaData[item.type] ? 'bg-gradient-to-tr from-cyan-400 to-purple-500' : 'bg-gradient-to-tr'}`,
+        `${isSelected ? 'bg-gradient-to-tr from-cyan-400 to-purple-500' : 'bg-gradient-to-tr'}`,
         'overflow-hidden font-medium text-text-main transition-all duration-300 ease-out group',
         'relative rounded-2xl flex items-start justify-center p-6',
         'hover:from-cyan-400 hover:to-purple-500'
@@ -41,8 +44,8 @@ const RevokeAuthorityItem = ({
         </div>
         <h4 className='font-medium text-gray-100 mb-2 transition-colors group-hover:text-cyan-500'>{item.title}</h4>
         <p className='text-text-secondary text-sm transition-colors group-hover:text-text-secondary'>{item.content}</p>
-        <SelectButton selected={!!tokenMetaData[item.type]} onClick={handleItemClick}>
-          {!!tokenMetaData[item.type] ? 'Selected' : 'Select to Revoke'}
+        <SelectButton selected={isSelected} onClick={handleItemClick}>
+          {isSelected ? 'Selected' : 'Select to Revoke'}
         </SelectButton>
       </div>
     </div>
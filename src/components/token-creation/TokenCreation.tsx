@@ -1,6 +1,6 @@
 'use client';
 
-import React, { Dispatch, SetStateAction, useState } from 'react';
+import React, { Dispatch, SetStateAction, useEffect, useState } from 'react';
 import { Globe, MessageCircle, Twitter } from 'lucide-react';
 import Progress from './Progress';
 import { GradientButton } from '../component/Button';
@@ -9,9 +9,18 @@ import ImageUpload from '../component/ImageUpload';
 import { TokenMetaDataType } from '@/lib/types';
 import ModifyCreatorInformation from './ModifyCreatorInformation';
 import RevokeAuthority from './RevokeAuthority';
+import TokenExtensions from './TokenExtensions';
 import { useWallet } from '@solana/wallet-adapter-react';
-import { Connection, LAMPORTS_PER_SOL, PublicKey, SystemProgram } from '@solana/web3.js';
-import { createTokenCreationTransaction, createAuthorityRevocationTransaction } from '@/lib/web3';
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, SystemProgram, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import {
+  AuthorityStep,
+  createTokenCreationTransaction,
+  applyAuthorityChanges,
+  getAuthorityRevocations,
+  TOKEN_AUTHORITY_LABELS,
+  validateTokenExtensions
+} from '@/lib/web3';
 import { uploadToIPFS } from '@/lib/ipfsUpload';
 import { AxiosProgressEvent } from 'axios';
 import Image from 'next/image';
@@ -19,8 +28,22 @@ import { useStateContext } from '@/provider/StateProvider';
 import { useNetwork } from '@/context/NetworkContext';
 import NetworkIndicator from '../ui/NetworkIndicator';
 import { TokenStorage, LaunchedToken } from '@/lib/localStorage';
-import { createPumpFunService, PumpFunTokenCreationOptions } from '@/lib/pumpfunService';
-import { Keypair } from '@solana/web3.js';
+
+// Follow-on buys previewed after the dev buy, in SOL
+const FOLLOW_ON_BUYS = [1, 5, 10];
+
+interface LaunchQuote {
+  quotes: Array<{
+    label?: string;
+    solAmount: number;
+    tokenAmount: number;
+    priceImpact: number;
+    supplyShare: number;
+    maxSolCost?: number;
+    capped: boolean;
+  }>;
+  progress: number;
+}
 
 const TokenCreation = ({
   setError,
@@ -41,9 +64,11 @@ const TokenCreation = ({
     decimals: 9,
     logo: undefined,
     enableCreator: true,
-    freezeable: true,
-    mintable: true,
-    updateable: true,
+    // All three authorities are selected for revocation by default
+    freezeable: false,
+    mintable: false,
+    updateable: false,
+    extensions: {},
     // PumpFun options
     usePumpFun: false,
     devBuyAmount: 1,
@@ -52,9 +77,45 @@ const TokenCreation = ({
     priorityFee: 0.0005,
   });
   const [isCreating, setIsCreating] = useState<boolean>(false);
-  const { publicKey, connected, sendTransaction } = useWallet();
+  // On-chain authorities read back after each revocation step of the last launch
+  const [authoritySteps, setAuthoritySteps] = useState<AuthorityStep[]>([]);
+  const [revocationError, setRevocationError] = useState<string>('');
+  const { publicKey, connected, sendTransaction, signTransaction } = useWallet();
   const { configData } = useStateContext();
   const { rpcUrl, network } = useNetwork();
+  const [launchQuote, setLaunchQuote] = useState<LaunchQuote | null>(null);
+
+  // Preview the dev buy and follow-on buys on a fresh bonding curve
+  useEffect(() => {
+    if (!tokenMetaData.usePumpFun) {
+      setLaunchQuote(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/pumpfun/quote', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            devBuyAmount: Number(tokenMetaData.devBuyAmount || 1),
+            slippage: Number(tokenMetaData.slippage || 10),
+            trades: FOLLOW_ON_BUYS.map(amount => ({ side: 'buy', amount }))
+          }),
+          signal: controller.signal
+        });
+        setLaunchQuote(response.ok ? await response.json() : null);
+      } catch {
+        // Aborted or offline, keep the last preview
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [tokenMetaData.usePumpFun, tokenMetaData.devBuyAmount, tokenMetaData.slippage]);
 
   // If user clicks next or create token button
   async function handleNextOrCreateClick() {
@@ -63,23 +124,23 @@ const TokenCreation = ({
         setCurrentProgress(currentProgress + 1);
       } else if (currentProgress === 4) {
         setIsCreating(true);
+        setAuthoritySteps([]);
+        setRevocationError('');
         
         // Create connection for both PumpFun and traditional tokens
         const connection = new Connection(rpcUrl, 'confirmed');
         
-        // Only check connected wallet if NOT using PumpFun
-        if (!tokenMetaData.usePumpFun) {
-          if (!(publicKey && connected && sendTransaction)) {
-            throw new Error(`Please connect wallet!`);
-          }
+        // The connected wallet pays for and signs every launch, PumpFun ones included
+        if (!(publicKey && connected && sendTransaction)) {
+          throw new Error(`Please connect wallet!`);
+        }
 
-          const balance = await connection.getBalance(publicKey);
+        const balance = await connection.getBalance(publicKey);
 
-          // Check if wallet has sufficient SOL for transaction
-          const minimumBalance = 0.01 * LAMPORTS_PER_SOL; // Minimum 0.01 SOL required
-          if (balance < minimumBalance) {
-            throw new Error(`Insufficient SOL balance. You need at least 0.01 SOL to create a token. Current balance: ${(balance / LAMPORTS_PER_SOL).toFixed(4)} SOL. Please add SOL to your wallet.`);
-          }
+        // Check if wallet has sufficient SOL for transaction, PumpFun launches also pay the dev buy
+        const minimumBalance = (0.01 + (tokenMetaData.usePumpFun ? Number(tokenMetaData.devBuyAmount || 0) : 0)) * LAMPORTS_PER_SOL;
+        if (balance < minimumBalance) {
+          throw new Error(`Insufficient SOL balance. You need at least ${(minimumBalance / LAMPORTS_PER_SOL).toFixed(4)} SOL to create this token. Current balance: ${(balance / LAMPORTS_PER_SOL).toFixed(4)} SOL. Please add SOL to your wallet.`);
         }
 
         if (!tokenMetaData.logo) {
@@ -96,52 +157,85 @@ const TokenCreation = ({
         let metadataUri: string = '';
 
         if (tokenMetaData.usePumpFun) {
-          // PumpFun token creation using Lightning Transaction API
+          // PumpFun token creation using the Local Transaction API, signed by the connected wallet
           try {
             // Validate network for PumpFun (they support mainnet and testnet)
             if (!['mainnet', 'testnet'].includes(network)) {
               throw new Error(`Invalid network for PumpFun: ${network}. Expected 'mainnet' or 'testnet'.`);
             }
-            
-            const pumpFunNetwork = network as 'mainnet' | 'testnet';
-            
-            const pumpFunService = createPumpFunService(pumpFunNetwork);
+
+            // The mint keypair never leaves the browser, the server only sees its public key
             const mintKeypair = Keypair.generate();
-            
-            const pumpFunOptions: PumpFunTokenCreationOptions = {
-              tokenMetadata: tokenMetaData,
-              network: pumpFunNetwork,
-              devBuyAmount: tokenMetaData.devBuyAmount || 1,
-              slippage: tokenMetaData.slippage || 10,
-              priorityFee: tokenMetaData.priorityFee || 0.0005,
-              useJitoBundling: tokenMetaData.useJitoBundling || false,
-              imageFile: tokenMetaData.logo
-            };
+
+            const buildResponse = await fetch('/api/pumpfun/create', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                action: 'build',
+                publicKey: publicKey.toString(),
+                mint: mintKeypair.publicKey.toString(),
+                network,
+                name: tokenMetaData.name,
+                symbol: tokenMetaData.symbol,
+                description: tokenMetaData.description,
+                website: tokenMetaData.website,
+                twitter: tokenMetaData.twitter,
+                telegram: tokenMetaData.telegram,
+                imageUrl: logo,
+                devBuyAmount: Number(tokenMetaData.devBuyAmount ?? 1),
+                slippage: Number(tokenMetaData.slippage || 10),
+                priorityFee: Number(tokenMetaData.priorityFee || 0.0005)
+              })
+            });
+            const built = await buildResponse.json();
+            if (!buildResponse.ok) {
+              throw new Error(built.message || built.error);
+            }
+
+            const transaction = VersionedTransaction.deserialize(bs58.decode(built.transaction));
+            transaction.sign([mintKeypair]);
 
             if (tokenMetaData.useJitoBundling) {
-              // Use Jito bundling for MEV protection
-              const additionalSigners: Keypair[] = []; // Add additional wallets if needed
-              const result = await pumpFunService.createTokenWithJitoBundle(
-                pumpFunOptions,
-                additionalSigners,
-                mintKeypair
-              );
-              signature = result.signatures[0];
-              mint = new PublicKey(result.mint);
-              metadataUri = ''; // PumpFun handles metadata internally
+              // Use Jito bundling for MEV protection, the server only forwards the signed transaction
+              if (!signTransaction) {
+                throw new Error('Your wallet does not support signing transactions for Jito bundles.');
+              }
+              const signed = await signTransaction(transaction);
+
+              const bundleResponse = await fetch('/api/pumpfun/create', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                  action: 'bundle',
+                  network,
+                  transactions: [bs58.encode(signed.serialize())]
+                })
+              });
+              const bundle = await bundleResponse.json();
+              if (!bundleResponse.ok) {
+                throw new Error(bundle.message || bundle.error);
+              }
+              signature = bundle.signatures[0];
             } else {
-              // Use Lightning Transaction API for direct creation
-              const result = await pumpFunService.createTokenWithLightning(
-                pumpFunOptions,
-                mintKeypair
-              );
-              signature = result.signature;
-              mint = new PublicKey(result.mint);
-              metadataUri = ''; // PumpFun handles metadata internally
+              signature = await sendTransaction(transaction, connection, {
+                skipPreflight: false,
+                preflightCommitment: 'confirmed'
+              });
+
+              const confirmation = await connection.confirmTransaction(signature, 'confirmed');
+              if (confirmation.value.err) {
+                throw new Error(`Transaction failed during confirmation: ${JSON.stringify(confirmation.value.err)}`);
+              }
             }
+
+            mint = mintKeypair.publicKey;
+            metadataUri = built.metadataUri;
           } catch (pumpFunError) {
             // Handle PumpFun specific errors
             const errorMessage = pumpFunError instanceof Error ? pumpFunError.message : 'Unknown PumpFun error';
+            if (errorMessage.includes('User rejected the request.')) {
+              throw new Error('Transaction was canceled by the user.');
+            }
             throw new Error(`PumpFun token creation failed: ${errorMessage}`);
           }
         } else {
@@ -173,10 +267,7 @@ const TokenCreation = ({
           });
 
           // Create token creation transaction
-          if (!publicKey) {
-            throw new Error('Wallet not connected for traditional token creation.');
-          }
-          const { transaction, signers, mint: tokenMint } = await createTokenCreationTransaction(connection, tokenMetaData, publicKey, metadataUri);
+          const { transaction, supplyTransaction, signers, mint: tokenMint } = await createTokenCreationTransaction(connection, tokenMetaData, publicKey, metadataUri);
 
           if (!transaction || !tokenMint) {
             throw new Error('Error while building the token creation transaction.');
@@ -198,32 +289,38 @@ const TokenCreation = ({
             throw new Error(`Transaction failed during confirmation: ${JSON.stringify(confirmation.value.err)}`);
           }
 
-          // Handle authority revocation in a separate transaction if needed
-          if (!tokenMetaData.updateable || !tokenMetaData.mintable) {
-            if (!publicKey) {
-              throw new Error('Wallet not connected for authority revocation.');
+          // The initial supply did not fit next to the extensions, mint it before any authority is revoked
+          if (supplyTransaction) {
+            const supplySignature = await sendTransaction(supplyTransaction, connection, {
+              skipPreflight: false,
+              preflightCommitment: 'confirmed'
+            });
+            const supplyConfirmation = await connection.confirmTransaction(supplySignature, 'confirmed');
+            if (supplyConfirmation.value.err) {
+              throw new Error(`Minting the initial supply failed: ${JSON.stringify(supplyConfirmation.value.err)}`);
             }
-            const { transaction: revocationTx } = await createAuthorityRevocationTransaction(
-              connection, 
-              tokenMetaData, 
-              publicKey, 
-              mint
-            );
-
-            if (revocationTx && revocationTx.instructions.length > 0) {
-              try {
-                const revocationSignature = await sendTransaction(revocationTx, connection, {
+          }
+
+          // Revoke one authority per transaction and show the on-chain state after each step
+          const revocations = getAuthorityRevocations(tokenMetaData);
+          if (revocations.length > 0) {
+            try {
+              await applyAuthorityChanges(
+                connection,
+                mint,
+                publicKey,
+                revocations,
+                (revocationTx) => sendTransaction(revocationTx, connection, {
                   skipPreflight: false,
                   preflightCommitment: 'confirmed'
-                });
-                
-                const revocationConfirmation = await connection.confirmTransaction(revocationSignature, 'confirmed');
-                if (revocationConfirmation.value.err) {
-                  // Authority revocation failed, but token was created successfully
-                }
-              } catch {
-                // Authority revocation failed, but token was created successfully
-              }
+                }),
+                (step) => setAuthoritySteps(prev => [...prev, step])
+              );
+            } catch (revocationFailure) {
+              // The token was created successfully, what is left can be revoked from its manage page
+              setRevocationError(
+                `Authority revocation stopped: ${revocationFailure instanceof Error ? revocationFailure.message : 'Unknown error'}`
+              );
             }
           }
         }
@@ -266,6 +363,46 @@ const TokenCreation = ({
           
           // Save to local storage
           TokenStorage.saveToken(tokenData);
+
+          // Have the server follow the bonding curve until the token graduates
+          const watchGraduation = () => fetch('/api/pumpfun/graduations', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              action: 'watch',
+              network,
+              mintAddress: mint.toString(),
+              name: tokenMetaData.name,
+              symbol: tokenMetaData.symbol
+            })
+          }).catch(watchError => {
+            console.error('Error registering launch with the graduation watcher:', watchError);
+          });
+
+          // Register the launch with the server-side registry of the connected wallet,
+          // which also watches pump.fun launches
+          const creator = publicKey.toString();
+          fetch('/api/launches', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              creator,
+              token: {
+                ...TokenStorage.toLaunchRecord(tokenData),
+                isPumpFun: tokenMetaData.usePumpFun || false,
+                tokenType: tokenMetaData.usePumpFun ? 'pumpfun' : 'spl'
+              }
+            })
+          }).then(response => {
+            if (response.ok) {
+              TokenStorage.markTokensSynced(creator, [tokenData.mintAddress]);
+            } else if (tokenMetaData.usePumpFun) {
+              // Wallets without a session cannot register launches
+              watchGraduation();
+            }
+          }).catch(registryError => {
+            console.error('Error registering launch:', registryError);
+          });
           
           setMintAddress(mint.toString());
           setIsCreating(false);
@@ -482,6 +619,46 @@ const TokenCreation = ({
                       </label>
                     </div>
                     
+                    {launchQuote && launchQuote.quotes.length > 0 && (
+                      <div className='bg-gray-700/50 border border-gray-600 rounded-lg p-3 space-y-3'>
+                        <div>
+                          <p className='text-sm font-medium text-text-main'>Dev buy preview</p>
+                          <p className='text-sm text-text-secondary'>
+                            {launchQuote.quotes[0].tokenAmount.toLocaleString(undefined, { maximumFractionDigits: 0 })} tokens
+                            ({launchQuote.quotes[0].supplyShare.toFixed(2)}% of supply) for {launchQuote.quotes[0].solAmount.toFixed(4)} SOL,
+                            price impact {launchQuote.quotes[0].priceImpact.toFixed(2)}%.
+                            Max cost with slippage: {(launchQuote.quotes[0].maxSolCost || 0).toFixed(4)} SOL.
+                          </p>
+                        </div>
+                        <div>
+                          <p className='text-sm font-medium text-text-main mb-1'>Follow-on buys</p>
+                          <table className='w-full text-sm text-text-secondary'>
+                            <thead>
+                              <tr className='text-left'>
+                                <th className='font-medium'>Buy</th>
+                                <th className='font-medium'>Tokens</th>
+                                <th className='font-medium'>Supply</th>
+                                <th className='font-medium'>Price impact</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {launchQuote.quotes.slice(1).map((quote, index) => (
+                                <tr key={index}>
+                                  <td>{quote.solAmount.toFixed(2)} SOL</td>
+                                  <td>{quote.tokenAmount.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                                  <td>{quote.supplyShare.toFixed(2)}%</td>
+                                  <td>{quote.priceImpact.toFixed(2)}%{quote.capped && ' (curve completes)'}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          <p className='text-xs text-text-secondary mt-1'>
+                            Bonding curve progress after these buys: {launchQuote.progress.toFixed(1)}%
+                          </p>
+                        </div>
+                      </div>
+                    )}
+
                     <div className='bg-cyan-500/10 border border-cyan-500/30 rounded-lg p-3'>
                       <p className='text-sm text-cyan-400'>
                         <strong>PumpFun Mode:</strong> Creates tokens using PumpFun program addresses with enhanced features like bonding curves and automatic liquidity.
@@ -542,6 +719,9 @@ const TokenCreation = ({
           {/* Progress IV */}
           {currentProgress === 4 && (
             <div>
+              {!tokenMetaData.usePumpFun && (
+                <TokenExtensions setTokenMetaData={setTokenMetaData} tokenMetaData={tokenMetaData} />
+              )}
               <RevokeAuthority setTokenMetaData={setTokenMetaData} tokenMetaData={tokenMetaData} />
             </div>
           )}
@@ -556,6 +736,7 @@ const TokenCreation = ({
                   (currentProgress === 1 && (!!tokenMetaData.name === false || !!tokenMetaData.symbol === false || !!tokenMetaData.logo === false)) ||
                   (currentProgress === 2 && (!!tokenMetaData.decimals === false || !!tokenMetaData.supply === false)) ||
                   (currentProgress === 3 && tokenMetaData.enableCreator === true && (!!tokenMetaData.creatorName === false || !!tokenMetaData.creatorWebsite === false)) ||
+                  (currentProgress === 4 && !tokenMetaData.usePumpFun && !!validateTokenExtensions(tokenMetaData)) ||
                   isCreating
                 }
               >
@@ -564,6 +745,20 @@ const TokenCreation = ({
               </GradientButton>
             </div>
           )}
+
+          {/* Authorities after each revocation step */}
+          {(authoritySteps.length > 0 || revocationError) && (
+            <div className='mt-4 space-y-1 text-sm'>
+              <h3 className='text-text-secondary font-medium'>Authority revocation</h3>
+              {authoritySteps.map(step => (
+                <p key={step.signature} className='text-text-secondary'>
+                  {TOKEN_AUTHORITY_LABELS[step.change.authority]} authority:{' '}
+                  <span className='font-mono'>{step.state[step.change.authority]?.toString() || 'Revoked'}</span>
+                </p>
+              ))}
+              {revocationError && <p className='text-red-400'>{revocationError}</p>}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,182 @@
+import { TokenExtensionsType, TokenMetaDataType } from '@/lib/types';
+import { Dispatch, ReactNode, SetStateAction } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { validateTokenExtensions } from '@/lib/web3';
+
+// Fee cap in whole tokens, a zero cap would charge nothing
+const DEFAULT_TRANSFER_FEE = { basisPoints: 100, maxFee: 1000 };
+
+const inputClass =
+  'w-full bg-gray-700 border border-dark-500 rounded-lg px-3 md:px-4 py-2 md:py-2.5 text-text-main placeholder:text-dark-200 focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition';
+
+const ExtensionOption = ({
+  id,
+  title,
+  content,
+  checked,
+  onToggle,
+  children,
+}: {
+  id: string;
+  title: string;
+  content: string;
+  checked: boolean;
+  onToggle: (checked: boolean) => void;
+  children?: ReactNode;
+}) => {
+  return (
+    <div className='space-y-3'>
+      <div className='flex items-start space-x-3'>
+        <input
+          type='checkbox'
+          id={id}
+          checked={checked}
+          onChange={(e) => onToggle(e.target.checked)}
+          className='mt-1 w-4 h-4 text-cyan-500 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500'
+        />
+        <label htmlFor={id}>
+          <span className='block text-text-main font-medium'>{title}</span>
+          <span className='block text-text-secondary text-sm'>{content}</span>
+        </label>
+      </div>
+      {checked && children && <div className='grid grid-cols-1 md:grid-cols-2 gap-4 pl-7'>{children}</div>}
+    </div>
+  );
+};
+
+const TokenExtensions = ({
+  tokenMetaData,
+  setTokenMetaData,
+}: {
+  tokenMetaData: TokenMetaDataType;
+  setTokenMetaData: Dispatch<SetStateAction<TokenMetaDataType>>;
+}) => {
+  const { publicKey } = useWallet();
+  const extensions = tokenMetaData.extensions || {};
+  const validationError = validateTokenExtensions(tokenMetaData);
+
+  function updateExtensions(update: Partial<TokenExtensionsType>) {
+    setTokenMetaData((prev) => ({ ...prev, extensions: { ...prev.extensions, ...update } }));
+  }
+
+  return (
+    <div className='mb-8'>
+      <h3 className='text-lg text-text-secondary font-medium mb-4'>Token Extensions</h3>
+      <p className='text-text-secondary text-sm mb-6'>
+        Optional Token-2022 features. They are set when the mint is created and cannot be added afterwards.
+      </p>
+      <div className='space-y-5'>
+        <ExtensionOption
+          id='transferFee'
+          title='Transfer Fee'
+          content='Withhold a fee on every transfer, which your wallet can collect later.'
+          checked={!!extensions.transferFee}
+          onToggle={(checked) => updateExtensions({ transferFee: checked ? DEFAULT_TRANSFER_FEE : undefined })}
+        >
+          <div>
+            <label className='block text-text-secondary text-sm font-medium mb-2'>Fee (basis points)</label>
+            <input
+              className={inputClass}
+              type='number'
+              min={0}
+              value={extensions.transferFee?.basisPoints ?? 0}
+              onChange={(e) =>
+                updateExtensions({ transferFee: { ...DEFAULT_TRANSFER_FEE, ...extensions.transferFee, basisPoints: Number(e.target.value) } })
+              }
+            />
+            <label className='text-[#9CA3AF] text-sm mt-1'>100 basis points = 1%</label>
+          </div>
+          <div>
+            <label className='block text-text-secondary text-sm font-medium mb-2'>Maximum fee (tokens)</label>
+            <input
+              className={inputClass}
+              type='number'
+              min={0}
+              value={extensions.transferFee?.maxFee ?? 0}
+              onChange={(e) =>
+                updateExtensions({ transferFee: { ...DEFAULT_TRANSFER_FEE, ...extensions.transferFee, maxFee: Number(e.target.value) } })
+              }
+            />
+            <label className='text-[#9CA3AF] text-sm mt-1'>Most a single transfer is charged, whatever its size</label>
+          </div>
+        </ExtensionOption>
+
+        <ExtensionOption
+          id='nonTransferable'
+          title='Non-Transferable'
+          content='Soulbound tokens that stay in the account they were minted to.'
+          checked={!!extensions.nonTransferable}
+          onToggle={(checked) => updateExtensions({ nonTransferable: checked || undefined })}
+        />
+
+        <ExtensionOption
+          id='interestBearing'
+          title='Interest Bearing'
+          content='Wallets display balances with accrued interest; the supply itself does not change.'
+          checked={extensions.interestRate !== undefined}
+          onToggle={(checked) => updateExtensions({ interestRate: checked ? 500 : undefined })}
+        >
+          <div>
+            <label className='block text-text-secondary text-sm font-medium mb-2'>Yearly rate (basis points)</label>
+            <input
+              className={inputClass}
+              type='number'
+              value={extensions.interestRate ?? 0}
+              onChange={(e) => updateExtensions({ interestRate: Number(e.target.value) })}
+            />
+            <label className='text-[#9CA3AF] text-sm mt-1'>Negative rates shrink displayed balances</label>
+          </div>
+        </ExtensionOption>
+
+        <ExtensionOption
+          id='permanentDelegate'
+          title='Permanent Delegate'
+          content='A key that can transfer or burn tokens from any holder, e.g. for clawbacks.'
+          checked={extensions.permanentDelegate !== undefined}
+          onToggle={(checked) => updateExtensions({ permanentDelegate: checked ? publicKey?.toString() || '' : undefined })}
+        >
+          <div className='md:col-span-2'>
+            <label className='block text-text-secondary text-sm font-medium mb-2'>Delegate public key</label>
+            <input
+              className={inputClass}
+              value={extensions.permanentDelegate || ''}
+              placeholder='Defaults to your wallet'
+              onChange={(e) => updateExtensions({ permanentDelegate: e.target.value })}
+            />
+          </div>
+        </ExtensionOption>
+
+        <ExtensionOption
+          id='defaultAccountState'
+          title='Default Account State'
+          content='Choose whether new token accounts start frozen until the freeze authority thaws them.'
+          checked={!!extensions.defaultAccountState}
+          onToggle={(checked) => updateExtensions({ defaultAccountState: checked ? 'frozen' : undefined })}
+        >
+          <div>
+            <label className='block text-text-secondary text-sm font-medium mb-2'>New accounts</label>
+            <select
+              className={inputClass}
+              value={extensions.defaultAccountState || 'frozen'}
+              onChange={(e) => updateExtensions({ defaultAccountState: e.target.value as TokenExtensionsType['defaultAccountState'] })}
+            >
+              <option value='frozen'>Frozen</option>
+              <option value='initialized'>Usable</option>
+            </select>
+          </div>
+        </ExtensionOption>
+
+        <ExtensionOption
+          id='requireMemoTransfers'
+          title='Required Memo'
+          content='Transfers into your own token account must include a memo.'
+          checked={!!extensions.requireMemoTransfers}
+          onToggle={(checked) => updateExtensions({ requireMemoTransfers: checked || undefined })}
+        />
+      </div>
+      {validationError && <p className='text-sm text-red-400 mt-4'>{validationError}</p>}
+    </div>
+  );
+};
+
+export default TokenExtensions;
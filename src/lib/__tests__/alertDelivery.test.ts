@@ -0,0 +1,187 @@
+import http from 'http';
+import net from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AlertChannel, AlertDispatcherService, signWebhookPayload, validateAlertChannel } from '../alertDelivery';
+import { WalletAlert } from '../walletTrackerDb';
+
+const { db } = vi.hoisted(() => ({
+  db: {
+    saveAlertDelivery: vi.fn(),
+    getAlertChannels: vi.fn(),
+  },
+}));
+
+vi.mock('../walletTrackerDb', () => ({ getWalletTrackerDb: async () => db }));
+
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+interface StandInServer {
+  baseUrl: string;
+  requests: ReceivedRequest[];
+  close: () => Promise<void>;
+}
+
+// HTTP server that records requests and answers each with the next scripted reply
+async function startHttpServer(replies: Array<{ status: number; body?: unknown }>): Promise<StandInServer> {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      requests.push({ url: req.url || '', headers: req.headers, body });
+      const reply = replies[Math.min(requests.length, replies.length) - 1];
+      res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply.body ?? {}));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+const alert: WalletAlert = {
+  id: 'alert_1',
+  workspaceId: 'team-a',
+  walletAddress: 'GVpUDWG2hyqSy7eeMHkHgkDJGvpigLv1T67Zao82RJVK',
+  type: 'large_transaction',
+  title: 'Large Transaction',
+  message: 'Wallet moved 250 USDC',
+  severity: 'high',
+  isRead: false,
+  createdAt: new Date('2024-10-19T08:00:00Z'),
+  network: 'mainnet',
+};
+
+function channel(type: AlertChannel['type'], settings: AlertChannel['settings'], maxAttempts = 1): AlertChannel {
+  return {
+    id: `channel_${type}`,
+    workspaceId: 'team-a',
+    name: `${type} channel`,
+    type,
+    isActive: true,
+    settings,
+    maxAttempts,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+}
+
+describe('AlertDispatcherService', () => {
+  let server: StandInServer | null = null;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await server?.close();
+    server = null;
+  });
+
+  it('signs webhook deliveries so receivers can verify them', async () => {
+    server = await startHttpServer([{ status: 200 }]);
+    const dispatcher = new AlertDispatcherService();
+
+    const delivery = await dispatcher.deliver(alert, channel('webhook', {
+      url: `${server.baseUrl}/hooks/alerts`,
+      secret: 'shared-secret',
+      headers: { 'X-Team': 'ops' },
+    }));
+
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, alertId: 'alert_1' });
+    const [request] = server.requests;
+    expect(request.url).toBe('/hooks/alerts');
+    expect(request.headers['x-team']).toBe('ops');
+    expect(request.headers['x-tokenup-delivery']).toBe(delivery.id);
+
+    const timestamp = request.headers['x-tokenup-timestamp'] as string;
+    expect(request.headers['x-tokenup-signature']).toBe(`sha256=${signWebhookPayload('shared-secret', timestamp, request.body)}`);
+    expect(JSON.parse(request.body)).toMatchObject({ event: 'wallet_alert', deliveryId: delivery.id, alert: { id: 'alert_1' } });
+  });
+
+  it('signs over the exact body, so a changed payload no longer verifies', () => {
+    const body = JSON.stringify({ event: 'wallet_alert', alert });
+    const signature = signWebhookPayload('shared-secret', '1729324800', body);
+
+    expect(signature).toMatch(/^[0-9a-f]{64}$/);
+    expect(signWebhookPayload('shared-secret', '1729324800', body.replace('250', '251'))).not.toBe(signature);
+    expect(signWebhookPayload('shared-secret', '1729324801', body)).not.toBe(signature);
+    expect(signWebhookPayload('other-secret', '1729324800', body)).not.toBe(signature);
+  });
+
+  it('retries failed deliveries and records each attempt', async () => {
+    server = await startHttpServer([{ status: 503, body: { error: 'busy' } }, { status: 200 }]);
+    const dispatcher = new AlertDispatcherService();
+
+    const delivery = await dispatcher.deliver(alert, channel('webhook', { url: server.baseUrl }, 2));
+
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 2, lastError: undefined });
+    expect(server.requests).toHaveLength(2);
+    // Created, after the failed attempt and after the successful one
+    expect(db.saveAlertDelivery).toHaveBeenCalledTimes(3);
+  });
+
+  it('marks a delivery failed once its attempts run out', async () => {
+    server = await startHttpServer([{ status: 500, body: { error: 'boom' } }]);
+    const dispatcher = new AlertDispatcherService();
+
+    const delivery = await dispatcher.deliver(alert, channel('discord', { webhookUrl: server.baseUrl }));
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.lastError).toMatch(/^HTTP 500/);
+    expect(JSON.parse(server.requests[0].body).embeds[0]).toMatchObject({ title: 'Large Transaction', color: 0xf97316 });
+  });
+
+  it('treats a Telegram reply with ok: false as a failure', async () => {
+    server = await startHttpServer([{ status: 200, body: { ok: false, description: 'chat not found' } }]);
+    const dispatcher = new AlertDispatcherService();
+
+    const delivery = await dispatcher.deliver(alert, channel('telegram', {
+      botToken: '123:abc',
+      chatId: '42',
+      apiBaseUrl: server.baseUrl,
+    }));
+
+    expect(server.requests[0].url).toBe('/bot123:abc/sendMessage');
+    expect(delivery).toMatchObject({ status: 'failed', lastError: 'Telegram error: chat not found' });
+  });
+
+  it('only dispatches to channels whose routing matches the alert', async () => {
+    server = await startHttpServer([{ status: 200 }]);
+    const matching = channel('webhook', { url: `${server.baseUrl}/matching` });
+    const otherSeverity = { ...channel('webhook', { url: `${server.baseUrl}/other` }), id: 'other', severities: ['critical' as const] };
+    db.getAlertChannels.mockResolvedValue([matching, otherSeverity]);
+
+    const deliveries = await new AlertDispatcherService().dispatch(alert);
+
+    expect(db.getAlertChannels).toHaveBeenCalledWith('team-a', true);
+    expect(deliveries.map(delivery => delivery.channelId)).toEqual(['channel_webhook']);
+    expect(server.requests.map(request => request.url)).toEqual(['/matching']);
+  });
+});
+
+describe('validateAlertChannel', () => {
+  const webhook = { name: 'ops', type: 'webhook' as const, settings: { url: 'https://hooks.tokenup.test' } };
+
+  it('accepts a small whole number of attempts', () => {
+    expect(validateAlertChannel(webhook)).toBeNull();
+    expect(validateAlertChannel({ ...webhook, maxAttempts: 1 })).toBeNull();
+    expect(validateAlertChannel({ ...webhook, maxAttempts: 10 })).toBeNull();
+  });
+
+  it.each([0, 11, 1e9, 2.5, '3', 'many'])('rejects maxAttempts %j', maxAttempts => {
+    expect(validateAlertChannel({ ...webhook, maxAttempts: maxAttempts as number })).toBe('maxAttempts must be an integer from 1 to 10');
+  });
+});
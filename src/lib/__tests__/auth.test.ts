@@ -0,0 +1,172 @@
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import type { NextApiRequest } from 'next';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildSignInMessage,
+  consumeSignInChallenge,
+  createSessionToken,
+  createSignInChallenge,
+  getApiSession,
+  SESSION_COOKIE_NAME,
+  SESSION_TTL_SECONDS,
+  SignInChallenge,
+  verifySessionToken,
+  verifyWalletSignature,
+} from '../auth';
+
+// Nonce store with the parts of the MongoDB collection API that auth.ts uses
+const { nonces } = vi.hoisted(() => {
+  const stored: SignInChallenge[] = [];
+  return {
+    nonces: {
+      stored,
+      createIndex: async () => 'index',
+      insertOne: async (challenge: SignInChallenge) => {
+        stored.push(challenge);
+      },
+      findOneAndDelete: async (filter: { nonce: string; publicKey: string; expiresAt: { $gt: Date } }) => {
+        const index = stored.findIndex(challenge =>
+          challenge.nonce === filter.nonce &&
+          challenge.publicKey === filter.publicKey &&
+          challenge.expiresAt > filter.expiresAt.$gt
+        );
+        return index === -1 ? null : stored.splice(index, 1)[0];
+      },
+    },
+  };
+});
+
+vi.mock('../mongodb', () => ({
+  getMongoClient: async () => ({ db: () => ({ collection: () => nonces }) }),
+}));
+
+const AUTH_SECRET = 'test-secret-that-is-at-least-32-characters';
+
+// A wallet: its base58 address and a signer producing base58 signatures like wallet adapters do
+function createWallet(): { publicKey: string; signMessage: (message: string) => string } {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const raw = Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url');
+  return {
+    publicKey: new PublicKey(raw).toBase58(),
+    signMessage: (message: string) => bs58.encode(sign(null, Buffer.from(message, 'utf8'), privateKey as KeyObject)),
+  };
+}
+
+describe('verifyWalletSignature', () => {
+  const wallet = createWallet();
+  const message = buildSignInMessage('tokenup.test', wallet.publicKey, 'abc123', new Date('2024-10-19T08:00:00Z'));
+
+  it('accepts a signature of the message by the wallet', () => {
+    expect(verifyWalletSignature(message, wallet.signMessage(message), wallet.publicKey)).toBe(true);
+  });
+
+  it('rejects another message, another wallet and malformed input', () => {
+    const signature = wallet.signMessage(message);
+
+    expect(verifyWalletSignature(message.replace('abc123', 'abc124'), signature, wallet.publicKey)).toBe(false);
+    expect(verifyWalletSignature(message, signature, createWallet().publicKey)).toBe(false);
+    expect(verifyWalletSignature(message, 'not-base58-0OIl', wallet.publicKey)).toBe(false);
+    expect(verifyWalletSignature(message, signature, 'not-a-key')).toBe(false);
+  });
+});
+
+describe('session tokens', () => {
+  beforeEach(() => {
+    vi.stubEnv('AUTH_SECRET', AUTH_SECRET);
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-10-19T08:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('round-trips the wallet and lifetime', () => {
+    const session = verifySessionToken(createSessionToken('wallet-1'));
+
+    expect(session).toEqual({
+      publicKey: 'wallet-1',
+      issuedAt: Date.now(),
+      expiresAt: Date.now() + SESSION_TTL_SECONDS * 1000,
+    });
+  });
+
+  it('expires after its lifetime', () => {
+    const token = createSessionToken('wallet-1', 60);
+
+    vi.advanceTimersByTime(59_999);
+    expect(verifySessionToken(token)).not.toBeNull();
+    vi.advanceTimersByTime(1);
+    expect(verifySessionToken(token)).toBeNull();
+  });
+
+  it('rejects tokens with a changed payload or signed with another secret', () => {
+    const [header, , signature] = createSessionToken('wallet-1').split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'wallet-2', iat: 0, exp: 9_999_999_999 })).toString('base64url');
+    expect(verifySessionToken(`${header}.${forged}.${signature}`)).toBeNull();
+
+    const token = createSessionToken('wallet-1');
+    vi.stubEnv('AUTH_SECRET', `${AUTH_SECRET}-rotated`);
+    expect(verifySessionToken(token)).toBeNull();
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(verifySessionToken(undefined)).toBeNull();
+    expect(verifySessionToken('')).toBeNull();
+    expect(verifySessionToken('a.b')).toBeNull();
+    expect(verifySessionToken('a.b.c')).toBeNull();
+  });
+
+  it('refuses to sign with a missing or short secret', () => {
+    vi.stubEnv('AUTH_SECRET', 'too-short');
+    expect(() => createSessionToken('wallet-1')).toThrow('AUTH_SECRET must be set to at least 32 characters');
+  });
+
+  it('reads the session from the cookie or a bearer token', () => {
+    const token = createSessionToken('wallet-1');
+    const request = (cookies: Record<string, string>, authorization?: string) =>
+      ({ cookies, headers: { authorization } }) as unknown as NextApiRequest;
+
+    expect(getApiSession(request({ [SESSION_COOKIE_NAME]: token }))?.publicKey).toBe('wallet-1');
+    expect(getApiSession(request({}, `Bearer ${token}`))?.publicKey).toBe('wallet-1');
+    expect(getApiSession(request({}, token))).toBeNull();
+  });
+});
+
+describe('sign-in challenges', () => {
+  beforeEach(() => {
+    nonces.stored.length = 0;
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-10-19T08:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('puts the nonce and wallet into the message to sign', async () => {
+    const challenge = await createSignInChallenge('wallet-1', 'tokenup.test');
+
+    expect(challenge.nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(challenge.message).toBe(buildSignInMessage('tokenup.test', 'wallet-1', challenge.nonce, new Date()));
+    expect(challenge.expiresAt).toEqual(new Date(Date.now() + 5 * 60 * 1000));
+  });
+
+  it('can be consumed only once', async () => {
+    const challenge = await createSignInChallenge('wallet-1', 'tokenup.test');
+
+    expect(await consumeSignInChallenge(challenge.nonce, 'wallet-1')).toMatchObject({ nonce: challenge.nonce });
+    expect(await consumeSignInChallenge(challenge.nonce, 'wallet-1')).toBeNull();
+  });
+
+  it('is bound to its wallet and expires', async () => {
+    const challenge = await createSignInChallenge('wallet-1', 'tokenup.test');
+    expect(await consumeSignInChallenge(challenge.nonce, 'wallet-2')).toBeNull();
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    expect(await consumeSignInChallenge(challenge.nonce, 'wallet-1')).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getInitialReserves,
+  simulateBuy,
+  simulateSell,
+  simulateTrades,
+  validateTradeStep,
+} from '../bondingCurveSimulator';
+import { INITIAL_REAL_TOKEN_RESERVES, INITIAL_VIRTUAL_TOKEN_RESERVES } from '../pumpfunCurve';
+
+describe('simulateBuy', () => {
+  it('quotes a buy on a fresh curve after the fee', () => {
+    const { quote, reserves } = simulateBuy(getInitialReserves(), 1, { slippage: 5 });
+
+    // 0.99 SOL reaches the curve: 1.073e15 - ceil(1.073e15 * 30e9 / 30.99e9) raw tokens
+    expect(quote.tokenAmount).toBe(34_277_831.558567);
+    expect(quote.fee).toBe(0.01);
+    expect(quote.solAmount).toBe(1);
+    expect(quote.maxSolCost).toBeCloseTo(1.05, 12);
+    expect(quote.priceBefore).toBeCloseTo(30 / 1_073_000_000, 18);
+    expect(quote.averagePrice).toBeGreaterThan(quote.priceBefore);
+    expect(quote.priceAfter).toBeGreaterThan(quote.averagePrice);
+    expect(quote.supplyShare).toBeCloseTo(3.4278, 4);
+    expect(quote.capped).toBe(false);
+
+    expect(reserves.realSolReserves).toBe(BigInt(990_000_000));
+    expect(reserves.virtualSolReserves).toBe(BigInt(30_990_000_000));
+  });
+
+  it('only spends what the remaining real reserves cost', () => {
+    const { quote, reserves } = simulateBuy(getInitialReserves(), 100);
+
+    expect(quote.capped).toBe(true);
+    expect(quote.tokenAmount).toBe(INITIAL_REAL_TOKEN_RESERVES / 1e6);
+    expect(reserves.realTokenReserves).toBe(BigInt(0));
+    expect(reserves.realSolReserves).toBe(BigInt(85_005_359_057));
+    // The fee is charged on the SOL actually spent
+    expect(quote.fee).toBeCloseTo(0.85863999, 9);
+    expect(quote.solAmount).toBeCloseTo(85.863999047, 9);
+  });
+});
+
+describe('simulateSell', () => {
+  it('pays out less than was spent when selling straight back', () => {
+    const buy = simulateBuy(getInitialReserves(), 1);
+    const { quote, reserves } = simulateSell(buy.reserves, buy.quote.tokenAmount, { slippage: 1 });
+
+    // Both fees are lost, and rounding leaves the last lamport on the curve
+    expect(quote.solAmount).toBe(0.9801);
+    expect(quote.fee).toBe(0.009899999);
+    expect(reserves.realSolReserves).toBe(BigInt(1));
+    expect(quote.minSolOutput).toBeCloseTo(quote.solAmount * 0.99, 12);
+    expect(quote.averagePrice).toBeLessThan(quote.priceBefore);
+    expect(quote.priceImpact).toBeGreaterThan(0);
+    expect(quote.capped).toBe(false);
+
+    expect(reserves.virtualTokenReserves).toBe(BigInt(INITIAL_VIRTUAL_TOKEN_RESERVES));
+  });
+
+  it('never pays out more SOL than the curve holds', () => {
+    const buy = simulateBuy(getInitialReserves(), 0.5);
+    const { quote, reserves } = simulateSell(buy.reserves, 500_000_000);
+
+    expect(quote.capped).toBe(true);
+    expect(reserves.realSolReserves).toBe(BigInt(0));
+    expect(quote.solAmount + quote.fee).toBeCloseTo(0.495, 9);
+  });
+});
+
+describe('simulateTrades', () => {
+  it('chains steps and stops quoting once the curve completes', () => {
+    const result = simulateTrades(getInitialReserves(), [
+      { side: 'buy', amount: 2, label: 'dev' },
+      { side: 'sell', amount: 10_000_000, label: 'sniper' },
+      { side: 'buy', amount: 200 },
+      { side: 'buy', amount: 1 },
+    ]);
+
+    expect(result.quotes.map(quote => quote.label)).toEqual(['dev', 'sniper', undefined]);
+    expect(result.complete).toBe(true);
+    expect(result.progress).toBe(100);
+    expect(result.netTokens).toBeCloseTo(INITIAL_REAL_TOKEN_RESERVES / 1e6, 6);
+    expect(result.netSupplyShare).toBeCloseTo(79.31, 6);
+    expect(result.endPrice).toBeGreaterThan(result.startPrice);
+  });
+});
+
+describe('validateTradeStep', () => {
+  it('requires a known side and a positive amount', () => {
+    expect(validateTradeStep({ side: 'buy', amount: 0.5 })).toBeNull();
+    expect(validateTradeStep({ side: 'hold' as never, amount: 1 })).toBe('Invalid side: hold. Supported sides: buy, sell');
+    expect(validateTradeStep({ side: 'sell', amount: 0 })).toBe('amount must be a positive number');
+    expect(validateTradeStep({ side: 'sell', amount: Infinity })).toBe('amount must be a positive number');
+  });
+});
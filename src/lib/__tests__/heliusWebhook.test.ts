@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HeliusTransaction } from '../helius';
+import { getTransactionAccounts, ingestHeliusTransactions, verifyHeliusWebhook } from '../heliusWebhook';
+import { TrackedWallet } from '../walletTracker';
+import delivery from './fixtures/helius-webhook-delivery.json';
+
+const { db, monitor } = vi.hoisted(() => ({
+  db: {
+    getWalletsByAddresses: vi.fn(),
+    getExistingActivitySignatures: vi.fn(),
+    saveWalletActivities: vi.fn(),
+  },
+  monitor: {
+    processWebhookActivities: vi.fn(),
+  },
+}));
+
+vi.mock('../walletTrackerDb', () => ({ getWalletTrackerDb: async () => db }));
+vi.mock('../walletMonitor', () => ({ getWalletMonitor: () => monitor }));
+
+const transactions = delivery as HeliusTransaction[];
+const [tokenTransfer, solTransfer] = transactions;
+
+const SENDER = 'GVpUDWG2hyqSy7eeMHkHgkDJGvpigLv1T67Zao82RJVK';
+const RECEIVER = 'HoHwmtobtoHgyYz596z2DnduLHdTzZRnLUvFPBBdDyc8';
+
+function trackedWallet(address: string, workspaceId = 'default', isActive = true): TrackedWallet {
+  return {
+    id: `wallet_${address}`,
+    workspaceId,
+    address,
+    name: address.slice(0, 8),
+    tags: [],
+    isActive,
+    createdAt: new Date(0),
+    lastUpdated: new Date(0),
+    lastActivity: new Date(0),
+    tokenCount: 0,
+    network: 'mainnet',
+  };
+}
+
+describe('verifyHeliusWebhook', () => {
+  beforeEach(() => {
+    vi.stubEnv('HELIUS_WEBHOOK_AUTH_TOKEN', 'whsec-test-token');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('accepts the configured auth token', () => {
+    expect(verifyHeliusWebhook('whsec-test-token')).toBe(true);
+  });
+
+  it('rejects a missing, different or truncated token', () => {
+    expect(verifyHeliusWebhook(undefined)).toBe(false);
+    expect(verifyHeliusWebhook('whsec-test-tokeN')).toBe(false);
+    expect(verifyHeliusWebhook('whsec-test')).toBe(false);
+    expect(verifyHeliusWebhook('Bearer whsec-test-token')).toBe(false);
+  });
+
+  it('rejects every delivery when no token is configured', () => {
+    vi.stubEnv('HELIUS_WEBHOOK_AUTH_TOKEN', '');
+    expect(verifyHeliusWebhook('')).toBe(false);
+    expect(verifyHeliusWebhook('whsec-test-token')).toBe(false);
+  });
+});
+
+describe('getTransactionAccounts', () => {
+  it('collects the fee payer, token owners and native transfer parties', () => {
+    const accounts = getTransactionAccounts(tokenTransfer);
+    expect(accounts).toEqual(expect.arrayContaining([
+      SENDER,
+      RECEIVER,
+      'FXvJyzEFW3qJC9RvkUxCcZJJBMke6E1CKjJMxxzfX6Pu',
+      'DFAisJkeugj3EEoEVxpgaeZn7KP17XETYxgubdhVJ2rC',
+    ]));
+    expect(new Set(accounts).size).toBe(accounts.length);
+
+    expect(getTransactionAccounts(solTransfer)).toEqual(
+      expect.arrayContaining([RECEIVER, 'EunvNNuLBppkLCNktgcSqBG5W92RhZgDnUfPcfjuYLVU'])
+    );
+  });
+
+  it('tolerates payloads without transfer arrays', () => {
+    const bare = { ...solTransfer, accountData: undefined, nativeTransfers: undefined, tokenTransfers: undefined };
+    expect(getTransactionAccounts(bare as unknown as HeliusTransaction)).toEqual([RECEIVER]);
+  });
+});
+
+describe('ingestHeliusTransactions', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    db.getExistingActivitySignatures.mockResolvedValue(new Set());
+  });
+
+  it('stores one activity per tracked wallet and workspace and evaluates it', async () => {
+    db.getWalletsByAddresses.mockImplementation(async (addresses: string[]) => [
+      trackedWallet(SENDER, 'team-a'),
+      trackedWallet(SENDER, 'team-b'),
+      trackedWallet(RECEIVER, 'team-a', false),
+    ].filter(wallet => addresses.includes(wallet.address)));
+
+    const result = await ingestHeliusTransactions(transactions, 'mainnet');
+
+    expect(result).toEqual({ transactions: 2, walletsMatched: 2, activitiesSaved: 2, duplicatesSkipped: 0 });
+    expect(db.saveWalletActivities).toHaveBeenCalledTimes(2);
+
+    const [workspaceId, walletAddress, activities] = monitor.processWebhookActivities.mock.calls[0];
+    expect(workspaceId).toBe('team-a');
+    expect(walletAddress).toBe(SENDER);
+    expect(activities).toHaveLength(1);
+    expect(activities[0]).toMatchObject({
+      signature: tokenTransfer.signature,
+      amount: 250,
+      mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      fromAddress: SENDER,
+      toAddress: RECEIVER,
+      timestamp: new Date(tokenTransfer.timestamp * 1000),
+    });
+  });
+
+  it('converts native transfers to SOL', async () => {
+    db.getWalletsByAddresses.mockImplementation(async (addresses: string[]) =>
+      addresses.includes(RECEIVER) && addresses.includes('EunvNNuLBppkLCNktgcSqBG5W92RhZgDnUfPcfjuYLVU')
+        ? [trackedWallet(RECEIVER)]
+        : []
+    );
+
+    await ingestHeliusTransactions([solTransfer], 'mainnet');
+
+    const [, , activities] = monitor.processWebhookActivities.mock.calls[0];
+    expect(activities[0]).toMatchObject({ type: 'sol_transfer', amount: 1.5, toAddress: 'EunvNNuLBppkLCNktgcSqBG5W92RhZgDnUfPcfjuYLVU' });
+  });
+
+  it('skips redelivered transactions', async () => {
+    db.getWalletsByAddresses.mockResolvedValue([trackedWallet(SENDER)]);
+    db.getExistingActivitySignatures.mockResolvedValue(new Set([tokenTransfer.signature]));
+
+    const result = await ingestHeliusTransactions([tokenTransfer], 'mainnet');
+
+    expect(result).toMatchObject({ activitiesSaved: 0, duplicatesSkipped: 1 });
+    expect(db.saveWalletActivities).not.toHaveBeenCalled();
+    expect(monitor.processWebhookActivities).not.toHaveBeenCalled();
+  });
+});
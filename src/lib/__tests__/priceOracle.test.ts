@@ -0,0 +1,149 @@
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HeliusService } from '../helius';
+import {
+  DEFAULT_PRICE_TTL_MS,
+  FixturePriceSource,
+  PriceOracleService,
+  PriceSource,
+  priceHoldings,
+  PumpFunCurvePriceSource,
+  TokenPrice,
+} from '../priceOracle';
+import { getBondingCurveAddress } from '../pumpfunCurve';
+import { WalletTokenHolding } from '../walletTracker';
+import curves from './fixtures/pumpfun-bonding-curves.json';
+
+const WALLET = 'GVpUDWG2hyqSy7eeMHkHgkDJGvpigLv1T67Zao82RJVK';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const UNPRICED = 'HoHwmtobtoHgyYz596z2DnduLHdTzZRnLUvFPBBdDyc8';
+
+// Fixture source under another name, with its calls recorded
+function namedSource(name: string, fixtures: Record<string, number | Partial<TokenPrice>>) {
+  const source = new FixturePriceSource(fixtures);
+  source.name = name;
+  return { source, getPrices: vi.spyOn(source, 'getPrices') };
+}
+
+function holding(mint: string, amount: number, decimals: number): WalletTokenHolding {
+  return { walletAddress: WALLET, mint, amount, decimals, tokenAccount: `ata_${mint}`, lastUpdated: new Date(0) };
+}
+
+describe('PriceOracleService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-10-19T08:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('asks each source only for the mints the previous ones could not price', async () => {
+    const primary = namedSource('primary', { [USDC]: 1 });
+    const fallback = namedSource('fallback', { [USDC]: 0.5, [BONK]: { priceUsd: 0.00002, priceChange24h: -3 } });
+    const oracle = new PriceOracleService([primary.source, fallback.source]);
+
+    const prices = await oracle.getPrices([USDC, BONK, UNPRICED, USDC]);
+
+    expect(primary.getPrices).toHaveBeenCalledWith([USDC, BONK, UNPRICED]);
+    expect(fallback.getPrices).toHaveBeenCalledWith([BONK, UNPRICED]);
+    expect(prices.get(USDC)).toMatchObject({ priceUsd: 1, source: 'primary' });
+    expect(prices.get(BONK)).toMatchObject({ priceUsd: 0.00002, priceChange24h: -3, source: 'fallback' });
+    expect(prices.has(UNPRICED)).toBe(false);
+  });
+
+  it('moves on to the next source when one fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing: PriceSource = { name: 'down', getPrices: vi.fn().mockRejectedValue(new Error('503')) };
+    const oracle = new PriceOracleService([failing, namedSource('fixture', { [USDC]: 1 }).source]);
+
+    expect((await oracle.getPrice(USDC))?.source).toBe('fixture');
+    expect(console.error).toHaveBeenCalledWith('Price source down failed:', expect.any(Error));
+  });
+
+  it('serves prices from cache until the TTL runs out', async () => {
+    const { source, getPrices } = namedSource('fixture', { [USDC]: 1 });
+    const oracle = new PriceOracleService([source]);
+
+    await oracle.getPrices([USDC]);
+    vi.advanceTimersByTime(DEFAULT_PRICE_TTL_MS - 1);
+    await oracle.getPrices([USDC]);
+    expect(getPrices).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await oracle.getPrices([USDC]);
+    expect(getPrices).toHaveBeenCalledTimes(2);
+  });
+
+  it('remembers mints no source could price for five minutes', async () => {
+    const { source, getPrices } = namedSource('fixture', { [USDC]: 1 });
+    // A short price TTL shows the negative entry lives on its own, longer TTL
+    const oracle = new PriceOracleService([source], 1000);
+
+    expect(await oracle.getPrice(UNPRICED)).toBeNull();
+    vi.advanceTimersByTime(5 * 60 * 1000 - 1);
+    expect(await oracle.getPrice(UNPRICED)).toBeNull();
+    expect(getPrices).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await oracle.getPrice(UNPRICED);
+    expect(getPrices).toHaveBeenCalledTimes(2);
+  });
+
+  it('forgets cached prices when the sources change', async () => {
+    const oracle = new PriceOracleService([namedSource('old', { [USDC]: 1 }).source]);
+    await oracle.getPrices([USDC]);
+
+    oracle.setSources([namedSource('new', { [USDC]: 0.99 }).source]);
+
+    expect(await oracle.getPrice(USDC)).toMatchObject({ priceUsd: 0.99, source: 'new' });
+  });
+});
+
+describe('priceHoldings', () => {
+  it('values raw token amounts in whole tokens', () => {
+    const prices = new Map<string, TokenPrice>([
+      [USDC, { mint: USDC, priceUsd: 1, source: 'fixture', fetchedAt: new Date(0) }],
+      [BONK, { mint: BONK, priceUsd: 0.00002, source: 'fixture', fetchedAt: new Date(0) }],
+    ]);
+
+    const [usdc, bonk, unpriced] = priceHoldings([
+      // 250 USDC at 6 decimals, 1,000,000 BONK at 5 decimals
+      holding(USDC, 250_000_000, 6),
+      holding(BONK, 100_000_000_000, 5),
+      holding(UNPRICED, 42, 0),
+    ], prices);
+
+    expect(usdc).toMatchObject({ priceUsd: 1, usdValue: 250 });
+    expect(bonk.usdValue).toBeCloseTo(20, 10);
+    expect(unpriced.usdValue).toBeUndefined();
+    expect(unpriced.priceUsd).toBeUndefined();
+  });
+});
+
+describe('PumpFunCurvePriceSource', () => {
+  it('prices open curves from their reserves and the SOL price', async () => {
+    const accounts = new Map<string, AccountInfo<Buffer>>(
+      [curves.open, curves.complete].map(curve => [
+        getBondingCurveAddress(curve.mint).toBase58(),
+        { ...curve.account, data: Buffer.from(curve.account.data[0], 'base64'), owner: new PublicKey(curve.account.owner) },
+      ])
+    );
+    const connection = {
+      getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map(key => accounts.get(key.toBase58()) || null),
+    } as unknown as Connection;
+    const helius = { getConnection: () => connection } as unknown as HeliusService;
+
+    const source = new PumpFunCurvePriceSource(async () => 150, helius);
+    const prices = await source.getPrices([curves.open.mint, curves.complete.mint]);
+
+    // 53.65 SOL against 600M tokens, at 150 USD per SOL
+    expect(prices.get(curves.open.mint)?.priceUsd).toBeCloseTo((53.65 / 600_000_000) * 150, 15);
+    expect(prices.get(curves.open.mint)?.marketCap).toBeCloseTo(13_412.5, 6);
+    // Completed curves trade elsewhere and are left to the market sources
+    expect(prices.has(curves.complete.mint)).toBe(false);
+  });
+});
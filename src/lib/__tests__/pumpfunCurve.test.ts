@@ -0,0 +1,98 @@
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  calculateBondingCurveProgress,
+  decodeBondingCurveAccount,
+  fetchBondingCurves,
+  getBondingCurveAddress,
+  getBondingCurveState,
+} from '../pumpfunCurve';
+import curves from './fixtures/pumpfun-bonding-curves.json';
+
+type FixtureAccount = typeof curves.open.account;
+
+// Account data as returned by getAccountInfo with base64 encoding
+function toAccountInfo(account: FixtureAccount, owner = account.owner): AccountInfo<Buffer> {
+  return {
+    data: Buffer.from(account.data[0], 'base64'),
+    owner: new PublicKey(owner),
+    lamports: account.lamports,
+    executable: account.executable,
+  };
+}
+
+const openCurve = toAccountInfo(curves.open.account);
+const completeCurve = toAccountInfo(curves.complete.account);
+
+describe('decodeBondingCurveAccount', () => {
+  it('decodes the reserves and creator of an open curve', () => {
+    expect(decodeBondingCurveAccount(openCurve.data)).toEqual({
+      virtualTokenReserves: 600_000_000_000_000,
+      virtualSolReserves: 53_650_000_000,
+      realTokenReserves: 320_100_000_000_000,
+      realSolReserves: 23_650_000_000,
+      tokenTotalSupply: 1_000_000_000_000_000,
+      complete: false,
+      creator: 'GVpUDWG2hyqSy7eeMHkHgkDJGvpigLv1T67Zao82RJVK',
+    });
+  });
+
+  it('decodes a completed curve in the layout without a creator', () => {
+    const account = decodeBondingCurveAccount(completeCurve.data);
+
+    expect(account).toMatchObject({ realTokenReserves: 0, complete: true });
+    expect(account?.creator).toBeUndefined();
+  });
+
+  it('reads from the view it is given rather than the start of the buffer', () => {
+    const padded = Buffer.concat([Buffer.alloc(7), openCurve.data]).subarray(7);
+    expect(decodeBondingCurveAccount(padded)).toEqual(decodeBondingCurveAccount(openCurve.data));
+  });
+
+  it('rejects short data and other account types', () => {
+    expect(decodeBondingCurveAccount(openCurve.data.subarray(0, 48))).toBeNull();
+
+    const otherAccount = Buffer.from(openCurve.data);
+    otherAccount[0] ^= 0xff;
+    expect(decodeBondingCurveAccount(otherAccount)).toBeNull();
+  });
+});
+
+describe('getBondingCurveState', () => {
+  it('derives price, market cap and progress in whole tokens and SOL', () => {
+    const state = getBondingCurveState(curves.open.mint, decodeBondingCurveAccount(openCurve.data)!);
+
+    // 53.65 SOL against 600M tokens of virtual reserves
+    expect(state.priceSol).toBeCloseTo(53.65 / 600_000_000, 15);
+    expect(state.marketCapSol).toBeCloseTo(89.4167, 4);
+    // 473M of the 793.1M sellable tokens bought
+    expect(state.progress).toBeCloseTo(59.6394, 4);
+    expect(state.bondingCurve).toBe(getBondingCurveAddress(curves.open.mint).toBase58());
+  });
+
+  it('reports completed curves as fully bought', () => {
+    expect(getBondingCurveState(curves.complete.mint, decodeBondingCurveAccount(completeCurve.data)!).progress).toBe(100);
+    expect(calculateBondingCurveProgress(5, true)).toBe(100);
+    expect(calculateBondingCurveProgress(900_000_000_000_000, false)).toBe(0);
+  });
+});
+
+describe('fetchBondingCurves', () => {
+  it('keeps only accounts owned by the pump.fun program and skips invalid mints', async () => {
+    const foreign = toAccountInfo(curves.complete.account, PublicKey.default.toBase58());
+    const getMultipleAccountsInfo = vi.fn(async (keys: PublicKey[]) => [openCurve, null, foreign].slice(0, keys.length));
+    const connection = { getMultipleAccountsInfo } as unknown as Connection;
+    const missing = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+    const result = await fetchBondingCurves(connection, [curves.open.mint, missing, curves.complete.mint, 'not-a-mint']);
+
+    expect(getMultipleAccountsInfo).toHaveBeenCalledTimes(1);
+    expect(getMultipleAccountsInfo.mock.calls[0][0]).toEqual([
+      getBondingCurveAddress(curves.open.mint),
+      getBondingCurveAddress(missing),
+      getBondingCurveAddress(curves.complete.mint),
+    ]);
+    expect([...result.keys()]).toEqual([curves.open.mint]);
+    expect(result.get(curves.open.mint)?.realSolReserves).toBe(23_650_000_000);
+  });
+});
@@ -0,0 +1,147 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { NextRequest, NextResponse } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSessionToken } from '../auth';
+import { authorizeApiRequest, authorizeRequest, canManageRole, hasRole, Role, ROLES, withRoles } from '../rbac';
+
+// Stored roles by wallet, served through the parts of the MongoDB collection API that rbac.ts uses
+const { roles } = vi.hoisted(() => {
+  const stored = new Map<string, string>();
+  return {
+    roles: {
+      stored,
+      createIndex: async () => 'index',
+      findOne: async ({ publicKey }: { publicKey: string }) =>
+        stored.has(publicKey) ? { publicKey, role: stored.get(publicKey) } : null,
+    },
+  };
+});
+
+vi.mock('../mongodb', () => ({
+  getMongoClient: async () => ({ db: () => ({ collection: () => roles }) }),
+}));
+
+const BOOTSTRAP_OWNER = 'owner-wallet';
+
+function bearer(publicKey: string): string {
+  return `Bearer ${createSessionToken(publicKey)}`;
+}
+
+function apiRequest(method: string, authorization?: string): NextApiRequest {
+  return { method, cookies: {}, headers: { authorization } } as unknown as NextApiRequest;
+}
+
+// Response that records the status and body the route sent
+function apiResponse() {
+  const res = {
+    statusCode: 0,
+    body: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+beforeEach(() => {
+  vi.stubEnv('AUTH_SECRET', 'test-secret-that-is-at-least-32-characters');
+  vi.stubEnv('ADMIN_WALLETS', ` ${BOOTSTRAP_OWNER} ,other-owner`);
+  roles.stored.clear();
+  roles.stored.set('admin-wallet', 'admin');
+  roles.stored.set('analyst-wallet', 'analyst');
+  roles.stored.set('viewer-wallet', 'viewer');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('hasRole', () => {
+  it('ranks owner above admin above analyst above viewer', () => {
+    const granted = (role: Role) => ROLES.filter(required => hasRole(role, required));
+
+    expect(granted('owner')).toEqual(['owner', 'admin', 'analyst', 'viewer']);
+    expect(granted('admin')).toEqual(['admin', 'analyst', 'viewer']);
+    expect(granted('analyst')).toEqual(['analyst', 'viewer']);
+    expect(granted('viewer')).toEqual(['viewer']);
+    expect(ROLES.some(required => hasRole(null, required))).toBe(false);
+  });
+});
+
+describe('canManageRole', () => {
+  it('lets owners manage every role and admins only the roles below them', () => {
+    expect(ROLES.every(role => canManageRole('owner', role))).toBe(true);
+    expect(ROLES.filter(role => canManageRole('admin', role))).toEqual(['analyst', 'viewer']);
+    expect(ROLES.some(role => canManageRole('analyst', role))).toBe(false);
+    expect(ROLES.some(role => canManageRole(null, role))).toBe(false);
+  });
+});
+
+describe('authorizeRequest', () => {
+  const request = (authorization?: string) =>
+    new NextRequest('http://localhost/api/wallet-tracker', { headers: authorization ? { authorization } : {} });
+
+  it('requires a session', async () => {
+    const result = await authorizeRequest(request(), 'viewer');
+    expect(result).toBeInstanceOf(NextResponse);
+    expect((result as NextResponse).status).toBe(401);
+  });
+
+  it('refuses roles below the required one, and wallets without a role', async () => {
+    for (const wallet of ['viewer-wallet', 'unknown-wallet']) {
+      const result = await authorizeRequest(request(bearer(wallet)), 'analyst');
+      expect((result as NextResponse).status).toBe(403);
+      expect(await (result as NextResponse).json()).toEqual({ error: 'This action requires the analyst role' });
+    }
+  });
+
+  it('returns the user for the required role or a higher one', async () => {
+    expect(await authorizeRequest(request(bearer('analyst-wallet')), 'analyst')).toMatchObject({
+      role: 'analyst',
+      session: { publicKey: 'analyst-wallet' },
+    });
+    expect(await authorizeRequest(request(bearer('admin-wallet')), 'analyst')).toMatchObject({ role: 'admin' });
+  });
+
+  it('treats ADMIN_WALLETS as owners without a stored role', async () => {
+    expect(await authorizeRequest(request(bearer(BOOTSTRAP_OWNER)), 'owner')).toMatchObject({ role: 'owner' });
+  });
+});
+
+describe('withRoles', () => {
+  const handler = vi.fn();
+  const wrapped = withRoles({ GET: 'viewer', POST: 'admin' }, handler);
+
+  beforeEach(() => {
+    handler.mockReset();
+  });
+
+  it('checks the role of the request method before the handler runs', async () => {
+    const res = apiResponse();
+    await wrapped(apiRequest('POST', bearer('analyst-wallet')), res as unknown as NextApiResponse);
+
+    expect(res.statusCode).toBe(403);
+    expect(handler).not.toHaveBeenCalled();
+
+    await wrapped(apiRequest('GET', bearer('viewer-wallet')), apiResponse() as unknown as NextApiResponse);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes methods without a listed role through', async () => {
+    await wrapped(apiRequest('OPTIONS'), apiResponse() as unknown as NextApiResponse);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('authorizeApiRequest', () => {
+  it('responds with 401 and returns null without a session', async () => {
+    const res = apiResponse();
+    expect(await authorizeApiRequest(apiRequest('GET'), res as unknown as NextApiResponse, 'viewer')).toBeNull();
+    expect(res.statusCode).toBe(401);
+  });
+});
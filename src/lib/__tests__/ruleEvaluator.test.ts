@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateBalanceChangeRule, evaluateTokenTransferRule, getHoldingUiAmount, getTransferDirection } from '../ruleEvaluator';
+import { MonitoringRule } from '../walletMonitor';
+import { WalletActivity, WalletTokenHolding } from '../walletTracker';
+
+const WALLET = 'GVpUDWG2hyqSy7eeMHkHgkDJGvpigLv1T67Zao82RJVK';
+const COUNTERPARTY = 'HoHwmtobtoHgyYz596z2DnduLHdTzZRnLUvFPBBdDyc8';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+function rule(conditions: MonitoringRule['conditions'], overrides: Partial<MonitoringRule> = {}): MonitoringRule {
+  return {
+    id: 'rule_1',
+    workspaceId: 'default',
+    walletAddress: WALLET,
+    type: 'token_transfer',
+    conditions,
+    isActive: true,
+    createdAt: new Date(0),
+    network: 'mainnet',
+    ...overrides,
+  };
+}
+
+// Transfer activities carry UI amounts, as mapped from Helius tokenTransfers
+function transfer(amount: number, direction: 'in' | 'out', overrides: Partial<WalletActivity> = {}): WalletActivity {
+  return {
+    id: `sig_${direction}_${amount}`,
+    walletAddress: WALLET,
+    type: 'token_transfer',
+    signature: `sig_${direction}_${amount}`,
+    timestamp: new Date('2024-10-19T08:00:00Z'),
+    amount,
+    mint: USDC,
+    fromAddress: direction === 'out' ? WALLET : COUNTERPARTY,
+    toAddress: direction === 'out' ? COUNTERPARTY : WALLET,
+    description: '',
+    network: 'mainnet',
+    ...overrides,
+  };
+}
+
+// Stored holdings keep the raw base-unit amount
+function holding(mint: string, amount: number, decimals: number): WalletTokenHolding {
+  return { walletAddress: WALLET, mint, amount, decimals, tokenAccount: `ata_${mint}`, lastUpdated: new Date(0) };
+}
+
+describe('getHoldingUiAmount', () => {
+  it('converts base units to whole tokens', () => {
+    expect(getHoldingUiAmount(holding(USDC, 1_000_000_000, 6))).toBe(1000);
+    expect(getHoldingUiAmount(holding(BONK, 12_345, 5))).toBeCloseTo(0.12345);
+    expect(getHoldingUiAmount(holding(BONK, 42, 0))).toBe(42);
+  });
+});
+
+describe('getTransferDirection', () => {
+  it('is relative to the wallet and null for self transfers', () => {
+    expect(getTransferDirection(transfer(1, 'in'), WALLET)).toBe('in');
+    expect(getTransferDirection(transfer(1, 'out'), WALLET)).toBe('out');
+    expect(getTransferDirection(transfer(1, 'out', { toAddress: WALLET }), WALLET)).toBeNull();
+    expect(getTransferDirection(transfer(1, 'out'), 'someone-else')).toBeNull();
+  });
+});
+
+describe('evaluateTokenTransferRule', () => {
+  it('matches transfers at or above minAmount', () => {
+    const match = evaluateTokenTransferRule(rule({ minAmount: 100 }), transfer(250, 'out'));
+
+    expect(match).toMatchObject({ tokenAddress: USDC, direction: 'out', amount: 250, severity: 'medium' });
+    expect(match?.percentageOfBalance).toBeUndefined();
+    expect(evaluateTokenTransferRule(rule({ minAmount: 100 }), transfer(99.99, 'out'))).toBeNull();
+  });
+
+  it('raises severity for transfers ten times the minimum', () => {
+    expect(evaluateTokenTransferRule(rule({ minAmount: 100 }), transfer(1000, 'in'))?.severity).toBe('high');
+  });
+
+  it('honours the token and direction filters', () => {
+    expect(evaluateTokenTransferRule(rule({ tokenAddress: BONK }), transfer(250, 'out'))).toBeNull();
+    expect(evaluateTokenTransferRule(rule({ tokenAddress: USDC }), transfer(250, 'out'))).not.toBeNull();
+    expect(evaluateTokenTransferRule(rule({ direction: 'in' }), transfer(250, 'out'))).toBeNull();
+    expect(evaluateTokenTransferRule(rule({ direction: 'out' }), transfer(250, 'out'))?.direction).toBe('out');
+  });
+
+  it('ignores inactive rules, other rule types and non-token activities', () => {
+    expect(evaluateTokenTransferRule(rule({}, { isActive: false }), transfer(250, 'out'))).toBeNull();
+    expect(evaluateTokenTransferRule(rule({}, { type: 'balance_change' }), transfer(250, 'out'))).toBeNull();
+    expect(evaluateTokenTransferRule(rule({}), transfer(250, 'out', { type: 'sol_transfer' }))).toBeNull();
+    expect(evaluateTokenTransferRule(rule({}), transfer(250, 'out', { toAddress: WALLET }))).toBeNull();
+  });
+
+  it('compares transfers against the holding in whole tokens', () => {
+    // 1,000 USDC held, stored as 1e9 base units
+    const balanceBefore = getHoldingUiAmount(holding(USDC, 1_000_000_000, 6));
+
+    const large = evaluateTokenTransferRule(rule({ percentage: 50 }), transfer(600, 'out'), balanceBefore);
+    expect(large?.percentageOfBalance).toBeCloseTo(60);
+    expect(large?.severity).toBe('high');
+
+    const small = evaluateTokenTransferRule(rule({ percentage: 50 }), transfer(100, 'out'), balanceBefore);
+    expect(small).toBeNull();
+
+    const incoming = evaluateTokenTransferRule(rule({ percentage: 10 }), transfer(250, 'in'), balanceBefore);
+    expect(incoming?.percentageOfBalance).toBeCloseTo(25);
+    expect(incoming?.severity).toBe('medium');
+  });
+
+  it('caps outgoing transfers at the balance held', () => {
+    const match = evaluateTokenTransferRule(rule({ percentage: 90 }), transfer(5000, 'out'), 1000);
+    expect(match?.percentageOfBalance).toBe(100);
+  });
+
+  it('counts a first deposit as a full change', () => {
+    expect(evaluateTokenTransferRule(rule({ percentage: 100 }), transfer(5, 'in'), 0)?.percentageOfBalance).toBe(100);
+  });
+
+  it('skips percentage rules when the prior balance is unknown', () => {
+    expect(evaluateTokenTransferRule(rule({ percentage: 10 }), transfer(600, 'out'))).toBeNull();
+  });
+});
+
+describe('evaluateBalanceChangeRule', () => {
+  const balanceRule = (conditions: MonitoringRule['conditions']) => rule(conditions, { type: 'balance_change' });
+
+  it('compares the threshold against whole tokens', () => {
+    // 1,000 USDC down to 400
+    const previous = [holding(USDC, 1_000_000_000, 6)];
+    const current = [holding(USDC, 400_000_000, 6)];
+
+    const [match] = evaluateBalanceChangeRule(balanceRule({ threshold: 500 }), current, previous);
+    expect(match).toMatchObject({ previousAmount: 1000, currentAmount: 400, change: -600, severity: 'high' });
+    expect(match.percentageChange).toBeCloseTo(60);
+
+    expect(evaluateBalanceChangeRule(balanceRule({ threshold: 700 }), current, previous)).toEqual([]);
+  });
+
+  it('treats a token missing from the current snapshot as emptied', () => {
+    const [match] = evaluateBalanceChangeRule(balanceRule({ percentage: 90 }), [], [holding(BONK, 250_000, 5)]);
+    expect(match).toMatchObject({ tokenAddress: BONK, previousAmount: 2.5, currentAmount: 0, percentageChange: 100 });
+  });
+
+  it('requires every configured condition and honours the token filter', () => {
+    const previous = [holding(USDC, 1_000_000_000, 6), holding(BONK, 100_000_000, 5)];
+    const current = [holding(USDC, 990_000_000, 6), holding(BONK, 10_000_000, 5)];
+
+    expect(evaluateBalanceChangeRule(balanceRule({ threshold: 5, percentage: 5 }), current, previous).map(m => m.tokenAddress)).toEqual([BONK]);
+    expect(evaluateBalanceChangeRule(balanceRule({ threshold: 5, tokenAddress: USDC }), current, previous).map(m => m.tokenAddress)).toEqual([USDC]);
+    expect(evaluateBalanceChangeRule(balanceRule({}), current, previous)).toEqual([]);
+  });
+});
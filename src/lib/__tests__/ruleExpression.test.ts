@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRuleExpression, parseRuleExpression, RuleExpressionContext, validateRuleExpression } from '../ruleExpression';
+import { WalletActivity, WalletTokenHolding } from '../walletTracker';
+
+const WALLET = 'GVpUDWG2hyqSy7eeMHkHgkDJGvpigLv1T67Zao82RJVK';
+const COUNTERPARTY = 'HoHwmtobtoHgyYz596z2DnduLHdTzZRnLUvFPBBdDyc8';
+const PUMP_MINT = '7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const NOW = new Date('2024-10-19T08:00:00Z');
+
+function minutesAgo(minutes: number): Date {
+  return new Date(NOW.getTime() - minutes * 60 * 1000);
+}
+
+// Holdings are stored in base units
+function holding(mint: string, amount: number, decimals: number): WalletTokenHolding {
+  return { walletAddress: WALLET, mint, amount, decimals, tokenAccount: `ata_${mint}`, lastUpdated: NOW };
+}
+
+// Transfer activities carry whole-token amounts
+function transfer(mint: string, amount: number, direction: 'in' | 'out', timestamp: Date): WalletActivity {
+  return {
+    id: `${mint}_${direction}_${timestamp.getTime()}`,
+    walletAddress: WALLET,
+    type: 'token_transfer',
+    signature: `${mint}_${direction}_${timestamp.getTime()}`,
+    timestamp,
+    amount,
+    mint,
+    fromAddress: direction === 'out' ? WALLET : COUNTERPARTY,
+    toAddress: direction === 'out' ? COUNTERPARTY : WALLET,
+    description: '',
+    network: 'mainnet',
+  };
+}
+
+// After the window: 700,000 pump tokens (6 decimals) and 50 USDC
+function context(overrides: Partial<RuleExpressionContext> = {}): RuleExpressionContext {
+  return {
+    walletAddress: WALLET,
+    tags: ['insider'],
+    holdings: [holding(PUMP_MINT, 700_000_000_000, 6), holding(USDC, 50_000_000, 6)],
+    activities: [
+      // Sold 300,000 of 1,000,000 pump tokens within the last 10 minutes
+      transfer(PUMP_MINT, 200_000, 'out', minutesAgo(2)),
+      transfer(PUMP_MINT, 100_000, 'out', minutesAgo(8)),
+      // Received 50 USDC an hour ago
+      transfer(USDC, 50, 'in', minutesAgo(61)),
+    ],
+    event: { type: 'activity', mint: PUMP_MINT, amount: 200_000, direction: 'out', activityType: 'token_transfer' },
+    now: NOW,
+    pumpFunMints: new Set([PUMP_MINT]),
+    ...overrides,
+  };
+}
+
+describe('evaluateRuleExpression', () => {
+  it('measures sells against the whole-token balance held when the window started', () => {
+    expect(evaluateRuleExpression('sell_pct(10m) > 29', context())).toBe(true);
+    expect(evaluateRuleExpression('sell_pct(10m) > 31', context())).toBe(false);
+    expect(evaluateRuleExpression('sell_pct(5m, "pumpfun") >= 20%', context())).toBe(true);
+    expect(evaluateRuleExpression(`sell_pct(10m, "${USDC}") > 0`, context())).toBe(false);
+  });
+
+  it('measures buys, a first deposit counting as a full change', () => {
+    expect(evaluateRuleExpression('buy_pct(2h) == 100', context())).toBe(true);
+    expect(evaluateRuleExpression('buy_pct(30m) > 0', context())).toBe(false);
+  });
+
+  it('sums flows, counts activities and reads holdings in whole tokens', () => {
+    const ctx = context();
+    expect(evaluateRuleExpression('sent(10m) == 300000', ctx)).toBe(true);
+    expect(evaluateRuleExpression('received(2h, "pumpfun") == 0', ctx)).toBe(true);
+    expect(evaluateRuleExpression('tx_count(10m) == 2 AND tx_count(2h, "sol_transfer") == 0', ctx)).toBe(true);
+    expect(evaluateRuleExpression(`holding("${PUMP_MINT}") == 700000`, ctx)).toBe(true);
+    expect(evaluateRuleExpression(`holding("${USDC}") == 50 AND token_count() == 2`, ctx)).toBe(true);
+  });
+
+  it('combines event fields, tags and pump.fun lookups with boolean operators', () => {
+    const ctx = context();
+    expect(evaluateRuleExpression('event.direction == "out" AND has_tag("insider")', ctx)).toBe(true);
+    expect(evaluateRuleExpression('is_pumpfun(event.mint) && !has_tag("team")', ctx)).toBe(true);
+    expect(evaluateRuleExpression('(event.amount > 1000000 OR received(1h) >= 1000) AND NOT is_pumpfun(event.mint)', ctx)).toBe(false);
+    expect(evaluateRuleExpression('event.type != "new_token"', ctx)).toBe(true);
+  });
+});
+
+describe('validateRuleExpression', () => {
+  it('accepts well-typed boolean expressions', () => {
+    expect(validateRuleExpression('sell_pct(10m, "pumpfun") > 20')).toBeNull();
+    expect(validateRuleExpression('event.type == "new_token" AND has_tag("insider")')).toBeNull();
+  });
+
+  it.each([
+    ['', 'Expression is empty'],
+    ['sell_pct(10m)', 'Expression must evaluate to true or false, add a comparison'],
+    ['sell_pct(10m) > 20 AND', 'Unexpected end of expression at position 22'],
+    ['sell_pct(10, "any") > 20', 'Argument 1 of sell_pct() must be a duration but got a number'],
+    ['holding() > 1', 'holding() takes 1 arguments but got 0'],
+    ['event.type > 1', 'Cannot compare a string with a number'],
+    ['10m > 5m', 'Durations can only be used as function arguments'],
+    ['10m > 5', 'Cannot compare a duration with a number'],
+    ['"pump" == "pump', 'Unterminated string at position 10'],
+  ])('rejects %j', (source, message) => {
+    expect(validateRuleExpression(source)).toBe(message);
+  });
+
+  it('only resolves its own functions and variables, not prototype members', () => {
+    expect(validateRuleExpression('constructor("x") > 1')).toMatch(/^Unknown function "constructor"/);
+    expect(validateRuleExpression('hasOwnProperty("sell_pct")')).toMatch(/^Unknown function "hasOwnProperty"/);
+    expect(validateRuleExpression('toString == "x"')).toMatch(/^Unknown variable "toString"/);
+    expect(validateRuleExpression('__proto__ == "x"')).toMatch(/^Unknown variable "__proto__"/);
+  });
+
+  it('rejects non-string and oversized input', () => {
+    expect(validateRuleExpression(42)).toBe('Expression must be a string');
+    expect(validateRuleExpression(`has_tag("${'a'.repeat(1000)}")`)).toBe('Expression is longer than 1000 characters');
+  });
+});
+
+describe('parseRuleExpression', () => {
+  it('returns the cached tree for a repeated expression', () => {
+    const source = 'tx_count(5m) > 10';
+    expect(parseRuleExpression(source)).toBe(parseRuleExpression(source));
+  });
+});
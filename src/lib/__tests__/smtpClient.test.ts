@@ -0,0 +1,143 @@
+import net from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { sendSmtpMail, SmtpConfig } from '../smtpClient';
+
+interface StandInServer {
+  config: SmtpConfig;
+  // Commands received, with the DATA section as one entry
+  commands: string[];
+  close: () => Promise<void>;
+}
+
+// Minimal SMTP server that answers every command from a script keyed by its verb
+async function startSmtpServer(options: { extensions?: string[]; replies?: Record<string, string> } = {}): Promise<StandInServer> {
+  const commands: string[] = [];
+  const replies: Record<string, string> = {
+    EHLO: ['250-stand-in.local', ...(options.extensions || []).map(ext => `250-${ext}`), '250 8BITMIME'].join('\r\n'),
+    MAIL: '250 OK',
+    RCPT: '250 OK',
+    DATA: '354 End data with <CR><LF>.<CR><LF>',
+    QUIT: '221 Bye',
+    ...options.replies,
+  };
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 stand-in.local ESMTP\r\n');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        commands.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 Queued\r\n');
+      }
+
+      let index: number;
+      while (!inData && (index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        commands.push(line);
+
+        const verb = line.split(' ')[0].toUpperCase();
+        socket.write(`${replies[verb] || '502 Command not implemented'}\r\n`);
+        if (verb === 'DATA' && replies.DATA.startsWith('354')) {
+          inData = true;
+        }
+        if (verb === 'QUIT') {
+          socket.end();
+        }
+      }
+    });
+    socket.on('error', () => undefined);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  return {
+    config: { host: '127.0.0.1', port, timeoutMs: 2000 },
+    commands,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+const message = {
+  from: 'TokenUp Alerts <alerts@tokenup.test>',
+  to: ['ops@tokenup.test', 'Desk <desk@tokenup.test>'],
+  subject: '[HIGH] Large Transaction',
+  text: 'Wallet moved 250 USDC\n.hidden line\nNetwork: mainnet',
+};
+
+describe('sendSmtpMail', () => {
+  let server: StandInServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it('delivers a message through the envelope and DATA commands', async () => {
+    server = await startSmtpServer();
+
+    await sendSmtpMail(server.config, message);
+
+    const [ehlo, mailFrom, rcptOps, rcptDesk, data, body, quit] = server.commands;
+    expect(ehlo).toBe('EHLO localhost');
+    expect(mailFrom).toBe('MAIL FROM:<alerts@tokenup.test>');
+    expect(rcptOps).toBe('RCPT TO:<ops@tokenup.test>');
+    expect(rcptDesk).toBe('RCPT TO:<desk@tokenup.test>');
+    expect(data).toBe('DATA');
+    expect(quit).toBe('QUIT');
+
+    expect(body).toContain('From: TokenUp Alerts <alerts@tokenup.test>\r\n');
+    expect(body).toContain('To: ops@tokenup.test, Desk <desk@tokenup.test>\r\n');
+    expect(body).toContain('Subject: [HIGH] Large Transaction\r\n');
+    // A leading dot is doubled so it cannot end the DATA section early
+    expect(body).toContain('\r\n\r\nWallet moved 250 USDC\r\n..hidden line\r\nNetwork: mainnet');
+  });
+
+  it('encodes non-ASCII subjects', async () => {
+    server = await startSmtpServer();
+
+    await sendSmtpMail(server.config, { ...message, subject: 'Größe ↑' });
+
+    const body = server.commands.find(command => command.includes('Subject:'));
+    expect(body).toContain(`Subject: =?UTF-8?B?${Buffer.from('Größe ↑').toString('base64')}?=\r\n`);
+  });
+
+  it('refuses to send credentials when the server does not offer STARTTLS', async () => {
+    server = await startSmtpServer({ extensions: ['AUTH PLAIN LOGIN'] });
+
+    await expect(
+      sendSmtpMail({ ...server.config, username: 'alerts', password: 'hunter2' }, message)
+    ).rejects.toThrow(/refusing to send credentials in cleartext/);
+
+    expect(server.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+    expect(server.commands.some(command => command.startsWith('MAIL'))).toBe(false);
+  });
+
+  it.each([
+    ['Subject', { subject: 'Alert\r\nBcc: victim@example.com' }],
+    ['From', { from: 'alerts@tokenup.test\nBcc: victim@example.com' }],
+    ['To', { to: ['ops@tokenup.test>\r\nRCPT TO:<victim@example.com'] }],
+  ])('rejects line breaks in the %s header before connecting', async (field, override) => {
+    server = await startSmtpServer();
+
+    await expect(sendSmtpMail(server.config, { ...message, ...override })).rejects.toThrow(
+      `SMTP ${field} must not contain line breaks`
+    );
+    expect(server.commands).toEqual([]);
+  });
+
+  it('reports the reply of a rejected recipient', async () => {
+    server = await startSmtpServer({ replies: { RCPT: '550 No such user here' } });
+
+    await expect(sendSmtpMail(server.config, message)).rejects.toThrow('SMTP RCPT TO failed: 550 No such user here');
+  });
+});
@@ -0,0 +1,154 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { NextRequest, NextResponse } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSessionToken } from '../auth';
+import { Workspace } from '../walletTrackerDb';
+import { authorizeWorkspaceRequest, canAccessWorkspace, withWorkspace, WORKSPACE_HEADER } from '../workspaces';
+
+const { db, roles } = vi.hoisted(() => ({
+  db: {
+    getWorkspace: vi.fn(),
+  },
+  roles: new Map<string, string>([
+    ['admin-wallet', 'admin'],
+    ['member-wallet', 'analyst'],
+    ['outsider-wallet', 'analyst'],
+    ['viewer-wallet', 'viewer'],
+  ]),
+}));
+
+vi.mock('../walletTrackerDb', () => ({ getWalletTrackerDb: async () => db, DEFAULT_WORKSPACE_ID: 'default' }));
+vi.mock('../mongodb', () => ({
+  getMongoClient: async () => ({
+    db: () => ({
+      collection: () => ({
+        createIndex: async () => 'index',
+        findOne: async ({ publicKey }: { publicKey: string }) =>
+          roles.has(publicKey) ? { publicKey, role: roles.get(publicKey) } : null,
+      }),
+    }),
+  }),
+}));
+
+function workspace(id: string, members: string[] = []): Workspace {
+  return { id, name: id, members, createdBy: 'admin-wallet', createdAt: new Date(0), updatedAt: new Date(0) };
+}
+
+const workspaces = new Map([
+  ['default', workspace('default')],
+  ['team-a', workspace('team-a', ['member-wallet', 'viewer-wallet'])],
+]);
+
+function request(publicKey: string, options: { header?: string; query?: string } = {}): NextRequest {
+  const url = new URL('http://localhost/api/wallet-tracker');
+  if (options.query) url.searchParams.set('workspaceId', options.query);
+  return new NextRequest(url, {
+    headers: {
+      authorization: `Bearer ${createSessionToken(publicKey)}`,
+      ...(options.header ? { [WORKSPACE_HEADER]: options.header } : {}),
+    },
+  });
+}
+
+beforeEach(() => {
+  vi.stubEnv('AUTH_SECRET', 'test-secret-that-is-at-least-32-characters');
+  vi.stubEnv('ADMIN_WALLETS', '');
+  db.getWorkspace.mockReset();
+  db.getWorkspace.mockImplementation(async (id: string) => workspaces.get(id) || null);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('canAccessWorkspace', () => {
+  const user = (publicKey: string, role: 'admin' | 'analyst') => ({ session: { publicKey, issuedAt: 0, expiresAt: 0 }, role });
+
+  it('opens the default workspace to everyone and others to members and admins', () => {
+    expect(canAccessWorkspace(user('outsider-wallet', 'analyst'), workspaces.get('default')!)).toBe(true);
+    expect(canAccessWorkspace(user('member-wallet', 'analyst'), workspaces.get('team-a')!)).toBe(true);
+    expect(canAccessWorkspace(user('outsider-wallet', 'analyst'), workspaces.get('team-a')!)).toBe(false);
+    expect(canAccessWorkspace(user('admin-wallet', 'admin'), workspaces.get('team-a')!)).toBe(true);
+  });
+});
+
+describe('authorizeWorkspaceRequest', () => {
+  it('resolves the workspace from the header, then the query, then the default', async () => {
+    const fromHeader = await authorizeWorkspaceRequest(request('member-wallet', { header: 'team-a', query: 'default' }), 'viewer');
+    expect(fromHeader).toMatchObject({ workspace: { id: 'team-a' }, role: 'analyst' });
+
+    const fromQuery = await authorizeWorkspaceRequest(request('member-wallet', { query: 'team-a' }), 'viewer');
+    expect(fromQuery).toMatchObject({ workspace: { id: 'team-a' } });
+
+    const fallback = await authorizeWorkspaceRequest(request('member-wallet', { header: '  ' }), 'viewer');
+    expect(fallback).toMatchObject({ workspace: { id: 'default' } });
+  });
+
+  it('answers non-members as if the workspace did not exist', async () => {
+    for (const id of ['team-a', 'missing']) {
+      const result = await authorizeWorkspaceRequest(request('outsider-wallet', { header: id }), 'viewer');
+      expect((result as NextResponse).status).toBe(404);
+      expect(await (result as NextResponse).json()).toEqual({ error: `Workspace ${id} not found` });
+    }
+  });
+
+  it('lets admins open every workspace', async () => {
+    expect(await authorizeWorkspaceRequest(request('admin-wallet', { header: 'team-a' }), 'admin')).toMatchObject({
+      workspace: { id: 'team-a' },
+    });
+  });
+
+  it('checks the role before looking up the workspace', async () => {
+    const result = await authorizeWorkspaceRequest(request('viewer-wallet', { header: 'team-a' }), 'analyst');
+    expect((result as NextResponse).status).toBe(403);
+    expect(db.getWorkspace).not.toHaveBeenCalled();
+  });
+});
+
+describe('withWorkspace', () => {
+  const handler = vi.fn();
+  const wrapped = withWorkspace({ POST: 'analyst' }, handler);
+
+  function apiRequest(method: string, publicKey: string, workspaceId: string): NextApiRequest {
+    return {
+      method,
+      cookies: {},
+      query: {},
+      headers: { authorization: `Bearer ${createSessionToken(publicKey)}`, [WORKSPACE_HEADER]: workspaceId },
+    } as unknown as NextApiRequest;
+  }
+
+  // Response that records the status the route sent
+  function apiResponse() {
+    const res = {
+      statusCode: 0,
+      status(code: number) {
+        res.statusCode = code;
+        return res;
+      },
+      json: () => res,
+    };
+    return res;
+  }
+
+  beforeEach(() => {
+    handler.mockReset();
+  });
+
+  it('hands the handler the resolved workspace and user', async () => {
+    const req = apiRequest('POST', 'member-wallet', 'team-a');
+    await wrapped(req, apiResponse() as unknown as NextApiResponse);
+
+    expect(handler).toHaveBeenCalledWith(req, expect.anything(), 'team-a', expect.objectContaining({ role: 'analyst' }));
+  });
+
+  it('requires a viewer for methods without a listed role and stops outsiders', async () => {
+    const res = apiResponse();
+    await wrapped(apiRequest('GET', 'unknown-wallet', 'default'), res as unknown as NextApiResponse);
+    expect(res.statusCode).toBe(403);
+
+    await wrapped(apiRequest('GET', 'outsider-wallet', 'team-a'), res as unknown as NextApiResponse);
+    expect(res.statusCode).toBe(404);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,377 @@
+import { createHmac } from 'crypto';
+import { getWalletTrackerDb, WalletAlert } from './walletTrackerDb';
+import { matchesAlertFilter } from './alertStream';
+import { sendSmtpMail } from './smtpClient';
+import { NetworkType } from '../context/NetworkContext';
+
+export type AlertChannelType = 'webhook' | 'discord' | 'telegram' | 'email';
+
+export const ALERT_CHANNEL_TYPES: AlertChannelType[] = ['webhook', 'discord', 'telegram', 'email'];
+
+export interface WebhookChannelSettings {
+  url: string;
+  // Used to sign every request with HMAC-SHA256
+  secret?: string;
+  headers?: Record<string, string>;
+}
+
+export interface DiscordChannelSettings {
+  webhookUrl: string;
+  username?: string;
+}
+
+export interface TelegramChannelSettings {
+  botToken: string;
+  chatId: string;
+  // Defaults to https://api.telegram.org
+  apiBaseUrl?: string;
+}
+
+export interface EmailChannelSettings {
+  host: string;
+  port: number;
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+export interface AlertChannelSettingsMap {
+  webhook: WebhookChannelSettings;
+  discord: DiscordChannelSettings;
+  telegram: TelegramChannelSettings;
+  email: EmailChannelSettings;
+}
+
+export interface AlertChannel {
+  id: string;
+  // Only alerts of this workspace are routed to the channel
+  workspaceId: string;
+  name: string;
+  type: AlertChannelType;
+  isActive: boolean;
+  settings: AlertChannelSettingsMap[AlertChannelType];
+  // Routing, an empty list matches every wallet / severity
+  walletAddresses?: string[];
+  severities?: WalletAlert['severity'][];
+  network?: NetworkType;
+  maxAttempts?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AlertDelivery {
+  id: string;
+  workspaceId: string;
+  alertId: string;
+  channelId: string;
+  channelType: AlertChannelType;
+  walletAddress: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  deliveredAt?: Date;
+}
+
+export interface AlertDeliveryContext {
+  deliveryId: string;
+  attempt: number;
+}
+
+export type AlertChannelSender = (
+  alert: WalletAlert,
+  channel: AlertChannel,
+  context: AlertDeliveryContext
+) => Promise<void>;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Retries back off up to RETRY_MAX_DELAY_MS, so more attempts would keep a delivery going for minutes
+export const MAX_DELIVERY_ATTEMPTS = 10;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+const SECRET_SETTINGS = ['secret', 'botToken', 'password'];
+
+const DISCORD_COLORS: Record<WalletAlert['severity'], number> = {
+  low: 0x3b82f6,
+  medium: 0xeab308,
+  high: 0xf97316,
+  critical: 0xef4444
+};
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", sent as X-TokenUp-Signature: sha256=<hex>.
+ * Receivers recompute it with the shared secret to verify a delivery.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function formatAlertText(alert: WalletAlert): string {
+  return [
+    `[${alert.severity.toUpperCase()}] ${alert.title}`,
+    alert.message,
+    `Wallet: ${alert.walletAddress}`,
+    `Network: ${alert.network}`
+  ].join('\n');
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    },
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status} ${response.statusText}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+
+  return response;
+}
+
+const sendWebhook: AlertChannelSender = async (alert, channel, context) => {
+  const settings = channel.settings as WebhookChannelSettings;
+  const body = JSON.stringify({ event: 'wallet_alert', deliveryId: context.deliveryId, alert });
+  const headers: Record<string, string> = {
+    ...settings.headers,
+    'X-TokenUp-Delivery': context.deliveryId
+  };
+
+  if (settings.secret) {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    headers['X-TokenUp-Timestamp'] = timestamp;
+    headers['X-TokenUp-Signature'] = `sha256=${signWebhookPayload(settings.secret, timestamp, body)}`;
+  }
+
+  await postJson(settings.url, body, headers);
+};
+
+const sendDiscord: AlertChannelSender = async (alert, channel) => {
+  const settings = channel.settings as DiscordChannelSettings;
+
+  await postJson(settings.webhookUrl, JSON.stringify({
+    username: settings.username || 'TokenUp Wallet Tracker',
+    embeds: [{
+      title: alert.title,
+      description: alert.message,
+      color: DISCORD_COLORS[alert.severity],
+      fields: [
+        { name: 'Wallet', value: alert.walletAddress },
+        { name: 'Severity', value: alert.severity, inline: true },
+        { name: 'Type', value: alert.type, inline: true },
+        { name: 'Network', value: alert.network, inline: true }
+      ],
+      timestamp: new Date(alert.createdAt).toISOString()
+    }]
+  }));
+};
+
+const sendTelegram: AlertChannelSender = async (alert, channel) => {
+  const settings = channel.settings as TelegramChannelSettings;
+  const baseUrl = (settings.apiBaseUrl || 'https://api.telegram.org').replace(/\/$/, '');
+
+  const response = await postJson(`${baseUrl}/bot${settings.botToken}/sendMessage`, JSON.stringify({
+    chat_id: settings.chatId,
+    text: formatAlertText(alert),
+    disable_web_page_preview: true
+  }));
+
+  // The Bot API reports some failures with ok: false
+  const result = await response.json().catch(() => null);
+  if (result && result.ok === false) {
+    throw new Error(`Telegram error: ${result.description || 'unknown error'}`);
+  }
+};
+
+const sendEmail: AlertChannelSender = async (alert, channel) => {
+  const settings = channel.settings as EmailChannelSettings;
+
+  await sendSmtpMail(
+    {
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      username: settings.username,
+      password: settings.password
+    },
+    {
+      from: settings.from,
+      to: settings.to,
+      subject: `[${alert.severity.toUpperCase()}] ${alert.title}`,
+      text: formatAlertText(alert)
+    }
+  );
+};
+
+/**
+ * Returns an error message when the channel is missing settings its type needs
+ */
+export function validateAlertChannel(channel: Pick<AlertChannel, 'name' | 'type' | 'settings' | 'maxAttempts'>): string | null {
+  if (!channel.name) {
+    return 'Missing required field: name';
+  }
+  if (channel.maxAttempts !== undefined && (!Number.isInteger(channel.maxAttempts) || channel.maxAttempts < 1 || channel.maxAttempts > MAX_DELIVERY_ATTEMPTS)) {
+    return `maxAttempts must be an integer from 1 to ${MAX_DELIVERY_ATTEMPTS}`;
+  }
+  if (!ALERT_CHANNEL_TYPES.includes(channel.type)) {
+    return `Invalid channel type: ${channel.type}. Supported types: ${ALERT_CHANNEL_TYPES.join(', ')}`;
+  }
+  if (!channel.settings) {
+    return 'Missing required field: settings';
+  }
+
+  switch (channel.type) {
+    case 'webhook': {
+      const settings = channel.settings as WebhookChannelSettings;
+      return settings.url ? null : 'Webhook channels require settings.url';
+    }
+    case 'discord': {
+      const settings = channel.settings as DiscordChannelSettings;
+      return settings.webhookUrl ? null : 'Discord channels require settings.webhookUrl';
+    }
+    case 'telegram': {
+      const settings = channel.settings as TelegramChannelSettings;
+      return settings.botToken && settings.chatId ? null : 'Telegram channels require settings.botToken and settings.chatId';
+    }
+    case 'email': {
+      const settings = channel.settings as EmailChannelSettings;
+      if (!settings.host || !settings.port || !settings.from) {
+        return 'Email channels require settings.host, settings.port and settings.from';
+      }
+      return Array.isArray(settings.to) && settings.to.length > 0 ? null : 'Email channels require at least one address in settings.to';
+    }
+  }
+}
+
+// Hide credentials before returning a channel from the API
+export function redactAlertChannel(channel: AlertChannel): AlertChannel {
+  const settings: Record<string, unknown> = { ...channel.settings };
+  for (const key of SECRET_SETTINGS) {
+    if (settings[key]) {
+      settings[key] = '********';
+    }
+  }
+  return { ...channel, settings: settings as unknown as AlertChannel['settings'] };
+}
+
+export class AlertDispatcherService {
+  private senders: Map<AlertChannelType, AlertChannelSender> = new Map([
+    ['webhook', sendWebhook],
+    ['discord', sendDiscord],
+    ['telegram', sendTelegram],
+    ['email', sendEmail]
+  ]);
+
+  // Replace the sender used for a channel type
+  public registerSender(type: AlertChannelType, sender: AlertChannelSender): void {
+    this.senders.set(type, sender);
+  }
+
+  // Deliver an alert to every active channel whose routing matches it
+  public async dispatch(alert: WalletAlert): Promise<AlertDelivery[]> {
+    const db = await getWalletTrackerDb();
+    const channels = await db.getAlertChannels(alert.workspaceId, true);
+
+    const matching = channels.filter(channel => matchesAlertFilter(alert, channel));
+    return Promise.all(matching.map(channel => this.deliver(alert, channel)));
+  }
+
+  // Send with retries, recording every attempt in the delivery log
+  public async deliver(alert: WalletAlert, channel: AlertChannel): Promise<AlertDelivery> {
+    const db = await getWalletTrackerDb();
+    const delivery: AlertDelivery = {
+      id: `delivery_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      workspaceId: channel.workspaceId,
+      alertId: alert.id,
+      channelId: channel.id,
+      channelType: channel.type,
+      walletAddress: alert.walletAddress,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    await db.saveAlertDelivery(delivery);
+
+    const sender = this.senders.get(channel.type);
+    if (!sender) {
+      delivery.status = 'failed';
+      delivery.lastError = `No sender registered for channel type ${channel.type}`;
+      delivery.updatedAt = new Date();
+      await db.saveAlertDelivery(delivery);
+      return delivery;
+    }
+
+    // Channels stored before maxAttempts was validated may hold anything
+    const maxAttempts = Number.isInteger(channel.maxAttempts) && channel.maxAttempts! >= 1
+      ? Math.min(channel.maxAttempts!, MAX_DELIVERY_ATTEMPTS)
+      : DEFAULT_MAX_ATTEMPTS;
+
+    while (delivery.attempts < maxAttempts) {
+      delivery.attempts++;
+
+      try {
+        await sender(alert, channel, { deliveryId: delivery.id, attempt: delivery.attempts });
+
+        delivery.status = 'delivered';
+        delivery.deliveredAt = new Date();
+        delivery.lastError = undefined;
+      } catch (error) {
+        delivery.lastError = error instanceof Error ? error.message : String(error);
+        delivery.status = delivery.attempts < maxAttempts ? 'pending' : 'failed';
+        console.error(`Alert delivery to ${channel.type} channel ${channel.id} failed (attempt ${delivery.attempts}/${maxAttempts}):`, delivery.lastError);
+      }
+
+      delivery.updatedAt = new Date();
+      await db.saveAlertDelivery(delivery);
+
+      if (delivery.status !== 'pending') {
+        break;
+      }
+
+      // Exponential backoff: 1s, 2s, 4s, ... capped at 30s
+      const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (delivery.attempts - 1), RETRY_MAX_DELAY_MS);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    return delivery;
+  }
+
+  // Send a sample alert through one channel to check its settings
+  public async sendTest(channel: AlertChannel): Promise<AlertDelivery> {
+    const alert: WalletAlert = {
+      id: `alert_test_${Date.now()}`,
+      workspaceId: channel.workspaceId,
+      walletAddress: channel.walletAddresses?.[0] || 'test',
+      type: 'suspicious_activity',
+      title: 'Test Alert',
+      message: `Test notification for channel ${channel.name}`,
+      severity: 'low',
+      isRead: false,
+      createdAt: new Date(),
+      network: channel.network || 'mainnet'
+    };
+
+    return this.deliver(alert, { ...channel, maxAttempts: 1 });
+  }
+}
+
+// Singleton instance
+let alertDispatcherInstance: AlertDispatcherService | null = null;
+
+export function getAlertDispatcher(): AlertDispatcherService {
+  if (!alertDispatcherInstance) {
+    alertDispatcherInstance = new AlertDispatcherService();
+  }
+  return alertDispatcherInstance;
+}
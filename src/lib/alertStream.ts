@@ -0,0 +1,109 @@
+import { getWalletTrackerDb, WalletAlert } from './walletTrackerDb';
+import { NetworkType } from '../context/NetworkContext';
+
+export interface AlertStreamFilter {
+  // Alerts never cross workspaces
+  workspaceId: string;
+  walletAddresses?: string[];
+  severities?: WalletAlert['severity'][];
+  network?: NetworkType;
+}
+
+export type AlertStreamListener = (alert: WalletAlert) => void;
+
+interface AlertStreamSubscription {
+  id: number;
+  filter: AlertStreamFilter;
+  listener: AlertStreamListener;
+}
+
+// Number of recently published alerts kept in memory for Last-Event-ID replay
+const REPLAY_BUFFER_SIZE = 500;
+
+export function matchesAlertFilter(alert: WalletAlert, filter: AlertStreamFilter): boolean {
+  if (alert.workspaceId !== filter.workspaceId) {
+    return false;
+  }
+  if (filter.walletAddresses && filter.walletAddresses.length > 0 && !filter.walletAddresses.includes(alert.walletAddress)) {
+    return false;
+  }
+  if (filter.severities && filter.severities.length > 0 && !filter.severities.includes(alert.severity)) {
+    return false;
+  }
+  if (filter.network && alert.network !== filter.network) {
+    return false;
+  }
+  return true;
+}
+
+export class AlertStreamService {
+  private subscriptions: Map<number, AlertStreamSubscription> = new Map();
+  private recentAlerts: WalletAlert[] = [];
+  private nextSubscriptionId = 1;
+
+  // Push an alert to every subscriber whose filter matches
+  public publish(alert: WalletAlert): void {
+    this.recentAlerts.push(alert);
+    if (this.recentAlerts.length > REPLAY_BUFFER_SIZE) {
+      this.recentAlerts.shift();
+    }
+
+    for (const subscription of this.subscriptions.values()) {
+      if (!matchesAlertFilter(alert, subscription.filter)) {
+        continue;
+      }
+      try {
+        subscription.listener(alert);
+      } catch (error) {
+        console.error(`Error delivering alert to stream subscriber ${subscription.id}:`, error);
+      }
+    }
+  }
+
+  // Returns an unsubscribe function
+  public subscribe(filter: AlertStreamFilter, listener: AlertStreamListener): () => void {
+    const id = this.nextSubscriptionId++;
+    this.subscriptions.set(id, { id, filter, listener });
+
+    return () => {
+      this.subscriptions.delete(id);
+    };
+  }
+
+  // Alerts published after the one with the given id, oldest first
+  public async getAlertsSince(lastEventId: string, filter: AlertStreamFilter): Promise<WalletAlert[]> {
+    const bufferIndex = this.recentAlerts.findIndex(a => a.id === lastEventId);
+    if (bufferIndex !== -1) {
+      return this.recentAlerts
+        .slice(bufferIndex + 1)
+        .filter(alert => matchesAlertFilter(alert, filter));
+    }
+
+    // Fall back to the database when the event is older than the in-memory buffer
+    const db = await getWalletTrackerDb();
+    const lastAlert = await db.getWalletAlert(filter.workspaceId, lastEventId);
+    if (!lastAlert) {
+      return [];
+    }
+
+    const missed = await db.getWalletAlertsSince(filter.workspaceId, lastAlert.createdAt, REPLAY_BUFFER_SIZE);
+    return missed.filter(alert => alert.id !== lastEventId && matchesAlertFilter(alert, filter));
+  }
+
+  public getSubscriberCount(): number {
+    return this.subscriptions.size;
+  }
+}
+
+// Kept on globalThis so pages and app-router bundles, and modules reloaded by HMR,
+// publish to the same subscribers
+const globalForAlertStream = globalThis as typeof globalThis & {
+  alertStreamInstance?: AlertStreamService;
+};
+
+export function getAlertStream(): AlertStreamService {
+  if (!globalForAlertStream.alertStreamInstance) {
+    globalForAlertStream.alertStreamInstance = new AlertStreamService();
+  }
+  return globalForAlertStream.alertStreamInstance;
+}
@@ -0,0 +1,137 @@
+import {
+  getWalletTrackerDb,
+  WalletAlert,
+  AlertStatus,
+  AlertAuditEntry,
+  AlertNote
+} from './walletTrackerDb';
+
+export const ALERT_STATUSES: AlertStatus[] = ['open', 'acknowledged', 'snoozed', 'resolved', 'false_positive'];
+
+export interface AlertStateChange {
+  status?: AlertStatus;
+  // Required when status is snoozed
+  snoozedUntil?: Date | string;
+  // null clears the assignee
+  assignee?: string | null;
+  note?: string;
+  actor: string;
+}
+
+/**
+ * Status of an alert right now, a snooze that has run out counts as open
+ */
+export function getAlertStatus(alert: WalletAlert, now: Date = new Date()): AlertStatus {
+  const status = alert.status || 'open';
+  if (status === 'snoozed' && (!alert.snoozedUntil || new Date(alert.snoozedUntil) <= now)) {
+    return 'open';
+  }
+  return status;
+}
+
+export function withAlertStatus(alert: WalletAlert): WalletAlert {
+  return { ...alert, status: getAlertStatus(alert) };
+}
+
+/**
+ * Returns an error message when the change cannot be applied
+ */
+export function validateAlertStateChange(change: AlertStateChange): string | null {
+  if (change.status === undefined && change.assignee === undefined && !change.note) {
+    return 'Nothing to update: provide status, assignee or note';
+  }
+
+  if (change.status !== undefined && !ALERT_STATUSES.includes(change.status)) {
+    return `Invalid status: ${change.status}. Supported statuses: ${ALERT_STATUSES.join(', ')}`;
+  }
+
+  if (change.status === 'snoozed') {
+    const until = change.snoozedUntil ? new Date(change.snoozedUntil) : null;
+    if (!until || isNaN(until.getTime())) {
+      return 'Snoozing requires a valid snoozedUntil date';
+    }
+    if (until <= new Date()) {
+      return 'snoozedUntil must be in the future';
+    }
+  }
+
+  if (change.assignee !== undefined && change.assignee !== null && typeof change.assignee !== 'string') {
+    return 'assignee must be a string or null';
+  }
+
+  if (change.note !== undefined && typeof change.note !== 'string') {
+    return 'note must be a string';
+  }
+
+  return null;
+}
+
+/**
+ * Apply a status, assignee or note change and record it in the alert's audit trail.
+ * Returns null when the alert does not exist.
+ */
+export async function updateAlertState(workspaceId: string, alertId: string, change: AlertStateChange): Promise<WalletAlert | null> {
+  const db = await getWalletTrackerDb();
+  const alert = await db.getWalletAlert(workspaceId, alertId);
+  if (!alert) {
+    return null;
+  }
+
+  const now = new Date();
+  const updates: Partial<Pick<WalletAlert, 'status' | 'snoozedUntil' | 'assignee' | 'isRead'>> = {};
+  const unset: Array<'snoozedUntil' | 'assignee'> = [];
+  const auditEntries: AlertAuditEntry[] = [];
+
+  if (change.status !== undefined) {
+    const from = getAlertStatus(alert, now);
+    updates.status = change.status;
+
+    if (change.status === 'snoozed') {
+      updates.snoozedUntil = new Date(change.snoozedUntil!);
+    } else if (alert.snoozedUntil) {
+      unset.push('snoozedUntil');
+    }
+
+    // Anything other than reopening means someone has looked at it
+    if (change.status !== 'open') {
+      updates.isRead = true;
+    }
+
+    auditEntries.push({
+      action: 'status',
+      actor: change.actor,
+      from,
+      to: change.status,
+      ...(updates.snoozedUntil && { snoozedUntil: updates.snoozedUntil }),
+      at: now
+    });
+  }
+
+  if (change.assignee !== undefined && change.assignee !== (alert.assignee ?? null)) {
+    if (change.assignee) {
+      updates.assignee = change.assignee;
+    } else {
+      unset.push('assignee');
+    }
+
+    auditEntries.push({
+      action: 'assignee',
+      actor: change.actor,
+      ...(alert.assignee && { from: alert.assignee }),
+      ...(change.assignee && { to: change.assignee }),
+      at: now
+    });
+  }
+
+  let note: AlertNote | undefined;
+  if (change.note && change.note.trim()) {
+    note = { author: change.actor, text: change.note.trim(), createdAt: now };
+    auditEntries.push({ action: 'note', actor: change.actor, at: now });
+  }
+
+  if (auditEntries.length === 0) {
+    return alert;
+  }
+
+  return await db.updateAlertState(workspaceId, alertId, updates, unset, auditEntries, note);
+}
@@ -0,0 +1,218 @@
+/**
+ * Admin audit log
+ * Append-only record of configuration and wallet-tracker changes: who did what, the value
+ * before and after, and where the request came from. Entries are only ever inserted.
+ */
+
+import type { NextApiRequest } from 'next';
+import type { NextRequest } from 'next/server';
+import { Collection, Filter } from 'mongodb';
+import type { TrackedWallet } from './walletTracker';
+
+export type AuditAction =
+  | 'config.feeReceiver.update'
+  | 'role.assign'
+  | 'role.remove'
+  | 'workspace.create'
+  | 'workspace.update'
+  | 'workspace.delete'
+  | 'wallet.add'
+  | 'wallet.update'
+  | 'wallet.toggle'
+  | 'wallet.remove';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'config.feeReceiver.update',
+  'role.assign',
+  'role.remove',
+  'workspace.create',
+  'workspace.update',
+  'workspace.delete',
+  'wallet.add',
+  'wallet.update',
+  'wallet.toggle',
+  'wallet.remove'
+];
+
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+export interface AuditEntry {
+  id: string;
+  // Public key of the signed-in wallet
+  actor: string;
+  action: AuditAction;
+  // What was changed, e.g. a wallet address or workspace id
+  target?: string;
+  workspaceId?: string;
+  before: unknown;
+  after: unknown;
+  ip: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+export interface AuditQuery {
+  actor?: string;
+  action?: AuditAction;
+  target?: string;
+  workspaceId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Request details stored with every entry
+export interface AuditRequestInfo {
+  ip: string;
+  userAgent?: string;
+}
+
+let auditCollection: Collection<AuditEntry> | null = null;
+
+async function getAuditCollection(): Promise<Collection<AuditEntry>> {
+  if (!auditCollection) {
+    const { getMongoClient } = await import('./mongodb');
+    const client = await getMongoClient();
+    auditCollection = client.db('tokenup').collection<AuditEntry>('audit_log');
+    await auditCollection.createIndex({ id: 1 }, { unique: true });
+    await auditCollection.createIndex({ createdAt: -1 });
+    await auditCollection.createIndex({ actor: 1, createdAt: -1 });
+    await auditCollection.createIndex({ action: 1, createdAt: -1 });
+    await auditCollection.createIndex({ target: 1, createdAt: -1 });
+  }
+  return auditCollection;
+}
+
+// Reverse proxies in front of the app, set with TRUSTED_PROXY_HOPS; 0 when clients connect directly
+function getTrustedProxyHops(): number {
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS || '', 10);
+  return hops > 0 ? hops : 0;
+}
+
+// X-Forwarded-For and X-Real-IP are whatever the client sent unless a proxy sets them, so they
+// are only read behind trusted proxies. Each proxy appends the address it saw, which puts the
+// client that many entries from the right. Otherwise the socket address is the client.
+function pickClientIp(forwardedFor: string | null | undefined, realIp: string | null | undefined, socketAddress?: string): string {
+  const hops = getTrustedProxyHops();
+  if (hops > 0) {
+    const entries = (forwardedFor || '').split(',').map(entry => entry.trim()).filter(Boolean);
+    const forwarded = entries[entries.length - hops] || realIp?.trim();
+    if (forwarded) {
+      return forwarded;
+    }
+  }
+  return socketAddress || 'unknown';
+}
+
+export function getApiRequestInfo(req: NextApiRequest): AuditRequestInfo {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const realIp = req.headers['x-real-ip'];
+  return {
+    ip: pickClientIp(
+      Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor,
+      Array.isArray(realIp) ? realIp[0] : realIp,
+      req.socket?.remoteAddress
+    ),
+    userAgent: req.headers['user-agent']
+  };
+}
+
+// Route handlers do not expose the socket, so without trusted proxies the address is unknown
+export function getRequestInfo(request: NextRequest): AuditRequestInfo {
+  return {
+    ip: pickClientIp(request.headers.get('x-forwarded-for'), request.headers.get('x-real-ip')),
+    userAgent: request.headers.get('user-agent') || undefined
+  };
+}
+
+/**
+ * Append an entry to the audit log. The change it describes has already been made,
+ * so a failed write is logged rather than thrown.
+ */
+export async function recordAudit(
+  entry: Omit<AuditEntry, 'id' | 'createdAt' | 'ip' | 'userAgent'>,
+  request: AuditRequestInfo
+): Promise<AuditEntry | null> {
+  const record: AuditEntry = {
+    id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    ...entry,
+    ip: request.ip,
+    userAgent: request.userAgent,
+    createdAt: new Date()
+  };
+
+  try {
+    const collection = await getAuditCollection();
+    await collection.insertOne({ ...record });
+    return record;
+  } catch (error) {
+    console.error(`Error recording audit entry ${entry.action} by ${entry.actor}:`, error);
+    return null;
+  }
+}
+
+// The user-editable part of a tracked wallet, enough to see what changed
+export function toWalletAuditValue(wallet: TrackedWallet) {
+  return {
+    name: wallet.name,
+    description: wallet.description,
+    tags: wallet.tags,
+    isActive: wallet.isActive,
+    network: wallet.network
+  };
+}
+
+function buildAuditFilter(query: AuditQuery): Filter<AuditEntry> {
+  const filter: Filter<AuditEntry> = {};
+  if (query.actor) filter.actor = query.actor;
+  if (query.action) filter.action = query.action;
+  if (query.target) filter.target = query.target;
+  if (query.workspaceId) filter.workspaceId = query.workspaceId;
+  if (query.from || query.to) {
+    filter.createdAt = {
+      ...(query.from && { $gte: query.from }),
+      ...(query.to && { $lte: query.to })
+    };
+  }
+  return filter;
+}
+
+/**
+ * One page of matching entries, newest first
+ */
+export async function getAuditEntries(
+  query: AuditQuery,
+  page: number = 1,
+  pageSize: number = 50
+): Promise<{ entries: AuditEntry[]; total: number; page: number; pageSize: number }> {
+  const collection = await getAuditCollection();
+  const filter = buildAuditFilter(query);
+  const size = Math.min(Math.max(pageSize, 1), MAX_AUDIT_PAGE_SIZE);
+  const current = Math.max(page, 1);
+
+  const [entries, total] = await Promise.all([
+    collection
+      .find(filter, { projection: { _id: 0 } })
+      .sort({ createdAt: -1 })
+      .skip((current - 1) * size)
+      .limit(size)
+      .toArray(),
+    collection.countDocuments(filter)
+  ]);
+
+  return { entries, total, page: current, pageSize: size };
+}
+
+/**
+ * Every matching entry, oldest first, for exports
+ */
+export async function* iterateAuditEntries(query: AuditQuery): AsyncGenerator<AuditEntry> {
+  const collection = await getAuditCollection();
+  const cursor = collection.find(buildAuditFilter(query), { projection: { _id: 0 } }).sort({ createdAt: 1 });
+  try {
+    for await (const entry of cursor) {
+      yield entry;
+    }
+  } finally {
+    await cursor.close();
+  }
+}
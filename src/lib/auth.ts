@@ -0,0 +1,180 @@
+/**
+ * Sign-In With Solana
+ * The server hands out a one-time nonce, the wallet signs a message containing it and the
+ * verified signature is exchanged for a session token (an HS256 JWT) kept in an HttpOnly cookie.
+ */
+
+import { createHmac, createPublicKey, randomBytes, timingSafeEqual, verify } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextRequest } from 'next/server';
+import { Collection } from 'mongodb';
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+export const SESSION_COOKIE_NAME = 'tokenup_session';
+export const SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+// Time a wallet has to sign the challenge
+const NONCE_TTL_MS = 5 * 60 * 1000;
+
+// DER prefix that turns a raw 32-byte ed25519 key into an SPKI public key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export interface AuthSession {
+  publicKey: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface SignInChallenge {
+  nonce: string;
+  publicKey: string;
+  message: string;
+  expiresAt: Date;
+}
+
+function getAuthSecret(): string {
+  const secret = process.env.AUTH_SECRET || '';
+  if (secret.length < 32) {
+    throw new Error('AUTH_SECRET must be set to at least 32 characters');
+  }
+  return secret;
+}
+
+function base64UrlEncode(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+function base64UrlDecode(data: string): Buffer {
+  return Buffer.from(data.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+/**
+ * Text the wallet is asked to sign, laid out like a Sign-In With Solana message
+ */
+export function buildSignInMessage(domain: string, publicKey: string, nonce: string, issuedAt: Date): string {
+  return [
+    `${domain} wants you to sign in with your Solana account:`,
+    publicKey,
+    '',
+    'Sign in to TokenUp. This request does not send a transaction or cost any fees.',
+    '',
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`
+  ].join('\n');
+}
+
+let nonceCollection: Collection<SignInChallenge> | null = null;
+
+async function getNonceCollection(): Promise<Collection<SignInChallenge>> {
+  if (!nonceCollection) {
+    const { getMongoClient } = await import('./mongodb');
+    const client = await getMongoClient();
+    nonceCollection = client.db('tokenup').collection<SignInChallenge>('auth_nonces');
+    await nonceCollection.createIndex({ nonce: 1 }, { unique: true });
+    // Unused challenges are removed by MongoDB once they expire
+    await nonceCollection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  }
+  return nonceCollection;
+}
+
+export async function createSignInChallenge(publicKey: string, domain: string): Promise<SignInChallenge> {
+  const now = new Date();
+  const nonce = randomBytes(16).toString('hex');
+  const challenge: SignInChallenge = {
+    nonce,
+    publicKey,
+    message: buildSignInMessage(domain, publicKey, nonce, now),
+    expiresAt: new Date(now.getTime() + NONCE_TTL_MS)
+  };
+
+  const collection = await getNonceCollection();
+  await collection.insertOne({ ...challenge });
+  return challenge;
+}
+
+/**
+ * Take a challenge out of the store so its nonce can be used only once; null when unknown or expired
+ */
+export async function consumeSignInChallenge(nonce: string, publicKey: string): Promise<SignInChallenge | null> {
+  const collection = await getNonceCollection();
+  return await collection.findOneAndDelete(
+    { nonce, publicKey, expiresAt: { $gt: new Date() } },
+    { projection: { _id: 0 } }
+  );
+}
+
+/**
+ * Check an ed25519 signature (base58) of message by the wallet's public key
+ */
+export function verifyWalletSignature(message: string, signature: string, publicKey: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(publicKey).toBuffer()]),
+      format: 'der',
+      type: 'spki'
+    });
+    return verify(null, Buffer.from(message, 'utf8'), key, Buffer.from(bs58.decode(signature)));
+  } catch {
+    return false;
+  }
+}
+
+export function createSessionToken(publicKey: string, ttlSeconds: number = SESSION_TTL_SECONDS): string {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64UrlEncode(JSON.stringify({ sub: publicKey, iat: issuedAt, exp: issuedAt + ttlSeconds }));
+  const signature = base64UrlEncode(createHmac('sha256', getAuthSecret()).update(`${header}.${payload}`).digest());
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Session from a token, null when it is malformed, tampered with or expired
+ */
+export function verifySessionToken(token: string | undefined | null): AuthSession | null {
+  if (!token) return null;
+
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  const expected = createHmac('sha256', getAuthSecret()).update(`${header}.${payload}`).digest();
+  const actual = base64UrlDecode(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(base64UrlDecode(payload).toString('utf8'));
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+      return null;
+    }
+    return { publicKey: claims.sub, issuedAt: claims.iat * 1000, expiresAt: claims.exp * 1000 };
+  } catch {
+    return null;
+  }
+}
+
+// Scripts can send the token as a bearer token instead of the cookie
+function getBearerToken(authorization: string | null | undefined): string | undefined {
+  return authorization?.startsWith('Bearer ') ? authorization.slice(7) : undefined;
+}
+
+export function getApiSession(req: NextApiRequest): AuthSession | null {
+  return verifySessionToken(req.cookies[SESSION_COOKIE_NAME] || getBearerToken(req.headers.authorization));
+}
+
+export function getRequestSession(request: NextRequest): AuthSession | null {
+  return verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value || getBearerToken(request.headers.get('authorization')));
+}
+
+/**
+ * Session of a pages-router request; responds with 401 and returns null when there is none
+ */
+export function requireApiSession(req: NextApiRequest, res: NextApiResponse): AuthSession | null {
+  const session = getApiSession(req);
+  if (!session) {
+    res.status(401).json({ error: 'Sign in with your wallet to continue' });
+  }
+  return session;
+}
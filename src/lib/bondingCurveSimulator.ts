@@ -0,0 +1,305 @@
+/**
+ * PumpFun Bonding Curve Simulator
+ * Constant-product math over the curve's virtual reserves, used to quote buys and sells
+ * before they are sent. Amounts in and out are in SOL and whole tokens; reserves are kept
+ * in lamports and raw token units so repeated trades do not drift.
+ */
+
+import {
+  BondingCurveAccount,
+  INITIAL_VIRTUAL_TOKEN_RESERVES,
+  INITIAL_VIRTUAL_SOL_RESERVES,
+  INITIAL_REAL_TOKEN_RESERVES,
+  PUMPFUN_TOKEN_DECIMALS,
+  PUMPFUN_TOTAL_SUPPLY,
+  calculateBondingCurvePrice,
+  calculateBondingCurveProgress
+} from './pumpfunCurve';
+
+// Trading fee charged by the pump.fun program, in basis points of the SOL side
+export const DEFAULT_PUMPFUN_FEE_BPS = 100;
+
+const LAMPORTS_PER_SOL = BigInt(1e9);
+const TOKEN_UNIT = BigInt(10 ** PUMPFUN_TOKEN_DECIMALS);
+const BPS_DENOMINATOR = BigInt(10000);
+
+export interface CurveReserves {
+  virtualSolReserves: bigint;
+  virtualTokenReserves: bigint;
+  realSolReserves: bigint;
+  realTokenReserves: bigint;
+  tokenTotalSupply: bigint;
+}
+
+export type TradeSide = 'buy' | 'sell';
+
+export interface TradeStep {
+  side: TradeSide;
+  // SOL to spend for buys, tokens to sell for sells
+  amount: number;
+  label?: string;
+}
+
+export interface SimulationOptions {
+  feeBps?: number;
+  // Slippage tolerance in percent, used for the min-out / max-cost limits
+  slippage?: number;
+}
+
+export interface TradeQuote {
+  side: TradeSide;
+  label?: string;
+  solAmount: number;
+  tokenAmount: number;
+  fee: number;
+  // SOL per whole token
+  priceBefore: number;
+  priceAfter: number;
+  averagePrice: number;
+  // Percent the average price lies above (buys) or below (sells) the price before the trade
+  priceImpact: number;
+  // Share of the total supply bought or sold
+  supplyShare: number;
+  // Limits to send with the trade for the given slippage
+  maxSolCost?: number;
+  minSolOutput?: number;
+  // The trade emptied the curve and was cut short
+  capped: boolean;
+}
+
+export interface SimulationResult {
+  quotes: TradeQuote[];
+  startPrice: number;
+  endPrice: number;
+  // Net tokens bought over all steps and their share of the supply
+  netTokens: number;
+  netSupplyShare: number;
+  netSol: number;
+  progress: number;
+  complete: boolean;
+  reserves: CurveReserves;
+}
+
+export function getInitialReserves(): CurveReserves {
+  return {
+    virtualSolReserves: BigInt(INITIAL_VIRTUAL_SOL_RESERVES),
+    virtualTokenReserves: BigInt(INITIAL_VIRTUAL_TOKEN_RESERVES),
+    realSolReserves: BigInt(0),
+    realTokenReserves: BigInt(INITIAL_REAL_TOKEN_RESERVES),
+    tokenTotalSupply: BigInt(PUMPFUN_TOTAL_SUPPLY) * TOKEN_UNIT
+  };
+}
+
+export function getReservesFromCurve(curve: BondingCurveAccount): CurveReserves {
+  return {
+    virtualSolReserves: BigInt(curve.virtualSolReserves),
+    virtualTokenReserves: BigInt(curve.virtualTokenReserves),
+    realSolReserves: BigInt(curve.realSolReserves),
+    realTokenReserves: BigInt(curve.realTokenReserves),
+    tokenTotalSupply: BigInt(curve.tokenTotalSupply)
+  };
+}
+
+// Reserves as plain numbers, e.g. for JSON responses
+export function serializeReserves(reserves: CurveReserves): Record<keyof CurveReserves, number> {
+  return {
+    virtualSolReserves: Number(reserves.virtualSolReserves),
+    virtualTokenReserves: Number(reserves.virtualTokenReserves),
+    realSolReserves: Number(reserves.realSolReserves),
+    realTokenReserves: Number(reserves.realTokenReserves),
+    tokenTotalSupply: Number(reserves.tokenTotalSupply)
+  };
+}
+
+function getPrice(reserves: CurveReserves): number {
+  return calculateBondingCurvePrice(Number(reserves.virtualSolReserves), Number(reserves.virtualTokenReserves));
+}
+
+function toLamports(sol: number): bigint {
+  return BigInt(Math.floor(sol * 1e9));
+}
+
+function toRawTokens(tokens: number): bigint {
+  return BigInt(Math.floor(tokens * 10 ** PUMPFUN_TOKEN_DECIMALS));
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - BigInt(1)) / b;
+}
+
+/**
+ * Quote a buy of solAmount SOL (fee included) and return the reserves after it
+ */
+export function simulateBuy(
+  reserves: CurveReserves,
+  solAmount: number,
+  options: SimulationOptions = {}
+): { quote: TradeQuote; reserves: CurveReserves } {
+  const feeBps = BigInt(options.feeBps ?? DEFAULT_PUMPFUN_FEE_BPS);
+  const priceBefore = getPrice(reserves);
+
+  const solIn = toLamports(solAmount);
+  let fee = (solIn * feeBps) / BPS_DENOMINATOR;
+  let netSol = solIn - fee;
+
+  const k = reserves.virtualSolReserves * reserves.virtualTokenReserves;
+  // Round the remaining token reserves up so the curve never gives out more than it should
+  let tokensOut = reserves.virtualTokenReserves - ceilDiv(k, reserves.virtualSolReserves + netSol);
+
+  let capped = false;
+  if (tokensOut >= reserves.realTokenReserves) {
+    // Only the real reserves can be bought, the rest of the SOL is not spent
+    capped = true;
+    tokensOut = reserves.realTokenReserves;
+    netSol = ceilDiv(k, reserves.virtualTokenReserves - tokensOut) - reserves.virtualSolReserves;
+    fee = (netSol * feeBps) / (BPS_DENOMINATOR - feeBps);
+  }
+
+  const after: CurveReserves = {
+    ...reserves,
+    virtualSolReserves: reserves.virtualSolReserves + netSol,
+    virtualTokenReserves: reserves.virtualTokenReserves - tokensOut,
+    realSolReserves: reserves.realSolReserves + netSol,
+    realTokenReserves: reserves.realTokenReserves - tokensOut
+  };
+
+  const tokenAmount = Number(tokensOut) / Number(TOKEN_UNIT);
+  const solSpent = Number(netSol + fee) / Number(LAMPORTS_PER_SOL);
+  const averagePrice = tokenAmount > 0 ? Number(netSol) / Number(LAMPORTS_PER_SOL) / tokenAmount : priceBefore;
+  const slippage = options.slippage ?? 0;
+
+  return {
+    quote: {
+      side: 'buy',
+      solAmount: solSpent,
+      tokenAmount,
+      fee: Number(fee) / Number(LAMPORTS_PER_SOL),
+      priceBefore,
+      priceAfter: getPrice(after),
+      averagePrice,
+      priceImpact: priceBefore > 0 ? ((averagePrice - priceBefore) / priceBefore) * 100 : 0,
+      supplyShare: (Number(tokensOut) / Number(reserves.tokenTotalSupply)) * 100,
+      maxSolCost: solSpent * (1 + slippage / 100),
+      capped
+    },
+    reserves: after
+  };
+}
+
+/**
+ * Quote a sell of tokenAmount whole tokens and return the reserves after it
+ */
+export function simulateSell(
+  reserves: CurveReserves,
+  tokenAmount: number,
+  options: SimulationOptions = {}
+): { quote: TradeQuote; reserves: CurveReserves } {
+  const feeBps = BigInt(options.feeBps ?? DEFAULT_PUMPFUN_FEE_BPS);
+  const priceBefore = getPrice(reserves);
+
+  const tokensIn = toRawTokens(tokenAmount);
+  const k = reserves.virtualSolReserves * reserves.virtualTokenReserves;
+  let grossSol = reserves.virtualSolReserves - ceilDiv(k, reserves.virtualTokenReserves + tokensIn);
+
+  let capped = false;
+  if (grossSol > reserves.realSolReserves) {
+    // The curve cannot pay out more SOL than it holds
+    capped = true;
+    grossSol = reserves.realSolReserves;
+  }
+
+  const fee = (grossSol * feeBps) / BPS_DENOMINATOR;
+  const netSol = grossSol - fee;
+
+  const after: CurveReserves = {
+    ...reserves,
+    virtualSolReserves: reserves.virtualSolReserves - grossSol,
+    virtualTokenReserves: reserves.virtualTokenReserves + tokensIn,
+    realSolReserves: reserves.realSolReserves - grossSol,
+    realTokenReserves: reserves.realTokenReserves + tokensIn
+  };
+
+  const tokensSold = Number(tokensIn) / Number(TOKEN_UNIT);
+  const solReceived = Number(netSol) / Number(LAMPORTS_PER_SOL);
+  const averagePrice = tokensSold > 0 ? Number(grossSol) / Number(LAMPORTS_PER_SOL) / tokensSold : priceBefore;
+  const slippage = options.slippage ?? 0;
+
+  return {
+    quote: {
+      side: 'sell',
+      solAmount: solReceived,
+      tokenAmount: tokensSold,
+      fee: Number(fee) / Number(LAMPORTS_PER_SOL),
+      priceBefore,
+      priceAfter: getPrice(after),
+      averagePrice,
+      priceImpact: priceBefore > 0 ? ((priceBefore - averagePrice) / priceBefore) * 100 : 0,
+      supplyShare: (Number(tokensIn) / Number(reserves.tokenTotalSupply)) * 100,
+      minSolOutput: solReceived * (1 - slippage / 100),
+      capped
+    },
+    reserves: after
+  };
+}
+
+/**
+ * Run a sequence of buys and sells, each starting from the reserves the previous one left.
+ * Steps after the curve completes are not quoted.
+ */
+export function simulateTrades(
+  reserves: CurveReserves,
+  steps: TradeStep[],
+  options: SimulationOptions = {}
+): SimulationResult {
+  const quotes: TradeQuote[] = [];
+  const startPrice = getPrice(reserves);
+  let current = reserves;
+  let netTokens = 0;
+  let netSol = 0;
+
+  for (const step of steps) {
+    if (current.realTokenReserves === BigInt(0)) break;
+
+    const result = step.side === 'buy'
+      ? simulateBuy(current, step.amount, options)
+      : simulateSell(current, step.amount, options);
+
+    quotes.push({ ...result.quote, label: step.label });
+    current = result.reserves;
+
+    if (step.side === 'buy') {
+      netTokens += result.quote.tokenAmount;
+      netSol += result.quote.solAmount;
+    } else {
+      netTokens -= result.quote.tokenAmount;
+      netSol -= result.quote.solAmount;
+    }
+  }
+
+  const complete = current.realTokenReserves === BigInt(0);
+
+  return {
+    quotes,
+    startPrice,
+    endPrice: getPrice(current),
+    netTokens,
+    netSupplyShare: (netTokens * Number(TOKEN_UNIT) / Number(current.tokenTotalSupply)) * 100,
+    netSol,
+    progress: calculateBondingCurveProgress(Number(current.realTokenReserves), complete),
+    complete,
+    reserves: current
+  };
+}
+
+/**
+ * Returns an error message when a trade step is not usable
+ */
+export function validateTradeStep(step: Partial<TradeStep>): string | null {
+  if (step.side !== 'buy' && step.side !== 'sell') {
+    return `Invalid side: ${step.side}. Supported sides: buy, sell`;
+  }
+  if (typeof step.amount !== 'number' || !isFinite(step.amount) || step.amount <= 0) {
+    return 'amount must be a positive number';
+  }
+  return null;
+}
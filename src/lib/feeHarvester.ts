@@ -0,0 +1,157 @@
+/**
+ * Transfer Fee Harvester
+ * Finds the token accounts of a fee-enabled mint that still hold withheld fees, harvests them
+ * into the mint in batches and withdraws everything the mint holds to a destination wallet.
+ */
+
+import { Connection, PublicKey, Transaction } from '@solana/web3.js';
+import { getTransferFeeAmount, getTransferFeeConfig, unpackAccount, unpackMint } from '@solana/spl-token';
+import { createHarvestWithheldTransaction, createWithdrawWithheldTransaction, getHarvestBatches } from './web3';
+
+export type HarvestStage = 'scan' | 'harvest' | 'withdraw';
+
+export interface HarvestProgress {
+  stage: HarvestStage;
+  completed: number;
+  total: number;
+  signature?: string;
+}
+
+export interface WithheldFeeAccount {
+  address: PublicKey;
+  withheldAmount: bigint;
+}
+
+export interface HarvestOptions {
+  // Owner of the token account receiving the fees, defaults to the withdraw authority
+  destination?: PublicKey;
+  // Only scan and total what could be collected, nothing is sent
+  dryRun?: boolean;
+  onProgress?: (progress: HarvestProgress) => void;
+}
+
+export interface HarvestResult {
+  dryRun: boolean;
+  accounts: WithheldFeeAccount[];
+  // Fees still sitting in token accounts
+  withheldInAccounts: bigint;
+  // Fees already harvested into the mint
+  withheldInMint: bigint;
+  // Total that can be withdrawn once everything is harvested
+  harvestable: bigint;
+  batches: number;
+  harvestSignatures: string[];
+  withdrawSignature?: string;
+  // Amount moved to the destination by the withdrawal
+  withdrawn: bigint;
+}
+
+async function getMintWithheldAmount(connection: Connection, tokenMint: PublicKey) {
+  const info = await connection.getAccountInfo(tokenMint, 'confirmed');
+  if (!info) {
+    throw new Error(`Mint ${tokenMint.toString()} not found`);
+  }
+
+  const transferFee = getTransferFeeConfig(unpackMint(tokenMint, info, info.owner));
+  if (!transferFee) {
+    throw new Error('This mint does not charge transfer fees');
+  }
+  return { programId: info.owner, withheldAmount: transferFee.withheldAmount };
+}
+
+/**
+ * Every token account of the mint with withheld fees, largest first
+ */
+export async function findWithheldFeeAccounts(
+  connection: Connection,
+  tokenMint: PublicKey,
+  programId: PublicKey
+): Promise<WithheldFeeAccount[]> {
+  // Token accounts start with the mint they belong to
+  const accounts = await connection.getProgramAccounts(programId, {
+    commitment: 'confirmed',
+    filters: [{ memcmp: { offset: 0, bytes: tokenMint.toBase58() } }],
+  });
+
+  const withheld: WithheldFeeAccount[] = [];
+  for (const { pubkey, account } of accounts) {
+    try {
+      const withheldAmount = getTransferFeeAmount(unpackAccount(pubkey, account, programId))?.withheldAmount ?? BigInt(0);
+      if (withheldAmount > BigInt(0)) {
+        withheld.push({ address: pubkey, withheldAmount });
+      }
+    } catch {
+      // Not a token account
+    }
+  }
+
+  return withheld.sort((a, b) => (b.withheldAmount > a.withheldAmount ? 1 : b.withheldAmount < a.withheldAmount ? -1 : 0));
+}
+
+async function sendAndConfirm(
+  connection: Connection,
+  transaction: Transaction,
+  sendTransaction: (transaction: Transaction) => Promise<string>
+): Promise<string> {
+  const signature = await sendTransaction(transaction);
+  const confirmation = await connection.confirmTransaction(signature, 'confirmed');
+  if (confirmation.value.err) {
+    throw new Error(`Transaction ${signature} failed: ${JSON.stringify(confirmation.value.err)}`);
+  }
+  return signature;
+}
+
+/**
+ * Harvest withheld fees of every token account into the mint, then withdraw them to the
+ * destination. Batches are sent one at a time and the run stops at the first failure;
+ * batches already confirmed stay harvested and can be withdrawn by a later run.
+ */
+export async function harvestTransferFees(
+  connection: Connection,
+  tokenMint: PublicKey,
+  withdrawAuthority: PublicKey,
+  sendTransaction: (transaction: Transaction) => Promise<string>,
+  options: HarvestOptions = {}
+): Promise<HarvestResult> {
+  const { destination = withdrawAuthority, dryRun = false, onProgress } = options;
+
+  onProgress?.({ stage: 'scan', completed: 0, total: 1 });
+  const { programId, withheldAmount: withheldInMint } = await getMintWithheldAmount(connection, tokenMint);
+  const accounts = await findWithheldFeeAccounts(connection, tokenMint, programId);
+  const withheldInAccounts = accounts.reduce((total, account) => total + account.withheldAmount, BigInt(0));
+  const batches = getHarvestBatches(tokenMint, accounts.map(account => account.address), withdrawAuthority, programId);
+  onProgress?.({ stage: 'scan', completed: 1, total: 1 });
+
+  const result: HarvestResult = {
+    dryRun,
+    accounts,
+    withheldInAccounts,
+    withheldInMint,
+    harvestable: withheldInAccounts + withheldInMint,
+    batches: batches.length,
+    harvestSignatures: [],
+    withdrawn: BigInt(0),
+  };
+  if (dryRun) {
+    return result;
+  }
+
+  for (const [index, batch] of batches.entries()) {
+    const transaction = await createHarvestWithheldTransaction(connection, tokenMint, batch, withdrawAuthority);
+    const signature = await sendAndConfirm(connection, transaction, sendTransaction);
+    result.harvestSignatures.push(signature);
+    onProgress?.({ stage: 'harvest', completed: index + 1, total: batches.length, signature });
+  }
+
+  // Read back what actually reached the mint, transfers may have added fees meanwhile
+  const { withheldAmount } = await getMintWithheldAmount(connection, tokenMint);
+  if (withheldAmount > BigInt(0)) {
+    onProgress?.({ stage: 'withdraw', completed: 0, total: 1 });
+    const transaction = await createWithdrawWithheldTransaction(connection, tokenMint, withdrawAuthority, destination);
+    result.withdrawSignature = await sendAndConfirm(connection, transaction, sendTransaction);
+    result.withdrawn = withheldAmount;
+    onProgress?.({ stage: 'withdraw', completed: 1, total: 1, signature: result.withdrawSignature });
+  }
+
+  return result;
+}
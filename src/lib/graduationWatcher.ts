@@ -0,0 +1,293 @@
+/**
+ * Graduation Watcher
+ * Follows the bonding curves of pump.fun tokens launched through TokenUp, records their progress
+ * and reports when a curve completes and its liquidity migrates to PumpSwap or Raydium.
+ */
+
+import { getLaunchDb, MIGRATION_LOOKUP_WINDOW_MS } from './launchDb';
+import { LaunchedToken } from './types';
+import { BondingCurveState, fetchBondingCurves, fetchMigrationPool, MigrationPool } from './pumpfunCurve';
+import { getHeliusService } from './helius';
+import { getWalletMonitor } from './walletMonitor';
+import { getWalletTrackerDb, DEFAULT_WORKSPACE_ID } from './walletTrackerDb';
+import { NetworkType } from '@/context/NetworkContext';
+
+export const DEFAULT_GRADUATION_CHECK_INTERVAL_MS = 60 * 1000;
+
+export interface GraduationEvent {
+  type: 'completed' | 'migrated';
+  mint: string;
+  network: NetworkType;
+  token: LaunchedToken;
+  curve: BondingCurveState;
+  migrationPool?: string;
+  migrationVenue?: MigrationPool['venue'];
+  occurredAt: Date;
+}
+
+const VENUE_NAMES: Record<MigrationPool['venue'], string> = {
+  pumpswap: 'PumpSwap',
+  raydium: 'Raydium'
+};
+
+export type GraduationListener = (event: GraduationEvent) => void;
+
+export interface GraduationCheckResult {
+  checked: number;
+  recorded: number;
+  events: GraduationEvent[];
+}
+
+// A curve moved enough to be worth a new progress point
+function hasCurveChanged(token: LaunchedToken, curve: BondingCurveState): boolean {
+  const data = token.pumpFunData;
+  return !data
+    || data.complete !== curve.complete
+    || data.realSolReserves !== curve.realSolReserves
+    || data.realTokenReserves !== curve.realTokenReserves;
+}
+
+export class GraduationWatcherService {
+  private interval: NodeJS.Timeout | null = null;
+  private intervalMs = DEFAULT_GRADUATION_CHECK_INTERVAL_MS;
+  private running = false;
+  private listeners: Set<GraduationListener> = new Set();
+
+  public start(intervalMs: number = DEFAULT_GRADUATION_CHECK_INTERVAL_MS): void {
+    if (this.interval) {
+      return;
+    }
+
+    this.intervalMs = intervalMs;
+    this.interval = setInterval(async () => {
+      await this.runScheduledCheck();
+    }, intervalMs);
+
+    console.log(`Graduation watcher started, checking every ${Math.round(intervalMs / 1000)} seconds`);
+    void this.runScheduledCheck();
+  }
+
+  public stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  public getStatus() {
+    return {
+      isRunning: this.interval !== null,
+      intervalMs: this.intervalMs,
+      listeners: this.listeners.size
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onGraduation(listener: GraduationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async runScheduledCheck(): Promise<void> {
+    try {
+      await this.checkLaunches();
+    } catch (error) {
+      console.error('Error checking pump.fun launches for graduation:', error);
+    }
+  }
+
+  /**
+   * Check now, or null while another check is still going; overlapping checks would both
+   * see a curve as incomplete and report its graduation twice
+   */
+  public async checkLaunches(network?: NetworkType): Promise<GraduationCheckResult | null> {
+    if (this.running) {
+      return null;
+    }
+
+    this.running = true;
+    try {
+      return await this.runCheck(network);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Read the curve of every watched launch, record progress that changed and report graduations
+   */
+  private async runCheck(network?: NetworkType): Promise<GraduationCheckResult> {
+    const db = await getLaunchDb();
+    const launches = await db.getWatchedLaunches(network);
+    const result: GraduationCheckResult = { checked: 0, recorded: 0, events: [] };
+
+    const byNetwork = new Map<NetworkType, LaunchedToken[]>();
+    for (const launch of launches) {
+      byNetwork.set(launch.network, [...(byNetwork.get(launch.network) || []), launch]);
+    }
+
+    for (const [net, tokens] of byNetwork) {
+      const connection = getHeliusService(net).getConnection();
+      const curves = await fetchBondingCurves(connection, tokens.map(t => t.mintAddress));
+
+      for (const token of tokens) {
+        const curve = curves.get(token.mintAddress);
+        if (!curve) {
+          continue;
+        }
+        result.checked++;
+
+        try {
+          if (hasCurveChanged(token, curve)) {
+            result.recorded++;
+          }
+          result.events.push(...await this.updateLaunch(token, curve));
+        } catch (error) {
+          console.error(`Error updating curve for ${token.mintAddress}:`, error);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private async updateLaunch(token: LaunchedToken, curve: BondingCurveState): Promise<GraduationEvent[]> {
+    const db = await getLaunchDb();
+    const now = new Date();
+    const events: GraduationEvent[] = [];
+    const wasComplete = token.pumpFunData?.complete === true;
+
+    if (hasCurveChanged(token, curve)) {
+      await db.recordCurveProgress({
+        mint: token.mintAddress,
+        network: token.network,
+        progress: curve.progress,
+        complete: curve.complete,
+        realSolReserves: curve.realSolReserves,
+        realTokenReserves: curve.realTokenReserves,
+        marketCapSol: curve.marketCapSol,
+        priceSol: curve.priceSol,
+        timestamp: now
+      });
+    }
+
+    const pumpFunData: Partial<NonNullable<LaunchedToken['pumpFunData']>> = {
+      bondingCurve: curve.bondingCurve,
+      associatedBondingCurve: curve.associatedBondingCurve,
+      virtualTokenReserves: curve.virtualTokenReserves,
+      virtualSolReserves: curve.virtualSolReserves,
+      realTokenReserves: curve.realTokenReserves,
+      realSolReserves: curve.realSolReserves,
+      marketCap: curve.marketCapSol,
+      bondingCurveProgress: curve.progress,
+      complete: curve.complete,
+      lastUpdated: now.toISOString()
+    };
+
+    if (curve.complete && !wasComplete) {
+      pumpFunData.completedAt = now.toISOString();
+      events.push({ type: 'completed', mint: token.mintAddress, network: token.network, token, curve, occurredAt: now });
+    }
+
+    // Migration runs in its own transaction shortly after the curve completes
+    if (curve.complete && !token.pumpFunData?.migrationPool) {
+      const pool = await fetchMigrationPool(getHeliusService(token.network).getConnection(), token.mintAddress);
+      if (pool) {
+        pumpFunData.migrationPool = pool.address;
+        pumpFunData.migrationVenue = pool.venue;
+        events.push({
+          type: 'migrated',
+          mint: token.mintAddress,
+          network: token.network,
+          token,
+          curve,
+          migrationPool: pool.address,
+          migrationVenue: pool.venue,
+          occurredAt: now
+        });
+      } else {
+        // Give up after the lookup window so the launch does not stay watched forever
+        const completedAt = new Date(pumpFunData.completedAt || token.pumpFunData?.completedAt || now);
+        if (now.getTime() - completedAt.getTime() >= MIGRATION_LOOKUP_WINDOW_MS) {
+          pumpFunData.migrationLookupFailedAt = now.toISOString();
+          console.warn(`No migration pool found for ${token.mintAddress} since its curve completed at ${completedAt.toISOString()}`);
+        }
+      }
+    }
+
+    await db.updateLaunch(token.mintAddress, token.network, { pumpFunData });
+
+    for (const event of events) {
+      this.emit(event);
+      await this.raiseAlert(event);
+    }
+
+    return events;
+  }
+
+  private emit(event: GraduationEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error delivering graduation event to listener:', error);
+      }
+    }
+  }
+
+  private async raiseAlert(event: GraduationEvent): Promise<void> {
+    const { token, curve } = event;
+    const label = `${token.name} (${token.symbol})`;
+    // Alerts belong to the creator wallet so they land next to its other alerts
+    const walletAddress = token.creator || curve.creator || token.mintAddress;
+
+    // Raised in every workspace that tracks the creator and in the creator's own workspaces.
+    // The default workspace is shared by everyone, so it only gets alerts when it tracks the creator.
+    const db = await getWalletTrackerDb();
+    const trackers = await db.getWalletsByAddresses([walletAddress], token.network);
+    const memberships = (await db.getWorkspaces(walletAddress)).filter(workspace => workspace.id !== DEFAULT_WORKSPACE_ID);
+    const workspaceIds = Array.from(new Set([
+      ...trackers.map(wallet => wallet.workspaceId),
+      ...memberships.map(workspace => workspace.id)
+    ]));
+    if (workspaceIds.length === 0) {
+      console.log(`No workspace follows ${walletAddress}, skipping ${event.type} alert for ${token.mintAddress}`);
+      return;
+    }
+
+    for (const workspaceId of workspaceIds) {
+      if (event.type === 'completed') {
+        await getWalletMonitor().createAlert(workspaceId, walletAddress, {
+          type: 'token_graduated',
+          title: 'Bonding Curve Complete',
+          message: `${label} completed its bonding curve with ${(curve.realSolReserves / 1e9).toFixed(2)} SOL raised`,
+          severity: 'high',
+          data: { mint: token.mintAddress, bondingCurve: curve.bondingCurve, marketCapSol: curve.marketCapSol },
+          network: token.network
+        });
+      } else {
+        const venue = VENUE_NAMES[event.migrationVenue || 'pumpswap'];
+        await getWalletMonitor().createAlert(workspaceId, walletAddress, {
+          type: 'token_migrated',
+          title: `Token Migrated to ${venue}`,
+          message: `${label} now trades on ${venue} pool ${event.migrationPool}`,
+          severity: 'high',
+          data: { mint: token.mintAddress, migrationPool: event.migrationPool, migrationVenue: event.migrationVenue },
+          network: token.network
+        });
+      }
+    }
+  }
+}
+
+// Singleton instance
+let graduationWatcherInstance: GraduationWatcherService | null = null;
+
+export function getGraduationWatcher(): GraduationWatcherService {
+  if (!graduationWatcherInstance) {
+    graduationWatcherInstance = new GraduationWatcherService();
+  }
+  return graduationWatcherInstance;
+}
@@ -88,6 +88,16 @@ export interface HeliusAsset {
   };
   mutable: boolean;
   burnt: boolean;
+  // Only present for fungible tokens
+  token_info?: {
+    symbol?: string;
+    decimals?: number;
+    supply?: number;
+    price_info?: {
+      price_per_token: number;
+      currency: string;
+    };
+  };
 }
 
 export interface HeliusTransaction {
@@ -149,6 +159,16 @@ export interface HeliusTransaction {
   };
 }
 
+export interface HeliusWebhook {
+  webhookID: string;
+  wallet: string;
+  webhookURL: string;
+  transactionTypes: string[];
+  accountAddresses: string[];
+  webhookType: string;
+  authHeader?: string;
+}
+
 export interface HeliusBalanceResponse {
   total: number;
   limit: number;
@@ -308,6 +328,50 @@ export class HeliusService {
     }
   }
 
+  // Get USD prices for fungible tokens, mints without a known price are left out
+  public async getTokenPrices(mintAddresses: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    if (!this.hasApiKey() || mintAddresses.length === 0) {
+      return prices;
+    }
+
+    // getAssetBatch accepts at most 1000 ids per call
+    for (let i = 0; i < mintAddresses.length; i += 1000) {
+      const ids = mintAddresses.slice(i, i + 1000);
+      try {
+        const response = await fetch(this.getDasRpcUrl(), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 'get-asset-batch',
+            method: 'getAssetBatch',
+            params: { ids }
+          })
+        });
+        if (!response.ok) {
+          console.error(`Failed to fetch token prices: ${response.status} ${response.statusText}`);
+          continue;
+        }
+        const data = await response.json();
+        if (data.error) {
+          console.error('Helius API error:', data.error);
+          continue;
+        }
+        for (const asset of (data.result || []) as Array<HeliusAsset | null>) {
+          const priceInfo = asset?.token_info?.price_info;
+          if (asset && priceInfo && priceInfo.currency === 'USDC') {
+            prices.set(asset.id, priceInfo.price_per_token);
+          }
+        }
+      } catch (error) {
+        console.error('Error fetching token prices from Helius:', error);
+      }
+    }
+
+    return prices;
+  }
+
   // Get token balances for a wallet
   public async getTokenBalances(walletAddress: string): Promise<HeliusBalanceResponse> {
     try {
@@ -465,7 +529,20 @@ export class HeliusService {
   }
 
   // Webhook setup for real-time updates (for production use)
-  public async setupWebhook(webhookUrl: string, addresses: string[]) {
+  public async setupWebhook(
+    webhookUrl: string,
+    addresses: string[],
+    authHeader: string | undefined = process.env.HELIUS_WEBHOOK_AUTH_TOKEN
+  ): Promise<HeliusWebhook | null> {
+    return this.createWebhook(webhookUrl, addresses, authHeader);
+  }
+
+  // Helius echoes authHeader back in the Authorization header of every delivery
+  public async createWebhook(
+    webhookUrl: string,
+    addresses: string[],
+    authHeader: string | undefined = process.env.HELIUS_WEBHOOK_AUTH_TOKEN
+  ): Promise<HeliusWebhook | null> {
     try {
       const response = await fetch(`${this.baseUrl}/v0/webhooks?api-key=${this.apiKey}`, {
         method: 'POST',
@@ -477,6 +554,7 @@ export class HeliusService {
           transactionTypes: ['Any'],
           accountAddresses: addresses,
           webhookType: 'enhanced',
+          ...(authHeader && { authHeader }),
         }),
       });
 
@@ -491,6 +569,94 @@ export class HeliusService {
       return null;
     }
   }
+
+  // List all webhooks registered for this API key
+  public async listWebhooks(): Promise<HeliusWebhook[]> {
+    if (!this.hasApiKey()) {
+      return [];
+    }
+    try {
+      const response = await fetch(`${this.baseUrl}/v0/webhooks?api-key=${this.apiKey}`);
+
+      if (!response.ok) {
+        console.error(`Failed to list webhooks: ${response.status} ${response.statusText}`);
+        return [];
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error listing webhooks:', error);
+      return [];
+    }
+  }
+
+  public async getWebhook(webhookId: string): Promise<HeliusWebhook | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/v0/webhooks/${webhookId}?api-key=${this.apiKey}`);
+
+      if (!response.ok) {
+        console.error(`Failed to fetch webhook: ${response.status} ${response.statusText}`);
+        return null;
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching webhook:', error);
+      return null;
+    }
+  }
+
+  // Helius replaces the whole webhook on edit, so the current config is read first
+  public async updateWebhookAddresses(webhookId: string, addresses: string[]): Promise<HeliusWebhook | null> {
+    try {
+      const current = await this.getWebhook(webhookId);
+      if (!current) {
+        return null;
+      }
+
+      const response = await fetch(`${this.baseUrl}/v0/webhooks/${webhookId}?api-key=${this.apiKey}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          webhookURL: current.webhookURL,
+          transactionTypes: current.transactionTypes,
+          accountAddresses: addresses,
+          webhookType: current.webhookType,
+          ...(current.authHeader && { authHeader: current.authHeader }),
+        }),
+      });
+
+      if (!response.ok) {
+        console.error(`Failed to update webhook: ${response.status} ${response.statusText}`);
+        return null;
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error updating webhook:', error);
+      return null;
+    }
+  }
+
+  public async deleteWebhook(webhookId: string): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/v0/webhooks/${webhookId}?api-key=${this.apiKey}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        console.error(`Failed to delete webhook: ${response.status} ${response.statusText}`);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting webhook:', error);
+      return false;
+    }
+  }
 }
 
 // Singleton instance for easy access
@@ -0,0 +1,205 @@
+import { timingSafeEqual } from 'crypto';
+import { getHeliusService, HeliusTransaction } from './helius';
+import { toWalletActivity, WalletActivity } from './walletTracker';
+import { getWalletTrackerDb, WalletWebhook } from './walletTrackerDb';
+import { getWalletMonitor } from './walletMonitor';
+import { NetworkType } from '../context/NetworkContext';
+
+export interface WebhookIngestionResult {
+  transactions: number;
+  walletsMatched: number;
+  activitiesSaved: number;
+  duplicatesSkipped: number;
+}
+
+/**
+ * Compare the Authorization header of a delivery against HELIUS_WEBHOOK_AUTH_TOKEN,
+ * the authHeader the webhook was registered with.
+ */
+export function verifyHeliusWebhook(authorization: string | undefined): boolean {
+  const expected = process.env.HELIUS_WEBHOOK_AUTH_TOKEN;
+  if (!expected) {
+    console.error('HELIUS_WEBHOOK_AUTH_TOKEN is not configured, rejecting webhook delivery');
+    return false;
+  }
+  if (!authorization) {
+    return false;
+  }
+
+  const received = Buffer.from(authorization);
+  const wanted = Buffer.from(expected);
+  return received.length === wanted.length && timingSafeEqual(received, wanted);
+}
+
+/**
+ * Every account a transaction touches, used to find the tracked wallets it concerns
+ */
+export function getTransactionAccounts(tx: HeliusTransaction): string[] {
+  const accounts = new Set<string>();
+
+  if (tx.feePayer) accounts.add(tx.feePayer);
+  tx.accountData?.forEach(data => {
+    accounts.add(data.account);
+    data.tokenBalanceChanges?.forEach(change => accounts.add(change.userAccount));
+  });
+  tx.tokenTransfers?.forEach(transfer => {
+    accounts.add(transfer.fromUserAccount);
+    accounts.add(transfer.toUserAccount);
+  });
+  tx.nativeTransfers?.forEach(transfer => {
+    accounts.add(transfer.fromUserAccount);
+    accounts.add(transfer.toUserAccount);
+  });
+
+  accounts.delete('');
+  return Array.from(accounts);
+}
+
+/**
+ * Save enhanced transactions as wallet activities and run rule evaluation right away
+ */
+export async function ingestHeliusTransactions(
+  transactions: HeliusTransaction[],
+  network: NetworkType
+): Promise<WebhookIngestionResult> {
+  const db = await getWalletTrackerDb();
+  const monitor = getWalletMonitor();
+
+  const result: WebhookIngestionResult = {
+    transactions: transactions.length,
+    walletsMatched: 0,
+    activitiesSaved: 0,
+    duplicatesSkipped: 0
+  };
+
+  // Group activities per tracked wallet; an address tracked in several workspaces is stored for each of them
+  const activitiesByWallet = new Map<string, { workspaceId: string; walletAddress: string; activities: WalletActivity[] }>();
+  for (const tx of transactions) {
+    if (!tx?.signature) continue;
+
+    const wallets = await db.getWalletsByAddresses(getTransactionAccounts(tx), network);
+    for (const wallet of wallets.filter(w => w.isActive)) {
+      const key = `${wallet.workspaceId}:${wallet.address}`;
+      const entry = activitiesByWallet.get(key) || { workspaceId: wallet.workspaceId, walletAddress: wallet.address, activities: [] };
+      entry.activities.push(toWalletActivity(tx, wallet.address, network));
+      activitiesByWallet.set(key, entry);
+    }
+  }
+
+  result.walletsMatched = activitiesByWallet.size;
+
+  for (const { workspaceId, walletAddress, activities } of activitiesByWallet.values()) {
+    // Helius retries deliveries, so only evaluate activities we have not stored yet
+    const existing = await db.getExistingActivitySignatures(
+      workspaceId,
+      walletAddress,
+      activities.map(a => a.signature)
+    );
+    const newActivities = activities.filter(a => !existing.has(a.signature));
+    result.duplicatesSkipped += activities.length - newActivities.length;
+
+    if (newActivities.length === 0) continue;
+
+    await db.saveWalletActivities(workspaceId, newActivities);
+    result.activitiesSaved += newActivities.length;
+
+    await monitor.processWebhookActivities(workspaceId, walletAddress, newActivities, network);
+  }
+
+  return result;
+}
+
+/**
+ * Make the stored Helius webhook for a network watch exactly the active tracked wallets.
+ * Creates the webhook on first use and deletes it once no active wallet is left.
+ */
+export async function syncWalletWebhook(network: NetworkType): Promise<WalletWebhook | null> {
+  const monitor = getWalletMonitor();
+
+  try {
+    const webhookUrl = process.env.HELIUS_WEBHOOK_URL;
+    const helius = getHeliusService(network);
+    if (!webhookUrl || !helius.hasApiKey()) {
+      monitor.setWebhookCoverage(network, []);
+      return null;
+    }
+
+    const db = await getWalletTrackerDb();
+    // One webhook per network watches the active wallets of all workspaces
+    const addresses = Array.from(new Set((await db.getActiveWallets(network)).map(w => w.address))).sort();
+    const [existing, ...duplicates] = await db.getWebhooks(network);
+
+    for (const duplicate of duplicates) {
+      await removeWalletWebhook(duplicate.webhookId, network);
+    }
+
+    if (addresses.length === 0) {
+      if (existing) {
+        await removeWalletWebhook(existing.webhookId, network);
+      }
+      monitor.setWebhookCoverage(network, []);
+      return null;
+    }
+
+    if (!existing) {
+      const created = await helius.createWebhook(`${webhookUrl}?network=${network}`, addresses);
+      if (!created) {
+        monitor.setWebhookCoverage(network, []);
+        return null;
+      }
+
+      const webhook: WalletWebhook = {
+        webhookId: created.webhookID,
+        network,
+        webhookUrl: created.webhookURL,
+        accountAddresses: addresses,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      await db.saveWebhook(webhook);
+      monitor.setWebhookCoverage(network, addresses);
+      return webhook;
+    }
+
+    const current = [...existing.accountAddresses].sort();
+    if (current.length === addresses.length && current.every((address, i) => address === addresses[i])) {
+      monitor.setWebhookCoverage(network, addresses);
+      return existing;
+    }
+
+    const updated = await helius.updateWebhookAddresses(existing.webhookId, addresses);
+    if (!updated) {
+      // Keep polling anything the webhook does not watch yet
+      monitor.setWebhookCoverage(network, existing.accountAddresses.filter(a => addresses.includes(a)));
+      return existing;
+    }
+
+    const webhook: WalletWebhook = {
+      ...existing,
+      accountAddresses: addresses,
+      updatedAt: new Date()
+    };
+    await db.saveWebhook(webhook);
+    monitor.setWebhookCoverage(network, addresses);
+    return webhook;
+  } catch (error) {
+    console.error(`Error syncing Helius webhook for ${network}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Delete a webhook at Helius and forget it locally
+ */
+export async function removeWalletWebhook(webhookId: string, network: NetworkType): Promise<boolean> {
+  const helius = getHeliusService(network);
+  const deleted = await helius.deleteWebhook(webhookId);
+
+  const db = await getWalletTrackerDb();
+  const forgotten = await db.deleteWebhook(webhookId);
+
+  if (deleted || forgotten) {
+    getWalletMonitor().setWebhookCoverage(network, []);
+  }
+  return deleted || forgotten;
+}
@@ -0,0 +1,239 @@
+import { MongoClient, Db, Collection, Filter, MongoBulkWriteError } from 'mongodb';
+import { LaunchedToken } from './types';
+import { NetworkType } from '@/context/NetworkContext';
+
+// Bonding-curve state of a launched pump.fun token at one point in time
+export interface CurveProgressPoint {
+  mint: string;
+  network: NetworkType;
+  progress: number;
+  complete: boolean;
+  realSolReserves: number;
+  realTokenReserves: number;
+  marketCapSol: number;
+  priceSol: number;
+  timestamp: Date;
+}
+
+export interface LaunchCollections {
+  launchedTokens: Collection<LaunchedToken>;
+  curveProgress: Collection<CurveProgressPoint>;
+}
+
+export interface LaunchImportResult {
+  imported: number;
+  updated: number;
+  // Launches already registered to a different creator
+  conflicts: string[];
+}
+
+// How long after completion the watcher keeps looking for the migration pool
+export const MIGRATION_LOOKUP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export class LaunchDatabase {
+  private client: MongoClient;
+  private db: Db;
+  private collections: LaunchCollections;
+
+  constructor(client: MongoClient, dbName: string = 'tokenup') {
+    this.client = client;
+    this.db = client.db(dbName);
+
+    this.collections = {
+      launchedTokens: this.db.collection<LaunchedToken>('launched_tokens'),
+      curveProgress: this.db.collection<CurveProgressPoint>('curve_progress')
+    };
+  }
+
+  public async initializeIndexes(): Promise<void> {
+    try {
+      // Launched Tokens indexes
+      await this.collections.launchedTokens.createIndex({ mintAddress: 1, network: 1 }, { unique: true });
+      await this.collections.launchedTokens.createIndex({ isPumpFun: 1, 'pumpFunData.complete': 1 });
+      await this.collections.launchedTokens.createIndex({ creator: 1, network: 1, timestamp: -1 });
+      await this.collections.launchedTokens.createIndex({ timestamp: -1 });
+
+      // Curve Progress indexes
+      await this.collections.curveProgress.createIndex({ mint: 1, network: 1, timestamp: -1 });
+
+      console.log('Launch database indexes initialized successfully');
+    } catch (error) {
+      console.error('Error initializing launch database indexes:', error);
+      throw error;
+    }
+  }
+
+  // Launched Tokens Operations
+  public async getLaunchesByCreator(creator: string, network?: NetworkType): Promise<LaunchedToken[]> {
+    const filter: Filter<LaunchedToken> = { creator, ...(network ? { network } : {}) };
+    return await this.collections.launchedTokens.find(filter, { projection: { _id: 0 } }).sort({ timestamp: -1 }).toArray();
+  }
+
+  /**
+   * Register launches for a creator, e.g. history migrated from a browser. Existing records
+   * are left as they are, except that a launch without a creator is claimed by this one and
+   * takes its fields, so whatever was registered before the claim does not stick.
+   */
+  public async importLaunches(creator: string, tokens: LaunchedToken[]): Promise<LaunchImportResult> {
+    const result: LaunchImportResult = { imported: 0, updated: 0, conflicts: [] };
+    if (tokens.length === 0) return result;
+
+    const claims = await this.collections.launchedTokens.bulkWrite(
+      tokens.map(token => ({
+        updateOne: {
+          filter: { mintAddress: token.mintAddress, network: token.network, creator: { $exists: false } },
+          update: { $set: { ...pickLaunchFields(token), creator } }
+        }
+      })),
+      { ordered: false }
+    );
+    result.updated = claims.modifiedCount;
+
+    const operations = tokens.map(token => {
+      const fields: Partial<LaunchedToken> = { ...token };
+      delete fields.creator;
+      return {
+        updateOne: {
+          // Records owned by another creator do not match, their upsert fails on the unique index
+          filter: { mintAddress: token.mintAddress, network: token.network, creator },
+          update: { $setOnInsert: fields },
+          upsert: true
+        }
+      };
+    });
+
+    try {
+      const writeResult = await this.collections.launchedTokens.bulkWrite(operations, { ordered: false });
+      result.imported = writeResult.upsertedCount;
+    } catch (error) {
+      if (!(error instanceof MongoBulkWriteError)) {
+        throw error;
+      }
+      result.imported = error.result.upsertedCount;
+      const writeErrors = Array.isArray(error.writeErrors) ? error.writeErrors : [error.writeErrors];
+      result.conflicts = writeErrors.map(writeError => tokens[writeError.index].mintAddress);
+    }
+
+    return result;
+  }
+
+  public async deleteLaunch(mintAddress: string, network: NetworkType): Promise<boolean> {
+    const result = await this.collections.launchedTokens.deleteOne({ mintAddress, network });
+    if (result.deletedCount > 0) {
+      await this.collections.curveProgress.deleteMany({ mint: mintAddress, network });
+    }
+    return result.deletedCount > 0;
+  }
+
+  public async getLaunch(mintAddress: string, network: NetworkType): Promise<LaunchedToken | null> {
+    return await this.collections.launchedTokens.findOne({ mintAddress, network }, { projection: { _id: 0 } });
+  }
+
+  /**
+   * pump.fun launches whose curve is still open, or that completed and are still waiting for a migration pool
+   */
+  public async getWatchedLaunches(network?: NetworkType): Promise<LaunchedToken[]> {
+    const filter: Filter<LaunchedToken> = {
+      isPumpFun: true,
+      $or: [
+        { 'pumpFunData.complete': { $ne: true } },
+        { 'pumpFunData.migrationPool': { $exists: false }, 'pumpFunData.migrationLookupFailedAt': { $exists: false } }
+      ],
+      ...(network ? { network } : {})
+    };
+    return await this.collections.launchedTokens.find(filter, { projection: { _id: 0 } }).sort({ timestamp: -1 }).toArray();
+  }
+
+  public async getPumpFunLaunches(network?: NetworkType): Promise<LaunchedToken[]> {
+    const filter: Filter<LaunchedToken> = { isPumpFun: true, ...(network ? { network } : {}) };
+    return await this.collections.launchedTokens.find(filter, { projection: { _id: 0 } }).sort({ timestamp: -1 }).toArray();
+  }
+
+  public async updateLaunch(
+    mintAddress: string,
+    network: NetworkType,
+    updates: Partial<Omit<LaunchedToken, 'pumpFunData'>> & { pumpFunData?: Partial<NonNullable<LaunchedToken['pumpFunData']>> }
+  ): Promise<boolean> {
+    const { pumpFunData, ...fields } = updates;
+    const set: Record<string, unknown> = { ...fields };
+
+    // Merge curve fields so a partial update does not drop the rest
+    for (const [key, value] of Object.entries(pumpFunData || {})) {
+      if (value !== undefined) {
+        set[`pumpFunData.${key}`] = value;
+      }
+    }
+
+    const result = await this.collections.launchedTokens.updateOne({ mintAddress, network }, { $set: set });
+    return result.matchedCount > 0;
+  }
+
+  // Curve Progress Operations
+  public async recordCurveProgress(point: CurveProgressPoint): Promise<void> {
+    await this.collections.curveProgress.insertOne(point);
+  }
+
+  public async getCurveProgress(mint: string, network: NetworkType, from?: Date, limit: number = 1000): Promise<CurveProgressPoint[]> {
+    const filter: Filter<CurveProgressPoint> = { mint, network, ...(from ? { timestamp: { $gte: from } } : {}) };
+    const points = await this.collections.curveProgress
+      .find(filter, { projection: { _id: 0 } })
+      .sort({ timestamp: -1 })
+      .limit(limit)
+      .toArray();
+    return points.reverse();
+  }
+}
+
+// Fields a client may set on a launch record; curve data is maintained by the graduation watcher
+const LAUNCH_FIELDS: Array<keyof LaunchedToken> = [
+  'name', 'symbol', 'mintAddress', 'network', 'timestamp', 'transactionSignature', 'status', 'explorerUrl',
+  'metadataUri', 'description', 'image', 'website', 'twitter', 'telegram', 'discord', 'supply', 'decimals',
+  'isPumpFun', 'tokenType'
+];
+
+export const LAUNCH_UPDATE_FIELDS: Array<keyof LaunchedToken> = [
+  'status', 'description', 'image', 'website', 'twitter', 'telegram', 'discord'
+];
+
+/**
+ * Returns an error message when a client-submitted launch is not usable
+ */
+export function validateLaunch(token: Partial<LaunchedToken>): string | null {
+  if (!token || typeof token !== 'object') {
+    return 'Launch must be an object';
+  }
+  if (!token.mintAddress || !token.name || !token.symbol) {
+    return 'mintAddress, name and symbol are required';
+  }
+  if (token.network !== 'mainnet' && token.network !== 'testnet') {
+    return `Invalid network: ${token.network}. Supported networks: mainnet, testnet`;
+  }
+  if (token.timestamp !== undefined && (typeof token.timestamp !== 'number' || !isFinite(token.timestamp))) {
+    return 'timestamp must be a number of milliseconds';
+  }
+  return null;
+}
+
+// Copy the client-settable fields of a validated launch
+export function pickLaunchFields(token: Partial<LaunchedToken>, fields: Array<keyof LaunchedToken> = LAUNCH_FIELDS): Partial<LaunchedToken> {
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (token[field] !== undefined) {
+      picked[field] = token[field];
+    }
+  }
+  return picked as Partial<LaunchedToken>;
+}
+
+// Singleton instance
+let launchDbInstance: LaunchDatabase | null = null;
+
+export async function getLaunchDb(): Promise<LaunchDatabase> {
+  if (!launchDbInstance) {
+    const { getMongoClient } = await import('./mongodb');
+    const client = await getMongoClient();
+    launchDbInstance = new LaunchDatabase(client);
+    await launchDbInstance.initializeIndexes();
+  }
+  return launchDbInstance;
+}
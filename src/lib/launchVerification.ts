@@ -0,0 +1,89 @@
+/**
+ * Launch Verification
+ * Confirms on-chain that a wallet created a token before a launch record is attributed to it
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { fetchBondingCurves } from './pumpfunCurve';
+import { parseTokenAuthorities } from './web3';
+
+// getMultipleAccountsInfo accepts at most 100 keys per call
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+// getSignaturesForAddress returns at most 1000 signatures per call
+const MAX_SIGNATURES_PER_REQUEST = 1000;
+
+// Creation transactions looked up per call, each costs two RPC requests
+const MAX_CREATION_LOOKUPS = 25;
+
+// Fee payer of the first transaction that touched the mint, which created it.
+// null when the mint has too much history to find that transaction in one page.
+async function getCreationFeePayer(connection: Connection, mint: PublicKey): Promise<string | null> {
+  const signatures = await connection.getSignaturesForAddress(mint, { limit: MAX_SIGNATURES_PER_REQUEST }, 'confirmed');
+  if (signatures.length === 0 || signatures.length === MAX_SIGNATURES_PER_REQUEST) {
+    return null;
+  }
+
+  const creation = signatures[signatures.length - 1];
+  if (creation.err) {
+    return null;
+  }
+
+  const transaction = await connection.getTransaction(creation.signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0
+  });
+  return transaction?.transaction.message.staticAccountKeys[0]?.toBase58() ?? null;
+}
+
+/**
+ * Mints that cannot be traced to the creator. A mint is verified when the creator holds its
+ * mint or metadata update authority, is the creator of its pump.fun curve, or paid for the
+ * transaction that created it (authorities are often revoked right after launch).
+ */
+export async function findUnverifiedLaunches(connection: Connection, creator: string, mints: string[]): Promise<string[]> {
+  const pending = new Set<string>();
+  const keys: PublicKey[] = [];
+  for (const mint of new Set(mints)) {
+    try {
+      keys.push(new PublicKey(mint));
+      pending.add(mint);
+    } catch {
+      continue;
+    }
+  }
+  const unverified = mints.filter(mint => !pending.has(mint));
+
+  for (let i = 0; i < keys.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+    const batch = keys.slice(i, i + MAX_ACCOUNTS_PER_REQUEST);
+    const accounts = await connection.getMultipleAccountsInfo(batch, 'confirmed');
+
+    accounts.forEach((account, index) => {
+      const authorities = account && parseTokenAuthorities(batch[index], account);
+      if (authorities && (authorities.mint?.toBase58() === creator || authorities.metadataUpdate?.toBase58() === creator)) {
+        pending.delete(batch[index].toBase58());
+      }
+    });
+  }
+
+  if (pending.size > 0) {
+    const curves = await fetchBondingCurves(connection, Array.from(pending));
+    for (const [mint, curve] of curves) {
+      if (curve.creator === creator) {
+        pending.delete(mint);
+      }
+    }
+  }
+
+  let lookups = 0;
+  for (const mint of Array.from(pending)) {
+    if (lookups++ >= MAX_CREATION_LOOKUPS) {
+      break;
+    }
+    if (await getCreationFeePayer(connection, new PublicKey(mint)) === creator) {
+      pending.delete(mint);
+    }
+  }
+
+  return [...unverified, ...pending];
+}
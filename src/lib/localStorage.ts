@@ -1,3 +1,5 @@
+import { LaunchedToken as LaunchRecord } from './types';
+
 export interface LaunchedToken {
   id: string;
   name: string;
@@ -21,6 +23,8 @@ export interface LaunchedToken {
 
 const STORAGE_KEY = 'tokenup_launched_tokens';
 const BACKUP_KEY = 'tokenup_backup_tokens';
+// Mint addresses already copied to the server-side launch registry, per creator wallet
+const SYNCED_KEY_PREFIX = 'tokenup_synced_launches:';
 
 export class TokenStorage {
   // Save a new token to local storage
@@ -295,6 +299,55 @@ export class TokenStorage {
     }
   }
 
+  // Convert a stored token to the launch registry record
+  static toLaunchRecord(token: LaunchedToken): LaunchRecord {
+    return {
+      id: token.mintAddress,
+      name: token.name,
+      symbol: token.symbol,
+      mintAddress: token.mintAddress,
+      network: token.network === 'testnet' ? 'testnet' : 'mainnet',
+      timestamp: new Date(token.timestamp).getTime() || Date.now(),
+      transactionSignature: token.transactionSignature,
+      status: token.status,
+      explorerUrl: token.explorerUrl,
+      metadataUri: token.metadataUri,
+      image: token.logoUrl,
+      description: token.description,
+      website: token.website,
+      twitter: token.twitter,
+      telegram: token.telegram,
+      discord: token.discord,
+      supply: token.supply,
+      decimals: token.decimals
+    };
+  }
+
+  // Tokens not yet copied to the launch registry for this creator
+  static getUnsyncedTokens(creator: string): LaunchedToken[] {
+    const synced = new Set(this.getSyncedMints(creator));
+    return this.getAllTokens().filter(token => !synced.has(token.mintAddress));
+  }
+
+  static markTokensSynced(creator: string, mintAddresses: string[]): void {
+    try {
+      const synced = new Set([...this.getSyncedMints(creator), ...mintAddresses]);
+      localStorage.setItem(SYNCED_KEY_PREFIX + creator, JSON.stringify(Array.from(synced)));
+    } catch (error) {
+      console.error('Error marking tokens as synced:', error);
+    }
+  }
+
+  private static getSyncedMints(creator: string): string[] {
+    try {
+      const stored = localStorage.getItem(SYNCED_KEY_PREFIX + creator);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading synced tokens:', error);
+      return [];
+    }
+  }
+
   // Get statistics
   static getStats(): {
     totalTokens: number;
@@ -0,0 +1,378 @@
+import { PublicKey } from '@solana/web3.js';
+import { getWalletTrackerDb } from './walletTrackerDb';
+import { TrackedWallet, WalletSnapshot, WalletTokenHolding } from './walletTracker';
+import { getHeliusService } from './helius';
+import { getWeb3Service } from './web3Service';
+import { getPriceOracle, priceHoldings, WRAPPED_SOL_MINT } from './priceOracle';
+import { NetworkType } from '../context/NetworkContext';
+
+export type PortfolioInterval = '1h' | '4h' | '1d' | '1w';
+
+export const PORTFOLIO_INTERVALS: Record<PortfolioInterval, number> = {
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000
+};
+
+export const DEFAULT_SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+// How often the scheduler thins out old snapshots of every workspace
+export const SNAPSHOT_DOWNSAMPLE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+export const MAX_PORTFOLIO_POINTS = 1000;
+
+export interface PortfolioPoint {
+  timestamp: Date;
+  totalUsdValue: number;
+  tokenUsdValue: number;
+  solBalance: number;
+  solUsdValue: number;
+  // Wallets with a snapshot at or before this bucket
+  walletCount: number;
+}
+
+export interface TokenPnl {
+  mint: string;
+  symbol?: string;
+  startAmount: number;
+  endAmount: number;
+  startPrice?: number;
+  endPrice?: number;
+  startValue: number;
+  endValue: number;
+  valueChange: number;
+  // Part of the change caused by the price moving on the tokens held at the start
+  priceEffect: number;
+  // Part of the change caused by tokens coming in or going out
+  flowEffect: number;
+}
+
+export interface PortfolioHistory {
+  walletAddresses: string[];
+  interval: PortfolioInterval;
+  from: Date;
+  to: Date;
+  points: PortfolioPoint[];
+  tokens: TokenPnl[];
+  startValue: number;
+  endValue: number;
+  change: number;
+  changePercentage: number;
+}
+
+export interface PortfolioQuery {
+  workspaceId: string;
+  walletAddresses: string[];
+  from: Date;
+  to: Date;
+  interval: PortfolioInterval;
+}
+
+function getSolUsdValue(snapshot: WalletSnapshot): number {
+  return snapshot.solBalance * (snapshot.solPriceUsd || 0);
+}
+
+/**
+ * Portfolio value per time bucket, summed over wallets.
+ * Each wallet contributes its latest snapshot at or before the end of the bucket,
+ * so a wallet that missed a run keeps its last known value instead of dropping to zero.
+ */
+export function bucketSnapshots(snapshots: WalletSnapshot[], intervalMs: number, to: Date): PortfolioPoint[] {
+  if (snapshots.length === 0) {
+    return [];
+  }
+
+  const sorted = [...snapshots].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const latestByWallet = new Map<string, WalletSnapshot>();
+  const points: PortfolioPoint[] = [];
+
+  let index = 0;
+  const firstBucket = Math.floor(new Date(sorted[0].timestamp).getTime() / intervalMs) * intervalMs;
+
+  for (let bucket = firstBucket; bucket <= to.getTime(); bucket += intervalMs) {
+    const bucketEnd = bucket + intervalMs;
+    while (index < sorted.length && new Date(sorted[index].timestamp).getTime() < bucketEnd) {
+      latestByWallet.set(sorted[index].walletAddress, sorted[index]);
+      index++;
+    }
+
+    const point: PortfolioPoint = {
+      timestamp: new Date(bucket),
+      totalUsdValue: 0,
+      tokenUsdValue: 0,
+      solBalance: 0,
+      solUsdValue: 0,
+      walletCount: latestByWallet.size
+    };
+
+    latestByWallet.forEach(snapshot => {
+      const solUsdValue = getSolUsdValue(snapshot);
+      point.tokenUsdValue += snapshot.totalUsdValue;
+      point.solBalance += snapshot.solBalance;
+      point.solUsdValue += solUsdValue;
+      point.totalUsdValue += snapshot.totalUsdValue + solUsdValue;
+    });
+
+    points.push(point);
+  }
+
+  return points;
+}
+
+interface TokenPosition {
+  symbol?: string;
+  // Raw token units, as in holdings
+  amount: number;
+  decimals: number;
+  value: number;
+}
+
+function collectPositions(snapshots: WalletSnapshot[]): Map<string, TokenPosition> {
+  const positions = new Map<string, TokenPosition>();
+
+  const add = (mint: string, amount: number, decimals: number, value: number, symbol?: string) => {
+    const position = positions.get(mint) || { amount: 0, decimals, value: 0 };
+    position.amount += amount;
+    position.value += value;
+    position.symbol = position.symbol || symbol;
+    positions.set(mint, position);
+  };
+
+  for (const snapshot of snapshots) {
+    add(WRAPPED_SOL_MINT, snapshot.solBalance, 0, getSolUsdValue(snapshot), 'SOL');
+    for (const holding of snapshot.tokenHoldings) {
+      add(holding.mint, holding.amount, holding.decimals, holding.usdValue || 0, holding.metadata?.symbol);
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Per-token PnL between the first and last snapshot of every wallet in the range.
+ * Amounts are raw token units, prices are per whole token. SOL is reported under the wrapped SOL mint.
+ */
+export function computeTokenPnl(snapshots: WalletSnapshot[]): TokenPnl[] {
+  const firstByWallet = new Map<string, WalletSnapshot>();
+  const lastByWallet = new Map<string, WalletSnapshot>();
+
+  for (const snapshot of snapshots) {
+    const time = new Date(snapshot.timestamp).getTime();
+    const first = firstByWallet.get(snapshot.walletAddress);
+    const last = lastByWallet.get(snapshot.walletAddress);
+    if (!first || time < new Date(first.timestamp).getTime()) firstByWallet.set(snapshot.walletAddress, snapshot);
+    if (!last || time >= new Date(last.timestamp).getTime()) lastByWallet.set(snapshot.walletAddress, snapshot);
+  }
+
+  const start = collectPositions(Array.from(firstByWallet.values()));
+  const end = collectPositions(Array.from(lastByWallet.values()));
+  const mints = new Set([...start.keys(), ...end.keys()]);
+
+  const tokens: TokenPnl[] = [];
+  mints.forEach(mint => {
+    const before = start.get(mint) || { amount: 0, decimals: 0, value: 0 };
+    const after = end.get(mint) || { amount: 0, decimals: before.decimals, value: 0 };
+    const unit = 10 ** (before.amount > 0 ? before.decimals : after.decimals);
+    const startPrice = before.amount > 0 && before.value > 0 ? before.value / (before.amount / unit) : undefined;
+    const endPrice = after.amount > 0 && after.value > 0 ? after.value / (after.amount / unit) : undefined;
+    const valueChange = after.value - before.value;
+    const priceEffect = startPrice !== undefined && endPrice !== undefined
+      ? (before.amount / unit) * (endPrice - startPrice)
+      : 0;
+
+    tokens.push({
+      mint,
+      symbol: after.symbol || before.symbol,
+      startAmount: before.amount,
+      endAmount: after.amount,
+      startPrice,
+      endPrice,
+      startValue: before.value,
+      endValue: after.value,
+      valueChange,
+      priceEffect,
+      flowEffect: valueChange - priceEffect
+    });
+  });
+
+  return tokens.sort((a, b) => Math.abs(b.valueChange) - Math.abs(a.valueChange));
+}
+
+export class PortfolioHistoryService {
+  private intervals: Map<NetworkType, NodeJS.Timeout> = new Map();
+  private running: Set<NetworkType> = new Set();
+  private lastDownsampleAt = 0;
+
+  // Write a priced snapshot for every active wallet on a network at a fixed interval
+  public start(network: NetworkType, intervalMs: number = DEFAULT_SNAPSHOT_INTERVAL_MS): void {
+    if (this.intervals.has(network)) {
+      return;
+    }
+
+    const interval = setInterval(async () => {
+      await this.runScheduledCapture(network);
+    }, intervalMs);
+    this.intervals.set(network, interval);
+
+    console.log(`Snapshot scheduler started for ${network} every ${Math.round(intervalMs / 60000)} minutes`);
+    void this.runScheduledCapture(network);
+  }
+
+  public stop(network?: NetworkType): void {
+    const networks = network ? [network] : Array.from(this.intervals.keys());
+    for (const net of networks) {
+      const interval = this.intervals.get(net);
+      if (interval) {
+        clearInterval(interval);
+        this.intervals.delete(net);
+      }
+    }
+  }
+
+  public isRunning(network: NetworkType): boolean {
+    return this.intervals.has(network);
+  }
+
+  public getRunningNetworks(): NetworkType[] {
+    return Array.from(this.intervals.keys());
+  }
+
+  private async runScheduledCapture(network: NetworkType): Promise<void> {
+    // Skip a run while the previous one is still going
+    if (this.running.has(network)) {
+      return;
+    }
+
+    this.running.add(network);
+    try {
+      await this.captureSnapshots(network);
+      await this.runScheduledDownsample();
+    } catch (error) {
+      console.error(`Error capturing wallet snapshots on ${network}:`, error);
+    } finally {
+      this.running.delete(network);
+    }
+  }
+
+  private async runScheduledDownsample(): Promise<void> {
+    if (Date.now() - this.lastDownsampleAt < SNAPSHOT_DOWNSAMPLE_INTERVAL_MS) {
+      return;
+    }
+
+    // Claimed before the run so captures on other networks do not start it again
+    this.lastDownsampleAt = Date.now();
+    const db = await getWalletTrackerDb();
+    const removed = await db.cleanupOldSnapshots();
+    if (removed > 0) {
+      console.log(`Downsampled wallet snapshots, removed ${removed}`);
+    }
+  }
+
+  /**
+   * Fetch holdings and SOL balances for the given wallets of a workspace (all active wallets of
+   * every workspace by default), price them in one batch and save a snapshot per tracked wallet
+   */
+  public async captureSnapshots(
+    network: NetworkType,
+    scope?: { workspaceId: string; walletAddresses?: string[] }
+  ): Promise<WalletSnapshot[]> {
+    const db = await getWalletTrackerDb();
+    const wallets: TrackedWallet[] = scope?.walletAddresses
+      ? await db.getWalletsByAddresses(scope.walletAddresses, network, scope.workspaceId)
+      : await db.getActiveWallets(network, scope?.workspaceId);
+
+    if (wallets.length === 0) {
+      return [];
+    }
+
+    const helius = getHeliusService(network);
+    const web3Service = getWeb3Service(network);
+    const connection = helius.getConnection();
+
+    const fetched: Array<{ wallet: TrackedWallet; holdings: WalletTokenHolding[]; solBalance: number }> = [];
+    for (const wallet of wallets) {
+      try {
+        const [balances, lamports] = await Promise.all([
+          web3Service.getWalletTokens(wallet.address),
+          connection.getBalance(new PublicKey(wallet.address))
+        ]);
+
+        const holdings: WalletTokenHolding[] = balances.map(balance => ({
+          walletAddress: wallet.address,
+          mint: balance.mint,
+          amount: balance.amount,
+          decimals: balance.decimals,
+          tokenAccount: balance.tokenAccount,
+          metadata: balance.metadata,
+          lastUpdated: new Date()
+        }));
+
+        fetched.push({ wallet, holdings, solBalance: lamports / 1e9 });
+      } catch (error) {
+        console.error(`Error fetching snapshot data for ${wallet.address}:`, error);
+      }
+    }
+
+    const mints = new Set<string>([WRAPPED_SOL_MINT]);
+    fetched.forEach(({ holdings }) => holdings.forEach(h => mints.add(h.mint)));
+    const prices = await getPriceOracle().getPrices(Array.from(mints));
+    const solPriceUsd = prices.get(WRAPPED_SOL_MINT)?.priceUsd;
+
+    const timestamp = new Date();
+    const snapshots: WalletSnapshot[] = [];
+    for (const { wallet, holdings, solBalance } of fetched) {
+      const priced = priceHoldings(holdings, prices);
+      const snapshot: WalletSnapshot = {
+        workspaceId: wallet.workspaceId,
+        walletAddress: wallet.address,
+        timestamp,
+        totalTokens: priced.length,
+        totalUsdValue: priced.reduce((sum, holding) => sum + (holding.usdValue || 0), 0),
+        solBalance,
+        solPriceUsd,
+        tokenHoldings: priced,
+        network
+      };
+
+      await db.saveWalletSnapshot(snapshot);
+      snapshots.push(snapshot);
+    }
+
+    console.log(`Saved ${snapshots.length} wallet snapshots on ${network}`);
+    return snapshots;
+  }
+
+  public async getPortfolioHistory(query: PortfolioQuery): Promise<PortfolioHistory> {
+    const db = await getWalletTrackerDb();
+    const snapshots = await db.getSnapshotsInRange(query.workspaceId, query.walletAddresses, query.from, query.to);
+
+    const points = bucketSnapshots(snapshots, PORTFOLIO_INTERVALS[query.interval], query.to);
+    const tokens = computeTokenPnl(snapshots);
+
+    const startValue = points.length > 0 ? points[0].totalUsdValue : 0;
+    const endValue = points.length > 0 ? points[points.length - 1].totalUsdValue : 0;
+    const change = endValue - startValue;
+
+    return {
+      walletAddresses: query.walletAddresses,
+      interval: query.interval,
+      from: query.from,
+      to: query.to,
+      points,
+      tokens,
+      startValue,
+      endValue,
+      change,
+      changePercentage: startValue > 0 ? (change / startValue) * 100 : 0
+    };
+  }
+}
+
+// Singleton instance
+let portfolioHistoryInstance: PortfolioHistoryService | null = null;
+
+export function getPortfolioHistory(): PortfolioHistoryService {
+  if (!portfolioHistoryInstance) {
+    portfolioHistoryInstance = new PortfolioHistoryService();
+  }
+  return portfolioHistoryInstance;
+}
@@ -0,0 +1,296 @@
+import { getHeliusService, HeliusService } from './helius';
+import { WalletTokenHolding } from './walletTracker';
+import { fetchBondingCurves, PUMPFUN_TOKEN_DECIMALS } from './pumpfunCurve';
+
+// SOL is priced through the wrapped SOL mint
+export const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export const DEFAULT_PRICE_TTL_MS = 60 * 1000;
+// Mints no source could price are retried after this long
+const MISSING_PRICE_TTL_MS = 5 * 60 * 1000;
+
+export interface TokenPrice {
+  mint: string;
+  priceUsd: number;
+  priceSol?: number;
+  marketCap?: number;
+  priceChange24h?: number;
+  source: string;
+  fetchedAt: Date;
+}
+
+export interface PriceSource {
+  name: string;
+  // Returns prices for the mints it knows, unknown mints are left out
+  getPrices(mints: string[]): Promise<Map<string, TokenPrice>>;
+}
+
+/**
+ * Jupiter-style price API: GET {baseUrl}?ids=a,b returning { [mint]: { usdPrice, priceChange24h } }
+ */
+export class JupiterPriceSource implements PriceSource {
+  public name = 'jupiter';
+  private baseUrl: string;
+
+  constructor(baseUrl: string = process.env.NEXT_PUBLIC_JUPITER_PRICE_API_URL || process.env.JUPITER_PRICE_API_URL || 'https://lite-api.jup.ag/price/v3') {
+    this.baseUrl = baseUrl;
+  }
+
+  public async getPrices(mints: string[]): Promise<Map<string, TokenPrice>> {
+    const prices = new Map<string, TokenPrice>();
+
+    // The API accepts at most 50 ids per request
+    for (let i = 0; i < mints.length; i += 50) {
+      const ids = mints.slice(i, i + 50);
+      try {
+        const response = await fetch(`${this.baseUrl}?ids=${ids.join(',')}`);
+        if (!response.ok) {
+          console.error(`Failed to fetch Jupiter prices: ${response.status} ${response.statusText}`);
+          continue;
+        }
+
+        const data: Record<string, { usdPrice?: number; priceChange24h?: number } | null> = await response.json();
+        for (const mint of ids) {
+          const entry = data[mint];
+          if (entry && typeof entry.usdPrice === 'number') {
+            prices.set(mint, {
+              mint,
+              priceUsd: entry.usdPrice,
+              priceChange24h: entry.priceChange24h,
+              source: this.name,
+              fetchedAt: new Date()
+            });
+          }
+        }
+      } catch (error) {
+        console.error('Error fetching Jupiter prices:', error);
+      }
+    }
+
+    return prices;
+  }
+}
+
+// Prices from Helius DAS token_info.price_info
+export class HeliusPriceSource implements PriceSource {
+  public name = 'helius';
+  private helius: HeliusService;
+
+  constructor(helius: HeliusService = getHeliusService('mainnet')) {
+    this.helius = helius;
+  }
+
+  public async getPrices(mints: string[]): Promise<Map<string, TokenPrice>> {
+    const usdPrices = await this.helius.getTokenPrices(mints);
+    const prices = new Map<string, TokenPrice>();
+    usdPrices.forEach((priceUsd, mint) => {
+      prices.set(mint, { mint, priceUsd, source: this.name, fetchedAt: new Date() });
+    });
+    return prices;
+  }
+}
+
+/**
+ * Prices pump.fun tokens still on their bonding curve from the curve's virtual reserves.
+ * Needs the SOL price to convert, graduated curves are left to market sources.
+ */
+export class PumpFunCurvePriceSource implements PriceSource {
+  public name = 'pumpfun_curve';
+  private helius: HeliusService;
+  private getSolPrice: () => Promise<number | undefined>;
+
+  constructor(getSolPrice: () => Promise<number | undefined>, helius: HeliusService = getHeliusService('mainnet')) {
+    this.getSolPrice = getSolPrice;
+    this.helius = helius;
+  }
+
+  public async getPrices(mints: string[]): Promise<Map<string, TokenPrice>> {
+    const prices = new Map<string, TokenPrice>();
+    const curves = await fetchBondingCurves(this.helius.getConnection(), mints);
+    if (curves.size === 0) {
+      return prices;
+    }
+
+    const solPrice = await this.getSolPrice();
+    if (!solPrice) {
+      return prices;
+    }
+
+    curves.forEach((curve, mint) => {
+      if (curve.complete) {
+        return;
+      }
+
+      const priceUsd = curve.priceSol * solPrice;
+      prices.set(mint, {
+        mint,
+        priceUsd,
+        priceSol: curve.priceSol,
+        marketCap: priceUsd * (curve.tokenTotalSupply / 10 ** PUMPFUN_TOKEN_DECIMALS),
+        source: this.name,
+        fetchedAt: new Date()
+      });
+    });
+
+    return prices;
+  }
+}
+
+/**
+ * Fixed prices, for tests and local development.
+ * Values are either a USD price or a partial TokenPrice.
+ */
+export class FixturePriceSource implements PriceSource {
+  public name = 'fixture';
+  private fixtures: Record<string, number | Partial<TokenPrice>>;
+
+  constructor(fixtures: Record<string, number | Partial<TokenPrice>>) {
+    this.fixtures = fixtures;
+  }
+
+  public async getPrices(mints: string[]): Promise<Map<string, TokenPrice>> {
+    const prices = new Map<string, TokenPrice>();
+    for (const mint of mints) {
+      const fixture = this.fixtures[mint];
+      if (fixture === undefined) continue;
+
+      const price = typeof fixture === 'number' ? { priceUsd: fixture } : fixture;
+      if (typeof price.priceUsd !== 'number') continue;
+
+      prices.set(mint, {
+        ...price,
+        mint,
+        priceUsd: price.priceUsd,
+        source: this.name,
+        fetchedAt: new Date()
+      });
+    }
+    return prices;
+  }
+}
+
+/**
+ * Attach usdValue and priceUsd to holdings with a known price
+ */
+export function priceHoldings(holdings: WalletTokenHolding[], prices: Map<string, TokenPrice>): WalletTokenHolding[] {
+  return holdings.map(holding => {
+    const price = prices.get(holding.mint);
+    if (!price) {
+      return holding;
+    }
+    // Holding amounts are in raw token units
+    const uiAmount = holding.amount / 10 ** holding.decimals;
+    return { ...holding, priceUsd: price.priceUsd, usdValue: uiAmount * price.priceUsd };
+  });
+}
+
+export class PriceOracleService {
+  private sources: PriceSource[];
+  private ttlMs: number;
+  private cache: Map<string, { price: TokenPrice | null; expiresAt: number }> = new Map();
+
+  constructor(sources: PriceSource[], ttlMs: number = DEFAULT_PRICE_TTL_MS) {
+    this.sources = sources;
+    this.ttlMs = ttlMs;
+  }
+
+  public setSources(sources: PriceSource[]): void {
+    this.sources = sources;
+    this.clearCache();
+  }
+
+  public clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Prices for the given mints, served from cache while fresh.
+   * Sources are asked in order, each only for the mints the previous ones could not price.
+   */
+  public async getPrices(mints: string[]): Promise<Map<string, TokenPrice>> {
+    const now = Date.now();
+    const prices = new Map<string, TokenPrice>();
+    let missing: string[] = [];
+
+    for (const mint of new Set(mints)) {
+      const cached = this.cache.get(mint);
+      if (cached && cached.expiresAt > now) {
+        if (cached.price) prices.set(mint, cached.price);
+      } else {
+        missing.push(mint);
+      }
+    }
+
+    for (const source of this.sources) {
+      if (missing.length === 0) break;
+
+      try {
+        const found = await source.getPrices(missing);
+        found.forEach((price, mint) => {
+          prices.set(mint, price);
+          this.cache.set(mint, { price, expiresAt: now + this.ttlMs });
+        });
+        missing = missing.filter(mint => !found.has(mint));
+      } catch (error) {
+        console.error(`Price source ${source.name} failed:`, error);
+      }
+    }
+
+    for (const mint of missing) {
+      this.cache.set(mint, { price: null, expiresAt: now + MISSING_PRICE_TTL_MS });
+    }
+
+    return prices;
+  }
+
+  public async getPrice(mint: string): Promise<TokenPrice | null> {
+    const prices = await this.getPrices([mint]);
+    return prices.get(mint) || null;
+  }
+
+  public async getSolPrice(): Promise<number | undefined> {
+    const price = await this.getPrice(WRAPPED_SOL_MINT);
+    return price?.priceUsd;
+  }
+
+  public async priceHoldings(holdings: WalletTokenHolding[]): Promise<WalletTokenHolding[]> {
+    if (holdings.length === 0) {
+      return holdings;
+    }
+    const prices = await this.getPrices(holdings.map(h => h.mint));
+    return priceHoldings(holdings, prices);
+  }
+}
+
+// PRICE_ORACLE_FIXTURES holds a JSON object of mint to price and replaces the live sources
+function getFixtures(): Record<string, number | Partial<TokenPrice>> | null {
+  const raw = process.env.PRICE_ORACLE_FIXTURES;
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.warn('PRICE_ORACLE_FIXTURES is not valid JSON, using live price sources');
+    return null;
+  }
+}
+
+// Singleton instance
+let priceOracleInstance: PriceOracleService | null = null;
+
+export function getPriceOracle(): PriceOracleService {
+  if (!priceOracleInstance) {
+    const oracle = new PriceOracleService([]);
+    const fixtures = getFixtures();
+    oracle.setSources(fixtures
+      ? [new FixturePriceSource(fixtures)]
+      : [
+          new JupiterPriceSource(),
+          new HeliusPriceSource(),
+          new PumpFunCurvePriceSource(() => oracle.getSolPrice())
+        ]);
+    priceOracleInstance = oracle;
+  }
+  return priceOracleInstance;
+}
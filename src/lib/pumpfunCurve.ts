@@ -0,0 +1,238 @@
+/**
+ * PumpFun Bonding Curve
+ * Derives and decodes pump.fun bonding-curve accounts straight from chain data
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync, NATIVE_MINT } from '@solana/spl-token';
+
+export const PUMPFUN_PROGRAM_ID = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
+
+// AMM that completed curves migrate their liquidity to
+export const PUMPSWAP_PROGRAM_ID = new PublicKey('pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA');
+
+// Raydium AMM v4, where curves that completed before PumpSwap launched migrated to
+export const RAYDIUM_AMM_PROGRAM_ID = new PublicKey('675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8');
+
+// pump.fun mints use 6 decimals and a fixed supply of one billion tokens
+export const PUMPFUN_TOKEN_DECIMALS = 6;
+export const PUMPFUN_TOTAL_SUPPLY = 1_000_000_000;
+
+// Reserves every curve starts with, in raw token units and lamports
+export const INITIAL_VIRTUAL_TOKEN_RESERVES = 1_073_000_000_000_000;
+export const INITIAL_VIRTUAL_SOL_RESERVES = 30_000_000_000;
+export const INITIAL_REAL_TOKEN_RESERVES = 793_100_000_000_000;
+
+// Anchor account discriminator, sha256("account:BondingCurve")[0..8]
+const BONDING_CURVE_DISCRIMINATOR = [23, 183, 248, 55, 96, 216, 172, 96];
+
+// Discriminator, five u64 fields and the complete flag; newer curves append the creator key
+const BONDING_CURVE_MIN_LENGTH = 8 + 5 * 8 + 1;
+const BONDING_CURVE_CREATOR_LENGTH = BONDING_CURVE_MIN_LENGTH + 32;
+
+// getMultipleAccountsInfo accepts at most 100 keys per call
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+// Raydium AMM v4 pool state size and the offsets of its base and quote mints
+const RAYDIUM_AMM_POOL_LENGTH = 752;
+const RAYDIUM_AMM_BASE_MINT_OFFSET = 400;
+const RAYDIUM_AMM_QUOTE_MINT_OFFSET = 432;
+
+export interface BondingCurveAccount {
+  virtualTokenReserves: number;
+  virtualSolReserves: number;
+  realTokenReserves: number;
+  realSolReserves: number;
+  tokenTotalSupply: number;
+  complete: boolean;
+  creator?: string;
+}
+
+export interface MigrationPool {
+  address: string;
+  venue: 'pumpswap' | 'raydium';
+}
+
+export interface BondingCurveState extends BondingCurveAccount {
+  mint: string;
+  bondingCurve: string;
+  associatedBondingCurve: string;
+  // SOL per whole token
+  priceSol: number;
+  marketCapSol: number;
+  // Share of the sellable supply already bought, 0 to 100
+  progress: number;
+}
+
+/**
+ * Price in SOL per whole token from bonding-curve virtual reserves
+ * (virtualSolReserves in lamports, virtualTokenReserves in raw token units)
+ */
+export function calculateBondingCurvePrice(virtualSolReserves: number, virtualTokenReserves: number): number {
+  if (!virtualTokenReserves || virtualTokenReserves <= 0) {
+    return 0;
+  }
+  const solReserves = virtualSolReserves / 1e9;
+  const tokenReserves = virtualTokenReserves / 10 ** PUMPFUN_TOKEN_DECIMALS;
+  return solReserves / tokenReserves;
+}
+
+/**
+ * Graduation progress from the real token reserves left on the curve, 100 once complete
+ */
+export function calculateBondingCurveProgress(realTokenReserves: number, complete: boolean): number {
+  if (complete) {
+    return 100;
+  }
+  const sold = INITIAL_REAL_TOKEN_RESERVES - realTokenReserves;
+  return Math.min(Math.max((sold / INITIAL_REAL_TOKEN_RESERVES) * 100, 0), 100);
+}
+
+export function getBondingCurveAddress(mint: PublicKey | string): PublicKey {
+  const mintKey = typeof mint === 'string' ? new PublicKey(mint) : mint;
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from('bonding-curve'), mintKey.toBuffer()],
+    PUMPFUN_PROGRAM_ID
+  );
+  return address;
+}
+
+// Token account of the curve that holds the unsold supply
+export function getAssociatedBondingCurveAddress(mint: PublicKey | string): PublicKey {
+  const mintKey = typeof mint === 'string' ? new PublicKey(mint) : mint;
+  return getAssociatedTokenAddressSync(mintKey, getBondingCurveAddress(mintKey), true);
+}
+
+// Creator of the PumpSwap pool a completed curve migrates to
+export function getPoolAuthorityAddress(mint: PublicKey | string): PublicKey {
+  const mintKey = typeof mint === 'string' ? new PublicKey(mint) : mint;
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from('pool-authority'), mintKey.toBuffer()],
+    PUMPFUN_PROGRAM_ID
+  );
+  return address;
+}
+
+/**
+ * Canonical PumpSwap token/SOL pool created by the migration (pool index 0)
+ */
+export function getPumpSwapPoolAddress(mint: PublicKey | string): PublicKey {
+  const mintKey = typeof mint === 'string' ? new PublicKey(mint) : mint;
+  const index = Buffer.alloc(2);
+  index.writeUInt16LE(0);
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from('pool'), index, getPoolAuthorityAddress(mintKey).toBuffer(), mintKey.toBuffer(), NATIVE_MINT.toBuffer()],
+    PUMPSWAP_PROGRAM_ID
+  );
+  return address;
+}
+
+/**
+ * Pool a completed curve migrated to, null while it does not exist yet. The PumpSwap pool is
+ * derived directly; curves that completed before PumpSwap launched are looked up on Raydium.
+ */
+export async function fetchMigrationPool(connection: Connection, mint: string): Promise<MigrationPool | null> {
+  const pool = getPumpSwapPoolAddress(mint);
+  const account = await connection.getAccountInfo(pool);
+  if (account && account.owner.equals(PUMPSWAP_PROGRAM_ID)) {
+    return { address: pool.toBase58(), venue: 'pumpswap' };
+  }
+
+  // Raydium pools are keyed by their market, so search by the token/SOL mint pair instead
+  const raydiumPools = await connection.getProgramAccounts(RAYDIUM_AMM_PROGRAM_ID, {
+    dataSlice: { offset: 0, length: 0 },
+    filters: [
+      { dataSize: RAYDIUM_AMM_POOL_LENGTH },
+      { memcmp: { offset: RAYDIUM_AMM_BASE_MINT_OFFSET, bytes: mint } },
+      { memcmp: { offset: RAYDIUM_AMM_QUOTE_MINT_OFFSET, bytes: NATIVE_MINT.toBase58() } }
+    ]
+  });
+  return raydiumPools.length > 0 ? { address: raydiumPools[0].pubkey.toBase58(), venue: 'raydium' } : null;
+}
+
+/**
+ * Decode raw bonding-curve account data, null when it is not a bonding-curve account
+ */
+export function decodeBondingCurveAccount(data: Uint8Array): BondingCurveAccount | null {
+  if (data.length < BONDING_CURVE_MIN_LENGTH) {
+    return null;
+  }
+  if (!BONDING_CURVE_DISCRIMINATOR.every((byte, i) => data[i] === byte)) {
+    return null;
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const readU64 = (offset: number) => Number(view.getBigUint64(offset, true));
+
+  const account: BondingCurveAccount = {
+    virtualTokenReserves: readU64(8),
+    virtualSolReserves: readU64(16),
+    realTokenReserves: readU64(24),
+    realSolReserves: readU64(32),
+    tokenTotalSupply: readU64(40),
+    complete: data[48] === 1
+  };
+
+  if (data.length >= BONDING_CURVE_CREATOR_LENGTH) {
+    account.creator = new PublicKey(data.slice(49, 81)).toBase58();
+  }
+
+  return account;
+}
+
+/**
+ * Price, market cap and graduation progress for a decoded curve
+ */
+export function getBondingCurveState(mint: string, account: BondingCurveAccount): BondingCurveState {
+  const priceSol = calculateBondingCurvePrice(account.virtualSolReserves, account.virtualTokenReserves);
+  const supply = account.tokenTotalSupply / 10 ** PUMPFUN_TOKEN_DECIMALS;
+
+  return {
+    ...account,
+    mint,
+    bondingCurve: getBondingCurveAddress(mint).toBase58(),
+    associatedBondingCurve: getAssociatedBondingCurveAddress(mint).toBase58(),
+    priceSol,
+    marketCapSol: priceSol * supply,
+    progress: calculateBondingCurveProgress(account.realTokenReserves, account.complete)
+  };
+}
+
+export async function fetchBondingCurve(connection: Connection, mint: string): Promise<BondingCurveState | null> {
+  const curves = await fetchBondingCurves(connection, [mint]);
+  return curves.get(mint) || null;
+}
+
+/**
+ * Bonding curves for the given mints; mints without a pump.fun curve are left out
+ */
+export async function fetchBondingCurves(connection: Connection, mints: string[]): Promise<Map<string, BondingCurveState>> {
+  const curves = new Map<string, BondingCurveState>();
+
+  // Skip strings that are not valid public keys
+  const candidates: Array<{ mint: string; address: PublicKey }> = [];
+  for (const mint of mints) {
+    try {
+      candidates.push({ mint, address: getBondingCurveAddress(mint) });
+    } catch {
+      continue;
+    }
+  }
+
+  for (let i = 0; i < candidates.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+    const batch = candidates.slice(i, i + MAX_ACCOUNTS_PER_REQUEST);
+    const accounts = await connection.getMultipleAccountsInfo(batch.map(c => c.address));
+
+    accounts.forEach((account, index) => {
+      if (!account || !account.owner.equals(PUMPFUN_PROGRAM_ID)) {
+        return;
+      }
+      const decoded = decodeBondingCurveAccount(account.data);
+      if (decoded) {
+        curves.set(batch[index].mint, getBondingCurveState(batch[index].mint, decoded));
+      }
+    });
+  }
+
+  return curves;
+}
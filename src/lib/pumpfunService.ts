@@ -1,16 +1,15 @@
 /**
  * PumpFun Token Creation Service
- * Uses PumpFun Lightning Transaction API with proper credentials
+ * Builds unsigned PumpPortal Local Transaction API transactions for the creator's own wallet.
+ * The creator's wallet and the mint keypair sign in the browser; no server key is involved.
  */
 
-import { Connection, Keypair, VersionedTransaction } from '@solana/web3.js';
+import { VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
-import { TokenMetaDataType } from './types';
 
 // PumpFun API Configuration
 export const PUMPFUN_CONFIG = {
   api: {
-    trade: 'https://pumpportal.fun/api/trade',
     tradeLocal: 'https://pumpportal.fun/api/trade-local',
     ipfs: 'https://pump.fun/api/ipfs'
   },
@@ -20,14 +19,17 @@ export const PUMPFUN_CONFIG = {
   }
 } as const;
 
+// Jito accepts at most five transactions per bundle
+export const MAX_JITO_BUNDLE_SIZE = 5;
+
 export interface PumpFunTokenCreationOptions {
-  tokenMetadata: TokenMetaDataType;
+  name: string;
+  symbol: string;
+  metadataUri: string;
   network: 'mainnet' | 'testnet';
   devBuyAmount?: number;
   slippage?: number;
   priorityFee?: number;
-  useJitoBundling?: boolean;
-  imageFile?: File | Blob;
 }
 
 export interface PumpFunMetadataUpload {
@@ -54,20 +56,10 @@ export interface PumpFunMetadataResponse {
 }
 
 export class PumpFunService {
-  private apiKey: string;
-  private walletPublicKey: string;
-  private walletPrivateKey: string;
   private network: 'mainnet' | 'testnet';
 
   constructor(network: 'mainnet' | 'testnet' = 'mainnet') {
     this.network = network;
-    this.apiKey = process.env.PUMPFUN_API_KEY || process.env.NEXT_PUBLIC_PUMPFUN_API_KEY || '';
-    this.walletPublicKey = process.env.PUMPFUN_WALLET_PUBLIC_KEY || '';
-    this.walletPrivateKey = process.env.PUMPFUN_WALLET_PRIVATE_KEY || '';
-
-    if (!this.apiKey || !this.walletPublicKey || !this.walletPrivateKey) {
-      throw new Error('PumpFun credentials not found in environment variables');
-    }
   }
 
   /**
@@ -97,99 +89,26 @@ export class PumpFunService {
   }
 
   /**
-   * Create token using Lightning Transaction API
-   */
-  async createTokenWithLightning(
-    options: PumpFunTokenCreationOptions,
-    mintKeypair: Keypair
-  ): Promise<{ signature: string; mint: string }> {
-    // Upload metadata first
-    const imageFile = options.imageFile || new Blob([''], { type: 'image/png' });
-    
-    const metadataResponse = await this.uploadMetadata({
-      file: imageFile,
-      name: options.tokenMetadata.name,
-      symbol: options.tokenMetadata.symbol,
-      description: options.tokenMetadata.description || '',
-      website: options.tokenMetadata.website,
-      twitter: options.tokenMetadata.twitter,
-      telegram: options.tokenMetadata.telegram,
-    });
-
-    // Create token using Lightning API
-    const requestBody = {
-      action: 'create',
-      tokenMetadata: {
-        name: metadataResponse.metadata.name,
-        symbol: metadataResponse.metadata.symbol,
-        uri: metadataResponse.metadataUri
-      },
-      mint: bs58.encode(mintKeypair.secretKey), // Use secret key for Lightning API
-      denominatedInSol: 'true',
-      amount: options.devBuyAmount || 1,
-      slippage: options.slippage || 10,
-      priorityFee: options.priorityFee || 0.0005,
-      pool: 'pump'
-    };
-
-    const response = await fetch(`${PUMPFUN_CONFIG.api.trade}?api-key=${this.apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(requestBody)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`PumpFun Lightning API error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-
-    const result = await response.json();
-    
-    if (!result.signature) {
-      throw new Error(`PumpFun Lightning API did not return a signature: ${JSON.stringify(result)}`);
-    }
-
-    return {
-      signature: result.signature,
-      mint: mintKeypair.publicKey.toBase58()
-    };
-  }
-
-  /**
-   * Create token using Local Transaction API (for custom RPC)
+   * Fetch the unsigned create transaction for a creator wallet from the Local Transaction API.
+   * The creator pays for the launch and the dev buy; it still needs the signatures of
+   * the mint keypair and the creator wallet.
    */
   async createTokenLocal(
     options: PumpFunTokenCreationOptions,
-    mintKeypair: Keypair,
-    connection: Connection
-  ): Promise<{ signature: string; mint: string }> {
-    // Upload metadata first
-    const imageFile = options.imageFile || new Blob([''], { type: 'image/png' });
-    
-    const metadataResponse = await this.uploadMetadata({
-      file: imageFile,
-      name: options.tokenMetadata.name,
-      symbol: options.tokenMetadata.symbol,
-      description: options.tokenMetadata.description || '',
-      website: options.tokenMetadata.website,
-      twitter: options.tokenMetadata.twitter,
-      telegram: options.tokenMetadata.telegram,
-    });
-
-    // Get transaction from Local API
+    creatorPublicKey: string,
+    mintPublicKey: string
+  ): Promise<VersionedTransaction> {
     const requestBody = {
-      publicKey: this.walletPublicKey,
+      publicKey: creatorPublicKey,
       action: 'create',
       tokenMetadata: {
-        name: metadataResponse.metadata.name,
-        symbol: metadataResponse.metadata.symbol,
-        uri: metadataResponse.metadataUri
+        name: options.name,
+        symbol: options.symbol,
+        uri: options.metadataUri
       },
-      mint: mintKeypair.publicKey.toBase58(),
+      mint: mintPublicKey,
       denominatedInSol: 'true',
-      amount: options.devBuyAmount || 1,
+      amount: options.devBuyAmount ?? 1,
       slippage: options.slippage || 10,
       priorityFee: options.priorityFee || 0.0005,
       pool: 'pump'
@@ -208,121 +127,20 @@ export class PumpFunService {
       throw new Error(`PumpFun Local API error: ${response.status} ${response.statusText} - ${errorText}`);
     }
 
-    // Get transaction data
     const data = await response.arrayBuffer();
-    const tx = VersionedTransaction.deserialize(new Uint8Array(data));
-    
-    // Sign with both mint keypair and wallet keypair
-    const walletKeypair = Keypair.fromSecretKey(bs58.decode(this.walletPrivateKey));
-    tx.sign([mintKeypair, walletKeypair]);
-    
-    // Send transaction
-    const signature = await connection.sendTransaction(tx);
-    
-    return {
-      signature,
-      mint: mintKeypair.publicKey.toBase58()
-    };
+    return VersionedTransaction.deserialize(new Uint8Array(data));
   }
 
   /**
-   * Create token with Jito bundling
+   * Submit transactions signed by their wallets as a Jito bundle
    */
-  async createTokenWithJitoBundle(
-    options: PumpFunTokenCreationOptions,
-    additionalSigners: Keypair[],
-    mintKeypair: Keypair
-  ): Promise<{ signatures: string[]; mint: string }> {
-    // Upload metadata first
-    const imageFile = options.imageFile || new Blob([''], { type: 'image/png' });
-    
-    const metadataResponse = await this.uploadMetadata({
-      file: imageFile,
-      name: options.tokenMetadata.name,
-      symbol: options.tokenMetadata.symbol,
-      description: options.tokenMetadata.description || '',
-      website: options.tokenMetadata.website,
-      twitter: options.tokenMetadata.twitter,
-      telegram: options.tokenMetadata.telegram,
-    });
-
-    // Create bundle transactions
-    const bundledTxArgs = [
-      {
-        publicKey: this.walletPublicKey,
-        action: 'create',
-        tokenMetadata: {
-          name: metadataResponse.metadata.name,
-          symbol: metadataResponse.metadata.symbol,
-          uri: metadataResponse.metadataUri
-        },
-        mint: mintKeypair.publicKey.toBase58(),
-        denominatedInSol: 'true',
-        amount: options.devBuyAmount || 1,
-        slippage: options.slippage || 10,
-        priorityFee: options.priorityFee || 0.0005,
-        pool: 'pump'
-      }
-    ];
-
-    // Add additional buy transactions if there are additional signers
-    additionalSigners.forEach((signer, index) => {
-      bundledTxArgs.push({
-        publicKey: signer.publicKey.toBase58(),
-        action: 'buy',
-        tokenMetadata: {
-          name: metadataResponse.metadata.name,
-          symbol: metadataResponse.metadata.symbol,
-          uri: metadataResponse.metadataUri
-        },
-        mint: mintKeypair.publicKey.toBase58(),
-        denominatedInSol: 'true',
-        amount: 0.1, // Small buy amount
-        slippage: options.slippage || 10,
-        priorityFee: index === 0 ? options.priorityFee || 0.0005 : 0, // Only first tx gets priority fee
-        pool: 'pump'
-      });
-    });
-
-    // Get bundled transactions
-    const response = await fetch(PUMPFUN_CONFIG.api.tradeLocal, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(bundledTxArgs)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`PumpFun Bundle API error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-
-    const transactions = await response.json();
-    const encodedSignedTransactions: string[] = [];
-    const signatures: string[] = [];
-
-    // Sign each transaction
-    const walletKeypair = Keypair.fromSecretKey(bs58.decode(this.walletPrivateKey));
-    
-    for (let i = 0; i < bundledTxArgs.length; i++) {
-      const tx = VersionedTransaction.deserialize(new Uint8Array(bs58.decode(transactions[i])));
-      
-      if (bundledTxArgs[i].action === 'create') {
-        // Creation transaction needs mint and wallet keypairs
-        tx.sign([mintKeypair, walletKeypair]);
-      } else {
-        // Buy transactions need signer keypair
-        tx.sign([additionalSigners[i - 1]]);
-      }
-      
-      encodedSignedTransactions.push(bs58.encode(tx.serialize()));
-      signatures.push(bs58.encode(tx.signatures[0]));
+  async sendJitoBundle(signedTransactions: VersionedTransaction[]): Promise<{ bundleId: string; signatures: string[] }> {
+    if (signedTransactions.length === 0 || signedTransactions.length > MAX_JITO_BUNDLE_SIZE) {
+      throw new Error(`A Jito bundle holds between 1 and ${MAX_JITO_BUNDLE_SIZE} transactions`);
     }
 
-    // Send bundle to Jito
     const jitoEndpoint = this.network === 'mainnet' ? PUMPFUN_CONFIG.jito.mainnet : PUMPFUN_CONFIG.jito.testnet;
-    
+
     const jitoResponse = await fetch(jitoEndpoint, {
       method: 'POST',
       headers: {
@@ -332,7 +150,7 @@ export class PumpFunService {
         jsonrpc: '2.0',
         id: 1,
         method: 'sendBundle',
-        params: [encodedSignedTransactions]
+        params: [signedTransactions.map(tx => bs58.encode(tx.serialize()))]
       })
     });
 
@@ -340,9 +158,14 @@ export class PumpFunService {
       throw new Error(`Jito bundle submission failed: ${jitoResponse.statusText}`);
     }
 
+    const result = await jitoResponse.json();
+    if (result.error) {
+      throw new Error(`Jito bundle submission failed: ${result.error.message || JSON.stringify(result.error)}`);
+    }
+
     return {
-      signatures,
-      mint: mintKeypair.publicKey.toBase58()
+      bundleId: result.result,
+      signatures: signedTransactions.map(tx => bs58.encode(tx.signatures[0]))
     };
   }
 }
@@ -352,4 +175,4 @@ export class PumpFunService {
  */
 export function createPumpFunService(network: 'mainnet' | 'testnet' = 'mainnet'): PumpFunService {
   return new PumpFunService(network);
-}
\ No newline at end of file
+}
@@ -1,8 +1,12 @@
 /**
  * PumpFun Token Utilities
- * Handles detection and processing of PumpFun tokens (addresses ending with "pump")
+ * Handles detection and processing of PumpFun tokens (mints with a pump.fun bonding curve)
  */
 
+import { getHeliusService } from './helius';
+import { fetchBondingCurve, fetchBondingCurves } from './pumpfunCurve';
+import { NetworkType } from '../context/NetworkContext';
+
 export interface PumpFunTokenInfo {
   mint: string;
   name: string;
@@ -15,63 +19,120 @@ export interface PumpFunTokenInfo {
   twitter?: string;
   telegram?: string;
   discord?: string;
+  // In SOL, computed from the bonding curve
   marketCap?: number;
+  priceSol?: number;
   bondingCurve?: string;
   associatedBondingCurve?: string;
   virtualTokenReserves?: number;
   virtualSolReserves?: number;
+  realTokenReserves?: number;
+  realSolReserves?: number;
   totalSupply?: number;
   complete?: boolean;
+  // Graduation progress, 0 to 100
+  bondingCurveProgress?: number;
+}
+
+// A curve is created together with its mint, so the answer never changes for a mint.
+// Least recently used entries are dropped so every mint ever seen does not stay in memory.
+const MAX_CACHED_PUMPFUN_MINTS = 10000;
+const pumpFunMintCache: Map<string, boolean> = new Map();
+
+function getCachedPumpFunMint(network: NetworkType, mint: string): boolean | undefined {
+  const key = `${network}:${mint}`;
+  const cached = pumpFunMintCache.get(key);
+  if (cached !== undefined) {
+    // Re-insert to mark it as most recently used
+    pumpFunMintCache.delete(key);
+    pumpFunMintCache.set(key, cached);
+  }
+  return cached;
+}
+
+function cachePumpFunMint(network: NetworkType, mint: string, isPumpFun: boolean): void {
+  const key = `${network}:${mint}`;
+  pumpFunMintCache.delete(key);
+  pumpFunMintCache.set(key, isPumpFun);
+  if (pumpFunMintCache.size > MAX_CACHED_PUMPFUN_MINTS) {
+    pumpFunMintCache.delete(pumpFunMintCache.keys().next().value!);
+  }
 }
 
 /**
- * Check if a token address ends with "pump" (indicating it's a PumpFun token)
+ * Mints among the given ones that have a pump.fun bonding curve
  */
-export function isPumpFunToken(address: string): boolean {
-  if (!address || typeof address !== 'string') {
-    return false;
+export async function getPumpFunMints(mints: string[], network: NetworkType = 'mainnet'): Promise<Set<string>> {
+  const known: Map<string, boolean> = new Map();
+  for (const mint of new Set(mints)) {
+    const cached = getCachedPumpFunMint(network, mint);
+    if (cached !== undefined) {
+      known.set(mint, cached);
+    }
+  }
+  const unknown = Array.from(new Set(mints)).filter(mint => !known.has(mint));
+
+  if (unknown.length > 0) {
+    try {
+      const curves = await fetchBondingCurves(getHeliusService(network).getConnection(), unknown);
+      for (const mint of unknown) {
+        known.set(mint, curves.has(mint));
+        cachePumpFunMint(network, mint, curves.has(mint));
+      }
+    } catch (error) {
+      console.error('Error checking pump.fun bonding curves:', error);
+    }
   }
-  return address.toLowerCase().endsWith('pump');
+
+  return new Set(mints.filter(mint => known.get(mint)));
 }
 
 /**
- * Fetch PumpFun token information from their API
+ * Check if a mint has a pump.fun bonding curve account
  */
-export async function fetchPumpFunTokenInfo(mintAddress: string): Promise<PumpFunTokenInfo | null> {
-  if (!isPumpFunToken(mintAddress)) {
-    return null;
+export async function isPumpFunToken(address: string, network: NetworkType = 'mainnet'): Promise<boolean> {
+  if (!address || typeof address !== 'string') {
+    return false;
   }
+  const pumpFunMints = await getPumpFunMints([address], network);
+  return pumpFunMints.has(address);
+}
 
+/**
+ * Read PumpFun token information from its bonding curve, with metadata from Helius
+ */
+export async function fetchPumpFunTokenInfo(mintAddress: string, network: NetworkType = 'mainnet'): Promise<PumpFunTokenInfo | null> {
   try {
-    // Using PumpFun's frontend API endpoint
-    const response = await fetch(`https://frontend-api.pump.fun/coins/${mintAddress}`);
-    
-    if (!response.ok) {
-      console.warn(`PumpFun API returned ${response.status} for token ${mintAddress}`);
+    const helius = getHeliusService(network);
+    const curve = await fetchBondingCurve(helius.getConnection(), mintAddress);
+    cachePumpFunMint(network, mintAddress, curve !== null);
+    if (!curve) {
       return null;
     }
 
-    const data = await response.json();
-    
+    const asset = await helius.getAsset(mintAddress);
+    const metadata = asset?.content?.metadata;
+
     return {
-      mint: data.mint || mintAddress,
-      name: data.name || 'Unknown PumpFun Token',
-      symbol: data.symbol || 'PUMP',
-      description: data.description,
-      image: data.image_uri,
-      creator: data.creator,
+      mint: mintAddress,
+      name: metadata?.name || 'Unknown PumpFun Token',
+      symbol: metadata?.symbol || 'PUMP',
+      description: metadata?.description,
+      image: asset?.content?.links?.image || asset?.content?.files?.[0]?.uri,
+      creator: curve.creator || asset?.creators?.[0]?.address,
       createdOn: 'pump.fun',
-      website: data.website,
-      twitter: data.twitter,
-      telegram: data.telegram,
-      discord: data.discord,
-      marketCap: data.market_cap,
-      bondingCurve: data.bonding_curve,
-      associatedBondingCurve: data.associated_bonding_curve,
-      virtualTokenReserves: data.virtual_token_reserves,
-      virtualSolReserves: data.virtual_sol_reserves,
-      totalSupply: data.total_supply,
-      complete: data.complete
+      website: asset?.content?.links?.external_url,
+      marketCap: curve.marketCapSol,
+      priceSol: curve.priceSol,
+      bondingCurve: curve.bondingCurve,
+      associatedBondingCurve: curve.associatedBondingCurve,
+      virtualTokenReserves: curve.virtualTokenReserves,
+      virtualSolReserves: curve.virtualSolReserves,
+      realTokenReserves: curve.realTokenReserves,
+      realSolReserves: curve.realSolReserves,
+      totalSupply: curve.tokenTotalSupply,
+      complete: curve.complete,
+      bondingCurveProgress: curve.progress
     };
   } catch (error) {
     console.error('Error fetching PumpFun token info:', error);
@@ -82,15 +143,15 @@ export async function fetchPumpFunTokenInfo(mintAddress: string): Promise<PumpFu
 /**
  * Enhanced token detection that includes PumpFun metadata check
  */
-export async function detectTokenType(mintAddress: string): Promise<{
+export async function detectTokenType(mintAddress: string, network: NetworkType = 'mainnet'): Promise<{
   isPumpFun: boolean;
   tokenType: 'pumpfun' | 'spl' | 'spl-2022' | 'unknown';
   metadata?: any;
 }> {
-  const isPumpFun = isPumpFunToken(mintAddress);
+  // Only mints with a bonding curve account are pump.fun tokens
+  const pumpFunData = await fetchPumpFunTokenInfo(mintAddress, network);
   
-  if (isPumpFun) {
-    const pumpFunData = await fetchPumpFunTokenInfo(mintAddress);
+  if (pumpFunData) {
     return {
       isPumpFun: true,
       tokenType: 'pumpfun',
@@ -109,13 +170,9 @@ export async function detectTokenType(mintAddress: string): Promise<{
 /**
  * Get creator information for PumpFun tokens
  */
-export async function getPumpFunCreator(mintAddress: string): Promise<string | null> {
-  if (!isPumpFunToken(mintAddress)) {
-    return null;
-  }
-
+export async function getPumpFunCreator(mintAddress: string, network: NetworkType = 'mainnet'): Promise<string | null> {
   try {
-    const tokenInfo = await fetchPumpFunTokenInfo(mintAddress);
+    const tokenInfo = await fetchPumpFunTokenInfo(mintAddress, network);
     return tokenInfo?.creator || null;
   } catch (error) {
     console.error('Error fetching PumpFun creator:', error);
@@ -135,13 +192,13 @@ export function hasPumpFunMetadata(metadata: any): boolean {
 }
 
 /**
- * Validate PumpFun token address format
+ * Validate a token address format and check for a PumpFun bonding curve
  */
-export function validatePumpFunAddress(address: string): {
+export async function validatePumpFunAddress(address: string, network: NetworkType = 'mainnet'): Promise<{
   isValid: boolean;
   isPumpFun: boolean;
   error?: string;
-} {
+}> {
   if (!address || typeof address !== 'string') {
     return {
       isValid: false,
@@ -159,7 +216,7 @@ export function validatePumpFunAddress(address: string): {
     };
   }
 
-  const isPumpFun = isPumpFunToken(address);
+  const isPumpFun = await isPumpFunToken(address, network);
   
   return {
     isValid: true,
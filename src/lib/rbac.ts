@@ -0,0 +1,166 @@
+/**
+ * Role-based access control
+ * Roles are stored per wallet in MongoDB and checked on top of the Sign-In With Solana session.
+ * Wallets listed in ADMIN_WALLETS are owners without a stored role, so a fresh install can sign in.
+ */
+
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+import { NextRequest, NextResponse } from 'next/server';
+import { Collection } from 'mongodb';
+import { AuthSession, getApiSession, getRequestSession } from './auth';
+
+export type Role = 'owner' | 'admin' | 'analyst' | 'viewer';
+
+export const ROLES: Role[] = ['owner', 'admin', 'analyst', 'viewer'];
+
+// Each role includes everything the roles ranked below it may do
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 1,
+  analyst: 2,
+  admin: 3,
+  owner: 4
+};
+
+export interface UserRole {
+  publicKey: string;
+  role: Role;
+  grantedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AuthorizedUser {
+  session: AuthSession;
+  role: Role;
+}
+
+// Minimum role per HTTP method; methods left out are passed through to the handler
+export type MethodRoles = Partial<Record<'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE', Role>>;
+
+// Read for viewers, changes for analysts
+export const WALLET_TRACKER_ROLES: MethodRoles = {
+  GET: 'viewer',
+  POST: 'analyst',
+  PUT: 'analyst',
+  DELETE: 'analyst'
+};
+
+export function hasRole(role: Role | null, required: Role): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Roles a user may grant or revoke: admins manage analysts and viewers, owners manage everyone
+ */
+export function canManageRole(managerRole: Role | null, targetRole: Role): boolean {
+  if (managerRole === 'owner') return true;
+  return hasRole(managerRole, 'admin') && ROLE_RANK[targetRole] < ROLE_RANK.admin;
+}
+
+export function isBootstrapOwner(publicKey: string): boolean {
+  const owners = (process.env.ADMIN_WALLETS || '').split(',').map(key => key.trim()).filter(Boolean);
+  return owners.includes(publicKey);
+}
+
+let roleCollection: Collection<UserRole> | null = null;
+
+async function getRoleCollection(): Promise<Collection<UserRole>> {
+  if (!roleCollection) {
+    const { getMongoClient } = await import('./mongodb');
+    const client = await getMongoClient();
+    roleCollection = client.db('tokenup').collection<UserRole>('user_roles');
+    await roleCollection.createIndex({ publicKey: 1 }, { unique: true });
+    await roleCollection.createIndex({ role: 1 });
+  }
+  return roleCollection;
+}
+
+export async function getUserRole(publicKey: string): Promise<Role | null> {
+  if (isBootstrapOwner(publicKey)) {
+    return 'owner';
+  }
+  const collection = await getRoleCollection();
+  const stored = await collection.findOne({ publicKey });
+  return stored?.role || null;
+}
+
+export async function getUserRoles(): Promise<UserRole[]> {
+  const collection = await getRoleCollection();
+  return await collection.find({}, { projection: { _id: 0 } }).sort({ createdAt: 1 }).toArray();
+}
+
+export async function setUserRole(publicKey: string, role: Role, grantedBy: string): Promise<UserRole> {
+  const collection = await getRoleCollection();
+  const now = new Date();
+  await collection.updateOne(
+    { publicKey },
+    { $set: { role, grantedBy, updatedAt: now }, $setOnInsert: { publicKey, createdAt: now } },
+    { upsert: true }
+  );
+  return (await collection.findOne({ publicKey }, { projection: { _id: 0 } }))!;
+}
+
+export async function removeUserRole(publicKey: string): Promise<boolean> {
+  const collection = await getRoleCollection();
+  const result = await collection.deleteOne({ publicKey });
+  return result.deletedCount > 0;
+}
+
+/**
+ * Signed-in user of a pages-router request with at least the required role.
+ * Responds with 401 or 403 and returns null otherwise.
+ */
+export async function authorizeApiRequest(req: NextApiRequest, res: NextApiResponse, required: Role): Promise<AuthorizedUser | null> {
+  const session = getApiSession(req);
+  if (!session) {
+    res.status(401).json({ error: 'Sign in with your wallet to continue' });
+    return null;
+  }
+
+  const role = await getUserRole(session.publicKey);
+  if (!hasRole(role, required)) {
+    res.status(403).json({ error: `This action requires the ${required} role` });
+    return null;
+  }
+
+  return { session, role: role! };
+}
+
+/**
+ * App-router variant of authorizeApiRequest; returns the error response to send, or the user
+ */
+export async function authorizeRequest(request: NextRequest, required: Role): Promise<AuthorizedUser | NextResponse> {
+  const session = getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Sign in with your wallet to continue' }, { status: 401 });
+  }
+
+  const role = await getUserRole(session.publicKey);
+  if (!hasRole(role, required)) {
+    return NextResponse.json({ error: `This action requires the ${required} role` }, { status: 403 });
+  }
+
+  return { session, role: role! };
+}
+
+/**
+ * Wrap a pages-router handler so each method requires its role before the handler runs
+ */
+export function withRoles(roles: MethodRoles, handler: NextApiHandler): NextApiHandler {
+  return async (req, res) => {
+    const required = roles[req.method as keyof MethodRoles];
+    if (required) {
+      try {
+        const user = await authorizeApiRequest(req, res, required);
+        if (!user) return;
+      } catch (error) {
+        console.error('Authorization error:', error);
+        return res.status(500).json({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+    return handler(req, res);
+  };
+}
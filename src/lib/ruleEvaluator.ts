@@ -0,0 +1,179 @@
+import { MonitoringRule } from './walletMonitor';
+import { WalletActivity, WalletTokenHolding } from './walletTracker';
+import { WalletAlert } from './walletTrackerDb';
+
+export type TransferDirection = 'in' | 'out';
+
+export interface BalanceChangeMatch {
+  rule: MonitoringRule;
+  tokenAddress: string;
+  symbol?: string;
+  previousAmount: number;
+  currentAmount: number;
+  change: number;
+  percentageChange: number;
+  severity: WalletAlert['severity'];
+}
+
+export interface TokenTransferMatch {
+  rule: MonitoringRule;
+  tokenAddress: string;
+  direction: TransferDirection;
+  amount: number;
+  // Share of the balance held before the transfer, when it is known
+  percentageOfBalance?: number;
+  severity: WalletAlert['severity'];
+}
+
+// Percentage change reported when a balance moves away from zero
+const FULL_CHANGE_PERCENTAGE = 100;
+
+/**
+ * Holding amount in whole tokens. Stored holdings are in base units while transfer
+ * activities carry UI amounts, so they are only compared after this conversion.
+ */
+export function getHoldingUiAmount(holding: Pick<WalletTokenHolding, 'amount' | 'decimals'>): number {
+  return holding.amount / 10 ** (holding.decimals || 0);
+}
+
+/**
+ * Percentage change from previous to current, 100 when the previous balance was empty
+ */
+export function getPercentageChange(previous: number, current: number): number {
+  if (previous === 0) {
+    return current === 0 ? 0 : FULL_CHANGE_PERCENTAGE;
+  }
+  return Math.abs((current - previous) / previous) * 100;
+}
+
+/**
+ * Direction of an activity relative to the wallet, null for self transfers or unrelated activities
+ */
+export function getTransferDirection(activity: WalletActivity, walletAddress: string): TransferDirection | null {
+  const isSender = activity.fromAddress === walletAddress;
+  const isReceiver = activity.toAddress === walletAddress;
+
+  if (isReceiver && !isSender) return 'in';
+  if (isSender && !isReceiver) return 'out';
+  return null;
+}
+
+/**
+ * Compare two holdings snapshots against a balance_change rule.
+ * Every configured condition (threshold in whole tokens, percentage) has to be met; tokenAddress
+ * limits the check to one mint. Tokens that only appear in the current snapshot are left to
+ * new-token detection. Amounts in the matches are whole tokens as well.
+ */
+export function evaluateBalanceChangeRule(
+  rule: MonitoringRule,
+  currentHoldings: WalletTokenHolding[],
+  previousHoldings: WalletTokenHolding[]
+): BalanceChangeMatch[] {
+  if (rule.type !== 'balance_change' || !rule.isActive) {
+    return [];
+  }
+
+  const { threshold, percentage, tokenAddress } = rule.conditions;
+  if (threshold === undefined && percentage === undefined) {
+    return [];
+  }
+
+  const matches: BalanceChangeMatch[] = [];
+
+  for (const previous of previousHoldings) {
+    if (tokenAddress && previous.mint !== tokenAddress) {
+      continue;
+    }
+
+    // A token missing from the current snapshot has been emptied
+    const current = currentHoldings.find(h => h.mint === previous.mint);
+    const previousAmount = getHoldingUiAmount(previous);
+    const currentAmount = current ? getHoldingUiAmount(current) : 0;
+    const change = currentAmount - previousAmount;
+    if (change === 0) {
+      continue;
+    }
+
+    const percentageChange = getPercentageChange(previousAmount, currentAmount);
+
+    if (threshold !== undefined && Math.abs(change) < threshold) {
+      continue;
+    }
+    if (percentage !== undefined && percentageChange < percentage) {
+      continue;
+    }
+
+    matches.push({
+      rule,
+      tokenAddress: previous.mint,
+      symbol: current?.metadata?.symbol || previous.metadata?.symbol,
+      previousAmount,
+      currentAmount,
+      change,
+      percentageChange,
+      severity: percentageChange > 50 ? 'high' : 'medium'
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Match a token transfer activity against a token_transfer rule.
+ * Supports tokenAddress scoping, direction (in, out or both), minAmount and,
+ * when balanceBefore is given, a percentage of the balance held before the transfer.
+ */
+export function evaluateTokenTransferRule(
+  rule: MonitoringRule,
+  activity: WalletActivity,
+  balanceBefore?: number
+): TokenTransferMatch | null {
+  if (rule.type !== 'token_transfer' || !rule.isActive) {
+    return null;
+  }
+  if (activity.type !== 'token_transfer' || !activity.mint || !activity.amount) {
+    return null;
+  }
+
+  const { tokenAddress, minAmount, percentage, direction = 'both' } = rule.conditions;
+
+  if (tokenAddress && activity.mint !== tokenAddress) {
+    return null;
+  }
+
+  const transferDirection = getTransferDirection(activity, rule.walletAddress);
+  if (!transferDirection || (direction !== 'both' && direction !== transferDirection)) {
+    return null;
+  }
+
+  if (minAmount !== undefined && activity.amount < minAmount) {
+    return null;
+  }
+
+  let percentageOfBalance: number | undefined;
+  if (balanceBefore !== undefined) {
+    const balanceAfter = transferDirection === 'in'
+      ? balanceBefore + activity.amount
+      : Math.max(balanceBefore - activity.amount, 0);
+    percentageOfBalance = getPercentageChange(balanceBefore, balanceAfter);
+  }
+
+  if (percentage !== undefined) {
+    // Without a known prior balance the percentage condition cannot be checked
+    if (percentageOfBalance === undefined || percentageOfBalance < percentage) {
+      return null;
+    }
+  }
+
+  const isLarge = (minAmount !== undefined && activity.amount >= minAmount * 10) ||
+    (percentageOfBalance !== undefined && percentageOfBalance > 50);
+
+  return {
+    rule,
+    tokenAddress: activity.mint,
+    direction: transferDirection,
+    amount: activity.amount,
+    percentageOfBalance,
+    severity: isLarge ? 'high' : 'medium'
+  };
+}
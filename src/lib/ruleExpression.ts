@@ -0,0 +1,590 @@
+/**
+ * Rule expression language for wallet monitoring
+ *
+ * Boolean and threshold expressions over holdings, activities, wallet tags and time windows, e.g.
+ *   sell_pct(10m, "pumpfun") > 20
+ *   event.type == "new_token" AND has_tag("insider")
+ *   (received(1h) >= 1000 OR tx_count(5m) > 10) AND NOT is_pumpfun(event.mint)
+ *
+ * Operators: AND / OR / NOT (also && || !), comparisons > >= < <= == !=, parentheses.
+ * Literals: numbers (a trailing % is ignored), "strings", true / false and durations (30s, 10m, 1h, 7d).
+ */
+import { WalletActivity, WalletTokenHolding } from './walletTracker';
+import { getHoldingUiAmount, getPercentageChange, getTransferDirection } from './ruleEvaluator';
+
+export type ExpressionType = 'number' | 'string' | 'boolean' | 'duration';
+
+type ExpressionValue = number | string | boolean;
+
+type ComparisonOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+export type ExpressionNode =
+  | { kind: 'literal'; type: ExpressionType; value: ExpressionValue }
+  | { kind: 'variable'; name: string }
+  | { kind: 'call'; name: string; args: ExpressionNode[] }
+  | { kind: 'not'; operand: ExpressionNode }
+  | { kind: 'logical'; operator: 'and' | 'or'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'comparison'; operator: ComparisonOperator; left: ExpressionNode; right: ExpressionNode };
+
+// What triggered the evaluation
+export interface RuleEvent {
+  type: 'activity' | 'new_token' | 'balance_change';
+  mint?: string;
+  amount?: number;
+  direction?: 'in' | 'out';
+  activityType?: WalletActivity['type'];
+}
+
+export interface RuleExpressionContext {
+  walletAddress: string;
+  tags: string[];
+  holdings: WalletTokenHolding[];
+  // Recent activities, the triggering one included
+  activities: WalletActivity[];
+  event: RuleEvent;
+  now: Date;
+  // Mints of the context with a pump.fun bonding curve, looked up before evaluation
+  pumpFunMints: Set<string>;
+}
+
+interface FunctionDefinition {
+  params: ExpressionType[];
+  // Number of trailing params that may be left out
+  optional: number;
+  returns: ExpressionType;
+  evaluate: (context: RuleExpressionContext, args: ExpressionValue[]) => ExpressionValue;
+}
+
+interface VariableDefinition {
+  type: ExpressionType;
+  resolve: (context: RuleExpressionContext) => ExpressionValue;
+}
+
+type Token =
+  | { kind: 'number' | 'duration'; value: number; position: number }
+  | { kind: 'string' | 'identifier'; value: string; position: number }
+  | { kind: 'operator'; value: ComparisonOperator; position: number }
+  | { kind: 'and' | 'or' | 'not' | 'lparen' | 'rparen' | 'comma' | 'end'; position: number };
+
+const MAX_EXPRESSION_LENGTH = 1000;
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+// Token scope argument: "any", "pumpfun" or a mint address
+function matchesScope(context: RuleExpressionContext, mint: string, scope?: ExpressionValue): boolean {
+  if (scope === undefined || scope === 'any') return true;
+  if (scope === 'pumpfun') return context.pumpFunMints.has(mint);
+  return mint === scope;
+}
+
+// Whole tokens, the unit of the sent and received amounts of transfer activities
+function getHoldingAmount(context: RuleExpressionContext, mint: string): number {
+  const holding = context.holdings.find(h => h.mint === mint);
+  return holding ? getHoldingUiAmount(holding) : 0;
+}
+
+// Token amounts sent and received per mint within a time window
+function getTokenFlows(
+  context: RuleExpressionContext,
+  windowMs: number,
+  scope?: ExpressionValue
+): Map<string, { sent: number; received: number }> {
+  const since = context.now.getTime() - windowMs;
+  const flows = new Map<string, { sent: number; received: number }>();
+
+  for (const activity of context.activities) {
+    if (activity.type !== 'token_transfer' || !activity.mint || !activity.amount) continue;
+    if (new Date(activity.timestamp).getTime() < since) continue;
+    if (!matchesScope(context, activity.mint, scope)) continue;
+
+    const direction = getTransferDirection(activity, context.walletAddress);
+    if (!direction) continue;
+
+    const flow = flows.get(activity.mint) || { sent: 0, received: 0 };
+    if (direction === 'out') {
+      flow.sent += activity.amount;
+    } else {
+      flow.received += activity.amount;
+    }
+    flows.set(activity.mint, flow);
+  }
+
+  return flows;
+}
+
+// Largest share of a token balance sold (or bought) within the window
+function getMaxFlowPercentage(
+  context: RuleExpressionContext,
+  args: ExpressionValue[],
+  side: 'sent' | 'received'
+): number {
+  let max = 0;
+
+  for (const [mint, flow] of getTokenFlows(context, args[0] as number, args[1]).entries()) {
+    if (flow[side] === 0) continue;
+
+    // Reconstruct the balance held when the window started
+    const before = Math.max(getHoldingAmount(context, mint) + flow.sent - flow.received, 0);
+    const after = side === 'sent' ? Math.max(before - flow.sent, 0) : before + flow.received;
+    max = Math.max(max, getPercentageChange(before, after));
+  }
+
+  return max;
+}
+
+function sumFlows(context: RuleExpressionContext, args: ExpressionValue[], side: 'sent' | 'received'): number {
+  let total = 0;
+  for (const flow of getTokenFlows(context, args[0] as number, args[1]).values()) {
+    total += flow[side];
+  }
+  return total;
+}
+
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  // Largest % of any in-scope token balance sold within the window
+  sell_pct: {
+    params: ['duration', 'string'],
+    optional: 1,
+    returns: 'number',
+    evaluate: (context, args) => getMaxFlowPercentage(context, args, 'sent')
+  },
+  // Largest % increase of any in-scope token balance within the window
+  buy_pct: {
+    params: ['duration', 'string'],
+    optional: 1,
+    returns: 'number',
+    evaluate: (context, args) => getMaxFlowPercentage(context, args, 'received')
+  },
+  sent: {
+    params: ['duration', 'string'],
+    optional: 1,
+    returns: 'number',
+    evaluate: (context, args) => sumFlows(context, args, 'sent')
+  },
+  received: {
+    params: ['duration', 'string'],
+    optional: 1,
+    returns: 'number',
+    evaluate: (context, args) => sumFlows(context, args, 'received')
+  },
+  // Number of activities within the window, optionally of one activity type
+  tx_count: {
+    params: ['duration', 'string'],
+    optional: 1,
+    returns: 'number',
+    evaluate: (context, args) => {
+      const since = context.now.getTime() - (args[0] as number);
+      return context.activities.filter(a =>
+        new Date(a.timestamp).getTime() >= since && (args[1] === undefined || a.type === args[1])
+      ).length;
+    }
+  },
+  holding: {
+    params: ['string'],
+    optional: 0,
+    returns: 'number',
+    evaluate: (context, args) => getHoldingAmount(context, args[0] as string)
+  },
+  token_count: {
+    params: [],
+    optional: 0,
+    returns: 'number',
+    evaluate: (context) => context.holdings.filter(h => h.amount > 0).length
+  },
+  has_tag: {
+    params: ['string'],
+    optional: 0,
+    returns: 'boolean',
+    evaluate: (context, args) => context.tags.includes(args[0] as string)
+  },
+  // Known for mints in holdings, activities and the event
+  is_pumpfun: {
+    params: ['string'],
+    optional: 0,
+    returns: 'boolean',
+    evaluate: (context, args) => context.pumpFunMints.has(args[0] as string)
+  }
+};
+
+const VARIABLES: Record<string, VariableDefinition> = {
+  'event.type': { type: 'string', resolve: (context) => context.event.type },
+  'event.mint': { type: 'string', resolve: (context) => context.event.mint || '' },
+  'event.amount': { type: 'number', resolve: (context) => context.event.amount ?? 0 },
+  'event.direction': { type: 'string', resolve: (context) => context.event.direction || '' },
+  'event.activity_type': { type: 'string', resolve: (context) => context.event.activityType || '' }
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const position = i;
+
+    if (/\d/.test(char)) {
+      const match = source.slice(i).match(/^(\d+(?:\.\d+)?)([smhd](?![A-Za-z0-9_])|%)?/)!;
+      const value = parseFloat(match[1]);
+      const suffix = match[2];
+      i += match[0].length;
+
+      if (suffix && suffix !== '%') {
+        tokens.push({ kind: 'duration', value: value * DURATION_UNITS[suffix], position });
+      } else {
+        tokens.push({ kind: 'number', value, position });
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated string at position ${position}`);
+      }
+      tokens.push({ kind: 'string', value: source.slice(i + 1, end), position });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const word = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_.]*/)![0];
+      i += word.length;
+
+      const keyword = word.toLowerCase();
+      if (keyword === 'and' || keyword === 'or' || keyword === 'not') {
+        tokens.push({ kind: keyword, position });
+      } else {
+        tokens.push({ kind: 'identifier', value: word, position });
+      }
+      continue;
+    }
+
+    const twoChars = source.slice(i, i + 2);
+    if (twoChars === '&&' || twoChars === '||') {
+      tokens.push({ kind: twoChars === '&&' ? 'and' : 'or', position });
+      i += 2;
+      continue;
+    }
+    if (twoChars === '>=' || twoChars === '<=' || twoChars === '==' || twoChars === '!=') {
+      tokens.push({ kind: 'operator', value: twoChars, position });
+      i += 2;
+      continue;
+    }
+
+    switch (char) {
+      case '>':
+      case '<':
+        tokens.push({ kind: 'operator', value: char, position });
+        break;
+      case '!':
+        tokens.push({ kind: 'not', position });
+        break;
+      case '(':
+        tokens.push({ kind: 'lparen', position });
+        break;
+      case ')':
+        tokens.push({ kind: 'rparen', position });
+        break;
+      case ',':
+        tokens.push({ kind: 'comma', position });
+        break;
+      default:
+        throw new Error(`Unexpected character "${char}" at position ${position}`);
+    }
+    i++;
+  }
+
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+}
+
+// Recursive descent parser, lowest precedence first: OR, AND, NOT, comparison, primary
+class ExpressionParser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  public parse(): ExpressionNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      throw new Error(`Unexpected ${describeToken(next)} at position ${next.position}`);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private expect(kind: Token['kind'], description: string): Token {
+    const token = this.next();
+    if (token.kind !== kind) {
+      throw new Error(`Expected ${description} but found ${describeToken(token)} at position ${token.position}`);
+    }
+    return token;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.peek().kind === 'or') {
+      this.next();
+      left = { kind: 'logical', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.peek().kind === 'and') {
+      this.next();
+      left = { kind: 'logical', operator: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.peek().kind === 'not') {
+      this.next();
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parsePrimary();
+    const token = this.peek();
+    if (token.kind === 'operator') {
+      this.next();
+      return { kind: 'comparison', operator: token.value, left, right: this.parsePrimary() };
+    }
+    return left;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+        return { kind: 'literal', type: 'number', value: token.value };
+      case 'duration':
+        return { kind: 'literal', type: 'duration', value: token.value };
+      case 'string':
+        return { kind: 'literal', type: 'string', value: token.value };
+      case 'lparen': {
+        const node = this.parseOr();
+        this.expect('rparen', '")"');
+        return node;
+      }
+      case 'identifier': {
+        const lower = token.value.toLowerCase();
+        if (lower === 'true' || lower === 'false') {
+          return { kind: 'literal', type: 'boolean', value: lower === 'true' };
+        }
+
+        if (this.peek().kind !== 'lparen') {
+          return { kind: 'variable', name: token.value };
+        }
+
+        this.next();
+        const args: ExpressionNode[] = [];
+        if (this.peek().kind !== 'rparen') {
+          args.push(this.parseOr());
+          while (this.peek().kind === 'comma') {
+            this.next();
+            args.push(this.parseOr());
+          }
+        }
+        this.expect('rparen', '")"');
+        return { kind: 'call', name: token.value, args };
+      }
+      default:
+        throw new Error(`Unexpected ${describeToken(token)} at position ${token.position}`);
+    }
+  }
+}
+
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case 'end':
+      return 'end of expression';
+    case 'number':
+    case 'duration':
+    case 'string':
+    case 'identifier':
+    case 'operator':
+      return `"${token.value}"`;
+    default:
+      return token.kind.toUpperCase();
+  }
+}
+
+// Own properties only, so names like "constructor" or "toString" stay unknown
+function lookup<T>(table: Record<string, T>, name: string): T | undefined {
+  return Object.hasOwn(table, name) ? table[name] : undefined;
+}
+
+// Returns the type of a node and throws on unknown names or mismatched operands
+function checkType(node: ExpressionNode): ExpressionType {
+  switch (node.kind) {
+    case 'literal':
+      return node.type;
+
+    case 'variable': {
+      const variable = lookup(VARIABLES, node.name);
+      if (!variable) {
+        throw new Error(`Unknown variable "${node.name}". Available: ${Object.keys(VARIABLES).join(', ')}`);
+      }
+      return variable.type;
+    }
+
+    case 'call': {
+      const fn = lookup(FUNCTIONS, node.name);
+      if (!fn) {
+        throw new Error(`Unknown function "${node.name}". Available: ${Object.keys(FUNCTIONS).join(', ')}`);
+      }
+
+      const required = fn.params.length - fn.optional;
+      if (node.args.length < required || node.args.length > fn.params.length) {
+        const expected = fn.optional ? `${required} to ${fn.params.length}` : `${required}`;
+        throw new Error(`${node.name}() takes ${expected} arguments but got ${node.args.length}`);
+      }
+
+      node.args.forEach((arg, i) => {
+        const type = checkType(arg);
+        if (type !== fn.params[i]) {
+          throw new Error(`Argument ${i + 1} of ${node.name}() must be a ${fn.params[i]} but got a ${type}`);
+        }
+      });
+      return fn.returns;
+    }
+
+    case 'not':
+      if (checkType(node.operand) !== 'boolean') {
+        throw new Error('NOT can only be applied to a boolean');
+      }
+      return 'boolean';
+
+    case 'logical':
+      if (checkType(node.left) !== 'boolean' || checkType(node.right) !== 'boolean') {
+        throw new Error(`${node.operator.toUpperCase()} can only combine boolean conditions`);
+      }
+      return 'boolean';
+
+    case 'comparison': {
+      const left = checkType(node.left);
+      const right = checkType(node.right);
+      if (left !== right) {
+        throw new Error(`Cannot compare a ${left} with a ${right}`);
+      }
+      if (left === 'duration') {
+        throw new Error('Durations can only be used as function arguments');
+      }
+      if (left !== 'number' && node.operator !== '==' && node.operator !== '!=') {
+        throw new Error(`Operator ${node.operator} only applies to numbers`);
+      }
+      return 'boolean';
+    }
+  }
+}
+
+function evaluateNode(node: ExpressionNode, context: RuleExpressionContext): ExpressionValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'variable':
+      return lookup(VARIABLES, node.name)!.resolve(context);
+    case 'call':
+      return lookup(FUNCTIONS, node.name)!.evaluate(context, node.args.map(arg => evaluateNode(arg, context)));
+    case 'not':
+      return !evaluateNode(node.operand, context);
+    case 'logical':
+      // Short-circuit so window scans are skipped when they cannot change the result
+      if (node.operator === 'and') {
+        return Boolean(evaluateNode(node.left, context)) && Boolean(evaluateNode(node.right, context));
+      }
+      return Boolean(evaluateNode(node.left, context)) || Boolean(evaluateNode(node.right, context));
+    case 'comparison': {
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+      switch (node.operator) {
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '==': return left === right;
+        case '!=': return left !== right;
+      }
+    }
+  }
+}
+
+// Parsed expressions keyed by source, rules are evaluated on every monitoring cycle.
+// Least recently used entries are dropped so arbitrary input cannot grow the cache without bound.
+const MAX_COMPILED_EXPRESSIONS = 500;
+const compiledExpressions: Map<string, ExpressionNode> = new Map();
+
+/**
+ * Parse and type-check an expression. Throws with a readable message when it is invalid.
+ */
+export function parseRuleExpression(source: string): ExpressionNode {
+  const cached = compiledExpressions.get(source);
+  if (cached) {
+    // Re-insert to mark it as most recently used
+    compiledExpressions.delete(source);
+    compiledExpressions.set(source, cached);
+    return cached;
+  }
+
+  if (!source || !source.trim()) {
+    throw new Error('Expression is empty');
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const node = new ExpressionParser(tokenize(source)).parse();
+  if (checkType(node) !== 'boolean') {
+    throw new Error('Expression must evaluate to true or false, add a comparison');
+  }
+
+  compiledExpressions.set(source, node);
+  if (compiledExpressions.size > MAX_COMPILED_EXPRESSIONS) {
+    compiledExpressions.delete(compiledExpressions.keys().next().value!);
+  }
+  return node;
+}
+
+/**
+ * Returns an error message when the expression is invalid
+ */
+export function validateRuleExpression(source: unknown): string | null {
+  if (typeof source !== 'string') {
+    return 'Expression must be a string';
+  }
+  try {
+    parseRuleExpression(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid expression';
+  }
+}
+
+export function evaluateRuleExpression(source: string, context: RuleExpressionContext): boolean {
+  return Boolean(evaluateNode(parseRuleExpression(source), context));
+}
@@ -0,0 +1,237 @@
+import net from 'net';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465). Otherwise STARTTLS is used when the server offers it.
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface SmtpMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpResponse {
+  code: number;
+  message: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Reads multi-line SMTP replies ("250-..." continued, "250 ..." final) off a socket
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private responses: SmtpResponse[] = [];
+  private waiting: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void } | null = null;
+  private error: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  public getSocket(): net.Socket {
+    return this.socket;
+  }
+
+  public read(): Promise<SmtpResponse> {
+    const response = this.responses.shift();
+    if (response) {
+      return Promise.resolve(response);
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  public async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+    const response = await this.read();
+    if (!expected.includes(response.code)) {
+      throw new Error(`SMTP ${label} failed: ${response.code} ${response.message}`);
+    }
+    return response;
+  }
+
+  // Stop listening so the socket can be handed over to a TLS wrapper
+  public detach(): void {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.lines.push(line);
+
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.deliver({
+          code: parseInt(line.slice(0, 3), 10),
+          message: this.lines.map(l => l.slice(4)).join('\n')
+        });
+        this.lines = [];
+      }
+    }
+  }
+
+  private deliver(response: SmtpResponse) {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(response);
+    } else {
+      this.responses.push(response);
+    }
+  }
+
+  private fail(error: Error) {
+    this.error = this.error || error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.error);
+    }
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host }, () => resolve(secureSocket));
+    secureSocket.once('error', reject);
+  });
+}
+
+// A line break in a header value would start a new header, or a new command in the envelope
+function assertSingleLine(value: string, field: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`SMTP ${field} must not contain line breaks`);
+  }
+  return value;
+}
+
+function encodeHeader(value: string, field: string): string {
+  assertSingleLine(value, field);
+  return /^[\x00-\x7F]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function buildMessage(message: SmtpMessage, host: string): string {
+  const headers = [
+    `From: ${assertSingleLine(message.from, 'From')}`,
+    `To: ${message.to.map(recipient => assertSingleLine(recipient, 'To')).join(', ')}`,
+    `Subject: ${encodeHeader(message.subject, 'Subject')}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${host}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit'
+  ];
+
+  // Dot-stuff lines so a lone "." in the body does not end the DATA section
+  const body = message.text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map(line => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+/**
+ * Send a plain text email over SMTP
+ */
+export async function sendSmtpMail(config: SmtpConfig, message: SmtpMessage): Promise<void> {
+  if (message.to.length === 0) {
+    throw new Error('SMTP message has no recipients');
+  }
+  assertSingleLine(message.from, 'From');
+  message.to.forEach(recipient => assertSingleLine(recipient, 'To'));
+  assertSingleLine(message.subject, 'Subject');
+
+  const applyTimeout = (target: net.Socket) => {
+    target.setTimeout(config.timeoutMs || DEFAULT_TIMEOUT_MS, () => {
+      target.destroy(new Error('SMTP connection timed out'));
+    });
+  };
+
+  let socket = await connect(config);
+  applyTimeout(socket);
+
+  let session = new SmtpSession(socket);
+  const clientName = 'localhost';
+
+  try {
+    const greeting = await session.read();
+    if (greeting.code !== 220) {
+      throw new Error(`SMTP greeting failed: ${greeting.code} ${greeting.message}`);
+    }
+
+    const ehlo = await session.command(`EHLO ${clientName}`, [250]);
+    let encrypted = !!config.secure;
+
+    if (!config.secure && /^STARTTLS\b/im.test(ehlo.message)) {
+      await session.command('STARTTLS', [220]);
+      session.detach();
+      socket = await upgradeToTls(socket, config.host);
+      applyTimeout(socket);
+      session = new SmtpSession(socket);
+      await session.command(`EHLO ${clientName}`, [250]);
+      encrypted = true;
+    }
+
+    if (config.username) {
+      // AUTH PLAIN is only base64, never send it over an unencrypted connection
+      if (!encrypted) {
+        throw new Error('SMTP server does not offer STARTTLS, refusing to send credentials in cleartext');
+      }
+      const credentials = Buffer.from(`\0${config.username}\0${config.password || ''}`).toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await session.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251], 'RCPT TO');
+    }
+
+    await session.command('DATA', [354]);
+    await session.command(`${buildMessage(message, config.host)}\r\n.`, [250], 'message body');
+
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.getSocket().destroy();
+  }
+}
+
+// "Name <user@example.com>" -> "user@example.com"
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
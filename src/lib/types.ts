@@ -28,9 +28,12 @@ export type TokenMetaDataType = {
   enableCreator: boolean;
   creatorName?: string;
   creatorWebsite?: string;
+  // Authorities the creator keeps after the launch, false revokes them
   freezeable: boolean;
   mintable: boolean;
   updateable: boolean;
+  // Token-2022 extensions initialized with the mint, on top of the metadata pointer
+  extensions?: TokenExtensionsType;
   // PumpFun specific options
   usePumpFun?: boolean;
   devBuyAmount?: number;
@@ -39,6 +42,21 @@ export type TokenMetaDataType = {
   priorityFee?: number;
 };
 
+export type TokenExtensionsType = {
+  // Fee withheld on every transfer in basis points, capped at maxFee whole tokens
+  transferFee?: { basisPoints: number; maxFee: number };
+  // Soulbound: tokens stay in the account they were minted to
+  nonTransferable?: boolean;
+  // Yearly rate in basis points; interest is only displayed, the supply does not grow
+  interestRate?: number;
+  // Public key allowed to transfer or burn tokens from any account
+  permanentDelegate?: string;
+  // State of new token accounts; frozen accounts have to be thawed by the freeze authority
+  defaultAccountState?: 'initialized' | 'frozen';
+  // Transfers into the creator's token account must carry a memo
+  requireMemoTransfers?: boolean;
+};
+
 export type ProgressType = {
   id: string;
   title: string;
@@ -75,7 +93,12 @@ export interface LaunchedToken {
   mintAddress: string;
   network: 'mainnet' | 'testnet';
   timestamp: number;
+  // Wallet that launched the token; launch history is listed per creator and network
   creator?: string;
+  transactionSignature?: string;
+  status?: 'completed' | 'pending' | 'failed';
+  explorerUrl?: string;
+  metadataUri?: string;
   description?: string;
   image?: string;
   website?: string;
@@ -100,7 +123,17 @@ export interface LaunchedToken {
     associatedBondingCurve?: string;
     virtualTokenReserves?: number;
     virtualSolReserves?: number;
+    realTokenReserves?: number;
+    realSolReserves?: number;
+    // Graduation progress, 0 to 100
+    bondingCurveProgress?: number;
     complete?: boolean;
+    // Set by the graduation watcher once the curve completes and migrates
+    completedAt?: string;
+    migrationPool?: string;
+    migrationVenue?: 'pumpswap' | 'raydium';
+    // Set when no pool turned up within the lookup window, the watcher then stops looking
+    migrationLookupFailedAt?: string;
     lastUpdated: string;
   };
 }
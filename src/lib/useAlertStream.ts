@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from 'react';
+import { NetworkType } from '@/context/NetworkContext';
+
+export interface AlertStreamOptions {
+  // Defaults to the default workspace on the server
+  workspaceId?: string;
+  network?: NetworkType;
+  walletAddresses?: string[];
+  severities?: Array<'low' | 'medium' | 'high' | 'critical'>;
+  enabled?: boolean;
+}
+
+// Subscribes to /api/wallet-tracker/stream. EventSource reconnects on its own and
+// resends the last received event id, so missed alerts are replayed by the server.
+export function useAlertStream<T extends { id: string }>(
+  options: AlertStreamOptions,
+  onAlert: (alert: T) => void
+): { isConnected: boolean } {
+  const [isConnected, setIsConnected] = useState(false);
+  const onAlertRef = useRef(onAlert);
+  onAlertRef.current = onAlert;
+
+  const { workspaceId, network, enabled = true } = options;
+  const walletAddresses = options.walletAddresses?.join(',') || '';
+  const severities = options.severities?.join(',') || '';
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined' || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    const params = new URLSearchParams();
+    if (workspaceId) params.set('workspaceId', workspaceId);
+    if (network) params.set('network', network);
+    if (walletAddresses) params.set('walletAddress', walletAddresses);
+    if (severities) params.set('severity', severities);
+
+    const source = new EventSource(`/api/wallet-tracker/stream?${params}`);
+
+    source.onopen = () => setIsConnected(true);
+    source.onerror = () => setIsConnected(false);
+    source.addEventListener('alert', (event) => {
+      try {
+        onAlertRef.current(JSON.parse((event as MessageEvent).data));
+      } catch (error) {
+        console.error('Error parsing streamed alert:', error);
+      }
+    });
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [workspaceId, network, walletAddresses, severities, enabled]);
+
+  return { isConnected };
+}
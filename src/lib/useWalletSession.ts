@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import bs58 from 'bs58';
+import type { Role } from './rbac';
+
+export interface WalletSession {
+  publicKey: string;
+  // null for wallets that have not been granted a role
+  role: Role | null;
+  expiresAt?: string;
+}
+
+// Sign-In With Solana against /api/auth. The session lives in an HttpOnly cookie, so this
+// only tracks who is signed in; requests made with fetch send the cookie on their own.
+export function useWalletSession() {
+  const { publicKey, signMessage } = useWallet();
+  const [session, setSession] = useState<WalletSession | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState('');
+
+  const refresh = useCallback(async (): Promise<WalletSession | null> => {
+    try {
+      const response = await fetch('/api/auth');
+      const data = await response.json();
+      const current = data.authenticated ? { publicKey: data.publicKey, role: data.role, expiresAt: data.expiresAt } : null;
+      setSession(current);
+      return current;
+    } catch (refreshError) {
+      console.error('Error loading wallet session:', refreshError);
+      setSession(null);
+      return null;
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const signIn = useCallback(async (): Promise<WalletSession | null> => {
+    if (!publicKey || !signMessage) {
+      setError('Connect a wallet that supports message signing to sign in.');
+      return null;
+    }
+
+    setIsSigningIn(true);
+    setError('');
+    try {
+      const challengeResponse = await fetch('/api/auth/nonce', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ publicKey: publicKey.toString() })
+      });
+      if (!challengeResponse.ok) {
+        throw new Error('Could not start sign-in');
+      }
+      const { nonce, message } = await challengeResponse.json();
+
+      const signature = await signMessage(new TextEncoder().encode(message));
+
+      const verifyResponse = await fetch('/api/auth/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ publicKey: publicKey.toString(), nonce, signature: bs58.encode(signature) })
+      });
+      const data = await verifyResponse.json();
+      if (!verifyResponse.ok) {
+        throw new Error(data.message || 'Sign-in failed');
+      }
+
+      const current = { publicKey: data.publicKey, role: data.role };
+      setSession(current);
+      return current;
+    } catch (signInError) {
+      console.error('Error signing in with wallet:', signInError);
+      setError(signInError instanceof Error ? signInError.message : 'Sign-in failed');
+      return null;
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, [publicKey, signMessage]);
+
+  const signOut = useCallback(async () => {
+    await fetch('/api/auth', { method: 'DELETE' });
+    setSession(null);
+  }, []);
+
+  // Signs in when the connected wallet has no session yet
+  const ensureSession = useCallback(async (): Promise<WalletSession | null> => {
+    if (publicKey && session?.publicKey === publicKey.toString()) {
+      return session;
+    }
+    return await signIn();
+  }, [publicKey, session, signIn]);
+
+  const isSignedIn = !!session && !!publicKey && session.publicKey === publicKey.toString();
+
+  return { session, isSignedIn, isSigningIn, error, signIn, signOut, ensureSession, refresh };
+}
@@ -0,0 +1,365 @@
+import { createHash } from 'crypto';
+import { getWalletTrackerDb } from './walletTrackerDb';
+import { WalletActivity } from './walletTracker';
+import { getTransferDirection } from './ruleEvaluator';
+import { NetworkType } from '../context/NetworkContext';
+
+export type ClusterLinkType = 'shared_funder' | 'co_trading' | 'round_trip';
+
+export interface ClusterLink {
+  wallets: [string, string];
+  type: ClusterLinkType;
+  confidence: number;
+  evidence: {
+    funder?: string;
+    mints?: string[];
+    signatures: string[];
+  };
+}
+
+export interface WalletCluster {
+  id: string;
+  workspaceId: string;
+  network: NetworkType;
+  members: string[];
+  // Members not tracked yet, proposed for tracking
+  suggestedWallets: string[];
+  links: ClusterLink[];
+  confidence: number;
+  reasons: ClusterLinkType[];
+  createdAt: Date;
+}
+
+export interface ClusteringOptions {
+  lookbackDays?: number;
+  minConfidence?: number;
+}
+
+const DEFAULT_LOOKBACK_DAYS = 30;
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+// A funder of more wallets than this is most likely an exchange hot wallet
+const MAX_FUNDER_FANOUT = 25;
+
+// Trades of the same token by two wallets this close together count as trading together
+const CO_TRADE_WINDOW_MS = 5 * 60 * 1000;
+const MIN_CO_TRADED_TOKENS = 3;
+
+const ROUND_TRIP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const SHARED_FUNDER_CONFIDENCE = 0.6;
+const FIRST_FUNDER_CONFIDENCE = 0.8;
+const ROUND_TRIP_CONFIDENCE = 0.7;
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function sortedPair(a: string, b: string): [string, string] {
+  return a < b ? [a, b] : [b, a];
+}
+
+// Independent links reinforce each other: 1 - (1 - c1)(1 - c2)...
+function combineConfidence(confidences: number[]): number {
+  return 1 - confidences.reduce((remaining, c) => remaining * (1 - c), 1);
+}
+
+class UnionFind {
+  private parents: Map<string, string> = new Map();
+
+  public find(node: string): string {
+    const parent = this.parents.get(node);
+    if (!parent || parent === node) {
+      this.parents.set(node, node);
+      return node;
+    }
+    const root = this.find(parent);
+    this.parents.set(node, root);
+    return root;
+  }
+
+  public union(a: string, b: string): void {
+    this.parents.set(this.find(a), this.find(b));
+  }
+}
+
+/**
+ * Wallets whose incoming SOL came from the same source. The earliest funder of a
+ * wallet is weighted higher than later top-ups.
+ */
+export function findSharedFunderLinks(activities: WalletActivity[]): ClusterLink[] {
+  const fundedBy = new Map<string, Map<string, { first: boolean; signatures: string[] }>>();
+  const firstFunding = new Map<string, string>();
+
+  for (const activity of activities) {
+    if (activity.type !== 'sol_transfer' || !activity.fromAddress) continue;
+    if (getTransferDirection(activity, activity.walletAddress) !== 'in') continue;
+
+    const funder = activity.fromAddress;
+    const wallet = activity.walletAddress;
+
+    // Activities are sorted oldest first
+    if (!firstFunding.has(wallet)) {
+      firstFunding.set(wallet, funder);
+    }
+
+    const funded = fundedBy.get(funder) || new Map();
+    const entry = funded.get(wallet) || { first: firstFunding.get(wallet) === funder, signatures: [] };
+    entry.signatures.push(activity.signature);
+    funded.set(wallet, entry);
+    fundedBy.set(funder, funded);
+  }
+
+  const links: ClusterLink[] = [];
+
+  for (const [funder, funded] of fundedBy.entries()) {
+    if (funded.size > MAX_FUNDER_FANOUT) continue;
+
+    const wallets = Array.from(funded.keys());
+    if (wallets.length < 2) continue;
+
+    // The funder joins the cluster too, so an untracked funder becomes a suggestion
+    for (const wallet of wallets) {
+      const entry = funded.get(wallet)!;
+      links.push({
+        wallets: sortedPair(funder, wallet),
+        type: 'shared_funder',
+        confidence: entry.first ? FIRST_FUNDER_CONFIDENCE : SHARED_FUNDER_CONFIDENCE,
+        evidence: { funder, signatures: entry.signatures.slice(0, 10) }
+      });
+    }
+
+    for (let i = 0; i < wallets.length; i++) {
+      for (let j = i + 1; j < wallets.length; j++) {
+        const a = funded.get(wallets[i])!;
+        const b = funded.get(wallets[j])!;
+        links.push({
+          wallets: sortedPair(wallets[i], wallets[j]),
+          type: 'shared_funder',
+          confidence: a.first && b.first ? FIRST_FUNDER_CONFIDENCE : SHARED_FUNDER_CONFIDENCE,
+          evidence: { funder, signatures: [...a.signatures, ...b.signatures].slice(0, 10) }
+        });
+      }
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Tracked wallets that repeatedly trade the same tokens within minutes of each other
+ */
+export function findCoTradingLinks(activities: WalletActivity[]): ClusterLink[] {
+  const tradesByMint = new Map<string, WalletActivity[]>();
+  for (const activity of activities) {
+    if (activity.type !== 'token_transfer' || !activity.mint) continue;
+    const trades = tradesByMint.get(activity.mint) || [];
+    trades.push(activity);
+    tradesByMint.set(activity.mint, trades);
+  }
+
+  const shared = new Map<string, { mints: Set<string>; signatures: string[] }>();
+
+  for (const [mint, trades] of tradesByMint.entries()) {
+    const seenPairs = new Set<string>();
+
+    for (let i = 0; i < trades.length; i++) {
+      const tradeTime = new Date(trades[i].timestamp).getTime();
+
+      for (let j = i + 1; j < trades.length; j++) {
+        if (new Date(trades[j].timestamp).getTime() - tradeTime > CO_TRADE_WINDOW_MS) break;
+        if (trades[i].walletAddress === trades[j].walletAddress) continue;
+
+        const key = pairKey(trades[i].walletAddress, trades[j].walletAddress);
+        if (seenPairs.has(key)) continue;
+        seenPairs.add(key);
+
+        const entry = shared.get(key) || { mints: new Set<string>(), signatures: [] };
+        entry.mints.add(mint);
+        entry.signatures.push(trades[i].signature, trades[j].signature);
+        shared.set(key, entry);
+      }
+    }
+  }
+
+  const links: ClusterLink[] = [];
+  for (const [key, entry] of shared.entries()) {
+    if (entry.mints.size < MIN_CO_TRADED_TOKENS) continue;
+
+    const [a, b] = key.split('|');
+    links.push({
+      wallets: [a, b],
+      type: 'co_trading',
+      confidence: Math.min(0.3 + 0.1 * entry.mints.size, 0.9),
+      evidence: { mints: Array.from(entry.mints), signatures: entry.signatures.slice(0, 10) }
+    });
+  }
+
+  return links;
+}
+
+/**
+ * Transfers from a wallet to a counterparty that come back within a day
+ */
+export function findRoundTripLinks(activities: WalletActivity[]): ClusterLink[] {
+  const outgoing = new Map<string, WalletActivity[]>();
+  for (const activity of activities) {
+    if (activity.type !== 'sol_transfer' && activity.type !== 'token_transfer') continue;
+    if (getTransferDirection(activity, activity.walletAddress) !== 'out' || !activity.toAddress) continue;
+
+    const key = `${activity.walletAddress}|${activity.toAddress}|${activity.mint || 'SOL'}`;
+    const sent = outgoing.get(key) || [];
+    sent.push(activity);
+    outgoing.set(key, sent);
+  }
+
+  const links = new Map<string, ClusterLink>();
+
+  for (const activity of activities) {
+    if (activity.type !== 'sol_transfer' && activity.type !== 'token_transfer') continue;
+    if (getTransferDirection(activity, activity.walletAddress) !== 'in' || !activity.fromAddress) continue;
+
+    const sent = outgoing.get(`${activity.walletAddress}|${activity.fromAddress}|${activity.mint || 'SOL'}`);
+    const receivedAt = new Date(activity.timestamp).getTime();
+    const original = sent?.find(s => {
+      const sentAt = new Date(s.timestamp).getTime();
+      return sentAt < receivedAt && receivedAt - sentAt <= ROUND_TRIP_WINDOW_MS;
+    });
+    if (!original) continue;
+
+    const key = pairKey(activity.walletAddress, activity.fromAddress);
+    const link = links.get(key) || {
+      wallets: sortedPair(activity.walletAddress, activity.fromAddress),
+      type: 'round_trip' as const,
+      confidence: ROUND_TRIP_CONFIDENCE,
+      evidence: { signatures: [] as string[] }
+    };
+    link.evidence.signatures.push(original.signature, activity.signature);
+    links.set(key, link);
+  }
+
+  return Array.from(links.values());
+}
+
+/**
+ * Group links into clusters with union-find and score each cluster
+ */
+export function buildClusters(
+  workspaceId: string,
+  links: ClusterLink[],
+  trackedAddresses: Set<string>,
+  network: NetworkType,
+  minConfidence: number
+): WalletCluster[] {
+  // Several links between the same pair reinforce each other
+  const linksByPair = new Map<string, ClusterLink[]>();
+  for (const link of links) {
+    const key = pairKey(link.wallets[0], link.wallets[1]);
+    linksByPair.set(key, [...(linksByPair.get(key) || []), link]);
+  }
+
+  const unionFind = new UnionFind();
+  const strongLinks: ClusterLink[] = [];
+
+  for (const pairLinks of linksByPair.values()) {
+    if (combineConfidence(pairLinks.map(l => l.confidence)) < minConfidence) continue;
+    unionFind.union(pairLinks[0].wallets[0], pairLinks[0].wallets[1]);
+    strongLinks.push(...pairLinks);
+  }
+
+  const groups = new Map<string, { members: Set<string>; links: ClusterLink[] }>();
+  for (const link of strongLinks) {
+    const root = unionFind.find(link.wallets[0]);
+    const group = groups.get(root) || { members: new Set<string>(), links: [] };
+    group.members.add(link.wallets[0]);
+    group.members.add(link.wallets[1]);
+    group.links.push(link);
+    groups.set(root, group);
+  }
+
+  const clusters: WalletCluster[] = [];
+  for (const group of groups.values()) {
+    const members = Array.from(group.members).sort();
+
+    // Only clusters that touch at least one tracked wallet are relevant
+    if (!members.some(m => trackedAddresses.has(m))) continue;
+
+    clusters.push({
+      // Stable id so the same group keeps its id across runs
+      id: `cluster_${createHash('sha256').update(`${workspaceId}:${network}:${members.join(',')}`).digest('hex').slice(0, 16)}`,
+      workspaceId,
+      network,
+      members,
+      suggestedWallets: members.filter(m => !trackedAddresses.has(m)),
+      links: group.links,
+      confidence: Math.round(combineConfidence(group.links.map(l => l.confidence)) * 1000) / 1000,
+      reasons: Array.from(new Set(group.links.map(l => l.type))),
+      createdAt: new Date()
+    });
+  }
+
+  return clusters.sort((a, b) => b.confidence - a.confidence);
+}
+
+export class WalletClusteringService {
+  // Analyze stored activities of all tracked wallets of a workspace on a network and save the clusters
+  public async analyze(workspaceId: string, network: NetworkType, options: ClusteringOptions = {}): Promise<WalletCluster[]> {
+    const lookbackDays = options.lookbackDays || DEFAULT_LOOKBACK_DAYS;
+    const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+
+    const db = await getWalletTrackerDb();
+    const wallets = await db.getAllWallets(workspaceId, network);
+    const trackedAddresses = new Set(wallets.map(w => w.address));
+
+    const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+    const activities = await db.getActivitiesForWallets(workspaceId, Array.from(trackedAddresses), since);
+
+    const links = [
+      ...findSharedFunderLinks(activities),
+      ...findCoTradingLinks(activities),
+      ...findRoundTripLinks(activities)
+    ];
+
+    const clusters = buildClusters(workspaceId, links, trackedAddresses, network, minConfidence);
+    await db.replaceWalletClusters(workspaceId, network, clusters);
+
+    console.log(`Wallet clustering found ${clusters.length} clusters from ${activities.length} activities on ${network}`);
+    return clusters;
+  }
+
+  public async getClusters(workspaceId: string, network?: NetworkType, walletAddress?: string): Promise<WalletCluster[]> {
+    const db = await getWalletTrackerDb();
+    return await db.getWalletClusters(workspaceId, network, walletAddress);
+  }
+
+  // Untracked wallets linked to tracked ones, best clusters first
+  public async getSuggestedWallets(workspaceId: string, network: NetworkType): Promise<Array<{ address: string; clusterId: string; confidence: number; reasons: ClusterLinkType[] }>> {
+    const clusters = await this.getClusters(workspaceId, network);
+    const suggestions = new Map<string, { address: string; clusterId: string; confidence: number; reasons: ClusterLinkType[] }>();
+
+    for (const cluster of clusters) {
+      for (const address of cluster.suggestedWallets) {
+        if (!suggestions.has(address)) {
+          suggestions.set(address, {
+            address,
+            clusterId: cluster.id,
+            confidence: cluster.confidence,
+            reasons: cluster.reasons
+          });
+        }
+      }
+    }
+
+    return Array.from(suggestions.values());
+  }
+}
+
+// Singleton instance
+let walletClusteringInstance: WalletClusteringService | null = null;
+
+export function getWalletClustering(): WalletClusteringService {
+  if (!walletClusteringInstance) {
+    walletClusteringInstance = new WalletClusteringService();
+  }
+  return walletClusteringInstance;
+}
@@ -1,26 +1,46 @@
-import { getWalletTrackerDb, WalletAlert } from './walletTrackerDb';
-import { getWalletTracker } from './walletTracker';
+import { getWalletTrackerDb, WalletAlert, AlertOccurrence } from './walletTrackerDb';
+import { getWalletTracker, WalletActivity, WalletTokenHolding } from './walletTracker';
+import { evaluateBalanceChangeRule, evaluateTokenTransferRule, getHoldingUiAmount, getTransferDirection } from './ruleEvaluator';
+import { evaluateRuleExpression, RuleEvent, RuleExpressionContext } from './ruleExpression';
+import { getAlertStream } from './alertStream';
+import { getAlertDispatcher } from './alertDelivery';
+import { syncWalletWebhook } from './heliusWebhook';
+import { getPortfolioHistory } from './portfolioHistory';
+import { getPumpFunMints } from './pumpfunUtils';
 import { getHeliusService } from './helius';
 import { getWeb3Service } from './web3Service';
 import { NetworkType } from '@/context/NetworkContext';
 
 export interface MonitoringRule {
   id: string;
+  workspaceId: string;
   walletAddress: string;
-  type: 'balance_change' | 'token_transfer' | 'new_token' | 'large_transaction' | 'nft_activity';
+  type: 'balance_change' | 'token_transfer' | 'new_token' | 'large_transaction' | 'nft_activity' | 'expression';
   conditions: {
+    // Amounts are in whole tokens
     threshold?: number;
     tokenAddress?: string;
     minAmount?: number;
     percentage?: number;
+    // token_transfer rules only, defaults to both
+    direction?: 'in' | 'out' | 'both';
+    // expression rules only, see ruleExpression.ts
+    expression?: string;
+    severity?: WalletAlert['severity'];
   };
   isActive: boolean;
   createdAt: Date;
   network: NetworkType;
+  // Repeats of the same alert within this window are folded into the first one
+  cooldownSeconds?: number;
 }
 
+// Fields a client may change on an existing rule
+export type MonitoringRuleUpdates = Partial<Pick<MonitoringRule, 'conditions' | 'isActive' | 'cooldownSeconds'>>;
+
 export interface ActivityNotification {
   id: string;
+  workspaceId: string;
   walletAddress: string;
   type: string;
   title: string;
@@ -31,30 +51,48 @@ export interface ActivityNotification {
   network: NetworkType;
 }
 
+// Used for alerts that do not come from a rule with its own cooldown
+const DEFAULT_ALERT_COOLDOWN_MS = 10 * 60 * 1000;
+
+// More alerts than this for one wallet within the window are grouped into a digest
+const ALERT_BURST_WINDOW_MS = 60 * 1000;
+const ALERT_BURST_THRESHOLD = 5;
+
+// Rules are kept per tracked wallet, which is an address within a workspace
+function getWalletKey(workspaceId: string, walletAddress: string): string {
+  return `${workspaceId}:${walletAddress}`;
+}
+
+// Alerts with the same wallet, type and token are duplicates of each other (within a workspace)
+export function getAlertFingerprint(walletAddress: string, type: string, tokenAddress?: string): string {
+  return `${walletAddress}:${type}:${tokenAddress || '*'}`;
+}
+
 class WalletMonitorService {
   private monitoringIntervals: Map<string, NodeJS.Timeout> = new Map();
   private isMonitoring = false;
   private monitoringRules: Map<string, MonitoringRule[]> = new Map();
   private lastCheckedBlocks: Map<NetworkType, number> = new Map();
+  private webhookCoveredWallets: Map<NetworkType, Set<string>> = new Map();
+
+  private ready: Promise<void>;
 
   constructor() {
-    this.initializeMonitoring();
+    this.ready = this.initializeMonitoring();
   }
 
   private async initializeMonitoring() {
     try {
-      const db = await getWalletTrackerDb();
-      
-      // Load existing monitoring rules from database
-      const wallets = await db.getAllWallets();
-      for (const wallet of wallets) {
-        const rules = await this.loadMonitoringRules(wallet.address);
-        if (rules.length > 0) {
-          this.monitoringRules.set(wallet.address, rules);
-        }
+      // Restore the full rule set from the database
+      const rules = await this.loadMonitoringRules();
+      for (const rule of rules) {
+        const key = getWalletKey(rule.workspaceId, rule.walletAddress);
+        const walletRules = this.monitoringRules.get(key) || [];
+        walletRules.push(rule);
+        this.monitoringRules.set(key, walletRules);
       }
 
-      console.log('Wallet monitoring service initialized');
+      console.log(`Wallet monitoring service initialized with ${rules.length} rules`);
     } catch (error) {
       console.error('Failed to initialize wallet monitoring:', error);
     }
@@ -76,6 +114,9 @@ class WalletMonitorService {
 
     this.monitoringIntervals.set(network, interval);
 
+    // Record portfolio value over time for the same wallets
+    getPortfolioHistory().start(network);
+
     // Start real-time monitoring for high-priority wallets
     await this.startRealTimeMonitoring(network);
   }
@@ -87,11 +128,13 @@ class WalletMonitorService {
         clearInterval(interval);
         this.monitoringIntervals.delete(network);
       }
+      getPortfolioHistory().stop(network);
     } else {
       // Stop all monitoring
       this.monitoringIntervals.forEach(interval => clearInterval(interval));
       this.monitoringIntervals.clear();
       this.isMonitoring = false;
+      getPortfolioHistory().stop();
     }
 
     console.log(`Stopped wallet monitoring${network ? ` for ${network}` : ''}`);
@@ -100,37 +143,31 @@ class WalletMonitorService {
   private async performMonitoringCycle(network: NetworkType) {
     try {
       const db = await getWalletTrackerDb();
-      const wallets = await db.getAllWallets(network);
-      const activeWallets = wallets.filter(w => w.isActive);
+      // Active wallets of every workspace
+      const wallets = await db.getActiveWallets(network);
+      // Wallets covered by a Helius webhook are evaluated as events arrive
+      const activeWallets = wallets.filter(w => !this.isWebhookCovered(w.address, network));
 
       console.log(`Monitoring ${activeWallets.length} active wallets on ${network}`);
 
       for (const wallet of activeWallets) {
-        await this.checkWalletActivity(wallet.address, network);
+        await this.checkWalletActivity(wallet.workspaceId, wallet.address, network);
       }
     } catch (error) {
       console.error('Error in monitoring cycle:', error);
     }
   }
 
-  private async checkWalletActivity(walletAddress: string, network: NetworkType) {
+  private async checkWalletActivity(workspaceId: string, walletAddress: string, network: NetworkType) {
     try {
       const tracker = await getWalletTracker();
       const db = await getWalletTrackerDb();
 
-      // Get current holdings
-      const currentHoldings = await tracker.getWalletHoldings(walletAddress);
-      const previousHoldings = await db.getWalletHoldings(walletAddress);
-
-      // Check for balance changes
-      await this.checkBalanceChanges(walletAddress, currentHoldings, previousHoldings, network);
-
-      // Check for new tokens
-      await this.checkNewTokens(walletAddress, currentHoldings, previousHoldings, network);
+      await this.checkHoldingChanges(workspaceId, walletAddress, network);
 
       // Get recent activities
       const recentActivities = await tracker.getWalletActivities(walletAddress);
-      const lastStoredActivity = await db.getLatestWalletActivity(walletAddress);
+      const lastStoredActivity = await db.getLatestWalletActivity(workspaceId, walletAddress);
 
       // Check for new activities
       if (recentActivities.length > 0) {
@@ -139,7 +176,7 @@ class WalletMonitorService {
           : recentActivities;
 
         for (const activity of newActivities) {
-          await this.processNewActivity(walletAddress, activity, network);
+          await this.processNewActivity(workspaceId, walletAddress, activity, network);
         }
       }
 
@@ -151,70 +188,122 @@ class WalletMonitorService {
     }
   }
 
+  private async checkHoldingChanges(workspaceId: string, walletAddress: string, network: NetworkType) {
+    const tracker = await getWalletTracker();
+    const db = await getWalletTrackerDb();
+
+    // Get current holdings
+    const currentHoldings = await tracker.getWalletHoldings(walletAddress);
+    const previousHoldings = await db.getWalletHoldings(workspaceId, walletAddress);
+
+    // Check for balance changes
+    await this.checkBalanceChanges(workspaceId, walletAddress, currentHoldings, previousHoldings, network);
+
+    // Check for new tokens
+    await this.checkNewTokens(workspaceId, walletAddress, currentHoldings, previousHoldings, network);
+
+    // Run expression rules once per new or changed token
+    if (this.getExpressionRules(workspaceId, walletAddress).length > 0) {
+      for (const current of currentHoldings) {
+        const previous = previousHoldings.find(p => p.mint === current.mint);
+        if (!previous) {
+          await this.evaluateExpressionRules(workspaceId, walletAddress, network, { type: 'new_token', mint: current.mint, amount: current.amount }, currentHoldings);
+        } else if (current.amount !== previous.amount) {
+          await this.evaluateExpressionRules(workspaceId, walletAddress, network, { type: 'balance_change', mint: current.mint, amount: current.amount - previous.amount }, currentHoldings);
+        }
+      }
+    }
+  }
+
+  // Evaluate rules for activities pushed by a Helius webhook instead of polled
+  async processWebhookActivities(workspaceId: string, walletAddress: string, activities: WalletActivity[], network: NetworkType) {
+    await this.ready;
+
+    try {
+      for (const activity of activities) {
+        await this.processNewActivity(workspaceId, walletAddress, activity, network);
+      }
+
+      await this.checkHoldingChanges(workspaceId, walletAddress, network);
+    } catch (error) {
+      console.error(`Error processing webhook activities for ${walletAddress}:`, error);
+    }
+  }
+
+  setWebhookCoverage(network: NetworkType, addresses: string[]) {
+    this.webhookCoveredWallets.set(network, new Set(addresses));
+  }
+
+  isWebhookCovered(walletAddress: string, network: NetworkType): boolean {
+    return this.webhookCoveredWallets.get(network)?.has(walletAddress) ?? false;
+  }
+
   private async checkBalanceChanges(
+    workspaceId: string,
     walletAddress: string, 
-    currentHoldings: any[], 
-    previousHoldings: any[], 
+    currentHoldings: WalletTokenHolding[], 
+    previousHoldings: WalletTokenHolding[], 
     network: NetworkType
   ) {
-    const rules = this.monitoringRules.get(walletAddress) || [];
+    const rules = this.monitoringRules.get(getWalletKey(workspaceId, walletAddress)) || [];
     const balanceRules = rules.filter(r => r.type === 'balance_change' && r.isActive);
 
     for (const rule of balanceRules) {
-      for (const current of currentHoldings) {
-        const previous = previousHoldings.find(p => p.tokenAddress === current.tokenAddress);
-        
-        if (previous) {
-          const change = current.amount - previous.amount;
-          const percentageChange = Math.abs(change / previous.amount) * 100;
-
-          if (rule.conditions.threshold && Math.abs(change) >= rule.conditions.threshold) {
-            await this.createAlert(walletAddress, {
-              type: 'balance_change',
-              title: 'Significant Balance Change',
-              message: `${current.symbol} balance changed by ${change.toFixed(4)} (${percentageChange.toFixed(2)}%)`,
-              severity: percentageChange > 50 ? 'high' : 'medium',
-              data: { tokenAddress: current.tokenAddress, change, percentageChange },
-              network
-            });
-          }
-        }
+      const matches = evaluateBalanceChangeRule(rule, currentHoldings, previousHoldings);
+
+      for (const match of matches) {
+        await this.createAlert(workspaceId, walletAddress, {
+          type: 'balance_change',
+          title: 'Significant Balance Change',
+          message: `${match.symbol || match.tokenAddress} balance changed by ${match.change.toFixed(4)} (${match.percentageChange.toFixed(2)}%)`,
+          severity: match.severity,
+          data: {
+            ruleId: rule.id,
+            tokenAddress: match.tokenAddress,
+            previousAmount: match.previousAmount,
+            currentAmount: match.currentAmount,
+            change: match.change,
+            percentageChange: match.percentageChange
+          },
+          network
+        });
       }
     }
   }
 
   private async checkNewTokens(
+    workspaceId: string,
     walletAddress: string, 
-    currentHoldings: any[], 
-    previousHoldings: any[], 
+    currentHoldings: WalletTokenHolding[], 
+    previousHoldings: WalletTokenHolding[], 
     network: NetworkType
   ) {
     const newTokens = currentHoldings.filter(current => 
-      !previousHoldings.some(previous => previous.tokenAddress === current.tokenAddress)
+      !previousHoldings.some(previous => previous.mint === current.mint)
     );
 
     if (newTokens.length > 0) {
       for (const token of newTokens) {
-        await this.createAlert(walletAddress, {
+        await this.createAlert(workspaceId, walletAddress, {
           type: 'new_token',
           title: 'New Token Detected',
-          message: `New token ${token.symbol} (${token.amount.toFixed(4)}) added to wallet`,
+          message: `New token ${token.metadata?.symbol || token.mint} (${token.amount.toFixed(4)}) added to wallet`,
           severity: 'medium',
-          data: { tokenAddress: token.tokenAddress, amount: token.amount },
+          data: { tokenAddress: token.mint, amount: token.amount },
           network
         });
       }
     }
   }
 
-  private async processNewActivity(walletAddress: string, activity: any, network: NetworkType) {
-    const rules = this.monitoringRules.get(walletAddress) || [];
+  private async processNewActivity(workspaceId: string, walletAddress: string, activity: any, network: NetworkType) {
+    const rules = this.monitoringRules.get(getWalletKey(workspaceId, walletAddress)) || [];
 
     // Check for large transactions
     const largeTransactionRules = rules.filter(r => r.type === 'large_transaction' && r.isActive);
     for (const rule of largeTransactionRules) {
       if (activity.amount && rule.conditions.minAmount && activity.amount >= rule.conditions.minAmount) {
-        await this.createAlert(walletAddress, {
+        await this.createAlert(workspaceId, walletAddress, {
           type: 'large_transaction',
           title: 'Large Transaction Detected',
           message: `${activity.type} of ${activity.amount} ${activity.symbol || 'tokens'}`,
@@ -225,9 +314,40 @@ class WalletMonitorService {
       }
     }
 
+    // Check token transfers against token_transfer rules
+    const transferRules = rules.filter(r => r.type === 'token_transfer' && r.isActive);
+    if (transferRules.length > 0 && activity.type === 'token_transfer') {
+      // Stored holdings have not been refreshed for this activity yet
+      const balanceBefore = transferRules.some(r => r.conditions.percentage !== undefined)
+        ? await this.getStoredBalance(workspaceId, walletAddress, activity.mint)
+        : undefined;
+
+      for (const rule of transferRules) {
+        const match = evaluateTokenTransferRule(rule, activity, balanceBefore);
+        if (!match) continue;
+
+        await this.createAlert(workspaceId, walletAddress, {
+          type: 'token_transfer',
+          title: match.direction === 'in' ? 'Token Transfer Received' : 'Token Transfer Sent',
+          message: `${match.direction === 'in' ? 'Received' : 'Sent'} ${match.amount} ${activity.symbol || match.tokenAddress}` +
+            (match.percentageOfBalance !== undefined ? ` (${match.percentageOfBalance.toFixed(2)}% of balance)` : ''),
+          severity: match.severity,
+          data: {
+            ruleId: rule.id,
+            tokenAddress: match.tokenAddress,
+            direction: match.direction,
+            amount: match.amount,
+            percentageOfBalance: match.percentageOfBalance,
+            signature: activity.signature
+          },
+          network
+        });
+      }
+    }
+
     // Check for NFT activities
     if (activity.type === 'nft_transfer' || activity.type === 'nft_mint') {
-      await this.createAlert(walletAddress, {
+      await this.createAlert(workspaceId, walletAddress, {
         type: 'nft_activity',
         title: 'NFT Activity',
         message: `NFT ${activity.type}: ${activity.nftName || 'Unknown NFT'}`,
@@ -236,104 +356,346 @@ class WalletMonitorService {
         network
       });
     }
+
+    if (this.getExpressionRules(workspaceId, walletAddress).length > 0) {
+      await this.evaluateExpressionRules(workspaceId, walletAddress, network, {
+        type: 'activity',
+        mint: activity.mint,
+        amount: activity.amount,
+        direction: getTransferDirection(activity, walletAddress) || undefined,
+        activityType: activity.type
+      }, undefined, activity);
+    }
   }
 
-  private async createAlert(walletAddress: string, notification: Omit<ActivityNotification, 'id' | 'timestamp' | 'walletAddress'>) {
+  private getExpressionRules(workspaceId: string, walletAddress: string): MonitoringRule[] {
+    const rules = this.monitoringRules.get(getWalletKey(workspaceId, walletAddress)) || [];
+    return rules.filter(r => r.type === 'expression' && r.isActive && r.conditions.expression);
+  }
+
+  private async evaluateExpressionRules(
+    workspaceId: string,
+    walletAddress: string,
+    network: NetworkType,
+    event: RuleEvent,
+    holdings?: WalletTokenHolding[],
+    activity?: WalletActivity
+  ) {
+    const rules = this.getExpressionRules(workspaceId, walletAddress);
+    if (rules.length === 0) return;
+
+    const context = await this.buildExpressionContext(workspaceId, walletAddress, network, event, holdings, activity);
+
+    for (const rule of rules) {
+      try {
+        if (!evaluateRuleExpression(rule.conditions.expression!, context)) continue;
+
+        await this.createAlert(workspaceId, walletAddress, {
+          type: 'custom_rule',
+          title: 'Custom Rule Matched',
+          message: `Rule matched: ${rule.conditions.expression}`,
+          severity: rule.conditions.severity || 'medium',
+          data: { ruleId: rule.id, expression: rule.conditions.expression, event },
+          network
+        });
+      } catch (error) {
+        console.error(`Error evaluating expression rule ${rule.id}:`, error);
+      }
+    }
+  }
+
+  private async buildExpressionContext(
+    workspaceId: string,
+    walletAddress: string,
+    network: NetworkType,
+    event: RuleEvent,
+    holdings?: WalletTokenHolding[],
+    activity?: WalletActivity
+  ): Promise<RuleExpressionContext> {
+    const db = await getWalletTrackerDb();
+    const tracker = await getWalletTracker();
+
+    const [wallet, storedActivities] = await Promise.all([
+      db.getWallet(workspaceId, walletAddress),
+      db.getWalletActivities(workspaceId, walletAddress, 500)
+    ]);
+
+    // Polled activities are evaluated before they are stored
+    const activities = activity && !storedActivities.some(a => a.signature === activity.signature)
+      ? [activity, ...storedActivities]
+      : storedActivities;
+
+    const trackedHoldings = tracker.getWalletHoldings(walletAddress);
+    const contextHoldings = holdings || (trackedHoldings.length > 0 ? trackedHoldings : await db.getWalletHoldings(workspaceId, walletAddress));
+
+    // is_pumpfun and the "pumpfun" scope need to know which mints have a bonding curve
+    const mints = [
+      ...contextHoldings.map(h => h.mint),
+      ...activities.flatMap(a => (a.mint ? [a.mint] : [])),
+      ...(event.mint ? [event.mint] : [])
+    ];
+
+    return {
+      walletAddress,
+      tags: wallet?.tags || [],
+      holdings: contextHoldings,
+      activities,
+      event,
+      now: new Date(),
+      pumpFunMints: await getPumpFunMints(mints, network)
+    };
+  }
+
+  private async getStoredBalance(workspaceId: string, walletAddress: string, mint?: string): Promise<number | undefined> {
+    if (!mint) return undefined;
+
+    const db = await getWalletTrackerDb();
+    const holdings = await db.getWalletHoldings(workspaceId, walletAddress);
+    // No stored holdings at all means the balance is unknown, not zero
+    if (holdings.length === 0) return undefined;
+    // Transfer amounts are in whole tokens, compare against the balance in the same units
+    const holding = holdings.find(h => h.mint === mint);
+    return holding ? getHoldingUiAmount(holding) : 0;
+  }
+
+  // Also used by the graduation watcher for launch alerts
+  async createAlert(
+    workspaceId: string,
+    walletAddress: string,
+    notification: Omit<ActivityNotification, 'id' | 'timestamp' | 'workspaceId' | 'walletAddress'>
+  ) {
     try {
-      const alert: WalletAlert = {
+      const db = await getWalletTrackerDb();
+      const now = new Date();
+      const type = notification.type as WalletAlert['type'];
+
+      const occurrence: AlertOccurrence = {
+        type,
+        title: notification.title,
+        message: notification.message,
+        severity: notification.severity,
+        data: notification.data,
+        occurredAt: now
+      };
+
+      // Fold repeats within the cooldown into the existing alert's history
+      const fingerprint = getAlertFingerprint(walletAddress, type, notification.data?.tokenAddress ?? notification.data?.mint);
+      const cooldownMs = this.getAlertCooldownMs(workspaceId, walletAddress, notification.data?.ruleId);
+      const duplicate = await db.recordAlertOccurrence(workspaceId, fingerprint, new Date(now.getTime() - cooldownMs), occurrence);
+      if (duplicate) {
+        console.log(`Alert deduplicated for wallet ${walletAddress}: ${notification.title} (${duplicate.occurrences} occurrences)`);
+        // Subscribers replace the alert by id and pick up the new count
+        this.emitRealTimeNotification(duplicate);
+        return;
+      }
+
+      let alert: WalletAlert = {
         id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        workspaceId,
         walletAddress,
-        type: notification.type as 'balance_change' | 'large_transaction' | 'new_token' | 'suspicious_activity',
+        type,
         title: notification.title,
         message: notification.message,
         severity: notification.severity,
         isRead: false,
-        createdAt: new Date(),
+        createdAt: now,
         network: notification.network,
-        data: notification.data
+        data: notification.data,
+        fingerprint,
+        occurrences: 1,
+        lastOccurrenceAt: now,
+        history: [occurrence]
       };
 
-      const db = await getWalletTrackerDb();
+      // During a burst, group further alerts for the wallet into one digest
+      const recentCount = await db.countWalletAlertsSince(workspaceId, walletAddress, new Date(now.getTime() - ALERT_BURST_WINDOW_MS));
+      if (recentCount >= ALERT_BURST_THRESHOLD) {
+        const digestFingerprint = getAlertFingerprint(walletAddress, 'digest');
+        const digest = await db.recordAlertOccurrence(workspaceId, digestFingerprint, new Date(now.getTime() - ALERT_BURST_WINDOW_MS), occurrence);
+        if (digest) {
+          console.log(`Alert grouped into digest for wallet ${walletAddress}: ${notification.title} (${digest.occurrences} alerts)`);
+          this.emitRealTimeNotification(digest);
+          return;
+        }
+
+        alert = {
+          ...alert,
+          type: 'digest',
+          title: 'Alert Burst',
+          message: `${ALERT_BURST_THRESHOLD} or more alerts within ${ALERT_BURST_WINDOW_MS / 1000}s, further alerts are grouped here`,
+          severity: notification.severity,
+          data: { walletAddress },
+          fingerprint: digestFingerprint
+        };
+      }
+
       await db.saveWalletAlert(alert);
 
-      console.log(`Alert created for wallet ${walletAddress}: ${notification.title}`);
+      console.log(`Alert created for wallet ${walletAddress}: ${alert.title}`);
 
-      // Emit real-time notification if WebSocket is available
+      // Emit real-time notification to stream subscribers
       this.emitRealTimeNotification(alert);
 
+      // Not awaited so channel retries never hold up the monitoring cycle
+      getAlertDispatcher().dispatch(alert).catch(error => {
+        console.error('Error dispatching alert to delivery channels:', error);
+      });
+
     } catch (error) {
       console.error('Error creating alert:', error);
     }
   }
 
+  private getAlertCooldownMs(workspaceId: string, walletAddress: string, ruleId?: string): number {
+    const rule = ruleId
+      ? (this.monitoringRules.get(getWalletKey(workspaceId, walletAddress)) || []).find(r => r.id === ruleId)
+      : undefined;
+
+    return rule?.cooldownSeconds !== undefined ? rule.cooldownSeconds * 1000 : DEFAULT_ALERT_COOLDOWN_MS;
+  }
+
   private emitRealTimeNotification(alert: WalletAlert) {
-    // This would integrate with WebSocket or Server-Sent Events
-    // For now, we'll just log it
-    console.log('Real-time notification:', {
-      walletAddress: alert.walletAddress,
-      type: alert.type,
-      title: alert.title,
-      severity: alert.severity
-    });
+    // Push to Server-Sent Events subscribers of /api/wallet-tracker/stream
+    getAlertStream().publish(alert);
   }
 
   private async startRealTimeMonitoring(network: NetworkType) {
     try {
-      // This would set up WebSocket connections to blockchain providers
-      // for real-time transaction monitoring
-      console.log(`Starting real-time monitoring for ${network}`);
-      
-      // For demonstration, we'll simulate real-time monitoring
-      // In production, this would connect to Helius webhooks or similar
+      const webhook = await syncWalletWebhook(network);
+      if (webhook) {
+        console.log(`Helius webhook ${webhook.webhookId} covers ${webhook.accountAddresses.length} wallets on ${network}`);
+      } else {
+        console.log(`No Helius webhook configured, polling all wallets on ${network}`);
+      }
     } catch (error) {
       console.error('Error starting real-time monitoring:', error);
     }
   }
 
-  async addMonitoringRule(walletAddress: string, rule: Omit<MonitoringRule, 'id' | 'createdAt'>) {
+  async addMonitoringRule(
+    workspaceId: string,
+    walletAddress: string,
+    rule: Omit<MonitoringRule, 'id' | 'createdAt' | 'workspaceId' | 'walletAddress'>
+  ) {
+    await this.ready;
+
     const newRule: MonitoringRule = {
       ...rule,
+      workspaceId,
+      walletAddress,
       id: `rule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      isActive: rule.isActive ?? true,
       createdAt: new Date()
     };
 
-    const existingRules = this.monitoringRules.get(walletAddress) || [];
-    existingRules.push(newRule);
-    this.monitoringRules.set(walletAddress, existingRules);
-
-    // Save to database
+    // Save to database before exposing the rule to the monitoring cycle
     await this.saveMonitoringRule(newRule);
 
+    const key = getWalletKey(workspaceId, walletAddress);
+    const existingRules = this.monitoringRules.get(key) || [];
+    existingRules.push(newRule);
+    this.monitoringRules.set(key, existingRules);
+
     return newRule;
   }
 
-  async removeMonitoringRule(walletAddress: string, ruleId: string) {
-    const rules = this.monitoringRules.get(walletAddress) || [];
+  async updateMonitoringRule(
+    workspaceId: string,
+    walletAddress: string,
+    ruleId: string,
+    updates: MonitoringRuleUpdates
+  ): Promise<MonitoringRule | null> {
+    await this.ready;
+
+    const db = await getWalletTrackerDb();
+    const updatedRule = await db.updateMonitoringRule(workspaceId, walletAddress, ruleId, updates);
+    if (!updatedRule) {
+      return null;
+    }
+
+    const key = getWalletKey(workspaceId, walletAddress);
+    const rules = this.monitoringRules.get(key) || [];
+    this.monitoringRules.set(
+      key,
+      rules.map(r => (r.id === ruleId ? updatedRule : r))
+    );
+
+    return updatedRule;
+  }
+
+  async setMonitoringRuleActive(workspaceId: string, walletAddress: string, ruleId: string, isActive: boolean): Promise<boolean> {
+    await this.ready;
+
+    const db = await getWalletTrackerDb();
+    const success = await db.setMonitoringRuleActive(workspaceId, walletAddress, ruleId, isActive);
+    if (!success) {
+      return false;
+    }
+
+    const key = getWalletKey(workspaceId, walletAddress);
+    const rules = this.monitoringRules.get(key) || [];
+    this.monitoringRules.set(
+      key,
+      rules.map(r => (r.id === ruleId ? { ...r, isActive } : r))
+    );
+
+    return true;
+  }
+
+  async removeMonitoringRule(workspaceId: string, walletAddress: string, ruleId: string): Promise<boolean> {
+    await this.ready;
+
+    const db = await getWalletTrackerDb();
+    if (!(await db.deleteMonitoringRule(workspaceId, walletAddress, ruleId))) {
+      return false;
+    }
+
+    const key = getWalletKey(workspaceId, walletAddress);
+    const rules = this.monitoringRules.get(key) || [];
     const updatedRules = rules.filter(r => r.id !== ruleId);
-    this.monitoringRules.set(walletAddress, updatedRules);
+    if (updatedRules.length > 0) {
+      this.monitoringRules.set(key, updatedRules);
+    } else {
+      this.monitoringRules.delete(key);
+    }
 
-    // Remove from database
-    await this.deleteMonitoringRule(ruleId);
+    return true;
   }
 
-  async getMonitoringRules(walletAddress: string): Promise<MonitoringRule[]> {
-    return this.monitoringRules.get(walletAddress) || [];
+  async getMonitoringRule(workspaceId: string, walletAddress: string, ruleId: string): Promise<MonitoringRule | null> {
+    await this.ready;
+    return (this.monitoringRules.get(getWalletKey(workspaceId, walletAddress)) || []).find(r => r.id === ruleId) || null;
   }
 
-  private async loadMonitoringRules(walletAddress: string): Promise<MonitoringRule[]> {
-    // This would load from database
-    // For now, return empty array
-    return [];
+  async getMonitoringRules(workspaceId: string, walletAddress: string): Promise<MonitoringRule[]> {
+    await this.ready;
+    return this.monitoringRules.get(getWalletKey(workspaceId, walletAddress)) || [];
   }
 
-  private async saveMonitoringRule(rule: MonitoringRule) {
-    // This would save to database
-    console.log('Saving monitoring rule:', rule.id);
+  // Drop the cached rules of a wallet, or of a whole workspace, after they were deleted from the database
+  async forgetMonitoringRules(workspaceId: string, walletAddress?: string) {
+    await this.ready;
+
+    if (walletAddress) {
+      this.monitoringRules.delete(getWalletKey(workspaceId, walletAddress));
+      return;
+    }
+
+    for (const key of Array.from(this.monitoringRules.keys())) {
+      if (key.startsWith(`${workspaceId}:`)) {
+        this.monitoringRules.delete(key);
+      }
+    }
   }
 
-  private async deleteMonitoringRule(ruleId: string) {
-    // This would delete from database
-    console.log('Deleting monitoring rule:', ruleId);
+  private async loadMonitoringRules(): Promise<MonitoringRule[]> {
+    const db = await getWalletTrackerDb();
+    return await db.getAllMonitoringRules();
+  }
+
+  private async saveMonitoringRule(rule: MonitoringRule) {
+    const db = await getWalletTrackerDb();
+    await db.saveMonitoringRule(rule);
   }
 
   getMonitoringStatus() {
@@ -341,7 +703,9 @@ class WalletMonitorService {
       isMonitoring: this.isMonitoring,
       activeNetworks: Array.from(this.monitoringIntervals.keys()),
       totalRules: Array.from(this.monitoringRules.values()).reduce((sum, rules) => sum + rules.length, 0),
-      totalWallets: this.monitoringRules.size
+      totalWallets: this.monitoringRules.size,
+      webhookCoveredWallets: Array.from(this.webhookCoveredWallets.values()).reduce((sum, wallets) => sum + wallets.size, 0),
+      snapshotNetworks: getPortfolioHistory().getRunningNetworks()
     };
   }
 }
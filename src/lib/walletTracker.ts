@@ -1,10 +1,13 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { getHeliusService, HeliusService } from './helius';
+import { getHeliusService, HeliusService, HeliusTransaction } from './helius';
 import { getWeb3Service, Web3Service } from './web3Service';
+import { getPriceOracle } from './priceOracle';
 import { NetworkType } from '../context/NetworkContext';
 
 export interface TrackedWallet {
   id: string;
+  // The same address can be tracked in several workspaces, each with its own record
+  workspaceId: string;
   address: string;
   name?: string;
   description?: string;
@@ -20,6 +23,8 @@ export interface TrackedWallet {
 }
 
 export interface WalletTokenHolding {
+  // Set on records stored for a workspace
+  workspaceId?: string;
   walletAddress: string;
   mint: string;
   amount: number;
@@ -32,11 +37,15 @@ export interface WalletTokenHolding {
     description?: string;
   };
   usdValue?: number;
+  // USD price per token used for usdValue
+  priceUsd?: number;
   lastUpdated: Date;
 }
 
 export interface WalletActivity {
   id: string;
+  // Set on records stored for a workspace
+  workspaceId?: string;
   walletAddress: string;
   type: 'token_transfer' | 'token_mint' | 'token_burn' | 'sol_transfer' | 'nft_transfer';
   signature: string;
@@ -50,13 +59,18 @@ export interface WalletActivity {
 }
 
 export interface WalletSnapshot {
+  // Set on records stored for a workspace
+  workspaceId?: string;
   walletAddress: string;
   timestamp: Date;
   totalTokens: number;
   totalUsdValue: number;
   solBalance: number;
+  solPriceUsd?: number;
   tokenHoldings: WalletTokenHolding[];
   network: NetworkType;
+  // Set on snapshots kept when older data is downsampled
+  resolution?: '1d' | '1w';
 }
 
 export interface WalletTrackerStats {
@@ -85,6 +99,51 @@ export interface WalletAlert {
   };
 }
 
+// Map a Helius enhanced transaction to an activity from the point of view of one wallet
+export function toWalletActivity(tx: HeliusTransaction, address: string, network: NetworkType): WalletActivity {
+  const activity: WalletActivity = {
+    id: tx.signature,
+    walletAddress: address,
+    type: determineActivityType(tx),
+    signature: tx.signature,
+    timestamp: new Date(tx.timestamp * 1000),
+    description: tx.description,
+    network
+  };
+
+  const tokenTransfer = tx.tokenTransfers?.find(
+    t => t.fromUserAccount === address || t.toUserAccount === address
+  );
+  if (tokenTransfer) {
+    activity.amount = tokenTransfer.tokenAmount;
+    activity.mint = tokenTransfer.mint;
+    activity.fromAddress = tokenTransfer.fromUserAccount;
+    activity.toAddress = tokenTransfer.toUserAccount;
+    return activity;
+  }
+
+  const nativeTransfer = tx.nativeTransfers?.find(
+    t => t.fromUserAccount === address || t.toUserAccount === address
+  );
+  if (nativeTransfer) {
+    activity.amount = nativeTransfer.amount / 1e9; // Convert lamports to SOL
+    activity.fromAddress = nativeTransfer.fromUserAccount;
+    activity.toAddress = nativeTransfer.toUserAccount;
+  }
+
+  return activity;
+}
+
+export function determineActivityType(tx: Pick<HeliusTransaction, 'type'>): WalletActivity['type'] {
+  if (tx.type?.includes('TOKEN')) {
+    if (tx.type.includes('TRANSFER')) return 'token_transfer';
+    if (tx.type.includes('MINT')) return 'token_mint';
+    if (tx.type.includes('BURN')) return 'token_burn';
+  }
+  if (tx.type?.includes('NFT')) return 'nft_transfer';
+  return 'sol_transfer';
+}
+
 export class WalletTrackerService {
   private helius: HeliusService;
   private web3Service: Web3Service;
@@ -104,6 +163,7 @@ export class WalletTrackerService {
 
   // Wallet Management
   public async addWallet(
+    workspaceId: string,
     address: string,
     name?: string,
     description?: string,
@@ -118,6 +178,7 @@ export class WalletTrackerService {
 
     const wallet: TrackedWallet = {
       id: `wallet_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      workspaceId,
       address,
       name: name || `Wallet ${address.slice(0, 8)}...`,
       description,
@@ -200,7 +261,7 @@ export class WalletTrackerService {
       // Get token holdings
       const tokenBalances = await this.web3Service.getWalletTokens(address);
       
-      const holdings: WalletTokenHolding[] = tokenBalances.map(balance => ({
+      const holdings: WalletTokenHolding[] = await getPriceOracle().priceHoldings(tokenBalances.map(balance => ({
         walletAddress: address,
         mint: balance.mint,
         amount: balance.amount,
@@ -208,13 +269,14 @@ export class WalletTrackerService {
         tokenAccount: balance.tokenAccount,
         metadata: balance.metadata,
         lastUpdated: new Date()
-      }));
+      })));
 
       this.walletHoldings.set(address, holdings);
 
       // Update wallet properties
       wallet.lastUpdated = new Date();
       wallet.tokenCount = holdings.length;
+      wallet.totalValue = holdings.reduce((sum, holding) => sum + (holding.usdValue || 0), 0);
       
       // Update lastActivity if there are recent activities
       const activities = this.walletActivities.get(address) || [];
@@ -264,15 +326,7 @@ export class WalletTrackerService {
     try {
       const transactions = await this.helius.getTransactionHistory(address, undefined, limit);
       
-      const activities: WalletActivity[] = transactions.map(tx => ({
-        id: tx.signature,
-        walletAddress: address,
-        type: this.determineActivityType(tx),
-        signature: tx.signature,
-        timestamp: new Date(tx.timestamp * 1000),
-        description: tx.description,
-        network: this.network
-      }));
+      const activities: WalletActivity[] = transactions.map(tx => toWalletActivity(tx, address, this.network));
 
       // Store activities
       const existingActivities = this.walletActivities.get(address) || [];
@@ -290,16 +344,6 @@ export class WalletTrackerService {
     return this.walletActivities.get(address) || [];
   }
 
-  private determineActivityType(tx: any): WalletActivity['type'] {
-    if (tx.type?.includes('TOKEN')) {
-      if (tx.type.includes('TRANSFER')) return 'token_transfer';
-      if (tx.type.includes('MINT')) return 'token_mint';
-      if (tx.type.includes('BURN')) return 'token_burn';
-    }
-    if (tx.type?.includes('NFT')) return 'nft_transfer';
-    return 'sol_transfer';
-  }
-
   private mergeActivities(existing: WalletActivity[], newActivities: WalletActivity[]): WalletActivity[] {
     const merged = [...existing];
     
@@ -486,6 +530,7 @@ export function getWalletTracker(network: NetworkType = 'mainnet'): WalletTracke
 
 // Utility functions
 export async function addWalletToTracker(
+  workspaceId: string,
   address: string,
   name?: string,
   description?: string,
@@ -493,7 +538,7 @@ export async function addWalletToTracker(
   network: NetworkType = 'mainnet'
 ): Promise<TrackedWallet> {
   const tracker = getWalletTracker(network);
-  return await tracker.addWallet(address, name, description, tags);
+  return await tracker.addWallet(workspaceId, address, name, description, tags);
 }
 
 export async function getTrackedWalletData(
@@ -1,5 +1,8 @@
-import { MongoClient, Db, Collection } from 'mongodb';
+import { MongoClient, Db, Collection, Filter, ObjectId } from 'mongodb';
 import { TrackedWallet, WalletTokenHolding, WalletActivity, WalletSnapshot } from './walletTracker';
+import { MonitoringRule, MonitoringRuleUpdates } from './walletMonitor';
+import { AlertChannel, AlertDelivery } from './alertDelivery';
+import { WalletCluster } from './walletClustering';
 import { NetworkType } from '../context/NetworkContext';
 
 // Database Collections Interface
@@ -9,12 +12,47 @@ export interface WalletTrackerCollections {
   walletActivities: Collection<WalletActivity>;
   walletSnapshots: Collection<WalletSnapshot>;
   walletAlerts: Collection<WalletAlert>;
+  monitoringRules: Collection<MonitoringRule>;
+  webhooks: Collection<WalletWebhook>;
+  alertChannels: Collection<AlertChannel>;
+  alertDeliveries: Collection<AlertDelivery>;
+  walletClusters: Collection<WalletCluster>;
+  workspaces: Collection<Workspace>;
 }
 
+// Team that owns a set of tracked wallets with their rules, alerts and channels
+export interface Workspace {
+  id: string;
+  name: string;
+  // Wallets allowed in besides admins and owners, who can open every workspace
+  members: string[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Holds everything tracked before workspaces existed; every signed-in role can use it
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+// Collections whose documents belong to a workspace. Helius webhooks are shared per network.
+const WORKSPACE_COLLECTIONS: Array<keyof WalletTrackerCollections> = [
+  'trackedWallets', 'walletHoldings', 'walletActivities', 'walletSnapshots', 'walletAlerts',
+  'monitoringRules', 'alertChannels', 'alertDeliveries', 'walletClusters'
+];
+
+// Unique indexes from before workspaces, they would stop two workspaces tracking one address
+const LEGACY_UNIQUE_INDEXES: Array<[keyof WalletTrackerCollections, string]> = [
+  ['trackedWallets', 'address_1'],
+  ['walletHoldings', 'walletAddress_1_mint_1'],
+  ['walletActivities', 'walletAddress_1_signature_1']
+];
+
 export interface WalletAlert {
   id: string;
+  workspaceId: string;
   walletAddress: string;
-  type: 'balance_change' | 'new_token' | 'large_transaction' | 'suspicious_activity';
+  type: 'balance_change' | 'token_transfer' | 'new_token' | 'large_transaction' | 'suspicious_activity' | 'custom_rule' | 'digest'
+    | 'token_graduated' | 'token_migrated';
   title: string;
   message: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
@@ -22,6 +60,55 @@ export interface WalletAlert {
   createdAt: Date;
   data?: any;
   network: NetworkType;
+  // Deduplication: repeats within the cooldown are folded into this alert
+  fingerprint?: string;
+  occurrences?: number;
+  lastOccurrenceAt?: Date;
+  history?: AlertOccurrence[];
+  // Triage workflow, alerts without a status are open
+  status?: AlertStatus;
+  snoozedUntil?: Date;
+  assignee?: string;
+  notes?: AlertNote[];
+  auditTrail?: AlertAuditEntry[];
+}
+
+export type AlertStatus = 'open' | 'acknowledged' | 'snoozed' | 'resolved' | 'false_positive';
+
+export interface AlertNote {
+  author: string;
+  text: string;
+  createdAt: Date;
+}
+
+export interface AlertAuditEntry {
+  action: 'status' | 'assignee' | 'note';
+  actor: string;
+  from?: string;
+  to?: string;
+  snoozedUntil?: Date;
+  at: Date;
+}
+
+export interface AlertOccurrence {
+  type: WalletAlert['type'];
+  title: string;
+  message: string;
+  severity: WalletAlert['severity'];
+  data?: WalletAlert['data'];
+  occurredAt: Date;
+}
+
+// Number of occurrences kept on a deduplicated alert
+const ALERT_HISTORY_LIMIT = 100;
+
+export interface WalletWebhook {
+  webhookId: string;
+  network: NetworkType;
+  webhookUrl: string;
+  accountAddresses: string[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export class WalletTrackerDatabase {
@@ -38,46 +125,86 @@ export class WalletTrackerDatabase {
       walletHoldings: this.db.collection<WalletTokenHolding>('wallet_holdings'),
       walletActivities: this.db.collection<WalletActivity>('wallet_activities'),
       walletSnapshots: this.db.collection<WalletSnapshot>('wallet_snapshots'),
-      walletAlerts: this.db.collection<WalletAlert>('wallet_alerts')
+      walletAlerts: this.db.collection<WalletAlert>('wallet_alerts'),
+      monitoringRules: this.db.collection<MonitoringRule>('monitoring_rules'),
+      webhooks: this.db.collection<WalletWebhook>('helius_webhooks'),
+      alertChannels: this.db.collection<AlertChannel>('alert_channels'),
+      alertDeliveries: this.db.collection<AlertDelivery>('alert_deliveries'),
+      walletClusters: this.db.collection<WalletCluster>('wallet_clusters'),
+      workspaces: this.db.collection<Workspace>('workspaces')
     };
   }
 
   // Initialize database indexes for optimal performance
   public async initializeIndexes(): Promise<void> {
     try {
+      await this.migrateToWorkspaces();
+
       // Tracked Wallets indexes
-      await this.collections.trackedWallets.createIndex({ address: 1 }, { unique: true });
-      await this.collections.trackedWallets.createIndex({ network: 1 });
-      await this.collections.trackedWallets.createIndex({ isActive: 1 });
-      await this.collections.trackedWallets.createIndex({ tags: 1 });
-      await this.collections.trackedWallets.createIndex({ createdAt: -1 });
+      await this.collections.trackedWallets.createIndex({ workspaceId: 1, address: 1 }, { unique: true });
+      await this.collections.trackedWallets.createIndex({ address: 1, network: 1 });
+      await this.collections.trackedWallets.createIndex({ workspaceId: 1, network: 1 });
+      await this.collections.trackedWallets.createIndex({ network: 1, isActive: 1 });
+      await this.collections.trackedWallets.createIndex({ workspaceId: 1, tags: 1 });
+      await this.collections.trackedWallets.createIndex({ workspaceId: 1, createdAt: -1 });
 
       // Wallet Holdings indexes
-      await this.collections.walletHoldings.createIndex({ walletAddress: 1, mint: 1 }, { unique: true });
-      await this.collections.walletHoldings.createIndex({ walletAddress: 1 });
-      await this.collections.walletHoldings.createIndex({ mint: 1 });
+      await this.collections.walletHoldings.createIndex({ workspaceId: 1, walletAddress: 1, mint: 1 }, { unique: true });
+      await this.collections.walletHoldings.createIndex({ workspaceId: 1, mint: 1 });
       await this.collections.walletHoldings.createIndex({ lastUpdated: -1 });
 
       // Wallet Activities indexes
-      await this.collections.walletActivities.createIndex({ walletAddress: 1, signature: 1 }, { unique: true });
-      await this.collections.walletActivities.createIndex({ walletAddress: 1 });
+      await this.collections.walletActivities.createIndex({ workspaceId: 1, walletAddress: 1, signature: 1 }, { unique: true });
+      await this.collections.walletActivities.createIndex({ workspaceId: 1, walletAddress: 1, timestamp: -1 });
+      await this.collections.walletActivities.createIndex({ workspaceId: 1, network: 1, timestamp: -1 });
       await this.collections.walletActivities.createIndex({ type: 1 });
       await this.collections.walletActivities.createIndex({ timestamp: -1 });
-      await this.collections.walletActivities.createIndex({ network: 1 });
 
       // Wallet Snapshots indexes
-      await this.collections.walletSnapshots.createIndex({ walletAddress: 1, timestamp: -1 });
-      await this.collections.walletSnapshots.createIndex({ walletAddress: 1 });
+      await this.collections.walletSnapshots.createIndex({ workspaceId: 1, walletAddress: 1, timestamp: -1 });
       await this.collections.walletSnapshots.createIndex({ timestamp: -1 });
       await this.collections.walletSnapshots.createIndex({ network: 1 });
 
       // Wallet Alerts indexes
-      await this.collections.walletAlerts.createIndex({ walletAddress: 1 });
+      await this.collections.walletAlerts.createIndex({ workspaceId: 1, id: 1 });
+      await this.collections.walletAlerts.createIndex({ workspaceId: 1, createdAt: -1 });
+      await this.collections.walletAlerts.createIndex({ workspaceId: 1, walletAddress: 1, createdAt: -1 });
+      await this.collections.walletAlerts.createIndex({ workspaceId: 1, fingerprint: 1, createdAt: -1 });
+      await this.collections.walletAlerts.createIndex({ workspaceId: 1, isRead: 1 });
       await this.collections.walletAlerts.createIndex({ type: 1 });
       await this.collections.walletAlerts.createIndex({ severity: 1 });
-      await this.collections.walletAlerts.createIndex({ isRead: 1 });
       await this.collections.walletAlerts.createIndex({ createdAt: -1 });
 
+      // Monitoring Rules indexes
+      await this.collections.monitoringRules.createIndex({ id: 1 }, { unique: true });
+      await this.collections.monitoringRules.createIndex({ workspaceId: 1, walletAddress: 1, isActive: 1 });
+      await this.collections.monitoringRules.createIndex({ network: 1 });
+      await this.collections.monitoringRules.createIndex({ isActive: 1 });
+
+      // Helius Webhooks indexes
+      await this.collections.webhooks.createIndex({ webhookId: 1 }, { unique: true });
+      await this.collections.webhooks.createIndex({ network: 1 });
+
+      // Alert Channels indexes
+      await this.collections.alertChannels.createIndex({ id: 1 }, { unique: true });
+      await this.collections.alertChannels.createIndex({ workspaceId: 1, isActive: 1 });
+
+      // Alert Deliveries indexes
+      await this.collections.alertDeliveries.createIndex({ id: 1 }, { unique: true });
+      await this.collections.alertDeliveries.createIndex({ workspaceId: 1, createdAt: -1 });
+      await this.collections.alertDeliveries.createIndex({ alertId: 1 });
+      await this.collections.alertDeliveries.createIndex({ channelId: 1, createdAt: -1 });
+      await this.collections.alertDeliveries.createIndex({ status: 1 });
+
+      // Wallet Clusters indexes
+      await this.collections.walletClusters.createIndex({ id: 1 }, { unique: true });
+      await this.collections.walletClusters.createIndex({ workspaceId: 1, network: 1, confidence: -1 });
+      await this.collections.walletClusters.createIndex({ workspaceId: 1, members: 1 });
+
+      // Workspaces indexes
+      await this.collections.workspaces.createIndex({ id: 1 }, { unique: true });
+      await this.collections.workspaces.createIndex({ members: 1 });
+
       console.log('Wallet tracker database indexes initialized successfully');
     } catch (error) {
       console.error('Error initializing wallet tracker database indexes:', error);
@@ -85,46 +212,113 @@ export class WalletTrackerDatabase {
     }
   }
 
+  // Tag documents written before workspaces with the default workspace
+  private async migrateToWorkspaces(): Promise<void> {
+    for (const name of WORKSPACE_COLLECTIONS) {
+      const collection = this.collections[name] as unknown as Collection;
+      await collection.updateMany({ workspaceId: { $exists: false } }, { $set: { workspaceId: DEFAULT_WORKSPACE_ID } });
+    }
+
+    for (const [name, index] of LEGACY_UNIQUE_INDEXES) {
+      const collection = this.collections[name] as unknown as Collection;
+      if (await collection.indexExists(index)) {
+        await collection.dropIndex(index);
+      }
+    }
+
+    const now = new Date();
+    await this.collections.workspaces.updateOne(
+      { id: DEFAULT_WORKSPACE_ID },
+      { $setOnInsert: { id: DEFAULT_WORKSPACE_ID, name: 'Default', members: [], createdBy: 'system', createdAt: now, updatedAt: now } },
+      { upsert: true }
+    );
+  }
+
+  // Workspaces Operations
+  public async saveWorkspace(workspace: Workspace): Promise<void> {
+    await this.collections.workspaces.replaceOne(
+      { id: workspace.id },
+      workspace,
+      { upsert: true }
+    );
+  }
+
+  public async getWorkspace(workspaceId: string): Promise<Workspace | null> {
+    return await this.collections.workspaces.findOne({ id: workspaceId }, { projection: { _id: 0 } });
+  }
+
+  // Every workspace, or only the default one and those the wallet is a member of
+  public async getWorkspaces(memberKey?: string): Promise<Workspace[]> {
+    const filter: Filter<Workspace> = memberKey ? { $or: [{ id: DEFAULT_WORKSPACE_ID }, { members: memberKey }] } : {};
+    return await this.collections.workspaces.find(filter, { projection: { _id: 0 } }).sort({ createdAt: 1 }).toArray();
+  }
+
+  // Remove a workspace together with everything tracked in it
+  public async deleteWorkspace(workspaceId: string): Promise<boolean> {
+    const result = await this.collections.workspaces.deleteOne({ id: workspaceId });
+
+    await Promise.all(WORKSPACE_COLLECTIONS.map(name =>
+      (this.collections[name] as unknown as Collection).deleteMany({ workspaceId })
+    ));
+
+    return result.deletedCount > 0;
+  }
+
   // Tracked Wallets Operations
   public async saveWallet(wallet: TrackedWallet): Promise<void> {
     await this.collections.trackedWallets.replaceOne(
-      { address: wallet.address },
+      { workspaceId: wallet.workspaceId, address: wallet.address },
       wallet,
       { upsert: true }
     );
   }
 
-  public async getWallet(address: string): Promise<TrackedWallet | null> {
-    return await this.collections.trackedWallets.findOne({ address });
+  public async getWallet(workspaceId: string, address: string): Promise<TrackedWallet | null> {
+    return await this.collections.trackedWallets.findOne({ workspaceId, address });
   }
 
-  public async getAllWallets(network?: NetworkType): Promise<TrackedWallet[]> {
-    const filter = network ? { network } : {};
+  public async getAllWallets(workspaceId: string, network?: NetworkType): Promise<TrackedWallet[]> {
+    const filter = { workspaceId, ...(network ? { network } : {}) };
     return await this.collections.trackedWallets.find(filter).sort({ createdAt: -1 }).toArray();
   }
 
-  public async getActiveWallets(network?: NetworkType): Promise<TrackedWallet[]> {
-    const filter = { isActive: true, ...(network ? { network } : {}) };
+  // Across all workspaces unless one is given, for the monitoring and snapshot jobs
+  public async getActiveWallets(network?: NetworkType, workspaceId?: string): Promise<TrackedWallet[]> {
+    const filter = { isActive: true, ...(network ? { network } : {}), ...(workspaceId ? { workspaceId } : {}) };
     return await this.collections.trackedWallets.find(filter).sort({ createdAt: -1 }).toArray();
   }
 
-  public async deleteWallet(address: string): Promise<boolean> {
-    const result = await this.collections.trackedWallets.deleteOne({ address });
+  public async deleteWallet(workspaceId: string, address: string): Promise<boolean> {
+    const result = await this.collections.trackedWallets.deleteOne({ workspaceId, address });
     
     // Also delete related data
     await Promise.all([
-      this.collections.walletHoldings.deleteMany({ walletAddress: address }),
-      this.collections.walletActivities.deleteMany({ walletAddress: address }),
-      this.collections.walletSnapshots.deleteMany({ walletAddress: address }),
-      this.collections.walletAlerts.deleteMany({ walletAddress: address })
+      this.collections.walletHoldings.deleteMany({ workspaceId, walletAddress: address }),
+      this.collections.walletActivities.deleteMany({ workspaceId, walletAddress: address }),
+      this.collections.walletSnapshots.deleteMany({ workspaceId, walletAddress: address }),
+      this.collections.walletAlerts.deleteMany({ workspaceId, walletAddress: address }),
+      this.collections.monitoringRules.deleteMany({ workspaceId, walletAddress: address })
     ]);
 
     return result.deletedCount > 0;
   }
 
-  public async searchWallets(query: string, network?: NetworkType): Promise<TrackedWallet[]> {
+  // Across all workspaces unless one is given, e.g. to find who tracks the accounts of a transaction
+  public async getWalletsByAddresses(addresses: string[], network?: NetworkType, workspaceId?: string): Promise<TrackedWallet[]> {
+    if (addresses.length === 0) return [];
+    const filter = { address: { $in: addresses }, ...(network ? { network } : {}), ...(workspaceId ? { workspaceId } : {}) };
+    return await this.collections.trackedWallets.find(filter).toArray();
+  }
+
+  public async getWalletsByTag(workspaceId: string, tag: string, network?: NetworkType): Promise<TrackedWallet[]> {
+    const filter = { workspaceId, tags: tag, ...(network ? { network } : {}) };
+    return await this.collections.trackedWallets.find(filter).toArray();
+  }
+
+  public async searchWallets(workspaceId: string, query: string, network?: NetworkType): Promise<TrackedWallet[]> {
     const searchRegex = new RegExp(query, 'i');
     const filter = {
+      workspaceId,
       $or: [
         { address: searchRegex },
         { name: searchRegex },
@@ -138,13 +332,13 @@ export class WalletTrackerDatabase {
   }
 
   // Wallet Holdings Operations
-  public async saveWalletHoldings(holdings: WalletTokenHolding[]): Promise<void> {
+  public async saveWalletHoldings(workspaceId: string, holdings: WalletTokenHolding[]): Promise<void> {
     if (holdings.length === 0) return;
 
     const operations = holdings.map(holding => ({
       replaceOne: {
-        filter: { walletAddress: holding.walletAddress, mint: holding.mint },
-        replacement: holding,
+        filter: { workspaceId, walletAddress: holding.walletAddress, mint: holding.mint },
+        replacement: { ...holding, workspaceId },
         upsert: true
       }
     }));
@@ -152,33 +346,33 @@ export class WalletTrackerDatabase {
     await this.collections.walletHoldings.bulkWrite(operations);
   }
 
-  public async getWalletHoldings(walletAddress: string): Promise<WalletTokenHolding[]> {
+  public async getWalletHoldings(workspaceId: string, walletAddress: string): Promise<WalletTokenHolding[]> {
     return await this.collections.walletHoldings
-      .find({ walletAddress })
+      .find({ workspaceId, walletAddress })
       .sort({ lastUpdated: -1 })
       .toArray();
   }
 
-  public async getWalletsByToken(mint: string): Promise<string[]> {
+  public async getWalletsByToken(workspaceId: string, mint: string): Promise<string[]> {
     const holdings = await this.collections.walletHoldings
-      .find({ mint }, { projection: { walletAddress: 1 } })
+      .find({ workspaceId, mint }, { projection: { walletAddress: 1 } })
       .toArray();
     
     return [...new Set(holdings.map(h => h.walletAddress))];
   }
 
-  public async clearWalletHoldings(walletAddress: string): Promise<void> {
-    await this.collections.walletHoldings.deleteMany({ walletAddress });
+  public async clearWalletHoldings(workspaceId: string, walletAddress: string): Promise<void> {
+    await this.collections.walletHoldings.deleteMany({ workspaceId, walletAddress });
   }
 
   // Wallet Activities Operations
-  public async saveWalletActivities(activities: WalletActivity[]): Promise<void> {
+  public async saveWalletActivities(workspaceId: string, activities: WalletActivity[]): Promise<void> {
     if (activities.length === 0) return;
 
     const operations = activities.map(activity => ({
       replaceOne: {
-        filter: { walletAddress: activity.walletAddress, signature: activity.signature },
-        replacement: activity,
+        filter: { workspaceId, walletAddress: activity.walletAddress, signature: activity.signature },
+        replacement: { ...activity, workspaceId },
         upsert: true
       }
     }));
@@ -187,12 +381,13 @@ export class WalletTrackerDatabase {
   }
 
   public async getWalletActivities(
+    workspaceId: string,
     walletAddress: string,
     limit: number = 100,
     offset: number = 0
   ): Promise<WalletActivity[]> {
     return await this.collections.walletActivities
-      .find({ walletAddress })
+      .find({ workspaceId, walletAddress })
       .sort({ timestamp: -1 })
       .skip(offset)
       .limit(limit)
@@ -200,10 +395,11 @@ export class WalletTrackerDatabase {
   }
 
   public async getRecentActivities(
+    workspaceId: string,
     network?: NetworkType,
     limit: number = 50
   ): Promise<WalletActivity[]> {
-    const filter = network ? { network } : {};
+    const filter = { workspaceId, ...(network ? { network } : {}) };
     return await this.collections.walletActivities
       .find(filter)
       .sort({ timestamp: -1 })
@@ -212,11 +408,12 @@ export class WalletTrackerDatabase {
   }
 
   public async getActivitiesByType(
+    workspaceId: string,
     type: WalletActivity['type'],
     network?: NetworkType,
     limit: number = 100
   ): Promise<WalletActivity[]> {
-    const filter = { type, ...(network ? { network } : {}) };
+    const filter = { workspaceId, type, ...(network ? { network } : {}) };
     return await this.collections.walletActivities
       .find(filter)
       .sort({ timestamp: -1 })
@@ -224,9 +421,24 @@ export class WalletTrackerDatabase {
       .toArray();
   }
 
-  public async getLatestWalletActivity(walletAddress: string): Promise<WalletActivity | null> {
+  public async getActivitiesForWallets(workspaceId: string, walletAddresses: string[], since: Date): Promise<WalletActivity[]> {
+    if (walletAddresses.length === 0) return [];
     return await this.collections.walletActivities
-      .findOne({ walletAddress }, { sort: { timestamp: -1 } });
+      .find({ workspaceId, walletAddress: { $in: walletAddresses }, timestamp: { $gte: since } })
+      .sort({ timestamp: 1 })
+      .toArray();
+  }
+
+  public async getExistingActivitySignatures(workspaceId: string, walletAddress: string, signatures: string[]): Promise<Set<string>> {
+    const existing = await this.collections.walletActivities
+      .find({ workspaceId, walletAddress, signature: { $in: signatures } }, { projection: { signature: 1 } })
+      .toArray();
+    return new Set(existing.map(a => a.signature));
+  }
+
+  public async getLatestWalletActivity(workspaceId: string, walletAddress: string): Promise<WalletActivity | null> {
+    return await this.collections.walletActivities
+      .findOne({ workspaceId, walletAddress }, { sort: { timestamp: -1 } });
   }
 
   // Wallet Snapshots Operations
@@ -235,28 +447,86 @@ export class WalletTrackerDatabase {
   }
 
   public async getWalletSnapshots(
+    workspaceId: string,
     walletAddress: string,
     limit: number = 30
   ): Promise<WalletSnapshot[]> {
     return await this.collections.walletSnapshots
-      .find({ walletAddress })
+      .find({ workspaceId, walletAddress })
       .sort({ timestamp: -1 })
       .limit(limit)
       .toArray();
   }
 
-  public async getLatestSnapshot(walletAddress: string): Promise<WalletSnapshot | null> {
+  public async getLatestSnapshot(workspaceId: string, walletAddress: string): Promise<WalletSnapshot | null> {
     return await this.collections.walletSnapshots
-      .findOne({ walletAddress }, { sort: { timestamp: -1 } });
+      .findOne({ workspaceId, walletAddress }, { sort: { timestamp: -1 } });
   }
 
-  public async cleanupOldSnapshots(daysToKeep: number = 30): Promise<void> {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
+  public async getSnapshotsInRange(workspaceId: string, walletAddresses: string[], from: Date, to: Date): Promise<WalletSnapshot[]> {
+    if (walletAddresses.length === 0) return [];
+    return await this.collections.walletSnapshots
+      .find({ workspaceId, walletAddress: { $in: walletAddresses }, timestamp: { $gte: from, $lte: to } })
+      .sort({ timestamp: 1 })
+      .toArray();
+  }
 
-    await this.collections.walletSnapshots.deleteMany({
-      timestamp: { $lt: cutoffDate }
-    });
+  /**
+   * Thin out old snapshots instead of deleting them: older than daysToKeep only the last
+   * snapshot per wallet and day is kept, older than weeklyAfterDays the last one per week.
+   * Covers every workspace unless one is given. Returns the number of snapshots removed.
+   */
+  public async cleanupOldSnapshots(daysToKeep: number = 30, weeklyAfterDays: number = 365, workspaceId?: string): Promise<number> {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    const dailyCutoff = new Date(now - daysToKeep * dayMs);
+    const weeklyCutoff = new Date(now - Math.max(weeklyAfterDays, daysToKeep) * dayMs);
+
+    const removedWeekly = await this.downsampleSnapshots({ $lt: weeklyCutoff }, 7 * dayMs, '1w', workspaceId);
+    const removedDaily = await this.downsampleSnapshots({ $gte: weeklyCutoff, $lt: dailyCutoff }, dayMs, '1d', workspaceId);
+    return removedWeekly + removedDaily;
+  }
+
+  private async downsampleSnapshots(
+    timestamp: { $gte?: Date; $lt: Date },
+    bucketMs: number,
+    resolution: NonNullable<WalletSnapshot['resolution']>,
+    workspaceId?: string
+  ): Promise<number> {
+    const groups = await this.collections.walletSnapshots.aggregate<{ keep: ObjectId; ids: ObjectId[] }>([
+      { $match: workspaceId ? { workspaceId, timestamp } : { timestamp } },
+      { $sort: { timestamp: -1 } },
+      {
+        $group: {
+          _id: {
+            workspaceId: '$workspaceId',
+            walletAddress: '$walletAddress',
+            bucket: { $floor: { $divide: [{ $toLong: '$timestamp' }, bucketMs] } }
+          },
+          keep: { $first: '$_id' },
+          ids: { $push: '$_id' }
+        }
+      }
+    ], { allowDiskUse: true }).toArray();
+
+    if (groups.length === 0) return 0;
+
+    const toDelete = groups.flatMap(group => group.ids.filter(id => !id.equals(group.keep)));
+    let removed = 0;
+    for (let i = 0; i < toDelete.length; i += 1000) {
+      const result = await this.collections.walletSnapshots.deleteMany({ _id: { $in: toDelete.slice(i, i + 1000) } });
+      removed += result.deletedCount;
+    }
+
+    const kept = groups.map(group => group.keep);
+    for (let i = 0; i < kept.length; i += 1000) {
+      await this.collections.walletSnapshots.updateMany(
+        { _id: { $in: kept.slice(i, i + 1000) } },
+        { $set: { resolution } }
+      );
+    }
+
+    return removed;
   }
 
   // Wallet Alerts Operations
@@ -265,13 +535,19 @@ export class WalletTrackerDatabase {
   }
 
   public async getWalletAlerts(
+    workspaceId: string,
     walletAddress?: string,
     isRead?: boolean,
-    limit: number = 100
+    limit: number = 100,
+    options: { statuses?: AlertStatus[]; assignee?: string } = {}
   ): Promise<WalletAlert[]> {
-    const filter: any = {};
+    const filter: any = { workspaceId };
     if (walletAddress) filter.walletAddress = walletAddress;
     if (typeof isRead === 'boolean') filter.isRead = isRead;
+    if (options.assignee) filter.assignee = options.assignee;
+    if (options.statuses && options.statuses.length > 0) {
+      filter.$or = options.statuses.map(status => this.getAlertStatusFilter(status, new Date()));
+    }
 
     return await this.collections.walletAlerts
       .find(filter)
@@ -280,16 +556,97 @@ export class WalletTrackerDatabase {
       .toArray();
   }
 
-  public async markAlertAsRead(alertId: string): Promise<boolean> {
+  // A snooze that has run out counts as open again
+  private getAlertStatusFilter(status: AlertStatus, now: Date): Filter<WalletAlert> {
+    switch (status) {
+      case 'open':
+        return {
+          $or: [
+            { status: { $exists: false } },
+            { status: 'open' },
+            { status: 'snoozed', snoozedUntil: { $lte: now } }
+          ]
+        };
+      case 'snoozed':
+        return { status: 'snoozed', snoozedUntil: { $gt: now } };
+      default:
+        return { status };
+    }
+  }
+
+  public async updateAlertState(
+    workspaceId: string,
+    alertId: string,
+    updates: Partial<Pick<WalletAlert, 'status' | 'snoozedUntil' | 'assignee' | 'isRead'>>,
+    unset: Array<'snoozedUntil' | 'assignee'>,
+    auditEntries: AlertAuditEntry[],
+    note?: AlertNote
+  ): Promise<WalletAlert | null> {
+    return await this.collections.walletAlerts.findOneAndUpdate(
+      { workspaceId, id: alertId },
+      {
+        $set: updates,
+        ...(unset.length > 0 && { $unset: Object.fromEntries(unset.map(field => [field, ''])) }),
+        $push: {
+          auditTrail: { $each: auditEntries },
+          ...(note && { notes: note })
+        }
+      },
+      { returnDocument: 'after' }
+    );
+  }
+
+  public async getWalletAlert(workspaceId: string, alertId: string): Promise<WalletAlert | null> {
+    return await this.collections.walletAlerts.findOne({ workspaceId, id: alertId });
+  }
+
+  public async getWalletAlertsSince(workspaceId: string, since: Date, limit: number = 500): Promise<WalletAlert[]> {
+    return await this.collections.walletAlerts
+      .find({ workspaceId, createdAt: { $gte: since } })
+      .sort({ createdAt: 1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  // Fold a repeat into the latest alert with this fingerprint created since the given time.
+  // The window is anchored on the first occurrence so a steady stream of repeats still
+  // produces a fresh alert once per cooldown. Returns null when a new one should be created.
+  public async recordAlertOccurrence(
+    workspaceId: string,
+    fingerprint: string,
+    since: Date,
+    occurrence: AlertOccurrence
+  ): Promise<WalletAlert | null> {
+    return await this.collections.walletAlerts.findOneAndUpdate(
+      { workspaceId, fingerprint, createdAt: { $gte: since } },
+      {
+        $inc: { occurrences: 1 },
+        $set: { lastOccurrenceAt: occurrence.occurredAt },
+        $push: { history: { $each: [occurrence], $slice: -ALERT_HISTORY_LIMIT } }
+      },
+      { sort: { createdAt: -1 }, returnDocument: 'after' }
+    );
+  }
+
+  public async countWalletAlertsSince(workspaceId: string, walletAddress: string, since: Date): Promise<number> {
+    return await this.collections.walletAlerts.countDocuments({
+      workspaceId,
+      walletAddress,
+      createdAt: { $gte: since },
+      type: { $ne: 'digest' }
+    });
+  }
+
+  public async markAlertAsRead(workspaceId: string, alertId: string): Promise<boolean> {
     const result = await this.collections.walletAlerts.updateOne(
-      { id: alertId },
+      { workspaceId, id: alertId },
       { $set: { isRead: true } }
     );
     return result.modifiedCount > 0;
   }
 
-  public async markAllAlertsAsRead(walletAddress?: string): Promise<number> {
-    const filter = walletAddress ? { walletAddress, isRead: false } : { isRead: false };
+  public async markAllAlertsAsRead(workspaceId: string, walletAddress?: string): Promise<number> {
+    const filter = { workspaceId, isRead: false, ...(walletAddress ? { walletAddress } : {}) };
     const result = await this.collections.walletAlerts.updateMany(
       filter,
       { $set: { isRead: true } }
@@ -297,20 +654,170 @@ export class WalletTrackerDatabase {
     return result.modifiedCount;
   }
 
-  public async deleteAlert(alertId: string): Promise<boolean> {
-    const result = await this.collections.walletAlerts.deleteOne({ id: alertId });
+  public async deleteAlert(workspaceId: string, alertId: string): Promise<boolean> {
+    const result = await this.collections.walletAlerts.deleteOne({ workspaceId, id: alertId });
+    return result.deletedCount > 0;
+  }
+
+  // Monitoring Rules Operations
+  public async saveMonitoringRule(rule: MonitoringRule): Promise<void> {
+    await this.collections.monitoringRules.replaceOne(
+      { id: rule.id },
+      rule,
+      { upsert: true }
+    );
+  }
+
+  public async getMonitoringRule(workspaceId: string, ruleId: string): Promise<MonitoringRule | null> {
+    return await this.collections.monitoringRules.findOne({ workspaceId, id: ruleId });
+  }
+
+  public async getMonitoringRules(
+    workspaceId: string,
+    walletAddress?: string,
+    network?: NetworkType,
+    isActive?: boolean
+  ): Promise<MonitoringRule[]> {
+    const filter: Partial<Pick<MonitoringRule, 'workspaceId' | 'walletAddress' | 'network' | 'isActive'>> = { workspaceId };
+    if (walletAddress) filter.walletAddress = walletAddress;
+    if (network) filter.network = network;
+    if (typeof isActive === 'boolean') filter.isActive = isActive;
+
+    return await this.collections.monitoringRules
+      .find(filter)
+      .sort({ createdAt: 1 })
+      .toArray();
+  }
+
+  // Rules of every workspace, loaded by the monitor on startup
+  public async getAllMonitoringRules(): Promise<MonitoringRule[]> {
+    return await this.collections.monitoringRules.find({}).sort({ createdAt: 1 }).toArray();
+  }
+
+  public async updateMonitoringRule(
+    workspaceId: string,
+    walletAddress: string,
+    ruleId: string,
+    updates: MonitoringRuleUpdates
+  ): Promise<MonitoringRule | null> {
+    return await this.collections.monitoringRules.findOneAndUpdate(
+      { workspaceId, walletAddress, id: ruleId },
+      { $set: updates },
+      { returnDocument: 'after' }
+    );
+  }
+
+  public async setMonitoringRuleActive(workspaceId: string, walletAddress: string, ruleId: string, isActive: boolean): Promise<boolean> {
+    const result = await this.collections.monitoringRules.updateOne(
+      { workspaceId, walletAddress, id: ruleId },
+      { $set: { isActive } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  public async deleteMonitoringRule(workspaceId: string, walletAddress: string, ruleId: string): Promise<boolean> {
+    const result = await this.collections.monitoringRules.deleteOne({ workspaceId, walletAddress, id: ruleId });
+    return result.deletedCount > 0;
+  }
+
+  // Helius Webhooks Operations
+  public async saveWebhook(webhook: WalletWebhook): Promise<void> {
+    await this.collections.webhooks.replaceOne(
+      { webhookId: webhook.webhookId },
+      webhook,
+      { upsert: true }
+    );
+  }
+
+  public async getWebhooks(network?: NetworkType): Promise<WalletWebhook[]> {
+    const filter = network ? { network } : {};
+    return await this.collections.webhooks.find(filter).sort({ createdAt: 1 }).toArray();
+  }
+
+  public async deleteWebhook(webhookId: string): Promise<boolean> {
+    const result = await this.collections.webhooks.deleteOne({ webhookId });
+    return result.deletedCount > 0;
+  }
+
+  // Alert Channels Operations
+  public async saveAlertChannel(channel: AlertChannel): Promise<void> {
+    await this.collections.alertChannels.replaceOne(
+      { id: channel.id },
+      channel,
+      { upsert: true }
+    );
+  }
+
+  public async getAlertChannel(workspaceId: string, channelId: string): Promise<AlertChannel | null> {
+    return await this.collections.alertChannels.findOne({ workspaceId, id: channelId });
+  }
+
+  public async getAlertChannels(workspaceId: string, isActive?: boolean): Promise<AlertChannel[]> {
+    const filter = { workspaceId, ...(isActive !== undefined ? { isActive } : {}) };
+    return await this.collections.alertChannels.find(filter).sort({ createdAt: 1 }).toArray();
+  }
+
+  public async deleteAlertChannel(workspaceId: string, channelId: string): Promise<boolean> {
+    const result = await this.collections.alertChannels.deleteOne({ workspaceId, id: channelId });
     return result.deletedCount > 0;
   }
 
+  // Alert Deliveries Operations
+  public async saveAlertDelivery(delivery: AlertDelivery): Promise<void> {
+    await this.collections.alertDeliveries.replaceOne(
+      { id: delivery.id },
+      delivery,
+      { upsert: true }
+    );
+  }
+
+  public async getAlertDeliveries(
+    workspaceId: string,
+    filter: { alertId?: string; channelId?: string; status?: AlertDelivery['status'] } = {},
+    limit: number = 100
+  ): Promise<AlertDelivery[]> {
+    const query: Filter<AlertDelivery> = { workspaceId };
+    if (filter.alertId) query.alertId = filter.alertId;
+    if (filter.channelId) query.channelId = filter.channelId;
+    if (filter.status) query.status = filter.status;
+
+    return await this.collections.alertDeliveries
+      .find(query)
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  // Wallet Clusters Operations
+  // Replace the clusters of a workspace and network with a fresh analysis
+  public async replaceWalletClusters(workspaceId: string, network: NetworkType, clusters: WalletCluster[]): Promise<void> {
+    await this.collections.walletClusters.deleteMany({ workspaceId, network });
+    if (clusters.length > 0) {
+      await this.collections.walletClusters.insertMany(clusters);
+    }
+  }
+
+  public async getWalletClusters(workspaceId: string, network?: NetworkType, walletAddress?: string): Promise<WalletCluster[]> {
+    const filter: Filter<WalletCluster> = { workspaceId };
+    if (network) filter.network = network;
+    if (walletAddress) filter.members = walletAddress;
+
+    return await this.collections.walletClusters.find(filter).sort({ confidence: -1 }).toArray();
+  }
+
+  public async getWalletCluster(workspaceId: string, clusterId: string): Promise<WalletCluster | null> {
+    return await this.collections.walletClusters.findOne({ workspaceId, id: clusterId });
+  }
+
   // Analytics and Statistics
-  public async getWalletStats(network?: NetworkType): Promise<{
+  public async getWalletStats(workspaceId: string, network?: NetworkType): Promise<{
     totalWallets: number;
     activeWallets: number;
     totalActivities: number;
     totalAlerts: number;
     unreadAlerts: number;
   }> {
-    const filter = network ? { network } : {};
+    const filter = { workspaceId, ...(network ? { network } : {}) };
 
     const [
       totalWallets,
@@ -335,12 +842,13 @@ export class WalletTrackerDatabase {
     };
   }
 
-  public async getTopTokensByWalletCount(limit: number = 10): Promise<Array<{
+  public async getTopTokensByWalletCount(workspaceId: string, limit: number = 10): Promise<Array<{
     mint: string;
     walletCount: number;
     totalAmount: number;
   }>> {
     const pipeline = [
+      { $match: { workspaceId } },
       {
         $group: {
           _id: '$mint',
@@ -364,6 +872,7 @@ export class WalletTrackerDatabase {
   }
 
   public async getWalletActivitySummary(
+    workspaceId: string,
     walletAddress: string,
     days: number = 30
   ): Promise<Array<{
@@ -377,6 +886,7 @@ export class WalletTrackerDatabase {
     const pipeline = [
       {
         $match: {
+          workspaceId,
           walletAddress,
           timestamp: { $gte: startDate }
         }
@@ -433,25 +943,25 @@ export class WalletTrackerDatabase {
     ]);
   }
 
-  public async getCollectionStats(): Promise<Record<string, number>> {
+  public async getCollectionStats(workspaceId: string): Promise<Record<string, number>> {
     const stats: Record<string, number> = {};
 
-    for (const [name, collection] of Object.entries(this.collections)) {
-      stats[name] = await collection.countDocuments();
+    for (const name of WORKSPACE_COLLECTIONS) {
+      stats[name] = await (this.collections[name] as unknown as Collection).countDocuments({ workspaceId });
     }
 
     return stats;
   }
 
   // Backup and Export
-  public async exportWalletData(walletAddress?: string): Promise<any> {
+  public async exportWalletData(workspaceId: string, walletAddress?: string): Promise<any> {
     if (walletAddress) {
       const [wallet, holdings, activities, snapshots, alerts] = await Promise.all([
-        this.getWallet(walletAddress),
-        this.getWalletHoldings(walletAddress),
-        this.getWalletActivities(walletAddress, 1000),
-        this.getWalletSnapshots(walletAddress, 100),
-        this.getWalletAlerts(walletAddress)
+        this.getWallet(workspaceId, walletAddress),
+        this.getWalletHoldings(workspaceId, walletAddress),
+        this.getWalletActivities(workspaceId, walletAddress, 1000),
+        this.getWalletSnapshots(workspaceId, walletAddress, 100),
+        this.getWalletAlerts(workspaceId, walletAddress)
       ]);
 
       return {
@@ -466,11 +976,11 @@ export class WalletTrackerDatabase {
 
     // Export all data
     const [wallets, holdings, activities, snapshots, alerts] = await Promise.all([
-      this.getAllWallets(),
-      this.collections.walletHoldings.find({}).toArray(),
-      this.collections.walletActivities.find({}).limit(10000).toArray(),
-      this.collections.walletSnapshots.find({}).limit(5000).toArray(),
-      this.collections.walletAlerts.find({}).toArray()
+      this.getAllWallets(workspaceId),
+      this.collections.walletHoldings.find({ workspaceId }).toArray(),
+      this.collections.walletActivities.find({ workspaceId }).limit(10000).toArray(),
+      this.collections.walletSnapshots.find({ workspaceId }).limit(5000).toArray(),
+      this.collections.walletAlerts.find({ workspaceId }).toArray()
     ]);
 
     return {
@@ -503,17 +1013,17 @@ export async function saveTrackedWallet(wallet: TrackedWallet): Promise<void> {
   await db.saveWallet(wallet);
 }
 
-export async function getTrackedWalletFromDb(address: string): Promise<TrackedWallet | null> {
+export async function getTrackedWalletFromDb(workspaceId: string, address: string): Promise<TrackedWallet | null> {
   const db = await getWalletTrackerDb();
-  return await db.getWallet(address);
+  return await db.getWallet(workspaceId, address);
 }
 
-export async function saveWalletHoldingsToDb(holdings: WalletTokenHolding[]): Promise<void> {
+export async function saveWalletHoldingsToDb(workspaceId: string, holdings: WalletTokenHolding[]): Promise<void> {
   const db = await getWalletTrackerDb();
-  await db.saveWalletHoldings(holdings);
+  await db.saveWalletHoldings(workspaceId, holdings);
 }
 
-export async function saveWalletActivitiesToDb(activities: WalletActivity[]): Promise<void> {
+export async function saveWalletActivitiesToDb(workspaceId: string, activities: WalletActivity[]): Promise<void> {
   const db = await getWalletTrackerDb();
-  await db.saveWalletActivities(activities);
+  await db.saveWalletActivities(workspaceId, activities);
 }
\ No newline at end of file
@@ -1,26 +1,186 @@
-import { Connection, Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { AccountInfo, Connection, Keypair, PublicKey, SystemProgram, Transaction, TransactionInstruction } from '@solana/web3.js';
 import {
   ExtensionType,
   TOKEN_2022_PROGRAM_ID,
   createInitializeMintInstruction,
   getMintLen,
+  getNewAccountLenForExtensionLen,
   createInitializeMetadataPointerInstruction,
-  TYPE_SIZE,
-  LENGTH_SIZE,
+  createInitializeTransferFeeConfigInstruction,
+  createInitializeNonTransferableMintInstruction,
+  createInitializeInterestBearingMintInstruction,
+  createInitializePermanentDelegateInstruction,
+  createInitializeDefaultAccountStateInstruction,
+  createEnableRequiredMemoTransfersInstruction,
+  createReallocateInstruction,
+  createThawAccountInstruction,
+  AccountState,
+  createHarvestWithheldTokensToMintInstruction,
+  createWithdrawWithheldTokensFromMintInstruction,
+  getTransferFeeConfig,
+  TransferFeeConfig,
   createMintToInstruction,
+  createMintToCheckedInstruction,
+  createBurnCheckedInstruction,
   createAssociatedTokenAccountInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
   getAssociatedTokenAddress,
   createSetAuthorityInstruction,
   createUpdateAuthorityInstruction,
   AuthorityType,
+  TOKEN_PROGRAM_ID,
+  unpackMint,
+  getMetadataPointerState,
+  getExtensionData,
+  getAccount,
+  updateTokenMetadata,
+  Mint,
+  TokenAccountNotFoundError,
 } from '@solana/spl-token';
 import {
   createInitializeInstruction,
   createUpdateFieldInstruction,
+  createRemoveKeyInstruction,
   pack,
+  unpack,
   TokenMetadata,
 } from '@solana/spl-token-metadata';
-import { TokenMetaDataType } from './types';
+import { TokenExtensionsType, TokenMetaDataType } from './types';
+
+// Transfer fees are capped at 100%
+export const MAX_TRANSFER_FEE_BASIS_POINTS = 10000;
+// Interest rates are stored as a signed 16-bit number of basis points
+export const MAX_INTEREST_RATE_BASIS_POINTS = 32767;
+
+const MAX_U64 = BigInt('18446744073709551615');
+
+/**
+ * Mint extensions for the wizard's options. The metadata pointer is always present;
+ * memo transfers apply to the creator's token account instead of the mint.
+ */
+export function getMintExtensionTypes(extensions: TokenExtensionsType = {}): ExtensionType[] {
+  const extensionTypes = [ExtensionType.MetadataPointer];
+  if (extensions.transferFee) extensionTypes.push(ExtensionType.TransferFeeConfig);
+  if (extensions.nonTransferable) extensionTypes.push(ExtensionType.NonTransferable);
+  if (extensions.interestRate !== undefined) extensionTypes.push(ExtensionType.InterestBearingConfig);
+  if (extensions.permanentDelegate) extensionTypes.push(ExtensionType.PermanentDelegate);
+  if (extensions.defaultAccountState) extensionTypes.push(ExtensionType.DefaultAccountState);
+  return extensionTypes;
+}
+
+export function validateTokenExtensions(tokenMetaData: TokenMetaDataType): string | null {
+  const extensions = tokenMetaData.extensions || {};
+
+  if (extensions.transferFee) {
+    const { basisPoints, maxFee } = extensions.transferFee;
+    if (!Number.isInteger(basisPoints) || basisPoints < 0 || basisPoints > MAX_TRANSFER_FEE_BASIS_POINTS) {
+      return `Transfer fee must be between 0 and ${MAX_TRANSFER_FEE_BASIS_POINTS} basis points`;
+    }
+    let maxFeeUnits: bigint;
+    try {
+      maxFeeUnits = toBaseUnits(String(maxFee), tokenMetaData.decimals);
+    } catch {
+      return 'Maximum transfer fee must be a non-negative number of tokens';
+    }
+    if (maxFeeUnits > MAX_U64) {
+      return 'Maximum transfer fee is too large';
+    }
+    // The cap applies on top of the rate, a zero cap would silently charge nothing
+    if (basisPoints > 0 && maxFeeUnits === BigInt(0)) {
+      return 'Maximum transfer fee must be above 0 when a fee rate is set';
+    }
+    if (extensions.nonTransferable) {
+      return 'Non-transferable tokens cannot charge transfer fees';
+    }
+  }
+
+  if (
+    extensions.interestRate !== undefined &&
+    (!Number.isInteger(extensions.interestRate) || Math.abs(extensions.interestRate) > MAX_INTEREST_RATE_BASIS_POINTS)
+  ) {
+    return `Interest rate must be a whole number of basis points up to ${MAX_INTEREST_RATE_BASIS_POINTS}`;
+  }
+
+  if (extensions.permanentDelegate) {
+    try {
+      new PublicKey(extensions.permanentDelegate);
+    } catch {
+      return 'Permanent delegate must be a valid public key';
+    }
+  }
+
+  // Nobody could thaw new accounts once the freeze authority is revoked
+  if (extensions.defaultAccountState === 'frozen' && !tokenMetaData.freezeable) {
+    return 'Frozen token accounts by default require keeping the freeze authority';
+  }
+
+  return null;
+}
+
+// Solana transaction size limit
+const MAX_TRANSACTION_SIZE = 1232;
+
+function fitsInTransaction(transaction: Transaction, instructions: TransactionInstruction[]): boolean {
+  const candidate = new Transaction({ feePayer: transaction.feePayer, recentBlockhash: transaction.recentBlockhash });
+  candidate.add(...transaction.instructions, ...instructions);
+  try {
+    return candidate.serialize({ requireAllSignatures: false, verifySignatures: false }).length <= MAX_TRANSACTION_SIZE;
+  } catch {
+    // serialize throws once the transaction is over the limit
+    return false;
+  }
+}
+
+// Extensions have to be initialized before the mint itself
+function createMintExtensionInstructions(
+  tokenMint: PublicKey,
+  tokenMetaData: TokenMetaDataType,
+  authority: PublicKey
+): TransactionInstruction[] {
+  const extensions = tokenMetaData.extensions || {};
+  const instructions: TransactionInstruction[] = [];
+
+  if (extensions.transferFee) {
+    instructions.push(
+      createInitializeTransferFeeConfigInstruction(
+        tokenMint,
+        authority, // Can change the fee later
+        authority, // Can withdraw the withheld fees
+        extensions.transferFee.basisPoints,
+        toBaseUnits(String(extensions.transferFee.maxFee), tokenMetaData.decimals),
+        TOKEN_2022_PROGRAM_ID
+      )
+    );
+  }
+  if (extensions.nonTransferable) {
+    instructions.push(createInitializeNonTransferableMintInstruction(tokenMint, TOKEN_2022_PROGRAM_ID));
+  }
+  if (extensions.interestRate !== undefined) {
+    instructions.push(
+      createInitializeInterestBearingMintInstruction(tokenMint, authority, extensions.interestRate, TOKEN_2022_PROGRAM_ID)
+    );
+  }
+  if (extensions.permanentDelegate) {
+    instructions.push(
+      createInitializePermanentDelegateInstruction(
+        tokenMint,
+        new PublicKey(extensions.permanentDelegate),
+        TOKEN_2022_PROGRAM_ID
+      )
+    );
+  }
+  if (extensions.defaultAccountState) {
+    instructions.push(
+      createInitializeDefaultAccountStateInstruction(
+        tokenMint,
+        extensions.defaultAccountState === 'frozen' ? AccountState.Frozen : AccountState.Initialized,
+        TOKEN_2022_PROGRAM_ID
+      )
+    );
+  }
+
+  return instructions;
+}
 
 export async function createTokenCreationTransaction(
   connection: Connection,
@@ -42,13 +202,20 @@ export async function createTokenCreationTransaction(
       additionalMetadata: [],
     };
 
-    // Size of MetadataExtension 2 bytes for type, 2 bytes for length
-    const metadataExtension = TYPE_SIZE + LENGTH_SIZE;
+    const validationError = validateTokenExtensions(tokenMetaData);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const extensionTypes = getMintExtensionTypes(tokenMetaData.extensions);
     const metadataLen = pack(metaData).length; // Size of metadata
-    const mintLen = getMintLen([ExtensionType.MetadataPointer]); // Size of Mint Account with extension
+    // The account is created with room for the fixed-size extensions, initializing the metadata grows it
+    const mintLen = getMintLen(extensionTypes);
 
-    // Minimum lamports required for Mint Account
-    const lamports = await connection.getMinimumBalanceForRentExemption(mintLen + metadataExtension + metadataLen);
+    // Minimum lamports required for Mint Account once the metadata is written
+    const lamports = await connection.getMinimumBalanceForRentExemption(
+      getMintLen(extensionTypes, { [ExtensionType.TokenMetadata]: metadataLen })
+    );
 
     // Instruction to invoke System Program to create new account
     const createAccountInstruction = SystemProgram.createAccount({
@@ -62,7 +229,7 @@ export async function createTokenCreationTransaction(
     // Instruction to initialize the MetadataPointer Extension
     const initializeMetadataPointerInstruction = createInitializeMetadataPointerInstruction(
       tokenMint, // Mint Account address
-      !tokenMetaData.updateable ? publicKey : null, // Authority that can set the metadata address
+      tokenMetaData.updateable ? publicKey : null, // Authority that can set the metadata address
       tokenMint, // Account address that holds the metadata
       TOKEN_2022_PROGRAM_ID
     );
@@ -72,7 +239,7 @@ export async function createTokenCreationTransaction(
       tokenMint, // Mint Account Address
       tokenMetaData.decimals, // Decimals of Mint
       publicKey, // Designated Mint Authority
-      !tokenMetaData.freezeable ? publicKey : null, // Optional Freeze Authority
+      tokenMetaData.freezeable ? publicKey : null, // Optional Freeze Authority
       TOKEN_2022_PROGRAM_ID // Token Extension Program ID
     );
 
@@ -93,59 +260,308 @@ export async function createTokenCreationTransaction(
     transaction.recentBlockhash = blockhash;
     transaction.feePayer = publicKey;
 
-    // Add core instructions first (create account, initialize metadata pointer, initialize mint, initialize metadata)
+    // Add core instructions first (create account, initialize extensions, initialize mint, initialize metadata)
     transaction.add(
       createAccountInstruction,
       initializeMetadataPointerInstruction,
+      ...createMintExtensionInstructions(tokenMint, tokenMetaData, publicKey),
       initializeMintInstruction,
       initializeMetadataInstruction
     );
 
-    // Check if we can fit more instructions without exceeding transaction size limit
-    const currentSize = transaction.serialize({ requireAllSignatures: false }).length;
-    const maxTransactionSize = 1232; // Solana transaction size limit
-    
-    console.log('Current transaction size:', currentSize, 'bytes');
+    const extensions = tokenMetaData.extensions || {};
+    const newATA = await getAssociatedTokenAddress(tokenMint, publicKey, undefined, TOKEN_2022_PROGRAM_ID);
+    const supplyInstructions: TransactionInstruction[] = [
+      createAssociatedTokenAccountInstruction(publicKey, newATA, publicKey, tokenMint, TOKEN_2022_PROGRAM_ID),
+    ];
 
-    // Only add ATA and mint instructions if we have space
-    if (currentSize < maxTransactionSize - 300) { // Leave buffer for additional instructions
-      const newATA = await getAssociatedTokenAddress(tokenMint, publicKey, undefined, TOKEN_2022_PROGRAM_ID);
-      const createATAInstruction = createAssociatedTokenAccountInstruction(
-        publicKey,
-        newATA,
-        publicKey,
-        tokenMint,
-        TOKEN_2022_PROGRAM_ID
-      );
-      
-      console.log(
-        'ATA',
-        newATA.toString(),
-        'total supply',
-        BigInt(tokenMetaData.supply) * BigInt(10 ** tokenMetaData.decimals)
+    // New accounts start frozen, the creator's own account is thawed to receive the supply
+    if (extensions.defaultAccountState === 'frozen') {
+      supplyInstructions.push(createThawAccountInstruction(newATA, tokenMint, publicKey, [], TOKEN_2022_PROGRAM_ID));
+    }
+    // Memo transfers are an account extension, the ATA is grown to hold it
+    if (extensions.requireMemoTransfers) {
+      supplyInstructions.push(
+        createReallocateInstruction(newATA, publicKey, [ExtensionType.MemoTransfer], publicKey, [], TOKEN_2022_PROGRAM_ID),
+        createEnableRequiredMemoTransfersInstruction(newATA, publicKey, [], TOKEN_2022_PROGRAM_ID)
       );
+    }
 
-      // Create the mint to instruction
-      const mintToInstruction = createMintToInstruction(
+    console.log(
+      'ATA',
+      newATA.toString(),
+      'total supply',
+      BigInt(tokenMetaData.supply) * BigInt(10 ** tokenMetaData.decimals)
+    );
+
+    // Create the mint to instruction
+    supplyInstructions.push(
+      createMintToInstruction(
         tokenMint,
         newATA,
         publicKey,
         BigInt(tokenMetaData.supply) * BigInt(10 ** tokenMetaData.decimals),
         undefined,
         TOKEN_2022_PROGRAM_ID
-      );
+      )
+    );
 
-      transaction.add(createATAInstruction, mintToInstruction);
+    // With several extensions the supply no longer fits, it is then minted in a second transaction
+    let supplyTransaction: Transaction | null = null;
+    if (fitsInTransaction(transaction, supplyInstructions)) {
+      transaction.add(...supplyInstructions);
+    } else {
+      supplyTransaction = new Transaction().add(...supplyInstructions);
+      supplyTransaction.recentBlockhash = blockhash;
+      supplyTransaction.feePayer = publicKey;
     }
 
     // Authority revocation instructions will be handled in a separate transaction if needed
     // This helps keep the main transaction under size limits
 
-    return { transaction, signers: [mintKeypair], mint: tokenMint };
+    return { transaction, supplyTransaction, signers: [mintKeypair], mint: tokenMint };
   } catch (error) {
     console.error('Error creating token transaction:', error);
-    return { transaction: null, signers: [], mint: null };
+    return { transaction: null, supplyTransaction: null, signers: [], mint: null };
+  }
+}
+
+// Authorities of a mint that can be revoked or handed to another key
+export type TokenAuthority = 'mint' | 'freeze' | 'metadataUpdate' | 'metadataPointer';
+
+export const TOKEN_AUTHORITY_LABELS: Record<TokenAuthority, string> = {
+  mint: 'Mint',
+  freeze: 'Freeze',
+  metadataUpdate: 'Metadata update',
+  metadataPointer: 'Metadata pointer',
+};
+
+/**
+ * On-chain authorities of a mint. null means revoked, undefined that the mint does not have the
+ * authority at all (no metadata pointer, or metadata stored outside the mint).
+ */
+export interface TokenAuthorityState {
+  programId: PublicKey;
+  mint: PublicKey | null;
+  freeze: PublicKey | null;
+  metadataUpdate?: PublicKey | null;
+  metadataPointer?: PublicKey | null;
+}
+
+export interface AuthorityChange {
+  authority: TokenAuthority;
+  // null revokes the authority
+  newAuthority: PublicKey | null;
+}
+
+export interface AuthorityStep {
+  change: AuthorityChange;
+  signature: string;
+  // Authorities read back after the step was confirmed
+  state: TokenAuthorityState;
+}
+
+// Mint account together with the token program that owns it
+async function fetchTokenMint(connection: Connection, tokenMint: PublicKey) {
+  const info = await connection.getAccountInfo(tokenMint, 'confirmed');
+  if (!info) {
+    throw new Error(`Mint ${tokenMint.toString()} not found`);
+  }
+
+  const programId = info.owner;
+  if (!programId.equals(TOKEN_PROGRAM_ID) && !programId.equals(TOKEN_2022_PROGRAM_ID)) {
+    throw new Error(`${tokenMint.toString()} is not a token mint`);
+  }
+
+  return { info, programId, mint: unpackMint(tokenMint, info, programId) };
+}
+
+// Only metadata kept in the mint itself is managed here
+function readMintMetadata(tokenMint: PublicKey, mint: Mint): TokenMetadata | null {
+  const pointer = getMetadataPointerState(mint);
+  if (!pointer?.metadataAddress?.equals(tokenMint)) {
+    return null;
+  }
+  const metadataData = getExtensionData(ExtensionType.TokenMetadata, mint.tlvData);
+  return metadataData ? unpack(metadataData) : null;
+}
+
+function readTokenAuthorities(tokenMint: PublicKey, mint: Mint, programId: PublicKey): TokenAuthorityState {
+  const state: TokenAuthorityState = {
+    programId,
+    mint: mint.mintAuthority,
+    freeze: mint.freezeAuthority,
+  };
+
+  const pointer = getMetadataPointerState(mint);
+  if (pointer) {
+    state.metadataPointer = pointer.authority ?? null;
+
+    const metadata = readMintMetadata(tokenMint, mint);
+    if (metadata) {
+      state.metadataUpdate = metadata.updateAuthority ?? null;
+    }
+  }
+
+  return state;
+}
+
+export async function getTokenAuthorities(connection: Connection, tokenMint: PublicKey): Promise<TokenAuthorityState> {
+  const { programId, mint } = await fetchTokenMint(connection, tokenMint);
+  return readTokenAuthorities(tokenMint, mint, programId);
+}
+
+/**
+ * Authorities of a mint account that was already fetched, null when it is not a token mint
+ */
+export function parseTokenAuthorities(tokenMint: PublicKey, info: AccountInfo<Buffer>): TokenAuthorityState | null {
+  if (!info.owner.equals(TOKEN_PROGRAM_ID) && !info.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+    return null;
+  }
+  try {
+    return readTokenAuthorities(tokenMint, unpackMint(tokenMint, info, info.owner), info.owner);
+  } catch {
+    return null;
+  }
+}
+
+async function createTransaction(connection: Connection, feePayer: PublicKey): Promise<Transaction> {
+  const transaction = new Transaction();
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = feePayer;
+  return transaction;
+}
+
+function isSameAuthority(current: PublicKey | null | undefined, next: PublicKey | null): boolean {
+  return current === null ? next === null : !!current && !!next && current.equals(next);
+}
+
+function createAuthorityChangeInstruction(
+  tokenMint: PublicKey,
+  state: TokenAuthorityState,
+  currentAuthority: PublicKey,
+  change: AuthorityChange
+): TransactionInstruction {
+  const label = TOKEN_AUTHORITY_LABELS[change.authority];
+  const current = state[change.authority];
+
+  if (current === undefined) {
+    throw new Error(`${label} authority is not available on this mint`);
+  }
+  if (current === null) {
+    throw new Error(`${label} authority has already been revoked`);
+  }
+  if (!current.equals(currentAuthority)) {
+    throw new Error(`${label} authority is held by ${current.toString()}`);
+  }
+
+  switch (change.authority) {
+    case 'mint':
+    case 'freeze':
+    case 'metadataPointer': {
+      const authorityType = {
+        mint: AuthorityType.MintTokens,
+        freeze: AuthorityType.FreezeAccount,
+        metadataPointer: AuthorityType.MetadataPointer,
+      }[change.authority];
+      return createSetAuthorityInstruction(
+        tokenMint,
+        currentAuthority,
+        authorityType,
+        change.newAuthority,
+        undefined,
+        state.programId
+      );
+    }
+    case 'metadataUpdate':
+      return createUpdateAuthorityInstruction({
+        metadata: tokenMint,
+        newAuthority: change.newAuthority,
+        oldAuthority: currentAuthority,
+        programId: state.programId,
+      });
+  }
+}
+
+/**
+ * Transaction revoking or transferring authorities of an existing mint. Changes that are
+ * already in effect on-chain are skipped; changes the wallet cannot make throw.
+ */
+export async function createAuthorityUpdateTransaction(
+  connection: Connection,
+  tokenMint: PublicKey,
+  currentAuthority: PublicKey,
+  changes: AuthorityChange[]
+): Promise<{ transaction: Transaction; changes: AuthorityChange[]; state: TokenAuthorityState }> {
+  const state = await getTokenAuthorities(connection, tokenMint);
+  const pending = changes.filter(change => !isSameAuthority(state[change.authority], change.newAuthority));
+
+  const transaction = await createTransaction(connection, currentAuthority);
+  for (const change of pending) {
+    transaction.add(createAuthorityChangeInstruction(tokenMint, state, currentAuthority, change));
   }
+
+  return { transaction, changes: pending, state };
+}
+
+/**
+ * Apply authority changes one transaction at a time, reading the authorities back after
+ * each confirmed step. Stops at the first failing step; earlier steps stay applied.
+ */
+export async function applyAuthorityChanges(
+  connection: Connection,
+  tokenMint: PublicKey,
+  currentAuthority: PublicKey,
+  changes: AuthorityChange[],
+  sendTransaction: (transaction: Transaction) => Promise<string>,
+  onStep?: (step: AuthorityStep) => void
+): Promise<AuthorityStep[]> {
+  const steps: AuthorityStep[] = [];
+
+  for (const change of changes) {
+    const { transaction, changes: pending } = await createAuthorityUpdateTransaction(
+      connection,
+      tokenMint,
+      currentAuthority,
+      [change]
+    );
+    if (pending.length === 0) continue;
+
+    const signature = await sendTransaction(transaction);
+    const confirmation = await connection.confirmTransaction(signature, 'confirmed');
+    if (confirmation.value.err) {
+      throw new Error(
+        `${TOKEN_AUTHORITY_LABELS[change.authority]} authority change failed: ${JSON.stringify(confirmation.value.err)}`
+      );
+    }
+
+    const step = { change, signature, state: await getTokenAuthorities(connection, tokenMint) };
+    steps.push(step);
+    onStep?.(step);
+  }
+
+  return steps;
+}
+
+/**
+ * Authorities the creation wizard was asked to give up
+ */
+export function getAuthorityRevocations(tokenMetaData: TokenMetaDataType): AuthorityChange[] {
+  const revocations: AuthorityChange[] = [];
+  if (!tokenMetaData.mintable) {
+    revocations.push({ authority: 'mint', newAuthority: null });
+  }
+  if (!tokenMetaData.freezeable) {
+    revocations.push({ authority: 'freeze', newAuthority: null });
+  }
+  if (!tokenMetaData.updateable) {
+    revocations.push(
+      { authority: 'metadataUpdate', newAuthority: null },
+      { authority: 'metadataPointer', newAuthority: null }
+    );
+  }
+  return revocations;
 }
 
 export async function createAuthorityRevocationTransaction(
@@ -155,42 +571,307 @@ export async function createAuthorityRevocationTransaction(
   tokenMint: PublicKey
 ) {
   try {
-    const transaction = new Transaction();
-    
-    // Get the latest blockhash for the transaction
-    const { blockhash } = await connection.getLatestBlockhash('confirmed');
-    transaction.recentBlockhash = blockhash;
-    transaction.feePayer = publicKey;
+    // Freeze and metadata pointer authorities are usually left out at creation already
+    const { transaction } = await createAuthorityUpdateTransaction(
+      connection,
+      tokenMint,
+      publicKey,
+      getAuthorityRevocations(tokenMetaData)
+    );
 
-    // Set update authority as null if the token is NOT updateable
-    if (!tokenMetaData.updateable) {
-      transaction.add(
-        createUpdateAuthorityInstruction({
+    return { transaction, signers: [] };
+  } catch (error) {
+    console.error('Error creating authority revocation transaction:', error);
+    return { transaction: null, signers: [] };
+  }
+}
+
+/**
+ * Current state of an existing mint for the management console
+ */
+export interface TokenManagementState {
+  mint: PublicKey;
+  programId: PublicKey;
+  decimals: number;
+  // Total supply in base units
+  supply: bigint;
+  authorities: TokenAuthorityState;
+  // null when the mint keeps no metadata of its own
+  metadata: TokenMetadata | null;
+  // null for mints without transfer fees
+  transferFee: TransferFeeConfig | null;
+}
+
+// Base fields of the metadata; every other key lives in additionalMetadata
+export const BASE_METADATA_FIELDS = ['name', 'symbol', 'uri'] as const;
+
+export type MetadataChange =
+  | { type: 'update'; field: string; value: string }
+  | { type: 'remove'; key: string };
+
+export async function getTokenManagementState(connection: Connection, tokenMint: PublicKey): Promise<TokenManagementState> {
+  const { programId, mint } = await fetchTokenMint(connection, tokenMint);
+  return {
+    mint: tokenMint,
+    programId,
+    decimals: mint.decimals,
+    supply: mint.supply,
+    authorities: readTokenAuthorities(tokenMint, mint, programId),
+    metadata: readMintMetadata(tokenMint, mint),
+    transferFee: getTransferFeeConfig(mint),
+  };
+}
+
+/**
+ * Amount entered in whole tokens, e.g. "1.5", as base units of a mint
+ */
+export function toBaseUnits(amount: string, decimals: number): bigint {
+  const value = amount.trim();
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    throw new Error(`Invalid token amount: ${amount}`);
+  }
+
+  const [whole, fraction = ''] = value.split('.');
+  if (fraction.length > decimals) {
+    throw new Error(`Amount has more than ${decimals} decimals`);
+  }
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+export function formatBaseUnits(amount: bigint, decimals: number): string {
+  const digits = amount.toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Mint more supply to the recipient's associated token account, creating it when missing
+ */
+export async function createMintSupplyTransaction(
+  connection: Connection,
+  tokenMint: PublicKey,
+  mintAuthority: PublicKey,
+  amount: bigint,
+  recipient: PublicKey = mintAuthority
+): Promise<Transaction> {
+  const { programId, mint } = await fetchTokenMint(connection, tokenMint);
+  if (!mint.mintAuthority) {
+    throw new Error('Mint authority has been revoked, the supply is fixed');
+  }
+  if (!mint.mintAuthority.equals(mintAuthority)) {
+    throw new Error(`Mint authority is held by ${mint.mintAuthority.toString()}`);
+  }
+  if (amount <= BigInt(0)) {
+    throw new Error('Amount to mint must be greater than zero');
+  }
+
+  const destination = await getAssociatedTokenAddress(tokenMint, recipient, true, programId);
+  const transaction = await createTransaction(connection, mintAuthority);
+  transaction.add(
+    createAssociatedTokenAccountIdempotentInstruction(mintAuthority, destination, recipient, tokenMint, programId),
+    createMintToCheckedInstruction(tokenMint, destination, mintAuthority, amount, mint.decimals, [], programId)
+  );
+  return transaction;
+}
+
+/**
+ * Burn tokens from the owner's associated token account
+ */
+export async function createBurnTransaction(
+  connection: Connection,
+  tokenMint: PublicKey,
+  owner: PublicKey,
+  amount: bigint
+): Promise<Transaction> {
+  const { programId, mint } = await fetchTokenMint(connection, tokenMint);
+  if (amount <= BigInt(0)) {
+    throw new Error('Amount to burn must be greater than zero');
+  }
+
+  const source = await getAssociatedTokenAddress(tokenMint, owner, true, programId);
+  let balance = BigInt(0);
+  try {
+    balance = (await getAccount(connection, source, 'confirmed', programId)).amount;
+  } catch (error) {
+    if (!(error instanceof TokenAccountNotFoundError)) throw error;
+  }
+  if (amount > balance) {
+    throw new Error(`Wallet only holds ${formatBaseUnits(balance, mint.decimals)} tokens`);
+  }
+
+  const transaction = await createTransaction(connection, owner);
+  transaction.add(createBurnCheckedInstruction(source, tokenMint, owner, amount, mint.decimals, [], programId));
+  return transaction;
+}
+
+/**
+ * Update base fields, set or remove additionalMetadata keys of the metadata stored in the mint.
+ * Unchanged values are skipped, and the update authority tops up the rent when the metadata grows.
+ */
+export async function createMetadataUpdateTransaction(
+  connection: Connection,
+  tokenMint: PublicKey,
+  updateAuthority: PublicKey,
+  changes: MetadataChange[]
+): Promise<{ transaction: Transaction; metadata: TokenMetadata; changes: MetadataChange[] }> {
+  const { info, programId, mint } = await fetchTokenMint(connection, tokenMint);
+  let metadata = readMintMetadata(tokenMint, mint);
+  if (!metadata) {
+    throw new Error('This mint does not store its own metadata');
+  }
+  if (!metadata.updateAuthority) {
+    throw new Error('Metadata update authority has been revoked');
+  }
+  if (!metadata.updateAuthority.equals(updateAuthority)) {
+    throw new Error(`Metadata update authority is held by ${metadata.updateAuthority.toString()}`);
+  }
+
+  const instructions: TransactionInstruction[] = [];
+  const applied: MetadataChange[] = [];
+  let accountLen = info.data.length;
+
+  for (const change of changes) {
+    if (change.type === 'update') {
+      const field = change.field.trim();
+      if (!field) {
+        throw new Error('Metadata key cannot be empty');
+      }
+      const updated = updateTokenMetadata(metadata, field, change.value);
+      if (Buffer.from(pack(updated)).equals(Buffer.from(pack(metadata)))) continue;
+
+      metadata = updated;
+      instructions.push(
+        createUpdateFieldInstruction({
+          programId,
+          metadata: tokenMint,
+          updateAuthority,
+          field,
+          value: change.value,
+        })
+      );
+    } else {
+      if ((BASE_METADATA_FIELDS as readonly string[]).includes(change.key.toLowerCase())) {
+        throw new Error(`${change.key} is a base metadata field and cannot be removed`);
+      }
+      if (!metadata.additionalMetadata.some(([key]) => key === change.key)) continue;
+
+      metadata = {
+        ...metadata,
+        additionalMetadata: metadata.additionalMetadata.filter(([key]) => key !== change.key),
+      };
+      instructions.push(
+        createRemoveKeyInstruction({
+          programId,
           metadata: tokenMint,
-          newAuthority: null,
-          oldAuthority: publicKey,
-          programId: TOKEN_2022_PROGRAM_ID,
+          updateAuthority,
+          key: change.key,
+          idempotent: false,
         })
       );
     }
 
-    // Set mint authority as null if the token is NOT mintable
-    if (!tokenMetaData.mintable) {
+    applied.push(change);
+    // The account is resized after every instruction, fund its largest size
+    accountLen = Math.max(
+      accountLen,
+      getNewAccountLenForExtensionLen(info, tokenMint, ExtensionType.TokenMetadata, pack(metadata).length, programId)
+    );
+  }
+
+  const transaction = await createTransaction(connection, updateAuthority);
+  if (accountLen > info.data.length) {
+    const rent = await connection.getMinimumBalanceForRentExemption(accountLen);
+    if (rent > info.lamports) {
       transaction.add(
-        createSetAuthorityInstruction(
-          tokenMint,
-          publicKey,
-          AuthorityType.MintTokens,
-          null,
-          undefined,
-          TOKEN_2022_PROGRAM_ID
-        )
+        SystemProgram.transfer({ fromPubkey: updateAuthority, toPubkey: tokenMint, lamports: rent - info.lamports })
       );
     }
+  }
+  if (instructions.length > 0) {
+    transaction.add(...instructions);
+  }
 
-    return { transaction, signers: [] };
-  } catch (error) {
-    console.error('Error creating authority revocation transaction:', error);
-    return { transaction: null, signers: [] };
+  return { transaction, metadata, changes: applied };
+}
+
+/**
+ * Split token accounts into harvest batches, as many sources per transaction as fit
+ */
+export function getHarvestBatches(
+  tokenMint: PublicKey,
+  sources: PublicKey[],
+  feePayer: PublicKey,
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID
+): PublicKey[][] {
+  // Only the size matters here, the real blockhash is fetched when a batch is sent
+  const sizing = new Transaction({ feePayer, recentBlockhash: PublicKey.default.toBase58() });
+  const batches: PublicKey[][] = [];
+  let batch: PublicKey[] = [];
+
+  for (const source of sources) {
+    const next = [...batch, source];
+    if (batch.length > 0 && !fitsInTransaction(sizing, [createHarvestWithheldTokensToMintInstruction(tokenMint, next, programId)])) {
+      batches.push(batch);
+      batch = [source];
+    } else {
+      batch = next;
+    }
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
   }
+
+  return batches;
+}
+
+/**
+ * Move withheld transfer fees from token accounts into the mint. Harvesting is permissionless,
+ * any wallet can pay for it.
+ */
+export async function createHarvestWithheldTransaction(
+  connection: Connection,
+  tokenMint: PublicKey,
+  sources: PublicKey[],
+  feePayer: PublicKey
+): Promise<Transaction> {
+  const { programId, mint } = await fetchTokenMint(connection, tokenMint);
+  if (!getTransferFeeConfig(mint)) {
+    throw new Error('This mint does not charge transfer fees');
+  }
+
+  const transaction = await createTransaction(connection, feePayer);
+  transaction.add(createHarvestWithheldTokensToMintInstruction(tokenMint, sources, programId));
+  return transaction;
+}
+
+/**
+ * Withdraw the fees withheld in the mint to the destination owner's associated token account
+ */
+export async function createWithdrawWithheldTransaction(
+  connection: Connection,
+  tokenMint: PublicKey,
+  withdrawAuthority: PublicKey,
+  destinationOwner: PublicKey = withdrawAuthority
+): Promise<Transaction> {
+  const { programId, mint } = await fetchTokenMint(connection, tokenMint);
+  const transferFee = getTransferFeeConfig(mint);
+  if (!transferFee) {
+    throw new Error('This mint does not charge transfer fees');
+  }
+  // A revoked authority is stored as the default public key
+  if (transferFee.withdrawWithheldAuthority.equals(PublicKey.default)) {
+    throw new Error('Withdraw withheld authority has been revoked');
+  }
+  if (!transferFee.withdrawWithheldAuthority.equals(withdrawAuthority)) {
+    throw new Error(`Withdraw withheld authority is held by ${transferFee.withdrawWithheldAuthority.toString()}`);
+  }
+
+  const destination = await getAssociatedTokenAddress(tokenMint, destinationOwner, true, programId);
+  const transaction = await createTransaction(connection, withdrawAuthority);
+  transaction.add(
+    createAssociatedTokenAccountIdempotentInstruction(withdrawAuthority, destination, destinationOwner, tokenMint, programId),
+    createWithdrawWithheldTokensFromMintInstruction(tokenMint, destination, withdrawAuthority, [], programId)
+  );
+  return transaction;
 }
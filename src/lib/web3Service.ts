@@ -3,7 +3,8 @@ import { getHeliusService, HeliusService } from './helius';
 import { createTokenCreationTransaction } from './web3';
 import { TokenMetaDataType, LaunchedToken, TokenAnalytics, WalletTokenBalance, TransactionSummary } from './types';
 import { NetworkType } from '../context/NetworkContext';
-import { isPumpFunToken, fetchPumpFunTokenInfo, detectTokenType } from './pumpfunUtils';
+import { fetchPumpFunTokenInfo, detectTokenType } from './pumpfunUtils';
+import { getPriceOracle } from './priceOracle';
 
 export class Web3Service {
   private helius: HeliusService;
@@ -32,7 +33,7 @@ export class Web3Service {
       onProgress?.('Creating token transaction...');
       
       // Create the token transaction using existing logic
-      const { transaction, signers, mint } = await createTokenCreationTransaction(
+      const { transaction, supplyTransaction, signers, mint } = await createTokenCreationTransaction(
         this.connection,
         tokenMetaData,
         publicKey,
@@ -53,6 +54,12 @@ export class Web3Service {
         { commitment: 'confirmed' }
       );
 
+      // Mints with many extensions get their initial supply in a second transaction
+      if (supplyTransaction) {
+        onProgress?.('Minting initial supply...');
+        await sendAndConfirmTransaction(this.connection, supplyTransaction, [], { commitment: 'confirmed' });
+      }
+
       onProgress?.('Verifying token creation...');
 
       // Verify the token creation using Helius
@@ -83,7 +90,7 @@ export class Web3Service {
   public async getTokenInfo(mintAddress: string): Promise<LaunchedToken | null> {
     try {
       // First detect if this is a PumpFun token
-      const tokenDetection = await detectTokenType(mintAddress);
+      const tokenDetection = await detectTokenType(mintAddress, this.network);
       
       // Get Helius data
       const enhancedInfo = await this.helius.getEnhancedTokenInfo(mintAddress);
@@ -129,6 +136,9 @@ export class Web3Service {
             associatedBondingCurve: pumpFunData.associatedBondingCurve,
             virtualTokenReserves: pumpFunData.virtualTokenReserves,
             virtualSolReserves: pumpFunData.virtualSolReserves,
+            realTokenReserves: pumpFunData.realTokenReserves,
+            realSolReserves: pumpFunData.realSolReserves,
+            bondingCurveProgress: pumpFunData.bondingCurveProgress,
             complete: pumpFunData.complete,
             lastUpdated: new Date().toISOString()
           }
@@ -235,22 +245,38 @@ export class Web3Service {
     }
   }
 
-  // Get token analytics (placeholder for future implementation)
+  // Get token analytics, priced through the price oracle
   public async getTokenAnalytics(mintAddress: string): Promise<TokenAnalytics | null> {
     try {
-      // This would integrate with additional APIs for market data
-      // For now, we'll return basic information from Helius
-      const transactions = await this.helius.getTransactionHistory(mintAddress, undefined, 100);
+      const [transactions, price, supply] = await Promise.all([
+        this.helius.getTransactionHistory(mintAddress, undefined, 100),
+        // Market prices only exist on mainnet
+        this.network === 'mainnet' ? getPriceOracle().getPrice(mintAddress) : Promise.resolve(null),
+        this.connection.getTokenSupply(new PublicKey(mintAddress)).catch(() => null)
+      ]);
       
       const last24h = Date.now() - (24 * 60 * 60 * 1000);
       const recent24hTxs = transactions.filter(tx => (tx.timestamp * 1000) > last24h);
 
+      // Volume of this mint moved in the sampled transactions
+      const tokenVolume24h = recent24hTxs.reduce((sum, tx) =>
+        sum + (tx.tokenTransfers || [])
+          .filter(transfer => transfer.mint === mintAddress)
+          .reduce((txSum, transfer) => txSum + transfer.tokenAmount, 0), 0);
+
+      const circulatingSupply = supply?.value.uiAmount ?? undefined;
+      const marketCap = price?.marketCap ??
+        (price && circulatingSupply !== undefined ? price.priceUsd * circulatingSupply : undefined);
+
       return {
         mintAddress,
         network: this.network,
         holders: 0, // Would need additional API call
         transactions24h: recent24hTxs.length,
-        volume24h: 0, // Would need market data API
+        volume24h: price ? tokenVolume24h * price.priceUsd : 0,
+        marketCap,
+        price: price?.priceUsd,
+        priceChange24h: price?.priceChange24h,
         lastUpdated: new Date().toISOString()
       };
     } catch (error) {
@@ -265,10 +291,10 @@ export class Web3Service {
       // First check if it's a valid Solana address format
       const publicKey = new PublicKey(address);
       
-      // If it's a PumpFun token, try to fetch from PumpFun API
-      if (isPumpFunToken(address)) {
-        const pumpFunData = await fetchPumpFunTokenInfo(address);
-        return pumpFunData !== null;
+      // A PumpFun bonding curve is enough to know the token exists
+      const pumpFunData = await fetchPumpFunTokenInfo(address, this.network);
+      if (pumpFunData) {
+        return true;
       }
       
       // For regular tokens, use Helius
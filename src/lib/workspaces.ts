@@ -0,0 +1,107 @@
+/**
+ * Workspaces
+ * Tracked wallets, rules, alerts and channels belong to a workspace. Requests pick one with the
+ * X-Workspace-Id header or the workspaceId query parameter and fall back to the default workspace.
+ * Admins and owners can open every workspace, other roles the default one and those they are members of.
+ */
+
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+import { NextRequest, NextResponse } from 'next/server';
+import { getWalletTrackerDb, DEFAULT_WORKSPACE_ID, Workspace } from './walletTrackerDb';
+import { AuthorizedUser, MethodRoles, Role, authorizeApiRequest, authorizeRequest, hasRole } from './rbac';
+
+export const WORKSPACE_HEADER = 'x-workspace-id';
+
+export interface WorkspaceUser extends AuthorizedUser {
+  workspace: Workspace;
+}
+
+export type WorkspaceApiHandler = (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  workspaceId: string,
+  user: WorkspaceUser
+) => unknown | Promise<unknown>;
+
+export function canAccessWorkspace(user: AuthorizedUser, workspace: Workspace): boolean {
+  return hasRole(user.role, 'admin') ||
+    workspace.id === DEFAULT_WORKSPACE_ID ||
+    workspace.members.includes(user.session.publicKey);
+}
+
+function getRequestedWorkspaceId(header: string | string[] | null | undefined, query: string | string[] | null | undefined): string {
+  const value = [header, query].flat().find(v => typeof v === 'string' && v.trim());
+  return value ? value.trim() : DEFAULT_WORKSPACE_ID;
+}
+
+// Workspace the user asked for, or the error to send back
+async function resolveWorkspace(user: AuthorizedUser, workspaceId: string): Promise<Workspace | { status: number; error: string }> {
+  const db = await getWalletTrackerDb();
+  const workspace = await db.getWorkspace(workspaceId);
+
+  // Unknown and inaccessible workspaces look the same to non-members
+  if (!workspace || !canAccessWorkspace(user, workspace)) {
+    return { status: 404, error: `Workspace ${workspaceId} not found` };
+  }
+  return workspace;
+}
+
+/**
+ * Signed-in user of a pages-router request with the required role and access to the requested workspace.
+ * Responds with 401, 403 or 404 and returns null otherwise.
+ */
+export async function authorizeWorkspaceApiRequest(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  required: Role
+): Promise<WorkspaceUser | null> {
+  const user = await authorizeApiRequest(req, res, required);
+  if (!user) return null;
+
+  const workspace = await resolveWorkspace(user, getRequestedWorkspaceId(req.headers[WORKSPACE_HEADER], req.query.workspaceId));
+  if ('error' in workspace) {
+    res.status(workspace.status).json({ error: workspace.error });
+    return null;
+  }
+
+  return { ...user, workspace };
+}
+
+/**
+ * App-router variant of authorizeWorkspaceApiRequest; returns the error response to send, or the user
+ */
+export async function authorizeWorkspaceRequest(request: NextRequest, required: Role): Promise<WorkspaceUser | NextResponse> {
+  const user = await authorizeRequest(request, required);
+  if (user instanceof NextResponse) return user;
+
+  const { searchParams } = new URL(request.url);
+  const workspace = await resolveWorkspace(user, getRequestedWorkspaceId(request.headers.get(WORKSPACE_HEADER), searchParams.get('workspaceId')));
+  if ('error' in workspace) {
+    return NextResponse.json({ error: workspace.error }, { status: workspace.status });
+  }
+
+  return { ...user, workspace };
+}
+
+/**
+ * Like withRoles, and hands the handler the workspace of the request and the signed-in user.
+ * Every request is scoped to a workspace, so methods without a listed role still need a viewer.
+ */
+export function withWorkspace(roles: MethodRoles, handler: WorkspaceApiHandler): NextApiHandler {
+  return async (req, res) => {
+    const required = roles[req.method as keyof MethodRoles] || 'viewer';
+    let user: WorkspaceUser | null;
+    try {
+      user = await authorizeWorkspaceApiRequest(req, res, required);
+    } catch (error) {
+      console.error('Authorization error:', error);
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+    if (!user) return;
+
+    return handler(req, res, user.workspace.id, user);
+  };
+}
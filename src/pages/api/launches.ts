@@ -0,0 +1,251 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { PublicKey } from '@solana/web3.js';
+import { getLaunchDb, validateLaunch, pickLaunchFields, LAUNCH_UPDATE_FIELDS } from '@/lib/launchDb';
+import { getGraduationWatcher } from '@/lib/graduationWatcher';
+import { getHeliusService } from '@/lib/helius';
+import { findUnverifiedLaunches } from '@/lib/launchVerification';
+import { requireApiSession, getApiSession } from '@/lib/auth';
+import { LaunchedToken } from '@/lib/types';
+import { NetworkType } from '@/context/NetworkContext';
+
+// Upper bound for one import, a browser history is far smaller
+const MAX_IMPORT_LAUNCHES = 500;
+
+function validateCreator(creator: unknown): string | null {
+  if (!creator || typeof creator !== 'string') {
+    return 'Missing or invalid creator';
+  }
+  try {
+    new PublicKey(creator);
+  } catch {
+    return 'creator must be a wallet public key';
+  }
+  return null;
+}
+
+function toLaunchRecord(token: Partial<LaunchedToken>, creator: string): LaunchedToken {
+  const fields = pickLaunchFields(token);
+  return {
+    ...fields,
+    id: fields.mintAddress,
+    timestamp: fields.timestamp ?? Date.now(),
+    creator
+  } as LaunchedToken;
+}
+
+// Launches the creator cannot be shown to have created on-chain, per network
+async function findUnverifiedRecords(creator: string, records: LaunchedToken[]): Promise<LaunchedToken[]> {
+  const byNetwork = new Map<NetworkType, LaunchedToken[]>();
+  for (const record of records) {
+    byNetwork.set(record.network, [...(byNetwork.get(record.network) || []), record]);
+  }
+
+  const unverified: LaunchedToken[] = [];
+  for (const [network, networkRecords] of byNetwork) {
+    const mints = await findUnverifiedLaunches(
+      getHeliusService(network).getConnection(),
+      creator,
+      networkRecords.map(record => record.mintAddress)
+    );
+    unverified.push(...networkRecords.filter(record => mints.includes(record.mintAddress)));
+  }
+  return unverified;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { method } = req;
+
+    // Changes need a signed-in wallet
+    if (method !== 'GET' && !requireApiSession(req, res)) {
+      return;
+    }
+
+    switch (method) {
+      case 'GET':
+        await handleGetLaunches(req, res);
+        break;
+      case 'POST':
+        await handleAddLaunches(req, res);
+        break;
+      case 'PUT':
+        await handleUpdateLaunch(req, res);
+        break;
+      case 'DELETE':
+        await handleDeleteLaunch(req, res);
+        break;
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'PUT', 'DELETE']);
+        res.status(405).json({ error: `Method ${method} not allowed` });
+    }
+  } catch (error) {
+    console.error('Launches API error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+async function handleGetLaunches(req: NextApiRequest, res: NextApiResponse) {
+  const { creator, network } = req.query;
+
+  const creatorError = validateCreator(creator);
+  if (creatorError) {
+    return res.status(400).json({ error: creatorError });
+  }
+
+  try {
+    const db = await getLaunchDb();
+    const tokens = await db.getLaunchesByCreator(creator as string, network as NetworkType | undefined);
+
+    res.status(200).json({ tokens, total: tokens.length });
+  } catch (error) {
+    console.error('Error fetching launches:', error);
+    res.status(500).json({ error: 'Failed to fetch launches' });
+  }
+}
+
+/**
+ * Register one launch ({ creator, token }) or import a launch history ({ creator, tokens }).
+ * Launches that cannot be traced to the creator on-chain are refused, or listed as unverified on import.
+ */
+async function handleAddLaunches(req: NextApiRequest, res: NextApiResponse) {
+  const { creator, token, tokens } = req.body;
+
+  const creatorError = validateCreator(creator);
+  if (creatorError) {
+    return res.status(400).json({ error: creatorError });
+  }
+  if (getApiSession(req)?.publicKey !== creator) {
+    return res.status(403).json({ error: 'Launches can only be registered by the signed-in creator wallet' });
+  }
+
+  const submitted: Partial<LaunchedToken>[] = tokens !== undefined ? tokens : [token];
+  if (!Array.isArray(submitted) || submitted.length > MAX_IMPORT_LAUNCHES) {
+    return res.status(400).json({ error: `tokens must be an array of at most ${MAX_IMPORT_LAUNCHES} launches` });
+  }
+
+  for (const launch of submitted) {
+    const launchError = validateLaunch(launch);
+    if (launchError) {
+      return res.status(400).json({ error: launchError, mintAddress: launch?.mintAddress });
+    }
+  }
+
+  try {
+    const db = await getLaunchDb();
+    const records = submitted.map(launch => toLaunchRecord(launch, creator));
+
+    if (tokens === undefined) {
+      const existing = await db.getLaunch(records[0].mintAddress, records[0].network);
+      // Launches registered without a creator, e.g. by the graduation watcher, are claimed below
+      if (existing?.creator) {
+        return res.status(409).json({ error: 'Launch already registered', token: existing });
+      }
+    }
+
+    // A signed-in wallet can only claim mints it demonstrably created
+    const unverified = await findUnverifiedRecords(creator, records);
+    if (tokens === undefined && unverified.length > 0) {
+      return res.status(403).json({ error: 'Could not verify on-chain that this wallet created the token' });
+    }
+    const verified = records.filter(record => !unverified.includes(record));
+
+    const result = await db.importLaunches(creator, verified);
+
+    // New pump.fun launches are followed until their curve graduates
+    if (verified.some(record => record.isPumpFun)) {
+      getGraduationWatcher().start();
+    }
+
+    if (tokens === undefined) {
+      if (result.conflicts.length > 0) {
+        return res.status(409).json({ error: 'Launch already registered' });
+      }
+      const stored = await db.getLaunch(records[0].mintAddress, records[0].network);
+      return res.status(201).json({ message: 'Launch registered successfully', token: stored });
+    }
+
+    res.status(200).json({
+      message: `Imported ${result.imported} launches`,
+      ...result,
+      unverified: unverified.map(record => record.mintAddress)
+    });
+  } catch (error) {
+    console.error('Error registering launches:', error);
+    res.status(500).json({ error: 'Failed to register launches' });
+  }
+}
+
+async function handleUpdateLaunch(req: NextApiRequest, res: NextApiResponse) {
+  const { mintAddress, network = 'mainnet' } = req.query;
+  const { creator, ...updates } = req.body;
+
+  if (!mintAddress || typeof mintAddress !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid mint address' });
+  }
+
+  const creatorError = validateCreator(creator);
+  if (creatorError) {
+    return res.status(400).json({ error: creatorError });
+  }
+
+  try {
+    const db = await getLaunchDb();
+    const launch = await db.getLaunch(mintAddress, network as NetworkType);
+
+    if (!launch) {
+      return res.status(404).json({ error: 'Launch not found' });
+    }
+    if (launch.creator !== creator || getApiSession(req)?.publicKey !== creator) {
+      return res.status(403).json({ error: 'Launch belongs to a different creator' });
+    }
+
+    const changes = pickLaunchFields(updates, LAUNCH_UPDATE_FIELDS);
+    await db.updateLaunch(mintAddress, network as NetworkType, changes);
+
+    res.status(200).json({
+      message: 'Launch updated successfully',
+      token: { ...launch, ...changes }
+    });
+  } catch (error) {
+    console.error('Error updating launch:', error);
+    res.status(500).json({ error: 'Failed to update launch' });
+  }
+}
+
+async function handleDeleteLaunch(req: NextApiRequest, res: NextApiResponse) {
+  const { mintAddress, network = 'mainnet', creator } = req.query;
+
+  if (!mintAddress || typeof mintAddress !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid mint address' });
+  }
+
+  const creatorError = validateCreator(creator);
+  if (creatorError) {
+    return res.status(400).json({ error: creatorError });
+  }
+
+  try {
+    const db = await getLaunchDb();
+    const launch = await db.getLaunch(mintAddress, network as NetworkType);
+
+    if (!launch) {
+      return res.status(404).json({ error: 'Launch not found' });
+    }
+    if (launch.creator !== creator || getApiSession(req)?.publicKey !== creator) {
+      return res.status(403).json({ error: 'Launch belongs to a different creator' });
+    }
+
+    await db.deleteLaunch(mintAddress, network as NetworkType);
+
+    res.status(200).json({
+      message: 'Launch deleted successfully',
+      mintAddress
+    });
+  } catch (error) {
+    console.error('Error deleting launch:', error);
+    res.status(500).json({ error: 'Failed to delete launch' });
+  }
+}
@@ -0,0 +1,183 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { createPumpFunService, MAX_JITO_BUNDLE_SIZE } from '@/lib/pumpfunService';
+
+// Logos are pinned by the browser before the launch, only this gateway is fetched
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+function validatePublicKey(value: unknown, field: string): string | null {
+  if (!value || typeof value !== 'string') {
+    return `Missing or invalid ${field}`;
+  }
+  try {
+    new PublicKey(value);
+  } catch {
+    return `${field} must be a valid public key`;
+  }
+  return null;
+}
+
+function validateNetwork(network: unknown): string | null {
+  return network === 'mainnet' || network === 'testnet' ? null : `Invalid network: ${network}`;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { method } = req;
+
+    switch (method) {
+      case 'POST':
+        await handleCreateAction(req, res);
+        break;
+      default:
+        res.setHeader('Allow', ['POST']);
+        res.status(405).json({ error: `Method ${method} not allowed` });
+    }
+  } catch (error) {
+    console.error('PumpFun create API error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+async function handleCreateAction(req: NextApiRequest, res: NextApiResponse) {
+  const { action = 'build' } = req.body;
+
+  switch (action) {
+    case 'build':
+      return handleBuildTransaction(req, res);
+    case 'bundle':
+      return handleSendBundle(req, res);
+    default:
+      res.status(400).json({
+        error: 'Invalid action. Supported actions: build, bundle'
+      });
+  }
+}
+
+/**
+ * Unsigned create transaction for the connected wallet. The wallet pays for the launch
+ * and the dev buy, and signs it together with the mint keypair it generated.
+ */
+async function handleBuildTransaction(req: NextApiRequest, res: NextApiResponse) {
+  const {
+    publicKey,
+    mint,
+    network = 'mainnet',
+    name,
+    symbol,
+    description,
+    website,
+    twitter,
+    telegram,
+    imageUrl,
+    devBuyAmount,
+    slippage,
+    priorityFee
+  } = req.body;
+
+  const validationError =
+    validatePublicKey(publicKey, 'publicKey') ||
+    validatePublicKey(mint, 'mint') ||
+    validateNetwork(network);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  if (!name || typeof name !== 'string' || !symbol || typeof symbol !== 'string') {
+    return res.status(400).json({ error: 'Missing required fields: name and symbol' });
+  }
+  if (typeof imageUrl !== 'string' || !imageUrl.startsWith(IPFS_GATEWAY)) {
+    return res.status(400).json({ error: `imageUrl must be an ${IPFS_GATEWAY} URL` });
+  }
+  if (devBuyAmount !== undefined && (typeof devBuyAmount !== 'number' || devBuyAmount < 0)) {
+    return res.status(400).json({ error: 'devBuyAmount must be a non-negative number of SOL' });
+  }
+  if (slippage !== undefined && (typeof slippage !== 'number' || slippage < 0 || slippage > 100)) {
+    return res.status(400).json({ error: 'slippage must be a percentage between 0 and 100' });
+  }
+  if (priorityFee !== undefined && (typeof priorityFee !== 'number' || priorityFee < 0)) {
+    return res.status(400).json({ error: 'priorityFee must be a non-negative number of SOL' });
+  }
+
+  try {
+    const pumpFunService = createPumpFunService(network);
+
+    const image = await fetch(imageUrl);
+    if (!image.ok) {
+      return res.status(400).json({ error: `Could not fetch token image: ${image.statusText}` });
+    }
+
+    const metadata = await pumpFunService.uploadMetadata({
+      file: await image.blob(),
+      name,
+      symbol,
+      description: description || '',
+      website,
+      twitter,
+      telegram
+    });
+
+    const transaction = await pumpFunService.createTokenLocal(
+      {
+        name: metadata.metadata.name,
+        symbol: metadata.metadata.symbol,
+        metadataUri: metadata.metadataUri,
+        network,
+        devBuyAmount,
+        slippage,
+        priorityFee
+      },
+      publicKey,
+      mint
+    );
+
+    res.status(200).json({
+      transaction: bs58.encode(transaction.serialize()),
+      metadataUri: metadata.metadataUri,
+      mint
+    });
+  } catch (error) {
+    console.error('Error building PumpFun create transaction:', error);
+    res.status(502).json({
+      error: 'Failed to build PumpFun create transaction',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Forward transactions the browser already signed to Jito
+ */
+async function handleSendBundle(req: NextApiRequest, res: NextApiResponse) {
+  const { network = 'mainnet', transactions } = req.body;
+
+  const networkError = validateNetwork(network);
+  if (networkError) {
+    return res.status(400).json({ error: networkError });
+  }
+  if (!Array.isArray(transactions) || transactions.length === 0 || transactions.length > MAX_JITO_BUNDLE_SIZE) {
+    return res.status(400).json({ error: `transactions must be an array of 1 to ${MAX_JITO_BUNDLE_SIZE} signed transactions` });
+  }
+
+  let signedTransactions: VersionedTransaction[];
+  try {
+    signedTransactions = transactions.map((tx: string) => VersionedTransaction.deserialize(bs58.decode(tx)));
+  } catch {
+    return res.status(400).json({ error: 'transactions must be base58 encoded versioned transactions' });
+  }
+
+  try {
+    const result = await createPumpFunService(network).sendJitoBundle(signedTransactions);
+    res.status(200).json(result);
+  } catch (error) {
+    console.error('Error sending Jito bundle:', error);
+    res.status(502).json({
+      error: 'Failed to send Jito bundle',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,180 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { PublicKey } from '@solana/web3.js';
+import { getGraduationWatcher } from '@/lib/graduationWatcher';
+import { getLaunchDb } from '@/lib/launchDb';
+import { LaunchedToken } from '@/lib/types';
+import { NetworkType } from '@/context/NetworkContext';
+import { requireApiSession } from '@/lib/auth';
+import { authorizeApiRequest } from '@/lib/rbac';
+import { getHeliusService } from '@/lib/helius';
+import { findUnverifiedLaunches } from '@/lib/launchVerification';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { method } = req;
+
+    switch (method) {
+      case 'GET':
+        await handleGetGraduations(req, res);
+        break;
+      case 'POST':
+        await handleGraduationAction(req, res);
+        break;
+      default:
+        res.setHeader('Allow', ['GET', 'POST']);
+        res.status(405).json({ error: `Method ${method} not allowed` });
+    }
+  } catch (error) {
+    console.error('Graduations API error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * With a mint, the launch record and its bonding-curve progress history;
+ * without one, all pump.fun launches and the watcher status
+ */
+async function handleGetGraduations(req: NextApiRequest, res: NextApiResponse) {
+  const { mint, network = 'mainnet', from } = req.query;
+
+  const fromDate = typeof from === 'string' ? new Date(from) : undefined;
+  if (fromDate && isNaN(fromDate.getTime())) {
+    return res.status(400).json({ error: 'from must be a valid date' });
+  }
+
+  try {
+    const db = await getLaunchDb();
+
+    if (typeof mint === 'string') {
+      const token = await db.getLaunch(mint, network as NetworkType);
+      if (!token) {
+        return res.status(404).json({ error: 'Launch not found' });
+      }
+
+      const progress = await db.getCurveProgress(mint, network as NetworkType, fromDate);
+      return res.status(200).json({ token, progress });
+    }
+
+    const tokens = await db.getPumpFunLaunches(network as NetworkType);
+    res.status(200).json({
+      tokens,
+      watcher: getGraduationWatcher().getStatus()
+    });
+  } catch (error) {
+    console.error('Error fetching graduations:', error);
+    res.status(500).json({ error: 'Failed to fetch graduations' });
+  }
+}
+
+/**
+ * Watching a launch or checking now needs a signed-in wallet; starting and stopping the
+ * shared watcher affects everyone and needs the admin role
+ */
+async function handleGraduationAction(req: NextApiRequest, res: NextApiResponse) {
+  const { action, network = 'mainnet', mintAddress, name, symbol, creator, intervalSeconds } = req.body;
+
+  if (!action) {
+    return res.status(400).json({ error: 'Missing action parameter' });
+  }
+
+  try {
+    const watcher = getGraduationWatcher();
+
+    switch (action) {
+      case 'watch': {
+        const session = requireApiSession(req, res);
+        if (!session) return;
+        // Alerts are routed by creator, so only the signed-in wallet can be named as one
+        if (creator && creator !== session.publicKey) {
+          return res.status(403).json({ error: 'Only your own wallet can be recorded as the creator' });
+        }
+        if (!mintAddress || !name || !symbol) {
+          return res.status(400).json({ error: 'mintAddress, name and symbol are required' });
+        }
+        try {
+          new PublicKey(mintAddress);
+        } catch {
+          return res.status(400).json({ error: 'Invalid mint address' });
+        }
+        // Every watched launch is recorded under its verified creator, so nobody can register
+        // someone else's mint under a name of their choosing
+        const connection = getHeliusService(network as NetworkType).getConnection();
+        if ((await findUnverifiedLaunches(connection, session.publicKey, [mintAddress])).length > 0) {
+          return res.status(403).json({ error: 'Could not verify on-chain that this wallet created the token' });
+        }
+
+        const token: LaunchedToken = {
+          id: mintAddress,
+          name,
+          symbol,
+          mintAddress,
+          network: network as NetworkType,
+          timestamp: Date.now(),
+          creator: session.publicKey,
+          isPumpFun: true,
+          tokenType: 'pumpfun'
+        };
+
+        const db = await getLaunchDb();
+        const result = await db.importLaunches(session.publicKey, [token]);
+        if (result.conflicts.length > 0) {
+          return res.status(409).json({ error: 'Launch already registered to another creator' });
+        }
+        watcher.start();
+
+        res.status(200).json({ message: `Watching ${symbol} for graduation`, watcher: watcher.getStatus() });
+        break;
+      }
+
+      case 'start': {
+        if (!(await authorizeApiRequest(req, res, 'admin'))) return;
+        if (intervalSeconds !== undefined && (typeof intervalSeconds !== 'number' || intervalSeconds < 10)) {
+          return res.status(400).json({ error: 'intervalSeconds must be a number of at least 10' });
+        }
+
+        watcher.start(intervalSeconds !== undefined ? intervalSeconds * 1000 : undefined);
+        res.status(200).json({ message: 'Graduation watcher started', watcher: watcher.getStatus() });
+        break;
+      }
+
+      case 'stop': {
+        if (!(await authorizeApiRequest(req, res, 'admin'))) return;
+        watcher.stop();
+        res.status(200).json({ message: 'Graduation watcher stopped', watcher: watcher.getStatus() });
+        break;
+      }
+
+      case 'check': {
+        if (!requireApiSession(req, res)) return;
+        const result = await watcher.checkLaunches(network as NetworkType);
+        if (!result) {
+          return res.status(409).json({ error: 'A graduation check is already running, try again shortly' });
+        }
+        res.status(200).json({
+          checked: result.checked,
+          recorded: result.recorded,
+          events: result.events.map(event => ({
+            type: event.type,
+            mint: event.mint,
+            network: event.network,
+            migrationPool: event.migrationPool,
+            migrationVenue: event.migrationVenue,
+            occurredAt: event.occurredAt
+          }))
+        });
+        break;
+      }
+
+      default:
+        res.status(400).json({
+          error: 'Invalid action. Supported actions: watch, start, stop, check'
+        });
+    }
+  } catch (error) {
+    console.error('Error handling graduation action:', error);
+    res.status(500).json({ error: 'Failed to execute graduation action' });
+  }
+}
@@ -0,0 +1,106 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  getInitialReserves,
+  getReservesFromCurve,
+  serializeReserves,
+  simulateTrades,
+  validateTradeStep,
+  TradeStep,
+  CurveReserves
+} from '@/lib/bondingCurveSimulator';
+import { fetchBondingCurve } from '@/lib/pumpfunCurve';
+import { getHeliusService } from '@/lib/helius';
+import { NetworkType } from '@/context/NetworkContext';
+
+const MAX_TRADE_STEPS = 50;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { method } = req;
+
+    switch (method) {
+      case 'POST':
+        await handleQuote(req, res);
+        break;
+      default:
+        res.setHeader('Allow', ['POST']);
+        res.status(405).json({ error: `Method ${method} not allowed` });
+    }
+  } catch (error) {
+    console.error('Quote API error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Simulate a dev buy and/or a sequence of trades on a pump.fun bonding curve.
+ * Without a mint the simulation starts from the reserves of a fresh launch.
+ */
+async function handleQuote(req: NextApiRequest, res: NextApiResponse) {
+  const { mint, network = 'mainnet', devBuyAmount, trades = [], slippage, feeBps } = req.body;
+
+  if (!Array.isArray(trades) || trades.length > MAX_TRADE_STEPS) {
+    return res.status(400).json({ error: `trades must be an array of at most ${MAX_TRADE_STEPS} steps` });
+  }
+
+  const steps: TradeStep[] = [];
+  if (devBuyAmount !== undefined && devBuyAmount !== 0) {
+    steps.push({ side: 'buy', amount: devBuyAmount, label: 'dev' });
+  }
+  steps.push(...trades);
+
+  for (const step of steps) {
+    const stepError = validateTradeStep(step);
+    if (stepError) {
+      return res.status(400).json({ error: stepError });
+    }
+  }
+
+  if (steps.length === 0) {
+    return res.status(400).json({ error: 'Provide devBuyAmount or trades to simulate' });
+  }
+
+  if (slippage !== undefined && (typeof slippage !== 'number' || slippage < 0 || slippage > 100)) {
+    return res.status(400).json({ error: 'slippage must be a percentage between 0 and 100' });
+  }
+
+  if (feeBps !== undefined && (!Number.isInteger(feeBps) || feeBps < 0 || feeBps >= 10000)) {
+    return res.status(400).json({ error: 'feeBps must be an integer between 0 and 9999' });
+  }
+
+  try {
+    let reserves: CurveReserves;
+    let source: 'initial' | 'current';
+
+    if (mint) {
+      const curve = await fetchBondingCurve(getHeliusService(network as NetworkType).getConnection(), mint);
+      if (!curve) {
+        return res.status(404).json({ error: 'No pump.fun bonding curve found for this mint' });
+      }
+      if (curve.complete) {
+        return res.status(409).json({ error: 'Bonding curve is complete, the token trades on its migration pool' });
+      }
+      reserves = getReservesFromCurve(curve);
+      source = 'current';
+    } else {
+      reserves = getInitialReserves();
+      source = 'initial';
+    }
+
+    const result = simulateTrades(reserves, steps, { slippage, feeBps });
+
+    res.status(200).json({
+      source,
+      mint: mint || null,
+      initialReserves: serializeReserves(reserves),
+      ...result,
+      reserves: serializeReserves(result.reserves)
+    });
+  } catch (error) {
+    console.error('Error simulating trades:', error);
+    res.status(500).json({ error: 'Failed to simulate trades' });
+  }
+}
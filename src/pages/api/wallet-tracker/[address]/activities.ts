@@ -1,8 +1,10 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { getWalletTrackerDb } from '@/lib/walletTrackerDb';
 import { getWalletTracker } from '@/lib/walletTracker';
+import { WALLET_TRACKER_ROLES } from '@/lib/rbac';
+import { withWorkspace } from '@/lib/workspaces';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
   try {
     const { method } = req;
     const { address } = req.query;
@@ -13,10 +15,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     switch (method) {
       case 'GET':
-        await handleGetActivities(req, res, address);
+        await handleGetActivities(req, res, workspaceId, address);
         break;
       case 'POST':
-        await handleRefreshActivities(req, res, address);
+        await handleRefreshActivities(req, res, workspaceId, address);
         break;
       default:
         res.setHeader('Allow', ['GET', 'POST']);
@@ -31,7 +33,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function handleGetActivities(req: NextApiRequest, res: NextApiResponse, address: string) {
+async function handleGetActivities(req: NextApiRequest, res: NextApiResponse, workspaceId: string, address: string) {
   const { 
     limit = '50', 
     offset = '0', 
@@ -45,7 +47,7 @@ async function handleGetActivities(req: NextApiRequest, res: NextApiResponse, ad
     const db = await getWalletTrackerDb();
     
     // Check if wallet exists
-    const wallet = await db.getWallet(address);
+    const wallet = await db.getWallet(workspaceId, address);
     if (!wallet) {
       return res.status(404).json({ error: 'Wallet not found' });
     }
@@ -54,7 +56,7 @@ async function handleGetActivities(req: NextApiRequest, res: NextApiResponse, ad
     const offsetNum = parseInt(offset as string, 10);
 
     // Get activities
-    let activities = await db.getWalletActivities(address, limitNum + offsetNum);
+    let activities = await db.getWalletActivities(workspaceId, address, limitNum + offsetNum);
 
     // Apply filters
     if (type && typeof type === 'string') {
@@ -112,12 +114,12 @@ async function handleGetActivities(req: NextApiRequest, res: NextApiResponse, ad
   }
 }
 
-async function handleRefreshActivities(req: NextApiRequest, res: NextApiResponse, address: string) {
+async function handleRefreshActivities(req: NextApiRequest, res: NextApiResponse, workspaceId: string, address: string) {
   try {
     const db = await getWalletTrackerDb();
     
     // Check if wallet exists
-    const wallet = await db.getWallet(address);
+    const wallet = await db.getWallet(workspaceId, address);
     if (!wallet) {
       return res.status(404).json({ error: 'Wallet not found' });
     }
@@ -127,7 +129,7 @@ async function handleRefreshActivities(req: NextApiRequest, res: NextApiResponse
     await walletTracker.refreshWalletData(address);
 
     // Get updated activities
-    const activities = await db.getWalletActivities(address, 50);
+    const activities = await db.getWalletActivities(workspaceId, address, 50);
     
     const stats = {
       totalActivities: activities.length,
@@ -144,4 +146,6 @@ async function handleRefreshActivities(req: NextApiRequest, res: NextApiResponse
     console.error('Error refreshing activities:', error);
     res.status(500).json({ error: 'Failed to refresh activities' });
   }
-}
\ No newline at end of file
+}
+
+export default withWorkspace(WALLET_TRACKER_ROLES, handler);
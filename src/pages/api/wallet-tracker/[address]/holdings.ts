@@ -1,8 +1,11 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { getWalletTrackerDb } from '@/lib/walletTrackerDb';
 import { getWalletTracker } from '@/lib/walletTracker';
+import { getPriceOracle } from '@/lib/priceOracle';
+import { WALLET_TRACKER_ROLES } from '@/lib/rbac';
+import { withWorkspace } from '@/lib/workspaces';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
   try {
     const { method } = req;
     const { address } = req.query;
@@ -13,10 +16,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     switch (method) {
       case 'GET':
-        await handleGetHoldings(req, res, address);
+        await handleGetHoldings(req, res, workspaceId, address);
         break;
       case 'POST':
-        await handleRefreshHoldings(req, res, address);
+        await handleRefreshHoldings(req, res, workspaceId, address);
         break;
       default:
         res.setHeader('Allow', ['GET', 'POST']);
@@ -31,20 +34,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function handleGetHoldings(req: NextApiRequest, res: NextApiResponse, address: string) {
+async function handleGetHoldings(req: NextApiRequest, res: NextApiResponse, workspaceId: string, address: string) {
   const { includeMetadata = 'true', sortBy = 'value', sortOrder = 'desc' } = req.query;
 
   try {
     const db = await getWalletTrackerDb();
     
     // Check if wallet exists
-    const wallet = await db.getWallet(address);
+    const wallet = await db.getWallet(workspaceId, address);
     if (!wallet) {
       return res.status(404).json({ error: 'Wallet not found' });
     }
 
-    // Get holdings
-    let holdings = await db.getWalletHoldings(address);
+    // Get holdings, priced at current prices
+    const holdings = await getPriceOracle().priceHoldings(await db.getWalletHoldings(workspaceId, address));
 
     // Sort holdings
     holdings.sort((a, b) => {
@@ -106,12 +109,12 @@ async function handleGetHoldings(req: NextApiRequest, res: NextApiResponse, addr
   }
 }
 
-async function handleRefreshHoldings(req: NextApiRequest, res: NextApiResponse, address: string) {
+async function handleRefreshHoldings(req: NextApiRequest, res: NextApiResponse, workspaceId: string, address: string) {
   try {
     const db = await getWalletTrackerDb();
     
     // Check if wallet exists
-    const wallet = await db.getWallet(address);
+    const wallet = await db.getWallet(workspaceId, address);
     if (!wallet) {
       return res.status(404).json({ error: 'Wallet not found' });
     }
@@ -121,7 +124,7 @@ async function handleRefreshHoldings(req: NextApiRequest, res: NextApiResponse,
     await walletTracker.refreshWalletData(address);
 
     // Get updated holdings
-    const holdings = await db.getWalletHoldings(address);
+    const holdings = await getPriceOracle().priceHoldings(await db.getWalletHoldings(workspaceId, address));
     
     const summary = {
       totalTokens: holdings.length,
@@ -138,4 +141,6 @@ async function handleRefreshHoldings(req: NextApiRequest, res: NextApiResponse,
     console.error('Error refreshing holdings:', error);
     res.status(500).json({ error: 'Failed to refresh holdings' });
   }
-}
\ No newline at end of file
+}
+
+export default withWorkspace(WALLET_TRACKER_ROLES, handler);
@@ -1,23 +1,35 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getWalletTrackerDb, WalletAlert } from '@/lib/walletTrackerDb';
+import { getWalletTrackerDb, WalletAlert, AlertStatus } from '@/lib/walletTrackerDb';
+import {
+  ALERT_STATUSES,
+  getAlertStatus,
+  updateAlertState,
+  validateAlertStateChange,
+  withAlertStatus
+} from '@/lib/alertWorkflow';
+import { getAlertStream } from '@/lib/alertStream';
+import { getAlertDispatcher } from '@/lib/alertDelivery';
 import { NetworkType } from '@/context/NetworkContext';
+import { getApiSession } from '@/lib/auth';
+import { WALLET_TRACKER_ROLES } from '@/lib/rbac';
+import { withWorkspace } from '@/lib/workspaces';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
   try {
     const { method } = req;
 
     switch (method) {
       case 'GET':
-        await handleGetAlerts(req, res);
+        await handleGetAlerts(req, res, workspaceId);
         break;
       case 'POST':
-        await handleCreateAlert(req, res);
+        await handleCreateAlert(req, res, workspaceId);
         break;
       case 'PUT':
-        await handleUpdateAlert(req, res);
+        await handleUpdateAlert(req, res, workspaceId);
         break;
       case 'DELETE':
-        await handleDeleteAlert(req, res);
+        await handleDeleteAlert(req, res, workspaceId);
         break;
       default:
         res.setHeader('Allow', ['GET', 'POST', 'PUT', 'DELETE']);
@@ -32,26 +44,47 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function handleGetAlerts(req: NextApiRequest, res: NextApiResponse) {
+async function handleGetAlerts(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
   const { 
+    alertId,
     walletAddress, 
     isRead, 
     severity, 
     type, 
     network,
+    status,
+    assignee,
     limit = '100', 
     offset = '0' 
   } = req.query;
 
+  // Single alert with its notes and audit trail
+  if (alertId && typeof alertId === 'string') {
+    return handleGetAlert(workspaceId, alertId, res);
+  }
+
+  const statuses = typeof status === 'string'
+    ? status.split(',').map(s => s.trim()).filter(Boolean) as AlertStatus[]
+    : [];
+  const invalidStatuses = statuses.filter(s => !ALERT_STATUSES.includes(s));
+  if (invalidStatuses.length > 0) {
+    return res.status(400).json({ error: `Invalid status: ${invalidStatuses.join(', ')}` });
+  }
+
   try {
     const db = await getWalletTrackerDb();
     
     // Get all alerts first
-    let alerts = await db.getWalletAlerts(
+    let alerts = (await db.getWalletAlerts(
+      workspaceId,
       walletAddress as string,
       isRead === 'true' ? true : isRead === 'false' ? false : undefined,
-      parseInt(limit as string, 10) + parseInt(offset as string, 10)
-    );
+      parseInt(limit as string, 10) + parseInt(offset as string, 10),
+      {
+        statuses,
+        assignee: typeof assignee === 'string' ? assignee : undefined
+      }
+    )).map(withAlertStatus);
 
     // Apply additional filters
     if (severity && typeof severity === 'string') {
@@ -82,6 +115,11 @@ async function handleGetAlerts(req: NextApiRequest, res: NextApiResponse) {
       byType: alerts.reduce((acc, alert) => {
         acc[alert.type] = (acc[alert.type] || 0) + 1;
         return acc;
+      }, {} as Record<string, number>),
+      byStatus: alerts.reduce((acc, alert) => {
+        const alertStatus = getAlertStatus(alert);
+        acc[alertStatus] = (acc[alertStatus] || 0) + 1;
+        return acc;
       }, {} as Record<string, number>)
     };
 
@@ -101,7 +139,23 @@ async function handleGetAlerts(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-async function handleCreateAlert(req: NextApiRequest, res: NextApiResponse) {
+async function handleGetAlert(workspaceId: string, alertId: string, res: NextApiResponse) {
+  try {
+    const db = await getWalletTrackerDb();
+    const alert = await db.getWalletAlert(workspaceId, alertId);
+
+    if (!alert) {
+      return res.status(404).json({ error: 'Alert not found' });
+    }
+
+    res.status(200).json({ alert: withAlertStatus(alert) });
+  } catch (error) {
+    console.error('Error fetching alert:', error);
+    res.status(500).json({ error: 'Failed to fetch alert' });
+  }
+}
+
+async function handleCreateAlert(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
   const { 
     walletAddress, 
     type, 
@@ -121,6 +175,7 @@ async function handleCreateAlert(req: NextApiRequest, res: NextApiResponse) {
   try {
     const alert: WalletAlert = {
       id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      workspaceId,
       walletAddress,
       type,
       title,
@@ -134,6 +189,10 @@ async function handleCreateAlert(req: NextApiRequest, res: NextApiResponse) {
 
     const db = await getWalletTrackerDb();
     await db.saveWalletAlert(alert);
+    getAlertStream().publish(alert);
+    getAlertDispatcher().dispatch(alert).catch(error => {
+      console.error('Error dispatching alert to delivery channels:', error);
+    });
 
     res.status(201).json({ 
       message: 'Alert created successfully',
@@ -145,8 +204,10 @@ async function handleCreateAlert(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-async function handleUpdateAlert(req: NextApiRequest, res: NextApiResponse) {
-  const { alertId, isRead, severity } = req.body;
+async function handleUpdateAlert(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
+  const { alertId, isRead, status, snoozedUntil, assignee, note } = req.body;
+  // The audit trail records the signed-in wallet
+  const actor = getApiSession(req)?.publicKey || 'anonymous';
 
   if (!alertId) {
     return res.status(400).json({ error: 'Missing alert ID' });
@@ -155,8 +216,28 @@ async function handleUpdateAlert(req: NextApiRequest, res: NextApiResponse) {
   try {
     const db = await getWalletTrackerDb();
 
+    // Triage changes go through the workflow so they land in the audit trail
+    if (status !== undefined || assignee !== undefined || note !== undefined) {
+      const change = { status, snoozedUntil, assignee, note, actor };
+      const validationError = validateAlertStateChange(change);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const alert = await updateAlertState(workspaceId, alertId, change);
+      if (!alert) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+
+      return res.status(200).json({ 
+        message: 'Alert updated successfully',
+        alertId,
+        alert: withAlertStatus(alert)
+      });
+    }
+
     if (isRead !== undefined) {
-      const success = await db.markAlertAsRead(alertId);
+      const success = await db.markAlertAsRead(workspaceId, alertId);
       if (!success) {
         return res.status(404).json({ error: 'Alert not found' });
       }
@@ -172,7 +253,7 @@ async function handleUpdateAlert(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-async function handleDeleteAlert(req: NextApiRequest, res: NextApiResponse) {
+async function handleDeleteAlert(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
   const { alertId } = req.query;
 
   if (!alertId || typeof alertId !== 'string') {
@@ -181,7 +262,7 @@ async function handleDeleteAlert(req: NextApiRequest, res: NextApiResponse) {
 
   try {
     const db = await getWalletTrackerDb();
-    const success = await db.deleteAlert(alertId);
+    const success = await db.deleteAlert(workspaceId, alertId);
 
     if (!success) {
       return res.status(404).json({ error: 'Alert not found' });
@@ -195,4 +276,6 @@ async function handleDeleteAlert(req: NextApiRequest, res: NextApiResponse) {
     console.error('Error deleting alert:', error);
     res.status(500).json({ error: 'Failed to delete alert' });
   }
-}
\ No newline at end of file
+}
+
+export default withWorkspace(WALLET_TRACKER_ROLES, handler);
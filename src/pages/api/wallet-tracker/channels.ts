@@ -0,0 +1,222 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getWalletTrackerDb } from '@/lib/walletTrackerDb';
+import {
+  AlertChannel,
+  getAlertDispatcher,
+  redactAlertChannel,
+  validateAlertChannel
+} from '@/lib/alertDelivery';
+import { withWorkspace } from '@/lib/workspaces';
+
+const REDACTED = '********';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
+  try {
+    const { method } = req;
+
+    switch (method) {
+      case 'GET':
+        await handleGetChannels(req, res, workspaceId);
+        break;
+      case 'POST':
+        await handleCreateChannel(req, res, workspaceId);
+        break;
+      case 'PUT':
+        await handleUpdateChannel(req, res, workspaceId);
+        break;
+      case 'DELETE':
+        await handleDeleteChannel(req, res, workspaceId);
+        break;
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'PUT', 'DELETE']);
+        res.status(405).json({ error: `Method ${method} not allowed` });
+    }
+  } catch (error) {
+    console.error('Alert channels API error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+async function handleGetChannels(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
+  const { id, active } = req.query;
+
+  try {
+    const db = await getWalletTrackerDb();
+
+    if (id && typeof id === 'string') {
+      const channel = await db.getAlertChannel(workspaceId, id);
+      if (!channel) {
+        return res.status(404).json({ error: 'Channel not found' });
+      }
+
+      const deliveries = await db.getAlertDeliveries(workspaceId, { channelId: id }, 20);
+      return res.status(200).json({
+        channel: redactAlertChannel(channel),
+        recentDeliveries: deliveries
+      });
+    }
+
+    const channels = await db.getAlertChannels(workspaceId, active !== undefined ? active === 'true' : undefined);
+
+    res.status(200).json({
+      channels: channels.map(redactAlertChannel),
+      total: channels.length
+    });
+  } catch (error) {
+    console.error('Error fetching alert channels:', error);
+    res.status(500).json({ error: 'Failed to fetch alert channels' });
+  }
+}
+
+async function handleCreateChannel(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
+  const { action, id } = req.body;
+
+  // Send a sample alert through an existing channel
+  if (action === 'test') {
+    return handleTestChannel(workspaceId, id, res);
+  }
+
+  const { name, type, settings, walletAddresses, severities, network, maxAttempts, isActive = true } = req.body;
+
+  const validationError = validateAlertChannel({ name, type, settings, maxAttempts });
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const channel: AlertChannel = {
+      id: `channel_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      workspaceId,
+      name,
+      type,
+      isActive,
+      settings,
+      walletAddresses: walletAddresses || [],
+      severities: severities || [],
+      network,
+      maxAttempts,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const db = await getWalletTrackerDb();
+    await db.saveAlertChannel(channel);
+
+    res.status(201).json({
+      message: 'Channel created successfully',
+      channel: redactAlertChannel(channel)
+    });
+  } catch (error) {
+    console.error('Error creating alert channel:', error);
+    res.status(500).json({ error: 'Failed to create alert channel' });
+  }
+}
+
+async function handleTestChannel(workspaceId: string, id: unknown, res: NextApiResponse) {
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid channel id' });
+  }
+
+  try {
+    const db = await getWalletTrackerDb();
+    const channel = await db.getAlertChannel(workspaceId, id);
+    if (!channel) {
+      return res.status(404).json({ error: 'Channel not found' });
+    }
+
+    const delivery = await getAlertDispatcher().sendTest(channel);
+
+    res.status(200).json({
+      message: delivery.status === 'delivered' ? 'Test alert delivered' : 'Test alert failed',
+      delivery
+    });
+  } catch (error) {
+    console.error('Error testing alert channel:', error);
+    res.status(500).json({ error: 'Failed to test alert channel' });
+  }
+}
+
+async function handleUpdateChannel(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
+  const { id } = req.query;
+  const { name, settings, walletAddresses, severities, network, maxAttempts, isActive } = req.body;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid channel id' });
+  }
+
+  try {
+    const db = await getWalletTrackerDb();
+    const channel = await db.getAlertChannel(workspaceId, id);
+
+    if (!channel) {
+      return res.status(404).json({ error: 'Channel not found' });
+    }
+
+    // Redacted secrets sent back by the UI keep their stored value
+    const mergedSettings = settings
+      ? Object.fromEntries(
+          Object.entries({ ...channel.settings, ...settings }).map(([key, value]) => [
+            key,
+            value === REDACTED ? (channel.settings as unknown as Record<string, unknown>)[key] : value
+          ])
+        )
+      : channel.settings;
+
+    const updatedChannel: AlertChannel = {
+      ...channel,
+      ...(name !== undefined && { name }),
+      ...(walletAddresses !== undefined && { walletAddresses }),
+      ...(severities !== undefined && { severities }),
+      ...(network !== undefined && { network }),
+      ...(maxAttempts !== undefined && { maxAttempts }),
+      ...(isActive !== undefined && { isActive }),
+      settings: mergedSettings as AlertChannel['settings'],
+      updatedAt: new Date()
+    };
+
+    const validationError = validateAlertChannel(updatedChannel);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    await db.saveAlertChannel(updatedChannel);
+
+    res.status(200).json({
+      message: 'Channel updated successfully',
+      channel: redactAlertChannel(updatedChannel)
+    });
+  } catch (error) {
+    console.error('Error updating alert channel:', error);
+    res.status(500).json({ error: 'Failed to update alert channel' });
+  }
+}
+
+async function handleDeleteChannel(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid channel id' });
+  }
+
+  try {
+    const db = await getWalletTrackerDb();
+    const deleted = await db.deleteAlertChannel(workspaceId, id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Channel not found' });
+    }
+
+    res.status(200).json({
+      message: 'Channel deleted successfully',
+      id
+    });
+  } catch (error) {
+    console.error('Error deleting alert channel:', error);
+    res.status(500).json({ error: 'Failed to delete alert channel' });
+  }
+}
+
+export default withWorkspace({ GET: 'viewer', POST: 'admin', PUT: 'admin', DELETE: 'admin' }, handler);
@@ -0,0 +1,145 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getWalletClustering } from '@/lib/walletClustering';
+import { getWalletTracker } from '@/lib/walletTracker';
+import { getWalletTrackerDb } from '@/lib/walletTrackerDb';
+import { syncWalletWebhook } from '@/lib/heliusWebhook';
+import { NetworkType } from '@/context/NetworkContext';
+import { WALLET_TRACKER_ROLES } from '@/lib/rbac';
+import { withWorkspace, WorkspaceUser } from '@/lib/workspaces';
+import { getApiRequestInfo, recordAudit, toWalletAuditValue } from '@/lib/auditLog';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, workspaceId: string, user: WorkspaceUser) {
+  try {
+    const { method } = req;
+
+    switch (method) {
+      case 'GET':
+        await handleGetClusters(req, res, workspaceId);
+        break;
+      case 'POST':
+        await handleClusterAction(req, res, workspaceId, user);
+        break;
+      default:
+        res.setHeader('Allow', ['GET', 'POST']);
+        res.status(405).json({ error: `Method ${method} not allowed` });
+    }
+  } catch (error) {
+    console.error('Clusters API error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+async function handleGetClusters(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
+  const { network = 'mainnet', walletAddress, suggestions } = req.query;
+
+  try {
+    const clustering = getWalletClustering();
+
+    if (suggestions === 'true') {
+      const suggestedWallets = await clustering.getSuggestedWallets(workspaceId, network as NetworkType);
+      return res.status(200).json({
+        suggestions: suggestedWallets,
+        total: suggestedWallets.length
+      });
+    }
+
+    const clusters = await clustering.getClusters(
+      workspaceId,
+      network as NetworkType,
+      typeof walletAddress === 'string' ? walletAddress : undefined
+    );
+
+    res.status(200).json({
+      clusters,
+      total: clusters.length
+    });
+  } catch (error) {
+    console.error('Error fetching clusters:', error);
+    res.status(500).json({ error: 'Failed to fetch clusters' });
+  }
+}
+
+async function handleClusterAction(req: NextApiRequest, res: NextApiResponse, workspaceId: string, user: WorkspaceUser) {
+  const { action, network = 'mainnet', lookbackDays, minConfidence, clusterId, addresses } = req.body;
+
+  if (!action) {
+    return res.status(400).json({ error: 'Missing action parameter' });
+  }
+
+  try {
+    switch (action) {
+      case 'analyze': {
+        const clusters = await getWalletClustering().analyze(workspaceId, network as NetworkType, { lookbackDays, minConfidence });
+        res.status(200).json({
+          message: `Found ${clusters.length} clusters`,
+          clusters
+        });
+        break;
+      }
+
+      case 'track': {
+        if (!clusterId) {
+          return res.status(400).json({ error: 'Missing clusterId for track action' });
+        }
+
+        const db = await getWalletTrackerDb();
+        const cluster = await db.getWalletCluster(workspaceId, clusterId);
+        if (!cluster) {
+          return res.status(404).json({ error: 'Cluster not found' });
+        }
+
+        // Track all suggestions of the cluster unless a subset is given
+        const toTrack: string[] = Array.isArray(addresses)
+          ? cluster.suggestedWallets.filter(a => addresses.includes(a))
+          : cluster.suggestedWallets;
+
+        const tracker = getWalletTracker(cluster.network);
+        const added = [];
+        for (const address of toTrack) {
+          if (await db.getWallet(workspaceId, address)) continue;
+
+          const wallet = await tracker.addWallet(
+            workspaceId,
+            address,
+            undefined,
+            `Linked to ${cluster.members.length - cluster.suggestedWallets.length} tracked wallets (${cluster.reasons.join(', ')})`,
+            ['cluster', clusterId]
+          );
+          await db.saveWallet(wallet);
+          await recordAudit({
+            actor: user.session.publicKey,
+            action: 'wallet.add',
+            target: address,
+            workspaceId,
+            before: null,
+            after: toWalletAuditValue(wallet)
+          }, getApiRequestInfo(req));
+          added.push(wallet);
+        }
+
+        if (added.length > 0) {
+          await syncWalletWebhook(cluster.network);
+        }
+
+        res.status(200).json({
+          message: `Tracking ${added.length} wallets from cluster`,
+          wallets: added
+        });
+        break;
+      }
+
+      default:
+        res.status(400).json({
+          error: 'Invalid action. Supported actions: analyze, track'
+        });
+    }
+  } catch (error) {
+    console.error('Error handling cluster action:', error);
+    res.status(500).json({ error: 'Failed to execute cluster action' });
+  }
+}
+
+export default withWorkspace(WALLET_TRACKER_ROLES, handler);
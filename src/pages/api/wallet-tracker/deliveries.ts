@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getWalletTrackerDb } from '@/lib/walletTrackerDb';
+import { AlertDelivery } from '@/lib/alertDelivery';
+import { withWorkspace } from '@/lib/workspaces';
+
+const STATUSES: AlertDelivery['status'][] = ['pending', 'delivered', 'failed'];
+
+async function handler(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
+  const { method } = req;
+
+  if (method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: `Method ${method} not allowed` });
+  }
+
+  const { alertId, channelId, status, limit = '100' } = req.query;
+
+  if (status && !STATUSES.includes(status as AlertDelivery['status'])) {
+    return res.status(400).json({ error: `Invalid status: ${status}` });
+  }
+
+  try {
+    const db = await getWalletTrackerDb();
+    const deliveries = await db.getAlertDeliveries(
+      workspaceId,
+      {
+        alertId: typeof alertId === 'string' ? alertId : undefined,
+        channelId: typeof channelId === 'string' ? channelId : undefined,
+        status: status as AlertDelivery['status'] | undefined
+      },
+      parseInt(limit as string, 10)
+    );
+
+    res.status(200).json({
+      deliveries,
+      total: deliveries.length
+    });
+  } catch (error) {
+    console.error('Error fetching alert deliveries:', error);
+    res.status(500).json({ error: 'Failed to fetch alert deliveries' });
+  }
+}
+
+export default withWorkspace({ GET: 'viewer' }, handler);
@@ -1,17 +1,20 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getWalletMonitor, MonitoringRule } from '@/lib/walletMonitor';
+import { getWalletMonitor, MonitoringRule, MonitoringRuleUpdates } from '@/lib/walletMonitor';
+import { validateRuleExpression } from '@/lib/ruleExpression';
 import { NetworkType } from '@/context/NetworkContext';
+import { authorizeApiRequest, WALLET_TRACKER_ROLES } from '@/lib/rbac';
+import { withWorkspace } from '@/lib/workspaces';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
   try {
     const { method } = req;
 
     switch (method) {
       case 'GET':
-        await handleGetMonitoringStatus(req, res);
+        await handleGetMonitoringStatus(req, res, workspaceId);
         break;
       case 'POST':
-        await handleMonitoringAction(req, res);
+        await handleMonitoringAction(req, res, workspaceId);
         break;
       default:
         res.setHeader('Allow', ['GET', 'POST']);
@@ -26,7 +29,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function handleGetMonitoringStatus(req: NextApiRequest, res: NextApiResponse) {
+async function handleGetMonitoringStatus(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
   const { walletAddress } = req.query;
 
   try {
@@ -40,7 +43,7 @@ async function handleGetMonitoringStatus(req: NextApiRequest, res: NextApiRespon
 
     // Get wallet-specific monitoring rules if address provided
     if (walletAddress && typeof walletAddress === 'string') {
-      const rules = await monitor.getMonitoringRules(walletAddress);
+      const rules = await monitor.getMonitoringRules(workspaceId, walletAddress);
       response.walletRules = rules;
     }
 
@@ -51,7 +54,7 @@ async function handleGetMonitoringStatus(req: NextApiRequest, res: NextApiRespon
   }
 }
 
-async function handleMonitoringAction(req: NextApiRequest, res: NextApiResponse) {
+async function handleMonitoringAction(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
   const { action, network, walletAddress, rule } = req.body;
 
   if (!action) {
@@ -62,7 +65,9 @@ async function handleMonitoringAction(req: NextApiRequest, res: NextApiResponse)
     const monitor = getWalletMonitor();
 
     switch (action) {
+      // The monitor and snapshot scheduler are shared by every workspace
       case 'start':
+        if (!(await authorizeApiRequest(req, res, 'admin'))) return;
         await monitor.startMonitoring(network as NetworkType || 'mainnet-beta');
         res.status(200).json({ 
           message: `Monitoring started for ${network || 'mainnet-beta'}`,
@@ -71,6 +76,7 @@ async function handleMonitoringAction(req: NextApiRequest, res: NextApiResponse)
         break;
 
       case 'stop':
+        if (!(await authorizeApiRequest(req, res, 'admin'))) return;
         await monitor.stopMonitoring(network as NetworkType);
         res.status(200).json({ 
           message: `Monitoring stopped${network ? ` for ${network}` : ''}`,
@@ -85,7 +91,12 @@ async function handleMonitoringAction(req: NextApiRequest, res: NextApiResponse)
           });
         }
 
-        const newRule = await monitor.addMonitoringRule(walletAddress, rule);
+        const addRuleError = validateRuleInput(rule);
+        if (addRuleError) {
+          return res.status(400).json({ error: addRuleError });
+        }
+
+        const newRule = await monitor.addMonitoringRule(workspaceId, walletAddress, rule);
         res.status(201).json({ 
           message: 'Monitoring rule added successfully',
           rule: newRule
@@ -99,13 +110,75 @@ async function handleMonitoringAction(req: NextApiRequest, res: NextApiResponse)
           });
         }
 
-        await monitor.removeMonitoringRule(walletAddress, rule.id);
+        if (!(await monitor.removeMonitoringRule(workspaceId, walletAddress, rule.id))) {
+          return res.status(404).json({ error: 'Monitoring rule not found' });
+        }
         res.status(200).json({ 
           message: 'Monitoring rule removed successfully',
           ruleId: rule.id
         });
         break;
 
+      case 'update_rule':
+        if (!walletAddress || !rule?.id) {
+          return res.status(400).json({ 
+            error: 'Missing walletAddress or rule.id for update_rule action' 
+          });
+        }
+
+        const existingRule = await monitor.getMonitoringRule(workspaceId, walletAddress, rule.id);
+        if (!existingRule) {
+          return res.status(404).json({ error: 'Monitoring rule not found' });
+        }
+
+        // The type, wallet and workspace of a rule are fixed once it is created
+        const ruleUpdates = pickRuleUpdates(rule);
+        const updateRuleError = validateRuleInput({ ...existingRule, ...ruleUpdates });
+        if (updateRuleError) {
+          return res.status(400).json({ error: updateRuleError });
+        }
+
+        const updatedRule = await monitor.updateMonitoringRule(workspaceId, walletAddress, rule.id, ruleUpdates);
+        if (!updatedRule) {
+          return res.status(404).json({ error: 'Monitoring rule not found' });
+        }
+
+        res.status(200).json({ 
+          message: 'Monitoring rule updated successfully',
+          rule: updatedRule
+        });
+        break;
+
+      case 'enable_rule':
+      case 'disable_rule':
+        if (!walletAddress || !rule?.id) {
+          return res.status(400).json({ 
+            error: `Missing walletAddress or rule.id for ${action} action` 
+          });
+        }
+
+        const isActive = action === 'enable_rule';
+        const toggled = await monitor.setMonitoringRuleActive(workspaceId, walletAddress, rule.id, isActive);
+        if (!toggled) {
+          return res.status(404).json({ error: 'Monitoring rule not found' });
+        }
+
+        res.status(200).json({ 
+          message: `Monitoring rule ${isActive ? 'enabled' : 'disabled'} successfully`,
+          ruleId: rule.id,
+          isActive
+        });
+        break;
+
+      case 'validate_rule': {
+        const validationError = validateRuleInput({ type: 'expression', ...rule });
+        res.status(200).json({ 
+          valid: !validationError,
+          error: validationError
+        });
+        break;
+      }
+
       case 'get_rules':
         if (!walletAddress) {
           return res.status(400).json({ 
@@ -113,7 +186,7 @@ async function handleMonitoringAction(req: NextApiRequest, res: NextApiResponse)
           });
         }
 
-        const rules = await monitor.getMonitoringRules(walletAddress);
+        const rules = await monitor.getMonitoringRules(workspaceId, walletAddress);
         res.status(200).json({ 
           walletAddress,
           rules
@@ -122,11 +195,41 @@ async function handleMonitoringAction(req: NextApiRequest, res: NextApiResponse)
 
       default:
         res.status(400).json({ 
-          error: 'Invalid action. Supported actions: start, stop, add_rule, remove_rule, get_rules' 
+          error: 'Invalid action. Supported actions: start, stop, add_rule, update_rule, enable_rule, disable_rule, remove_rule, validate_rule, get_rules' 
         });
     }
   } catch (error) {
     console.error('Error handling monitoring action:', error);
     res.status(500).json({ error: 'Failed to execute monitoring action' });
   }
-}
\ No newline at end of file
+}
+function pickRuleUpdates(rule: Partial<MonitoringRule>): MonitoringRuleUpdates {
+  const { conditions, isActive, cooldownSeconds } = rule;
+  return {
+    ...(conditions !== undefined && { conditions }),
+    ...(isActive !== undefined && { isActive }),
+    ...(cooldownSeconds !== undefined && { cooldownSeconds })
+  };
+}
+
+function validateRuleInput(rule: Partial<MonitoringRule>): string | null {
+  if (rule.conditions !== undefined && (typeof rule.conditions !== 'object' || rule.conditions === null || Array.isArray(rule.conditions))) {
+    return 'conditions must be an object';
+  }
+  if (rule.isActive !== undefined && typeof rule.isActive !== 'boolean') {
+    return 'isActive must be a boolean';
+  }
+  if (rule.cooldownSeconds !== undefined && (typeof rule.cooldownSeconds !== 'number' || rule.cooldownSeconds < 0)) {
+    return 'cooldownSeconds must be a non-negative number';
+  }
+
+  // Expression rules must parse and type-check before they are stored
+  if (rule.type !== 'expression' && rule.conditions?.expression === undefined) {
+    return null;
+  }
+
+  const error = validateRuleExpression(rule.conditions?.expression);
+  return error ? `Invalid rule expression: ${error}` : null;
+}
+
+export default withWorkspace(WALLET_TRACKER_ROLES, handler);
@@ -0,0 +1,146 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  getPortfolioHistory,
+  PORTFOLIO_INTERVALS,
+  PortfolioInterval,
+  MAX_PORTFOLIO_POINTS
+} from '@/lib/portfolioHistory';
+import { getWalletTrackerDb } from '@/lib/walletTrackerDb';
+import { NetworkType } from '@/context/NetworkContext';
+import { authorizeApiRequest, WALLET_TRACKER_ROLES } from '@/lib/rbac';
+import { withWorkspace } from '@/lib/workspaces';
+
+const DEFAULT_RANGE_DAYS = 30;
+
+async function handler(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
+  try {
+    const { method } = req;
+
+    switch (method) {
+      case 'GET':
+        await handleGetPortfolio(req, res, workspaceId);
+        break;
+      case 'POST':
+        await handlePortfolioAction(req, res, workspaceId);
+        break;
+      default:
+        res.setHeader('Allow', ['GET', 'POST']);
+        res.status(405).json({ error: `Method ${method} not allowed` });
+    }
+  } catch (error) {
+    console.error('Portfolio API error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+async function handleGetPortfolio(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
+  const { walletAddress, tag, network = 'mainnet', from, to, interval = '1d' } = req.query;
+
+  if (typeof walletAddress !== 'string' && typeof tag !== 'string') {
+    return res.status(400).json({ error: 'Provide walletAddress or tag' });
+  }
+
+  if (typeof interval !== 'string' || !(interval in PORTFOLIO_INTERVALS)) {
+    return res.status(400).json({
+      error: `Invalid interval. Supported intervals: ${Object.keys(PORTFOLIO_INTERVALS).join(', ')}`
+    });
+  }
+
+  const toDate = typeof to === 'string' ? new Date(to) : new Date();
+  const fromDate = typeof from === 'string'
+    ? new Date(from)
+    : new Date(toDate.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+  if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate >= toDate) {
+    return res.status(400).json({ error: 'from and to must be valid dates with from before to' });
+  }
+
+  const intervalMs = PORTFOLIO_INTERVALS[interval as PortfolioInterval];
+  if ((toDate.getTime() - fromDate.getTime()) / intervalMs > MAX_PORTFOLIO_POINTS) {
+    return res.status(400).json({
+      error: `Range too large for interval ${interval}, at most ${MAX_PORTFOLIO_POINTS} points are returned`
+    });
+  }
+
+  try {
+    let walletAddresses: string[];
+    if (typeof walletAddress === 'string') {
+      walletAddresses = [walletAddress];
+    } else {
+      const db = await getWalletTrackerDb();
+      const wallets = await db.getWalletsByTag(workspaceId, tag as string, network as NetworkType);
+      walletAddresses = wallets.map(w => w.address);
+    }
+
+    if (walletAddresses.length === 0) {
+      return res.status(404).json({ error: `No wallets found with tag ${tag}` });
+    }
+
+    const history = await getPortfolioHistory().getPortfolioHistory({
+      workspaceId,
+      walletAddresses,
+      from: fromDate,
+      to: toDate,
+      interval: interval as PortfolioInterval
+    });
+
+    res.status(200).json(history);
+  } catch (error) {
+    console.error('Error fetching portfolio history:', error);
+    res.status(500).json({ error: 'Failed to fetch portfolio history' });
+  }
+}
+
+async function handlePortfolioAction(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
+  const { action, network = 'mainnet', walletAddresses, daysToKeep } = req.body;
+
+  if (!action) {
+    return res.status(400).json({ error: 'Missing action parameter' });
+  }
+
+  try {
+    switch (action) {
+      case 'snapshot': {
+        if (walletAddresses !== undefined && !Array.isArray(walletAddresses)) {
+          return res.status(400).json({ error: 'walletAddresses must be an array' });
+        }
+
+        const snapshots = await getPortfolioHistory().captureSnapshots(network as NetworkType, { workspaceId, walletAddresses });
+        res.status(200).json({
+          message: `Saved ${snapshots.length} snapshots`,
+          snapshots
+        });
+        break;
+      }
+
+      // The snapshot scheduler downsamples every workspace daily; this runs it early for one
+      case 'downsample': {
+        if (!(await authorizeApiRequest(req, res, 'admin'))) return;
+        if (daysToKeep !== undefined && (!Number.isInteger(daysToKeep) || daysToKeep < 1)) {
+          return res.status(400).json({ error: 'daysToKeep must be a positive integer' });
+        }
+
+        const db = await getWalletTrackerDb();
+        const removed = await db.cleanupOldSnapshots(daysToKeep, undefined, workspaceId);
+        res.status(200).json({
+          message: `Removed ${removed} snapshots`,
+          removed
+        });
+        break;
+      }
+
+      default:
+        res.status(400).json({
+          error: 'Invalid action. Supported actions: snapshot, downsample'
+        });
+    }
+  } catch (error) {
+    console.error('Error handling portfolio action:', error);
+    res.status(500).json({ error: 'Failed to execute portfolio action' });
+  }
+}
+
+export default withWorkspace(WALLET_TRACKER_ROLES, handler);
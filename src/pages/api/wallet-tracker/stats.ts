@@ -1,14 +1,16 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { getWalletTrackerDb } from '@/lib/walletTrackerDb';
+import { getPriceOracle } from '@/lib/priceOracle';
 import { NetworkType } from '@/context/NetworkContext';
+import { withWorkspace } from '@/lib/workspaces';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
   try {
     const { method } = req;
 
     switch (method) {
       case 'GET':
-        await handleGetStats(req, res);
+        await handleGetStats(req, res, workspaceId);
         break;
       default:
         res.setHeader('Allow', ['GET']);
@@ -23,7 +25,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function handleGetStats(req: NextApiRequest, res: NextApiResponse) {
+async function handleGetStats(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
   const { 
     network, 
     walletAddress, 
@@ -36,7 +38,7 @@ async function handleGetStats(req: NextApiRequest, res: NextApiResponse) {
     const db = await getWalletTrackerDb();
 
     // Get basic stats
-    const basicStats = await db.getWalletStats(network as NetworkType);
+    const basicStats = await db.getWalletStats(workspaceId, network as NetworkType);
 
     const response: any = {
       basic: basicStats,
@@ -45,15 +47,16 @@ async function handleGetStats(req: NextApiRequest, res: NextApiResponse) {
 
     // Get wallet-specific stats if address provided
     if (walletAddress && typeof walletAddress === 'string') {
-      const wallet = await db.getWallet(walletAddress);
+      const wallet = await db.getWallet(workspaceId, walletAddress);
       if (!wallet) {
         return res.status(404).json({ error: 'Wallet not found' });
       }
 
-      const [holdings, activities] = await Promise.all([
-        db.getWalletHoldings(walletAddress),
-        db.getWalletActivities(walletAddress, 1000)
+      const [storedHoldings, activities] = await Promise.all([
+        db.getWalletHoldings(workspaceId, walletAddress),
+        db.getWalletActivities(workspaceId, walletAddress, 1000)
       ]);
+      const holdings = await getPriceOracle().priceHoldings(storedHoldings);
 
       const walletStats = {
         address: walletAddress,
@@ -72,22 +75,22 @@ async function handleGetStats(req: NextApiRequest, res: NextApiResponse) {
       // Include activity summary if requested
       if (includeActivities === 'true') {
         const days = timeframe === '7d' ? 7 : timeframe === '30d' ? 30 : 90;
-        const activitySummary = await db.getWalletActivitySummary(walletAddress, days);
+        const activitySummary = await db.getWalletActivitySummary(workspaceId, walletAddress, days);
         response.wallet.activitySummary = activitySummary;
       }
     }
 
     // Get top tokens by wallet count if requested
     if (includeTokens === 'true') {
-      const topTokens = await db.getTopTokensByWalletCount(10);
+      const topTokens = await db.getTopTokensByWalletCount(workspaceId, 10);
       response.topTokens = topTokens;
     }
 
     // Get network-wide analytics
     if (!walletAddress) {
       const [recentActivities, collectionStats] = await Promise.all([
-        db.getRecentActivities(network as NetworkType, 10),
-        db.getCollectionStats()
+        db.getRecentActivities(workspaceId, network as NetworkType, 10),
+        db.getCollectionStats(workspaceId)
       ]);
 
       response.recentActivities = recentActivities;
@@ -103,7 +106,7 @@ async function handleGetStats(req: NextApiRequest, res: NextApiResponse) {
 
       const activityTrends = {};
       for (const [period, startDate] of Object.entries(timeRanges)) {
-        const activities = await db.getRecentActivities(network as NetworkType, 10000);
+        const activities = await db.getRecentActivities(workspaceId, network as NetworkType, 10000);
         const filteredActivities = activities.filter(a => a.timestamp >= startDate);
         
         (activityTrends as any)[period] = {
@@ -118,7 +121,7 @@ async function handleGetStats(req: NextApiRequest, res: NextApiResponse) {
       response.activityTrends = activityTrends;
 
       // Get wallet distribution
-      const allWallets = await db.getAllWallets(network as NetworkType);
+      const allWallets = await db.getAllWallets(workspaceId, network as NetworkType);
       const walletDistribution = {
         total: allWallets.length,
         active: allWallets.filter(w => w.isActive).length,
@@ -135,10 +138,11 @@ async function handleGetStats(req: NextApiRequest, res: NextApiResponse) {
 
       // Get value distribution
       const allHoldings = await Promise.all(
-        allWallets.map(w => db.getWalletHoldings(w.address))
+        allWallets.map(w => db.getWalletHoldings(workspaceId, w.address))
       );
+      const pricedHoldings = await getPriceOracle().priceHoldings(allHoldings.flat());
 
-      const valueDistribution = allHoldings.flat().reduce((acc, holding) => {
+      const valueDistribution = pricedHoldings.reduce((acc, holding) => {
         const value = holding.usdValue || 0;
         if (value === 0) acc.zero++;
         else if (value < 1) acc.micro++;
@@ -149,6 +153,7 @@ async function handleGetStats(req: NextApiRequest, res: NextApiResponse) {
       }, { zero: 0, micro: 0, small: 0, medium: 0, large: 0 });
 
       response.valueDistribution = valueDistribution;
+      response.totalValue = pricedHoldings.reduce((sum, h) => sum + (h.usdValue || 0), 0);
     }
 
     res.status(200).json(response);
@@ -156,4 +161,6 @@ async function handleGetStats(req: NextApiRequest, res: NextApiResponse) {
     console.error('Error fetching stats:', error);
     res.status(500).json({ error: 'Failed to fetch stats' });
   }
-}
\ No newline at end of file
+}
+
+export default withWorkspace({ GET: 'viewer' }, handler);
@@ -0,0 +1,123 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getAlertStream, AlertStreamFilter } from '@/lib/alertStream';
+import { WalletAlert } from '@/lib/walletTrackerDb';
+import { NetworkType } from '@/context/NetworkContext';
+import { withWorkspace } from '@/lib/workspaces';
+
+// Keeps proxies from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+const SEVERITIES: WalletAlert['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+export const config = {
+  api: {
+    responseLimit: false
+  }
+};
+
+async function handler(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
+  const { method } = req;
+
+  if (method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: `Method ${method} not allowed` });
+  }
+
+  const filter = parseStreamFilter(req, workspaceId);
+  if ('error' in filter) {
+    return res.status(400).json({ error: filter.error });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write('retry: 5000\n\n');
+
+  const stream = getAlertStream();
+  const pending: WalletAlert[] = [];
+  let isReplaying = true;
+
+  // Subscribe before replaying so nothing published in between is lost
+  const unsubscribe = stream.subscribe(filter, (alert) => {
+    if (isReplaying) {
+      pending.push(alert);
+    } else {
+      writeAlertEvent(res, alert);
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  const lastEventId = req.headers['last-event-id'] || req.query.lastEventId;
+  if (lastEventId && typeof lastEventId === 'string') {
+    try {
+      const missed = await stream.getAlertsSince(lastEventId, filter);
+      const sent = new Set<string>();
+      for (const alert of missed) {
+        writeAlertEvent(res, alert);
+        sent.add(alert.id);
+      }
+      pending.splice(0, pending.length, ...pending.filter(a => !sent.has(a.id)));
+    } catch (error) {
+      console.error('Error replaying alerts for stream:', error);
+    }
+  }
+
+  for (const alert of pending) {
+    writeAlertEvent(res, alert);
+  }
+  pending.length = 0;
+  isReplaying = false;
+}
+
+function parseStreamFilter(req: NextApiRequest, workspaceId: string): AlertStreamFilter | { error: string } {
+  const { walletAddress, severity, network } = req.query;
+  const filter: AlertStreamFilter = { workspaceId };
+
+  if (walletAddress) {
+    filter.walletAddresses = toList(walletAddress);
+  }
+
+  if (severity) {
+    const severities = toList(severity);
+    const invalid = severities.filter(s => !SEVERITIES.includes(s as WalletAlert['severity']));
+    if (invalid.length > 0) {
+      return { error: `Invalid severity: ${invalid.join(', ')}` };
+    }
+    filter.severities = severities as WalletAlert['severity'][];
+  }
+
+  if (network && typeof network === 'string') {
+    if (network !== 'mainnet' && network !== 'testnet') {
+      return { error: `Invalid network: ${network}` };
+    }
+    filter.network = network as NetworkType;
+  }
+
+  return filter;
+}
+
+// Accepts both repeated query params and comma separated values
+function toList(value: string | string[]): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap(v => v.split(','))
+    .map(v => v.trim())
+    .filter(Boolean);
+}
+
+function writeAlertEvent(res: NextApiResponse, alert: WalletAlert) {
+  res.write(`id: ${alert.id}\nevent: alert\ndata: ${JSON.stringify(alert)}\n\n`);
+}
+
+export default withWorkspace({ GET: 'viewer' }, handler);
@@ -1,24 +1,30 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { getWalletTracker } from '@/lib/walletTracker';
 import { getWalletTrackerDb } from '@/lib/walletTrackerDb';
+import { getWalletMonitor } from '@/lib/walletMonitor';
+import { syncWalletWebhook } from '@/lib/heliusWebhook';
+import { getPriceOracle } from '@/lib/priceOracle';
 import { NetworkType } from '@/context/NetworkContext';
+import { WALLET_TRACKER_ROLES } from '@/lib/rbac';
+import { withWorkspace, WorkspaceUser } from '@/lib/workspaces';
+import { getApiRequestInfo, recordAudit, toWalletAuditValue } from '@/lib/auditLog';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, workspaceId: string, user: WorkspaceUser) {
   try {
     const { method } = req;
 
     switch (method) {
       case 'GET':
-        await handleGetWallets(req, res);
+        await handleGetWallets(req, res, workspaceId);
         break;
       case 'POST':
-        await handleAddWallet(req, res);
+        await handleAddWallet(req, res, workspaceId, user);
         break;
       case 'PUT':
-        await handleUpdateWallet(req, res);
+        await handleUpdateWallet(req, res, workspaceId, user);
         break;
       case 'DELETE':
-        await handleDeleteWallet(req, res);
+        await handleDeleteWallet(req, res, workspaceId, user);
         break;
       default:
         res.setHeader('Allow', ['GET', 'POST', 'PUT', 'DELETE']);
@@ -33,7 +39,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function handleGetWallets(req: NextApiRequest, res: NextApiResponse) {
+async function handleGetWallets(req: NextApiRequest, res: NextApiResponse, workspaceId: string) {
   const { 
     network, 
     active, 
@@ -47,7 +53,7 @@ async function handleGetWallets(req: NextApiRequest, res: NextApiResponse) {
     const db = await getWalletTrackerDb();
     
     // Get all wallets first
-    let wallets = await db.getAllWallets(network as NetworkType);
+    let wallets = await db.getAllWallets(workspaceId, network as NetworkType);
 
     // Apply filters
     if (active !== undefined) {
@@ -80,10 +86,11 @@ async function handleGetWallets(req: NextApiRequest, res: NextApiResponse) {
     // Get additional data for each wallet
     const walletsWithData = await Promise.all(
       paginatedWallets.map(async (wallet) => {
-        const [holdings, recentActivities] = await Promise.all([
-          db.getWalletHoldings(wallet.address),
-          db.getWalletActivities(wallet.address, 5)
+        const [storedHoldings, recentActivities] = await Promise.all([
+          db.getWalletHoldings(workspaceId, wallet.address),
+          db.getWalletActivities(workspaceId, wallet.address, 5)
         ]);
+        const holdings = await getPriceOracle().priceHoldings(storedHoldings);
 
         const totalValue = holdings.reduce((sum, h) => sum + (h.usdValue || 0), 0);
 
@@ -109,7 +116,7 @@ async function handleGetWallets(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-async function handleAddWallet(req: NextApiRequest, res: NextApiResponse) {
+async function handleAddWallet(req: NextApiRequest, res: NextApiResponse, workspaceId: string, user: WorkspaceUser) {
   const { address, name, description, tags, network } = req.body;
 
   if (!address || !network) {
@@ -119,26 +126,39 @@ async function handleAddWallet(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    const walletTracker = getWalletTracker();
+    const walletTracker = getWalletTracker(network as NetworkType);
     
-    // Check if wallet already exists
+    // Check if the workspace already tracks the wallet, other workspaces may track it too
     const db = await getWalletTrackerDb();
-    const existingWallet = await db.getWallet(address);
+    const existingWallet = await db.getWallet(workspaceId, address);
     
     if (existingWallet) {
       return res.status(409).json({ 
-        error: 'Wallet already exists',
+        error: 'Wallet already exists in this workspace',
         wallet: existingWallet
       });
     }
 
     // Add the wallet
     const wallet = await walletTracker.addWallet(
+      workspaceId,
       address,
       name,
       description,
       tags || []
     );
+    await db.saveWallet(wallet);
+    await recordAudit({
+      actor: user.session.publicKey,
+      action: 'wallet.add',
+      target: address,
+      workspaceId,
+      before: null,
+      after: toWalletAuditValue(wallet)
+    }, getApiRequestInfo(req));
+
+    // Add the wallet to the Helius webhook address list
+    await syncWalletWebhook(wallet.network);
 
     res.status(201).json({ 
       message: 'Wallet added successfully',
@@ -150,7 +170,7 @@ async function handleAddWallet(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-async function handleUpdateWallet(req: NextApiRequest, res: NextApiResponse) {
+async function handleUpdateWallet(req: NextApiRequest, res: NextApiResponse, workspaceId: string, user: WorkspaceUser) {
   const { address } = req.query;
   const { name, description, tags, isActive } = req.body;
 
@@ -160,7 +180,7 @@ async function handleUpdateWallet(req: NextApiRequest, res: NextApiResponse) {
 
   try {
     const db = await getWalletTrackerDb();
-    const wallet = await db.getWallet(address);
+    const wallet = await db.getWallet(workspaceId, address);
 
     if (!wallet) {
       return res.status(404).json({ error: 'Wallet not found' });
@@ -177,15 +197,26 @@ async function handleUpdateWallet(req: NextApiRequest, res: NextApiResponse) {
     };
 
     await db.saveWallet(updatedWallet);
+    await recordAudit({
+      actor: user.session.publicKey,
+      action: isActive !== undefined && isActive !== wallet.isActive ? 'wallet.toggle' : 'wallet.update',
+      target: address,
+      workspaceId,
+      before: toWalletAuditValue(wallet),
+      after: toWalletAuditValue(updatedWallet)
+    }, getApiRequestInfo(req));
 
     // If monitoring status changed, update the tracker
     if (isActive !== undefined && isActive !== wallet.isActive) {
       const walletTracker = getWalletTracker();
       if (isActive) {
         await walletTracker.startMonitoring(address);
-      } else {
+      } else if ((await db.getActiveWallets(wallet.network)).every(w => w.address !== address)) {
+        // Keep polling while another workspace still watches the address
         await walletTracker.stopMonitoring(address);
       }
+
+      await syncWalletWebhook(wallet.network);
     }
 
     res.status(200).json({ 
@@ -198,7 +229,7 @@ async function handleUpdateWallet(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-async function handleDeleteWallet(req: NextApiRequest, res: NextApiResponse) {
+async function handleDeleteWallet(req: NextApiRequest, res: NextApiResponse, workspaceId: string, user: WorkspaceUser) {
   const { address } = req.query;
 
   if (!address || typeof address !== 'string') {
@@ -206,13 +237,31 @@ async function handleDeleteWallet(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    const walletTracker = getWalletTracker();
-    const success = await walletTracker.removeWallet(address);
+    const db = await getWalletTrackerDb();
+    const wallet = await db.getWallet(workspaceId, address);
 
-    if (!success) {
+    if (!wallet) {
       return res.status(404).json({ error: 'Wallet not found' });
     }
 
+    await db.deleteWallet(workspaceId, address);
+    await getWalletMonitor().forgetMonitoringRules(workspaceId, address);
+    await recordAudit({
+      actor: user.session.publicKey,
+      action: 'wallet.remove',
+      target: address,
+      workspaceId,
+      before: toWalletAuditValue(wallet),
+      after: null
+    }, getApiRequestInfo(req));
+
+    // Stop polling once no workspace tracks the address any more
+    if ((await db.getWalletsByAddresses([address])).length === 0) {
+      await getWalletTracker().removeWallet(address);
+    }
+
+    await syncWalletWebhook(wallet.network);
+
     res.status(200).json({ 
       message: 'Wallet deleted successfully',
       address 
@@ -221,4 +270,6 @@ async function handleDeleteWallet(req: NextApiRequest, res: NextApiResponse) {
     console.error('Error deleting wallet:', error);
     res.status(500).json({ error: 'Failed to delete wallet' });
   }
-}
\ No newline at end of file
+}
+
+export default withWorkspace(WALLET_TRACKER_ROLES, handler);
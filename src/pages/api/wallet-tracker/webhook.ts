@@ -0,0 +1,59 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { verifyHeliusWebhook, ingestHeliusTransactions } from '@/lib/heliusWebhook';
+import { HeliusTransaction } from '@/lib/helius';
+import { NetworkType } from '@/context/NetworkContext';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '4mb'
+    }
+  }
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { method } = req;
+
+    switch (method) {
+      case 'POST':
+        await handleWebhookDelivery(req, res);
+        break;
+      default:
+        res.setHeader('Allow', ['POST']);
+        res.status(405).json({ error: `Method ${method} not allowed` });
+    }
+  } catch (error) {
+    console.error('Webhook API error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+async function handleWebhookDelivery(req: NextApiRequest, res: NextApiResponse) {
+  if (!verifyHeliusWebhook(req.headers.authorization)) {
+    return res.status(401).json({ error: 'Invalid webhook authorization' });
+  }
+
+  const { network = 'mainnet' } = req.query;
+  if (network !== 'mainnet' && network !== 'testnet') {
+    return res.status(400).json({ error: `Invalid network: ${network}` });
+  }
+
+  // Helius delivers enhanced transactions as an array
+  const transactions: HeliusTransaction[] = Array.isArray(req.body) ? req.body : [req.body];
+
+  try {
+    const result = await ingestHeliusTransactions(transactions, network as NetworkType);
+
+    res.status(200).json({
+      message: 'Webhook processed successfully',
+      ...result
+    });
+  } catch (error) {
+    console.error('Error ingesting webhook transactions:', error);
+    res.status(500).json({ error: 'Failed to ingest webhook transactions' });
+  }
+}
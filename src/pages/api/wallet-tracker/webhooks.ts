@@ -0,0 +1,111 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getHeliusService } from '@/lib/helius';
+import { getWalletTrackerDb } from '@/lib/walletTrackerDb';
+import { syncWalletWebhook, removeWalletWebhook } from '@/lib/heliusWebhook';
+import { NetworkType } from '@/context/NetworkContext';
+import { withRoles } from '@/lib/rbac';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { method } = req;
+
+    switch (method) {
+      case 'GET':
+        await handleGetWebhooks(req, res);
+        break;
+      case 'POST':
+        await handleSyncWebhook(req, res);
+        break;
+      case 'DELETE':
+        await handleDeleteWebhook(req, res);
+        break;
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'DELETE']);
+        res.status(405).json({ error: `Method ${method} not allowed` });
+    }
+  } catch (error) {
+    console.error('Webhooks API error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+function parseNetwork(value: unknown): NetworkType | null {
+  const network = value || 'mainnet';
+  return network === 'mainnet' || network === 'testnet' ? network : null;
+}
+
+async function handleGetWebhooks(req: NextApiRequest, res: NextApiResponse) {
+  const network = parseNetwork(req.query.network);
+  if (!network) {
+    return res.status(400).json({ error: `Invalid network: ${req.query.network}` });
+  }
+
+  try {
+    const db = await getWalletTrackerDb();
+    const [webhooks, heliusWebhooks] = await Promise.all([
+      db.getWebhooks(network),
+      getHeliusService(network).listWebhooks()
+    ]);
+
+    res.status(200).json({
+      webhooks,
+      heliusWebhooks,
+      network
+    });
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({ error: 'Failed to fetch webhooks' });
+  }
+}
+
+async function handleSyncWebhook(req: NextApiRequest, res: NextApiResponse) {
+  const network = parseNetwork(req.body?.network);
+  if (!network) {
+    return res.status(400).json({ error: `Invalid network: ${req.body?.network}` });
+  }
+
+  try {
+    const webhook = await syncWalletWebhook(network);
+
+    res.status(200).json({
+      message: webhook ? 'Webhook synced successfully' : 'No webhook needed or configured',
+      webhook
+    });
+  } catch (error) {
+    console.error('Error syncing webhook:', error);
+    res.status(500).json({ error: 'Failed to sync webhook' });
+  }
+}
+
+async function handleDeleteWebhook(req: NextApiRequest, res: NextApiResponse) {
+  const { webhookId } = req.query;
+  const network = parseNetwork(req.query.network);
+
+  if (!webhookId || typeof webhookId !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid webhookId' });
+  }
+  if (!network) {
+    return res.status(400).json({ error: `Invalid network: ${req.query.network}` });
+  }
+
+  try {
+    const deleted = await removeWalletWebhook(webhookId, network);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    res.status(200).json({
+      message: 'Webhook deleted successfully',
+      webhookId
+    });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+}
+
+export default withRoles({ GET: 'viewer', POST: 'admin', DELETE: 'admin' }, handler);
@@ -0,0 +1,230 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { PublicKey } from '@solana/web3.js';
+import { getWalletTrackerDb, DEFAULT_WORKSPACE_ID, Workspace } from '@/lib/walletTrackerDb';
+import { getWalletTracker } from '@/lib/walletTracker';
+import { getWalletMonitor } from '@/lib/walletMonitor';
+import { syncWalletWebhook } from '@/lib/heliusWebhook';
+import { AuthorizedUser, MethodRoles, authorizeApiRequest, hasRole } from '@/lib/rbac';
+import { getApiRequestInfo, recordAudit } from '@/lib/auditLog';
+import { NetworkType } from '@/context/NetworkContext';
+
+// Everyone lists their workspaces, admins manage them
+const WORKSPACE_ROLES: MethodRoles = {
+  GET: 'viewer',
+  POST: 'admin',
+  PUT: 'admin',
+  DELETE: 'admin'
+};
+
+function validateWorkspace(name: unknown, members: unknown): string | null {
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return 'Missing or invalid workspace name';
+  }
+  if (members === undefined) {
+    return null;
+  }
+  if (!Array.isArray(members)) {
+    return 'members must be an array of wallet public keys';
+  }
+  for (const member of members) {
+    try {
+      new PublicKey(member);
+    } catch {
+      return `Invalid member public key: ${member}`;
+    }
+  }
+  return null;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { method } = req;
+
+    const required = WORKSPACE_ROLES[method as keyof MethodRoles];
+    if (!required) {
+      res.setHeader('Allow', ['GET', 'POST', 'PUT', 'DELETE']);
+      return res.status(405).json({ error: `Method ${method} not allowed` });
+    }
+
+    const user = await authorizeApiRequest(req, res, required);
+    if (!user) return;
+
+    switch (method) {
+      case 'GET':
+        await handleGetWorkspaces(res, user);
+        break;
+      case 'POST':
+        await handleCreateWorkspace(req, res, user);
+        break;
+      case 'PUT':
+        await handleUpdateWorkspace(req, res, user);
+        break;
+      case 'DELETE':
+        await handleDeleteWorkspace(req, res, user);
+        break;
+    }
+  } catch (error) {
+    console.error('Workspaces API error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+async function handleGetWorkspaces(res: NextApiResponse, user: AuthorizedUser) {
+  try {
+    const db = await getWalletTrackerDb();
+    // Admins see every workspace, other roles the ones they can open
+    const workspaces = await db.getWorkspaces(hasRole(user.role, 'admin') ? undefined : user.session.publicKey);
+
+    res.status(200).json({
+      workspaces,
+      total: workspaces.length
+    });
+  } catch (error) {
+    console.error('Error fetching workspaces:', error);
+    res.status(500).json({ error: 'Failed to fetch workspaces' });
+  }
+}
+
+async function handleCreateWorkspace(req: NextApiRequest, res: NextApiResponse, user: AuthorizedUser) {
+  const { name, members = [] } = req.body;
+
+  const validationError = validateWorkspace(name, members);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const workspace: Workspace = {
+      id: `workspace_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: name.trim(),
+      members: Array.from(new Set<string>(members)),
+      createdBy: user.session.publicKey,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const db = await getWalletTrackerDb();
+    await db.saveWorkspace(workspace);
+    await recordAudit({
+      actor: user.session.publicKey,
+      action: 'workspace.create',
+      target: workspace.id,
+      workspaceId: workspace.id,
+      before: null,
+      after: { name: workspace.name, members: workspace.members }
+    }, getApiRequestInfo(req));
+
+    res.status(201).json({
+      message: 'Workspace created successfully',
+      workspace
+    });
+  } catch (error) {
+    console.error('Error creating workspace:', error);
+    res.status(500).json({ error: 'Failed to create workspace' });
+  }
+}
+
+async function handleUpdateWorkspace(req: NextApiRequest, res: NextApiResponse, user: AuthorizedUser) {
+  const { id } = req.query;
+  const { name, members } = req.body;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid workspace id' });
+  }
+
+  try {
+    const db = await getWalletTrackerDb();
+    const workspace = await db.getWorkspace(id);
+
+    if (!workspace) {
+      return res.status(404).json({ error: 'Workspace not found' });
+    }
+
+    const validationError = validateWorkspace(name ?? workspace.name, members);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const updatedWorkspace: Workspace = {
+      ...workspace,
+      ...(name !== undefined && { name: name.trim() }),
+      ...(members !== undefined && { members: Array.from(new Set<string>(members)) }),
+      updatedAt: new Date()
+    };
+
+    await db.saveWorkspace(updatedWorkspace);
+    await recordAudit({
+      actor: user.session.publicKey,
+      action: 'workspace.update',
+      target: id,
+      workspaceId: id,
+      before: { name: workspace.name, members: workspace.members },
+      after: { name: updatedWorkspace.name, members: updatedWorkspace.members }
+    }, getApiRequestInfo(req));
+
+    res.status(200).json({
+      message: 'Workspace updated successfully',
+      workspace: updatedWorkspace
+    });
+  } catch (error) {
+    console.error('Error updating workspace:', error);
+    res.status(500).json({ error: 'Failed to update workspace' });
+  }
+}
+
+async function handleDeleteWorkspace(req: NextApiRequest, res: NextApiResponse, user: AuthorizedUser) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Missing or invalid workspace id' });
+  }
+  if (id === DEFAULT_WORKSPACE_ID) {
+    return res.status(400).json({ error: 'The default workspace cannot be deleted' });
+  }
+
+  try {
+    const db = await getWalletTrackerDb();
+    const workspace = await db.getWorkspace(id);
+
+    if (!workspace) {
+      return res.status(404).json({ error: 'Workspace not found' });
+    }
+
+    const wallets = await db.getAllWallets(id);
+    await db.deleteWorkspace(id);
+    await recordAudit({
+      actor: user.session.publicKey,
+      action: 'workspace.delete',
+      target: id,
+      workspaceId: id,
+      before: { name: workspace.name, members: workspace.members, wallets: wallets.map(w => w.address) },
+      after: null
+    }, getApiRequestInfo(req));
+
+    await getWalletMonitor().forgetMonitoringRules(id);
+
+    // Stop polling addresses no other workspace tracks
+    const stillTracked = new Set((await db.getWalletsByAddresses(wallets.map(w => w.address))).map(w => w.address));
+    for (const wallet of wallets) {
+      if (!stillTracked.has(wallet.address)) {
+        await getWalletTracker().removeWallet(wallet.address);
+      }
+    }
+
+    const networks = new Set<NetworkType>(wallets.map(w => w.network));
+    for (const network of networks) {
+      await syncWalletWebhook(network);
+    }
+
+    res.status(200).json({
+      message: 'Workspace deleted successfully',
+      id
+    });
+  } catch (error) {
+    console.error('Error deleting workspace:', error);
+    res.status(500).json({ error: 'Failed to delete workspace' });
+  }
+}
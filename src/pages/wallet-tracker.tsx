@@ -3,6 +3,7 @@ import { NextPage } from 'next';
 import Head from 'next/head';
 import { useNetwork } from '@/context/NetworkContext';
 import { WalletTracker } from '@/components/WalletTracker';
+import { useAlertStream } from '@/lib/useAlertStream';
 
 interface WalletSummary {
   address: string;
@@ -31,6 +32,7 @@ interface Alert {
   severity: 'low' | 'medium' | 'high' | 'critical';
   isRead: boolean;
   createdAt: Date;
+  occurrences?: number;
 }
 
 const WalletTrackerPage: NextPage = () => {
@@ -114,17 +116,28 @@ const WalletTrackerPage: NextPage = () => {
     loadData();
   }, [fetchWallets, fetchStats, fetchAlerts, fetchMonitoringStatus]);
 
-  // Auto-refresh data every 30 seconds
+  // Auto-refresh data every 30 seconds (alerts arrive through the stream)
   useEffect(() => {
     const interval = setInterval(() => {
       fetchWallets();
       fetchStats();
-      fetchAlerts();
       fetchMonitoringStatus();
     }, 30000);
 
     return () => clearInterval(interval);
-  }, [fetchWallets, fetchStats, fetchAlerts, fetchMonitoringStatus]);
+  }, [fetchWallets, fetchStats, fetchMonitoringStatus]);
+
+  // Live alerts
+  const handleStreamedAlert = useCallback((alert: Alert) => {
+    // Repeats of an existing alert arrive again with the same id and a higher occurrence count
+    setAlerts(prev =>
+      prev.some(a => a.id === alert.id)
+        ? prev.map(a => (a.id === alert.id ? { ...a, occurrences: alert.occurrences } : a))
+        : [alert, ...prev].slice(0, 50)
+    );
+  }, []);
+
+  useAlertStream<Alert>({ network }, handleStreamedAlert);
 
   // Filter and sort wallets
   const filteredWallets = wallets
@@ -491,7 +504,12 @@ const WalletTrackerPage: NextPage = () => {
                               <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
                             )}
                           </div>
-                          <h4 className="text-sm font-medium text-gray-900 mt-1">{alert.title}</h4>
+                          <h4 className="text-sm font-medium text-gray-900 mt-1">
+                            {alert.title}
+                            {alert.occurrences && alert.occurrences > 1 && (
+                              <span className="ml-2 text-xs text-gray-500">×{alert.occurrences}</span>
+                            )}
+                          </h4>
                           <p className="text-sm text-gray-600 mt-1">{alert.message}</p>
                           <p className="text-xs text-gray-500 mt-2">
                             {new Date(alert.createdAt).toLocaleString()}